@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { blockBurn, blockLimit, groupBillingBlocks } from "@/lib/billing-blocks";
+import type { BlockActivity } from "@/lib/billing-blocks";
+
+const at = (iso: string): number => Date.parse(iso);
+
+/** One hour bucket with a single message of `tokens` output tokens */
+function activity(iso: string, tokens: number, cost = tokens / 1000, model = "claude-sonnet-4-5"): BlockActivity {
+  return {
+    firstAt: at(iso),
+    lastAt: at(iso),
+    model,
+    messages: 1,
+    usage: { input: 0, output: tokens, cacheRead: 0, cacheWrite5m: 0, cacheWrite1h: 0 },
+    cost,
+  };
+}
+
+describe("groupBillingBlocks", () => {
+  it("opens a block at the hour of the first message and closes it five hours later", () => {
+    const blocks = groupBillingBlocks([
+      activity("2026-03-02T09:40:00Z", 100),
+      activity("2026-03-02T13:59:00Z", 200, 0.2, "claude-opus-4-1"),
+      activity("2026-03-02T14:00:00Z", 50),
+      activity("2026-03-02T08:00:00Z", 10),
+    ], at("2026-03-03T00:00:00Z"));
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toMatchObject({
+      start: at("2026-03-02T08:00:00Z"),
+      end: at("2026-03-02T13:00:00Z"),
+      tokens: 110,
+      messages: 2,
+      active: false,
+    });
+    expect(blocks[1]).toMatchObject({
+      start: at("2026-03-02T13:00:00Z"),
+      firstAt: at("2026-03-02T13:59:00Z"),
+      lastAt: at("2026-03-02T14:00:00Z"),
+      tokens: 250,
+      models: ["claude-opus-4-1", "claude-sonnet-4-5"],
+    });
+    expect(blocks[1].cost).toBeCloseTo(0.25);
+  });
+
+  it("marks the block that contains now as active", () => {
+    const blocks = groupBillingBlocks([activity("2026-03-02T09:40:00Z", 100)], at("2026-03-02T13:30:00Z"));
+    expect(blocks[0].active).toBe(true);
+    expect(blockLimit(blocks)).toBeNull();
+  });
+});
+
+describe("blockBurn", () => {
+  const now = at("2026-03-02T11:00:00Z");
+  const [previous, current] = groupBillingBlocks([
+    activity("2026-03-01T10:00:00Z", 6000),
+    activity("2026-03-02T10:00:00Z", 1000),
+    activity("2026-03-02T10:30:00Z", 2000),
+  ], now);
+
+  it("takes the limit from the largest finished block", () => {
+    expect(previous.active).toBe(false);
+    expect(blockLimit([previous, current])).toBe(6000);
+  });
+
+  it("projects the rate since the first message to the block end and the limit", () => {
+    const burn = blockBurn(current, now, 6000);
+    // 3000 tokens in 60 minutes, four hours left
+    expect(burn.tokensPerMinute).toBeCloseTo(50);
+    expect(burn.costPerHour).toBeCloseTo(3);
+    expect(burn.projectedTokens).toBeCloseTo(15_000);
+    expect(burn.exhaustsAt).toBe(at("2026-03-02T12:00:00Z"));
+  });
+
+  it("lasts the block when the rate stays under the limit", () => {
+    expect(blockBurn(current, now, 20_000).exhaustsAt).toBeNull();
+    expect(blockBurn(current, now, null)).toMatchObject({ limit: null, exhaustsAt: null });
+  });
+});
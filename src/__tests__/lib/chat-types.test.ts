@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { parseAssistantEvent, toSessionMessage, PHASE_LABELS } from "@/lib/chat-types";
+import { parseAssistantEvent, parseRateLimitEvent, rateLimitLabel, toSessionMessage, PHASE_LABELS } from "@/lib/chat-types";
 import type { LiveChatMessage } from "@/lib/chat-types";
 
 describe("parseAssistantEvent", () => {
@@ -297,3 +297,22 @@ describe("PHASE_LABELS", () => {
     expect(PHASE_LABELS.error).toBe("Error");
   });
 });
+
+describe("parseRateLimitEvent", () => {
+  it("reads the CLI rate_limit_event and converts the reset time to milliseconds", () => {
+    const info = parseRateLimitEvent({
+      type: "rate_limit_event",
+      rate_limit_info: { status: "allowed_warning", rateLimitType: "five_hour", resetsAt: 1772640000, utilization: 0.82 },
+      session_id: "s1",
+    });
+    expect(info).toEqual({
+      status: "allowed_warning", limitType: "five_hour", resetsAt: 1772640000000, utilization: 0.82, usingOverage: false,
+    });
+    expect(rateLimitLabel(info!.limitType)).toBe("5-hour");
+  });
+
+  it("ignores events without a known status", () => {
+    expect(parseRateLimitEvent({ type: "rate_limit_event", rate_limit_info: {} })).toBeNull();
+    expect(parseRateLimitEvent({ type: "rate_limit_event", rate_limit_info: { status: "throttled" } })).toBeNull();
+  });
+});
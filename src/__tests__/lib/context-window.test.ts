@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { buildContextTimeline, contextWindowFor } from "@/lib/context-window";
+import type { ContextMessage } from "@/lib/context-window";
+
+let n = 0;
+const user = (content: string, extra: Partial<ContextMessage> = {}): ContextMessage => ({
+  uuid: `u${++n}`, role: "user", content, timestamp: "", ...extra,
+});
+const turn = (context: number, output: number, extra: Partial<ContextMessage> = {}): ContextMessage => ({
+  uuid: `a${++n}`, role: "assistant", content: "", timestamp: "", model: "claude-sonnet-4-5",
+  inputTokens: 10, cacheRead: context - 110, cacheWrite: 100, outputTokens: output, ...extra,
+});
+
+describe("contextWindowFor", () => {
+  it("uses the nominal window unless the model is tagged or the session exceeded it", () => {
+    expect(contextWindowFor("claude-opus-4-6")).toBe(200_000);
+    expect(contextWindowFor("claude-opus-4-6[1m]")).toBe(1_000_000);
+    expect(contextWindowFor("claude-sonnet-4-5", 350_000)).toBe(1_000_000);
+    expect(contextWindowFor("gpt-5.2-codex")).toBe(400_000);
+  });
+});
+
+describe("buildContextTimeline", () => {
+  const read = { id: "t1", name: "Read", input: JSON.stringify({ file_path: "/app/big.ts" }), result: "x".repeat(300) };
+  const grep = { id: "t2", name: "Grep", input: JSON.stringify({ pattern: "foo" }), result: "x".repeat(100) };
+  const messages = [
+    user("start"),
+    turn(20_000, 500, { toolUse: [read, grep] }),
+    // Second record of the same response
+    turn(20_000, 800),
+    turn(60_800, 200),
+    user("<command-name>/compact</command-name>"),
+    user("This session is being continued...", { compaction: {} }),
+    turn(8_000, 100),
+    turn(9_000, 100, { isSidechain: true }),
+  ];
+
+  it("collapses records of one response and measures context per turn", () => {
+    const t = buildContextTimeline(messages);
+    expect(t.turns.map((x) => x.context)).toEqual([20_000, 60_800, 8_000]);
+    expect(t.turns[0].output).toBe(800);
+    expect(t.window).toBe(200_000);
+    expect(t.peak).toBe(60_800);
+    expect(t.turns[1].percent).toBeCloseTo(30.4);
+  });
+
+  it("charges growth to tool results by size and marks compactions", () => {
+    const t = buildContextTimeline(messages);
+    expect(t.inflators.map((i) => [i.name, i.summary, i.tokens])).toEqual([
+      ["Read", "/app/big.ts", 30_000],
+      ["Grep", "foo", 10_000],
+    ]);
+    expect(t.compactions).toEqual([
+      expect.objectContaining({ trigger: "manual", preTokens: 60_800, afterTurn: 2 }),
+    ]);
+  });
+});
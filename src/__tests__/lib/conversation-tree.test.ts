@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { buildConversationTree, selectPath, choicesToReveal } from "@/lib/conversation-tree";
+import type { TreeRecord } from "@/lib/conversation-tree";
+
+function rec(uuid: string, parentUuid: string | null, extra: Partial<TreeRecord> = {}): TreeRecord {
+  return { uuid, parentUuid, ...extra };
+}
+
+describe("buildConversationTree", () => {
+  it("treats a rewind as a branch and follows the newest one", () => {
+    const tree = buildConversationTree([
+      rec("u1", null),
+      rec("a1", "u1"),
+      rec("u2", "a1"),
+      rec("a2", "u2"),
+      // User rewound to after a1 and asked something else
+      rec("u2b", "a1"),
+      rec("a2b", "u2b"),
+    ]);
+
+    expect(tree.branchPoints).toEqual(["a1"]);
+    expect(tree.nodes.a1.children).toEqual(["u2", "u2b"]);
+    expect(selectPath(tree)).toEqual(["u1", "a1", "u2b", "a2b"]);
+    expect(selectPath(tree, { a1: "u2" })).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(selectPath(tree, choicesToReveal(tree, "a2"))).toEqual(["u1", "a1", "u2", "a2"]);
+  });
+
+  it("keeps parallel tool calls and their results on one path", () => {
+    const tree = buildConversationTree([
+      rec("u1", null),
+      rec("a1", "u1", { groupKey: "msg_1" }),
+      rec("a1b", "a1", { groupKey: "msg_1" }),
+      rec("r1", "a1", { transparent: true }),
+      rec("r2", "a1b", { transparent: true }),
+      rec("a2", "r2", { groupKey: "msg_2" }),
+    ]);
+
+    expect(tree.branchPoints).toEqual([]);
+    expect(selectPath(tree)).toEqual(["u1", "a1", "a2"]);
+    expect(tree.nodes.a1.messageUuids).toEqual(["a1", "a1b", "r1", "r2"]);
+  });
+
+  it("bridges compaction boundaries and links missing parents to the previous message", () => {
+    const tree = buildConversationTree([
+      rec("u1", null),
+      rec("a1", "u1"),
+      rec("c1", null, { transparent: true, logicalParentUuid: "a1" }),
+      rec("u2", "c1"),
+      rec("u3", "gone"),
+    ]);
+
+    expect(tree.roots).toEqual(["u1"]);
+    expect(selectPath(tree)).toEqual(["u1", "a1", "u2", "u3"]);
+  });
+
+  it("attributes sidechains to the Task call that spawned them", () => {
+    const tree = buildConversationTree([
+      rec("u1", null),
+      rec("a1", "u1", {
+        timestamp: "2026-01-01T00:00:01Z",
+        taskCalls: [
+          { id: "t1", prompt: "Find the config loader", description: "Explore config" },
+          { id: "t2", prompt: "List failing tests", description: "Check tests" },
+        ],
+      }),
+      rec("s2", null, { isSidechain: true, prompt: "List failing tests", timestamp: "2026-01-01T00:00:02Z" }),
+      rec("s2a", "s2", { isSidechain: true }),
+      rec("s1", null, { isSidechain: true, prompt: "Find the config loader", timestamp: "2026-01-01T00:00:02Z" }),
+      rec("r1", "a1", { transparent: true }),
+    ]);
+
+    expect(tree.roots).toEqual(["u1"]);
+    expect(tree.sidechains).toEqual([
+      { rootId: "s2", hostUuid: "a1", toolUseId: "t2", description: "Check tests", messageCount: 2 },
+      { rootId: "s1", hostUuid: "a1", toolUseId: "t1", description: "Explore config", messageCount: 1 },
+    ]);
+    expect(selectPath(tree)).toEqual(["u1", "a1"]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { findOverruns, overrunCovers, periodRange, DEFAULT_BUDGET_CONFIG } from "@/lib/cost-budgets";
+import type { CostEntry } from "@/lib/session-reader";
+
+// A Wednesday; the week started on Sunday 2026-03-01
+const NOW = Date.parse("2026-03-04T12:00:00.000Z");
+
+function ledger(costs: Record<string, number>, entry: Partial<CostEntry> = {}): CostEntry[] {
+  return Object.entries(costs).map(([date, cost]) => ({
+    date, project: "/home/me/app", provider: "claude", model: "claude-sonnet-4-5", cost, ...entry,
+  }));
+}
+
+describe("findOverruns", () => {
+  it("reports nothing while budgets are disabled", () => {
+    expect(findOverruns(ledger({ "2026-03-04": 500 }), DEFAULT_BUDGET_CONFIG, NOW)).toEqual([]);
+  });
+
+  it("compares today's UTC spend with the daily budget", () => {
+    const config = { ...DEFAULT_BUDGET_CONFIG, dailyBudget: 10 };
+    expect(findOverruns(ledger({ "2026-03-03": 50, "2026-03-04": 9 }), config, NOW)).toEqual([]);
+    expect(findOverruns(ledger({ "2026-03-04": 12.5 }), config, NOW)).toEqual([
+      { type: "daily", current: 12.5, budget: 10, key: "daily", periodStart: "2026-03-04" },
+    ]);
+  });
+
+  it("sums the week from Sunday for the weekly budget", () => {
+    const config = { ...DEFAULT_BUDGET_CONFIG, weeklyBudget: 30 };
+    const costs = ledger({ "2026-02-28": 100, "2026-03-01": 10, "2026-03-03": 15, "2026-03-04": 10 });
+    expect(findOverruns(costs, config, NOW)).toEqual([
+      { type: "weekly", current: 35, budget: 30, key: "weekly", periodStart: "2026-03-01" },
+    ]);
+  });
+
+  it("limits scoped budgets to their project, provider or model", () => {
+    const config = {
+      ...DEFAULT_BUDGET_CONFIG,
+      budgets: [
+        { scope: "project" as const, target: "/home/me/app", period: "monthly" as const, amount: 20 },
+        { scope: "provider" as const, target: "codex", period: "monthly" as const, amount: 20 },
+      ],
+    };
+    const costs = [
+      ...ledger({ "2026-03-02": 15, "2026-03-04": 10 }),
+      ...ledger({ "2026-03-02": 15 }, { project: "/home/me/other", provider: "codex", model: "o3" }),
+    ];
+    expect(findOverruns(costs, config, NOW)).toEqual([{
+      type: "monthly", current: 25, budget: 20, scope: "project", target: "/home/me/app",
+      key: "project:/home/me/app:monthly", periodStart: "2026-03-01",
+    }]);
+  });
+});
+
+describe("overrunCovers", () => {
+  it("applies global budgets to every run and scoped ones to matching runs", () => {
+    const base = { type: "daily" as const, current: 2, budget: 1 };
+    expect(overrunCovers(base, {})).toBe(true);
+    expect(overrunCovers({ ...base, scope: "provider", target: "codex" }, { provider: "claude" })).toBe(false);
+    expect(overrunCovers({ ...base, scope: "project", target: "/a" }, { project: "/a", provider: "claude" })).toBe(true);
+    expect(overrunCovers({ ...base, scope: "model", target: "o3" }, { provider: "codex" })).toBe(false);
+  });
+});
+
+describe("periodRange", () => {
+  it("spans the UTC week and calendar month", () => {
+    expect(periodRange("weekly", "2026-03-04")).toEqual({ start: "2026-03-01", end: "2026-03-07" });
+    expect(periodRange("monthly", "2026-02-10")).toEqual({ start: "2026-02-01", end: "2026-02-28" });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { addDays, fitForecastModel, forecastRange, projectBudget } from "@/lib/cost-forecast";
+
+/** Eight weeks of $10 weekdays and idle weekends, ending the day before `today` */
+function workweekHistory(today: string, weekday = 10): Record<string, number> {
+  const daily: Record<string, number> = {};
+  for (let d = addDays(today, -56); d < today; d = addDays(d, 1)) {
+    const w = new Date(`${d}T00:00:00.000Z`).getUTCDay();
+    daily[d] = w === 0 || w === 6 ? 0 : weekday;
+  }
+  return daily;
+}
+
+describe("fitForecastModel", () => {
+  it("learns weekday seasonality", () => {
+    const model = fitForecastModel(workweekHistory("2026-03-04"), "2026-03-04");
+    expect(model.weekdayFactors[0]).toBe(0);
+    expect(model.weekdayFactors[6]).toBe(0);
+    expect(model.weekdayFactors[3]).toBeCloseTo(1.4);
+    expect(model.level * model.weekdayFactors[3]).toBeCloseTo(10);
+    expect(model.sigma).toBeCloseTo(0);
+  });
+
+  it("starts history at the first day with spend", () => {
+    const model = fitForecastModel({ "2026-03-02": 6, "2026-03-03": 6 }, "2026-03-04");
+    expect(model.level).toBeCloseTo(6);
+  });
+
+  it("predicts nothing without history", () => {
+    expect(fitForecastModel({}, "2026-03-04")).toMatchObject({ level: 0, sigma: 0 });
+  });
+});
+
+describe("forecastRange", () => {
+  it("adds projected weekdays to month-to-date spend", () => {
+    const daily = workweekHistory("2026-03-04");
+    daily["2026-03-04"] = 4;
+    const month = forecastRange(daily, fitForecastModel(daily, "2026-03-04"), "2026-03-01", "2026-03-31", "2026-03-04");
+    // Mar 2-3 actual ($20) + today ($4 so far, $10 expected) + 19 more weekdays
+    expect(month.spent).toBeCloseTo(24);
+    expect(month.projected).toBeCloseTo(20 + 10 + 190);
+    expect(month.days).toHaveLength(31);
+    expect(month.days[0]).toMatchObject({ date: "2026-03-01", actual: 0, cumulative: 0 });
+  });
+
+  it("widens the band with noisy history", () => {
+    const daily = workweekHistory("2026-03-04");
+    for (const [i, d] of Object.keys(daily).entries()) daily[d] += i % 2 === 0 ? 3 : -3;
+    const range = forecastRange(daily, fitForecastModel(daily, "2026-03-04"), "2026-03-04", "2026-03-10", "2026-03-04");
+    expect(range.low).toBeLessThan(range.projected);
+    expect(range.high).toBeGreaterThan(range.projected);
+    expect(range.days[6].high - range.days[6].cumulative).toBeGreaterThan(range.days[0].high - range.days[0].cumulative);
+  });
+});
+
+describe("projectBudget", () => {
+  it("finds the day a budget runs out", () => {
+    const daily = workweekHistory("2026-03-04");
+    const model = fitForecastModel(daily, "2026-03-04");
+    // $20 spent by Tuesday; $10 a weekday passes $75 on the 8th weekday after
+    const p = projectBudget(daily, model, "2026-03-01", "2026-03-31", "2026-03-04", 75);
+    expect(p.exhaustedOn).toBe("2026-03-11");
+    expect(projectBudget(daily, model, "2026-03-01", "2026-03-31", "2026-03-04", 1000).exhaustedOn).toBeNull();
+  });
+
+  it("dates an overrun from actual spend", () => {
+    const daily = { ...workweekHistory("2026-03-04"), "2026-03-04": 30 };
+    const p = projectBudget(daily, fitForecastModel(daily, "2026-03-04"), "2026-03-01", "2026-03-31", "2026-03-04", 15);
+    expect(p.exhaustedOn).toBe("2026-03-03");
+  });
+});
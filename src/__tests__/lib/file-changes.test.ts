@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import fs from "fs";
+import path from "path";
+
+const { tmpHome } = await vi.hoisted(async () => {
+  const nodeFs = await import("fs");
+  const nodeOs = await import("os");
+  const nodePath = await import("path");
+  return { tmpHome: nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), "scc-changes-")) };
+});
+
+vi.mock("os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("os")>();
+  return {
+    ...actual,
+    default: { ...actual, homedir: () => tmpHome },
+    homedir: () => tmpHome,
+  };
+});
+
+import { getSessionChanges } from "@/lib/file-changes";
+import { unifiedDiff } from "@/lib/unified-diff";
+
+const PROJECT = "-home-me-app";
+const projectDir = path.join(tmpHome, ".claude", "projects", PROJECT);
+
+afterAll(() => {
+  fs.rmSync(tmpHome, { recursive: true, force: true });
+});
+
+function toolUse(uuid: string, id: string, name: string, input: Record<string, unknown>) {
+  return {
+    type: "assistant", uuid, timestamp: "2026-01-30T10:00:00Z", cwd: "/home/me/app",
+    message: { role: "assistant", content: [{ type: "tool_use", id, name, input }] },
+  };
+}
+
+function toolResult(id: string, toolUseResult: Record<string, unknown> = {}, isError = false) {
+  return {
+    type: "user", toolUseResult,
+    message: { role: "user", content: [{ type: "tool_result", tool_use_id: id, is_error: isError, content: "" }] },
+  };
+}
+
+function writeSession(id: string, records: object[]): void {
+  fs.mkdirSync(projectDir, { recursive: true });
+  fs.writeFileSync(path.join(projectDir, `${id}.jsonl`), records.map((r) => JSON.stringify(r)).join("\n") + "\n");
+}
+
+describe("unifiedDiff", () => {
+  it("emits hunks with context and line numbers", () => {
+    const before = ["a", "b", "c", "d", "e", "f", "g", "h"].join("\n") + "\n";
+    const after = ["a", "b", "c", "D", "e", "f", "g", "h", "i"].join("\n") + "\n";
+    const d = unifiedDiff(before, after);
+    expect(d.added).toBe(2);
+    expect(d.removed).toBe(1);
+    expect(d.text).toBe("@@ -1,8 +1,9 @@\n a\n b\n c\n-d\n+D\n e\n f\n g\n h\n+i");
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const lines = Array.from({ length: 30 }, (_, i) => `line ${i}`);
+    const changed = [...lines];
+    changed[2] = "first";
+    changed[25] = "second";
+    const d = unifiedDiff(lines.join("\n"), changed.join("\n"));
+    expect(d.text.match(/^@@/gm)).toHaveLength(2);
+    expect(d.text).toContain("@@ -23,7 +23,7 @@");
+  });
+});
+
+describe("getSessionChanges", () => {
+  it("replays edits on known content and builds the net diff", () => {
+    writeSession("s1", [
+      toolUse("m1", "t1", "Edit", { file_path: "/home/me/app/a.ts", old_string: "one", new_string: "ONE" }),
+      toolResult("t1", { originalFile: "one\ntwo\nthree\n" }),
+      toolUse("m2", "t2", "Edit", { file_path: "/home/me/app/a.ts", old_string: "missing", new_string: "x" }),
+      toolResult("t2", {}, true),
+      toolUse("m3", "t3", "Edit", { file_path: "/home/me/app/a.ts", old_string: "three", new_string: "3" }),
+      toolResult("t3"),
+      toolUse("m4", "t4", "Write", { file_path: "/home/me/app/new.ts", content: "hello\n" }),
+      toolResult("t4", { type: "create" }),
+    ]);
+
+    const changes = getSessionChanges(PROJECT, "s1")!;
+    const [a, created] = changes.files;
+
+    expect(a.changes.map((c) => [c.exact, !!c.failed])).toEqual([[true, false], [false, true], [true, false]]);
+    expect(a.netDiff).toBe("@@ -1,3 +1,3 @@\n-one\n+ONE\n two\n-three\n+3");
+    expect(created).toMatchObject({ path: "/home/me/app/new.ts", created: true, added: 1, removed: 0 });
+    expect(changes.totalAdded).toBe(3);
+  });
+
+  it("falls back to snippet diffs when the prior content is unknown", () => {
+    writeSession("s2", [
+      toolUse("m1", "t1", "MultiEdit", {
+        file_path: "src/b.ts",
+        edits: [{ old_string: "foo", new_string: "bar" }, { old_string: "x", new_string: "y" }],
+      }),
+    ]);
+
+    const [b] = getSessionChanges(PROJECT, "s2")!.files;
+    // Relative paths resolve against the session cwd
+    expect(b.path).toBe("/home/me/app/src/b.ts");
+    expect(b.changes[0]).toMatchObject({ tool: "MultiEdit", exact: false, added: 2, removed: 2 });
+    expect(b.netDiff).toBeNull();
+  });
+});
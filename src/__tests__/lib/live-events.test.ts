@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { applyLiveMessages, upsertSession } from "@/lib/live-events";
+import type { LiveDetail, LiveMessagesEvent } from "@/lib/live-events";
+
+function detail(): LiveDetail {
+  return {
+    messages: [
+      { uuid: "u1", content: "run the tests", timestamp: "2026-01-30T10:00:00.000Z", isCheckpoint: true },
+      {
+        uuid: "a1", content: "", timestamp: "2026-01-30T10:00:02.000Z",
+        toolUse: [{ id: "t1", name: "Bash", input: "{\"command\":\"npm test\"}" }],
+        inputTokens: 100, outputTokens: 20, cost: 0.01,
+      },
+    ],
+    checkpoints: [{ index: 0, uuid: "u1", content: "run the tests", timestamp: "2026-01-30T10:00:00.000Z" }],
+    treeRecords: [
+      { uuid: "u1", parentUuid: null, isSidechain: false },
+      { uuid: "a1", parentUuid: "u1", isSidechain: false },
+    ],
+    totalInputTokens: 100,
+    totalOutputTokens: 20,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    estimatedCost: 0.01,
+    endTime: "2026-01-30T10:00:02.000Z",
+  };
+}
+
+function event(partial: Partial<LiveMessagesEvent>): LiveMessagesEvent {
+  return { type: "session.messages", project: "p", sessionId: "s", messages: [], treeRecords: [], toolResults: [], ...partial };
+}
+
+describe("applyLiveMessages", () => {
+  it("appends new messages, checkpoints, totals and tree records", () => {
+    const next = applyLiveMessages(detail(), event({
+      messages: [{
+        uuid: "u2", parentUuid: "a1", role: "user", type: "user", content: "now lint",
+        timestamp: "2026-01-30T10:01:00.000Z", isCheckpoint: true, inputTokens: 5, cost: 0.002,
+      }],
+      treeRecords: [{ uuid: "u2", parentUuid: "a1", isSidechain: false }],
+    }));
+
+    expect(next.messages.map((m) => m.uuid)).toEqual(["u1", "a1", "u2"]);
+    expect(next.checkpoints[1]).toMatchObject({ index: 2, content: "now lint" });
+    expect(next.treeRecords).toHaveLength(3);
+    expect(next.totalInputTokens).toBe(105);
+    expect(next.estimatedCost).toBeCloseTo(0.012);
+    expect(next.endTime).toBe("2026-01-30T10:01:00.000Z");
+  });
+
+  it("skips messages the detail already has", () => {
+    const next = applyLiveMessages(detail(), event({
+      messages: [{ uuid: "a1", parentUuid: "u1", role: "assistant", type: "assistant", content: "", timestamp: "", inputTokens: 100 }],
+      treeRecords: [{ uuid: "a1", parentUuid: "u1", isSidechain: false }],
+    }));
+
+    expect(next.messages).toHaveLength(2);
+    expect(next.treeRecords).toHaveLength(2);
+    expect(next.totalInputTokens).toBe(100);
+  });
+
+  it("attaches results to earlier calls, timing them from the calling message", () => {
+    const before = detail();
+    const next = applyLiveMessages(before, event({
+      toolResults: [{ toolUseId: "t1", result: "1 failed", isError: true, timestamp: "2026-01-30T10:00:09.500Z" }],
+    }));
+
+    expect(next.messages[1].toolUse![0]).toMatchObject({ result: "1 failed", isError: true, durationMs: 7500 });
+    expect(before.messages[1].toolUse![0].result).toBeUndefined();
+  });
+});
+
+describe("upsertSession", () => {
+  it("replaces by id and project, otherwise prepends", () => {
+    const list = [{ id: "a", project: "p", n: 1 }, { id: "a", project: "q", n: 2 }];
+    expect(upsertSession(list, { id: "a", project: "q", n: 3 })).toEqual([{ id: "a", project: "p", n: 1 }, { id: "a", project: "q", n: 3 }]);
+    expect(upsertSession(list, { id: "b", project: "p", n: 4 })[0]).toEqual({ id: "b", project: "p", n: 4 });
+  });
+});
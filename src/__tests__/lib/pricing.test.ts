@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import fs from "fs";
+
+// Keep pricing overrides out of the real dashboard database
+const { tmpHome } = await vi.hoisted(async () => {
+  const nodeFs = await import("fs");
+  const nodeOs = await import("os");
+  const nodePath = await import("path");
+  const home = nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), "scc-pricing-"));
+  nodeFs.mkdirSync(nodePath.join(home, ".claude"));
+  return { tmpHome: home };
+});
+
+vi.mock("os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("os")>();
+  return {
+    ...actual,
+    default: { ...actual, homedir: () => tmpHome },
+    homedir: () => tmpHome,
+  };
+});
+
+import {
+  priceFor, estimateCost, normalizeModel, setPriceOverride, deletePriceOverride, getPriceCatalog,
+} from "@/lib/pricing";
+import { emptyUsage } from "@/lib/token-usage";
+
+afterAll(() => {
+  fs.rmSync(tmpHome, { recursive: true, force: true });
+});
+
+const million = { ...emptyUsage(), input: 1_000_000 };
+
+describe("pricing catalog", () => {
+  it("normalizes dated and context-tagged model IDs", () => {
+    expect(normalizeModel("claude-haiku-4-5-20251001")).toBe("claude-haiku-4-5");
+    expect(normalizeModel("claude-opus-4-6[1m]")).toBe("claude-opus-4-6");
+    expect(priceFor("claude-sonnet-4-6")?.input).toBe(3);
+  });
+
+  it("prices current Claude models at their published rates", () => {
+    expect(priceFor("claude-opus-4-6")).toMatchObject({ input: 5, output: 25, cacheRead: 0.5 });
+    expect(priceFor("claude-opus-4-5")).toMatchObject({ input: 5, output: 25 });
+    expect(priceFor("claude-opus-4-1")).toMatchObject({ input: 15, output: 75 });
+    expect(priceFor("claude-haiku-4-5-20251001")).toMatchObject({ input: 1, output: 5, cacheWrite5m: 1.25 });
+  });
+
+  it("reports unknown models as unpriced instead of falling back", () => {
+    expect(priceFor("claude-sonnet-9")).toBeNull();
+    expect(priceFor("")).toBeNull();
+    expect(estimateCost("claude-sonnet-9", million)).toBe(0);
+  });
+
+  it("applies custom entries from their effective date", () => {
+    setPriceOverride({ model: "claude-sonnet-4-6", effectiveFrom: "2026-06-01", input: 2, output: 10 });
+
+    expect(estimateCost("claude-sonnet-4-6", million, "2026-05-31T23:00:00Z")).toBe(3);
+    expect(estimateCost("claude-sonnet-4-6", million, "2026-06-01")).toBe(2);
+    expect(estimateCost("claude-sonnet-4-6", million)).toBe(2);
+    // Cache rates are derived from the input price when omitted
+    expect(priceFor("claude-sonnet-4-6", "2026-07-01")?.cacheWrite1h).toBe(4);
+
+    const entry = getPriceCatalog().find((e) => e.model === "claude-sonnet-4-6" && e.source === "custom");
+    expect(entry?.effectiveFrom).toBe("2026-06-01");
+  });
+
+  it("restores the built-in price when an override is removed", () => {
+    expect(deletePriceOverride("claude-sonnet-4-6", "2026-06-01")).toBe(true);
+    expect(estimateCost("claude-sonnet-4-6", million, "2026-07-01")).toBe(3);
+  });
+
+  it("rejects malformed overrides", () => {
+    expect(() => setPriceOverride({ model: "x", effectiveFrom: "June", input: 1, output: 1 })).toThrow();
+    expect(() => setPriceOverride({ model: "x", effectiveFrom: "2026-01-01", input: -1, output: 1 })).toThrow();
+  });
+});
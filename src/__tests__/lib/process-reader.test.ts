@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { encodeProjectPath, isClaudeCli, parseSessionArgs, sampleProcess } from "@/lib/process-reader";
+
+describe("process session correlation helpers", () => {
+  it("encodes a working directory like the CLI names project directories", () => {
+    expect(encodeProjectPath("/home/me/my.app")).toBe("-home-me-my-app");
+  });
+
+  it("recognises the CLI but not tools that mention it", () => {
+    expect(isClaudeCli(["claude", "--resume"])).toBe(true);
+    expect(isClaudeCli(["/usr/bin/node", "/usr/lib/node_modules/@anthropic-ai/claude-code/cli.js"])).toBe(true);
+    expect(isClaudeCli(["node", "/home/me/.local/bin/claude"])).toBe(true);
+    expect(isClaudeCli(["node", "/home/me/super-claude-code/node_modules/.bin/next", "dev"])).toBe(false);
+    expect(isClaudeCli(["grep", "claude"])).toBe(false);
+  });
+
+  it("reads session ids from the command line", () => {
+    const id = "5f0c2b1e-8a7d-4c3b-9e21-0d6f4a8b7c10";
+    expect(parseSessionArgs(["claude", "--resume", id])).toEqual({ resume: id });
+    expect(parseSessionArgs(["claude", `--session-id=${id}`, "-p", "hi"])).toEqual({ sessionId: id });
+    expect(parseSessionArgs(["claude", "-r", id])).toEqual({ resume: id });
+    // A bare --resume opens the picker
+    expect(parseSessionArgs(["claude", "--resume", "--verbose"])).toEqual({});
+  });
+});
+
+describe("sampleProcess", () => {
+  it("reports the lifetime average on the first sample, then the share since the last", () => {
+    const pid = 999_001;
+    const startedAt = Date.parse("2026-02-01T00:00:00Z");
+    // 5 CPU seconds over 10 seconds of life at 100 ticks per second
+    const first = sampleProcess(pid, { cpuTicks: 500, startedAt, rssMB: 80 }, startedAt + 10_000);
+    expect(first.cpuPercent).toBe(50);
+    // 1 CPU second over the next 10 seconds
+    const next = sampleProcess(pid, { cpuTicks: 600, startedAt, rssMB: 80 }, startedAt + 20_000);
+    expect(next.cpuPercent).toBe(10);
+  });
+});
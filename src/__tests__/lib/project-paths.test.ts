@@ -0,0 +1,36 @@
+import { describe, it, expect, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { guessProjectPath, normalizeGitRemote } from "@/lib/project-paths";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "scc-paths-"));
+const encode = (dir: string) => dir.replace(/[^A-Za-z0-9]/g, "-");
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("normalizeGitRemote", () => {
+  it("gives ssh and https remotes of one repo the same identity", () => {
+    expect(normalizeGitRemote("git@github.com:Me/App.git")).toBe("github.com/me/app");
+    expect(normalizeGitRemote("https://github.com/me/app/")).toBe("github.com/me/app");
+    expect(normalizeGitRemote("ssh://git@gitlab.example.com:2222/team/app.git")).toBe("gitlab.example.com:2222/team/app");
+  });
+});
+
+describe("guessProjectPath", () => {
+  it("recovers dashes, dots and hidden directories from the entry name", () => {
+    const dashed = path.join(root, "my-app");
+    const dotted = path.join(root, ".config", "site.io");
+    fs.mkdirSync(dashed, { recursive: true });
+    fs.mkdirSync(dotted, { recursive: true });
+
+    expect(guessProjectPath(encode(dashed))).toBe(dashed);
+    expect(guessProjectPath(encode(dotted))).toBe(dotted);
+  });
+
+  it("returns null when nothing on disk matches", () => {
+    expect(guessProjectPath(encode(path.join(root, "gone-app")))).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import fs from "fs";
+
+// Point the rate limit log at a throwaway home directory
+const { tmpHome } = await vi.hoisted(async () => {
+  const nodeFs = await import("fs");
+  const nodeOs = await import("os");
+  const nodePath = await import("path");
+  const home = nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), "scc-rate-"));
+  nodeFs.mkdirSync(nodePath.join(home, ".claude"));
+  return { tmpHome: home };
+});
+
+vi.mock("os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("os")>();
+  return {
+    ...actual,
+    default: { ...actual, homedir: () => tmpHome },
+    homedir: () => tmpHome,
+  };
+});
+
+import { recordRateLimit, getRateLimitOverview } from "@/lib/rate-limits";
+import { eventBus } from "@/lib/event-bus";
+import type { RateLimitHit } from "@/lib/rate-limits";
+import type { RateLimitInfo } from "@/lib/chat-types";
+
+const NOW = Date.parse("2026-03-04T12:00:00.000Z");
+const HOUR = 3_600_000;
+const CHAT = { source: "chat" as const, provider: "claude" };
+
+function info(status: RateLimitInfo["status"], utilization: number, resetsAt = NOW + 2 * HOUR): RateLimitInfo {
+  return { status, limitType: "five_hour", resetsAt, utilization, usingOverage: false };
+}
+
+afterAll(() => {
+  fs.rmSync(tmpHome, { recursive: true, force: true });
+});
+
+describe("rate limit log", () => {
+  it("publishes the first warning and the first rejection of each window once", () => {
+    const hits: RateLimitHit[] = [];
+    const off = eventBus.on("rate_limit.hit", (hit) => hits.push(hit));
+
+    recordRateLimit(info("allowed", 0.4), CHAT, NOW - 3 * HOUR);
+    recordRateLimit(info("allowed_warning", 0.8), CHAT, NOW - 2 * HOUR);
+    recordRateLimit(info("allowed_warning", 0.85), CHAT, NOW - 90 * 60_000);
+    recordRateLimit(info("rejected", 1), CHAT, NOW - HOUR);
+    recordRateLimit(info("rejected", 1), { source: "queue", provider: "claude" }, NOW - 30 * 60_000);
+    off();
+
+    expect(hits.map((h) => h.status)).toEqual(["allowed_warning", "rejected"]);
+    expect(hits[1]).toMatchObject({ limitType: "five_hour", resetsAt: NOW + 2 * HOUR, source: "chat" });
+  });
+
+  it("summarizes the current window, daily counts and recent limited events", () => {
+    const overview = getRateLimitOverview(3, NOW);
+
+    expect(overview.current).toHaveLength(1);
+    expect(overview.current[0]).toMatchObject({ status: "rejected", source: "queue" });
+
+    expect(overview.history.map((d) => d.date)).toEqual(["2026-03-02", "2026-03-03", "2026-03-04"]);
+    expect(overview.history[2]).toEqual({
+      date: "2026-03-04", allowed: 1, warnings: 2, rejections: 2, peakUtilization: 1,
+    });
+
+    expect(overview.recent).toHaveLength(4);
+    expect(overview.recent[0].at).toBe(NOW - 30 * 60_000);
+  });
+
+  it("drops a window from the current state once it resets", () => {
+    expect(getRateLimitOverview(3, NOW + 3 * HOUR).current).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import fs from "fs";
+import path from "path";
+
+// Point the index and scanner DB at a throwaway home directory
+const { tmpHome } = await vi.hoisted(async () => {
+  const nodeFs = await import("fs");
+  const nodeOs = await import("os");
+  const nodePath = await import("path");
+  return { tmpHome: nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), "scc-secrets-")) };
+});
+
+vi.mock("os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("os")>();
+  return {
+    ...actual,
+    default: { ...actual, homedir: () => tmpHome },
+    homedir: () => tmpHome,
+  };
+});
+
+import { findSecrets } from "@/lib/redaction";
+import { redactLine, redactSessionSecrets, scanLine } from "@/lib/secret-scanner";
+import { refreshSessionIndex, searchTranscripts } from "@/lib/session-index";
+
+afterAll(() => {
+  fs.rmSync(tmpHome, { recursive: true, force: true });
+});
+
+// Built at runtime so the fixtures don't trip secret scanning on the repo itself
+const ANTHROPIC_KEY = "sk-ant-" + "api03-" + "Xy7".repeat(10);
+const AWS_KEY = "AKIA" + "ABCDEFGH12345678";
+const RANDOM = "q8Zr2LmN7vBx4TyK9pWc3HdF";
+
+describe("findSecrets", () => {
+  it("matches known formats once, preferring the most specific rule", () => {
+    const found = findSecrets(`ANTHROPIC_API_KEY=${ANTHROPIC_KEY}\nAWS=${AWS_KEY}`);
+    expect(found.map((f) => f.ruleId)).toEqual(["anthropic-key", "aws-access-key"]);
+    expect(found[0].value).toBe(ANTHROPIC_KEY);
+  });
+
+  it("flags random-looking tokens but not hashes, uuids or paths", () => {
+    expect(findSecrets(`token: ${RANDOM}`).map((f) => f.ruleId)).toEqual(["high-entropy"]);
+    expect(findSecrets("commit 3f9a1c2e8b7d6a5f4e3d2c1b0a9f8e7d6c5b4a39")).toEqual([]);
+    expect(findSecrets("session 0b6f3c1e-2d4a-4f8e-9c7b-5a1d3e2f4b6c")).toEqual([]);
+    expect(findSecrets("src/components/sessions/SessionDetail2View.tsx")).toEqual([]);
+  });
+});
+
+describe("scanLine / redactLine", () => {
+  const record = JSON.stringify({
+    type: "user",
+    uuid: "u1",
+    message: {
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: "toolu_1", content: `KEY=${ANTHROPIC_KEY}\nAWS=${AWS_KEY}` }],
+    },
+    toolUseResult: { stdout: `KEY=${ANTHROPIC_KEY}` },
+  });
+
+  it("locates secrets in tool results and reports each once", () => {
+    const found = scanLine(record);
+    expect(found.map((f) => [f.match.ruleId, f.location, f.toolUseId])).toEqual([
+      ["anthropic-key", "tool-result", "toolu_1"],
+      ["aws-access-key", "tool-result", "toolu_1"],
+    ]);
+  });
+
+  it("masks every occurrence, keeps valid JSON and shrinks the line", () => {
+    const { line, redacted } = redactLine(record);
+    expect(redacted).toBe(3);
+    expect(line.length).toBeLessThan(record.length);
+    expect(line).not.toContain(ANTHROPIC_KEY);
+    expect(line).not.toContain(AWS_KEY);
+    expect(JSON.parse(line).uuid).toBe("u1");
+    expect(scanLine(line)).toEqual([]);
+  });
+});
+
+describe("redactSessionSecrets", () => {
+  it("drops a short secret from search even though the file does not shrink", () => {
+    const project = "-home-me-app";
+    const dir = path.join(tmpHome, ".claude", "projects", project);
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, "s1.jsonl");
+    fs.writeFileSync(file, JSON.stringify({
+      type: "user",
+      uuid: "u1",
+      timestamp: "2026-02-01T00:00:00Z",
+      message: { role: "user", content: "login with password=hunter22 please" },
+    }) + "\n");
+    const size = fs.statSync(file).size;
+
+    refreshSessionIndex();
+    expect(searchTranscripts({ query: "hunter22" })).toHaveLength(1);
+
+    expect(redactSessionSecrets(project, "s1")?.redacted).toBe(1);
+    expect(fs.statSync(file).size).toBeGreaterThanOrEqual(size);
+    expect(fs.readFileSync(file, "utf-8")).not.toContain("hunter22");
+    expect(searchTranscripts({ query: "hunter22" })).toHaveLength(0);
+    expect(searchTranscripts({ query: "login" })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import fs from "fs";
+import path from "path";
+
+const { tmpHome } = await vi.hoisted(async () => {
+  const nodeFs = await import("fs");
+  const nodeOs = await import("os");
+  const nodePath = await import("path");
+  return { tmpHome: nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), "scc-detail-")) };
+});
+
+vi.mock("os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("os")>();
+  return {
+    ...actual,
+    default: { ...actual, homedir: () => tmpHome },
+    homedir: () => tmpHome,
+  };
+});
+
+import { createClaudeRecordParser, getSessionDetail, getSessionPage } from "@/lib/session-reader";
+
+const PROJECT = "-home-me-app";
+
+afterAll(() => {
+  fs.rmSync(tmpHome, { recursive: true, force: true });
+});
+
+function writeJsonl(file: string, records: object[]): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, records.map((r) => JSON.stringify(r)).join("\n") + "\n");
+}
+
+describe("tool call pairing", () => {
+  it("attaches Claude tool results, errors and latency to their calls", () => {
+    writeJsonl(path.join(tmpHome, ".claude", "projects", PROJECT, "s1.jsonl"), [
+      {
+        type: "assistant", uuid: "a1", parentUuid: null, timestamp: "2026-01-30T10:00:00.000Z",
+        message: {
+          id: "m1", role: "assistant", content: [
+            { type: "tool_use", id: "t1", name: "Bash", input: { command: "ls" } },
+            { type: "tool_use", id: "t2", name: "Grep", input: { pattern: "foo" } },
+          ],
+        },
+      },
+      {
+        type: "user", uuid: "u1", parentUuid: "a1", timestamp: "2026-01-30T10:00:01.500Z",
+        message: { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "a.ts\nb.ts" }] },
+      },
+      {
+        type: "user", uuid: "u2", parentUuid: "u1", timestamp: "2026-01-30T10:00:04.000Z",
+        message: {
+          role: "user", content: [{
+            type: "tool_result", tool_use_id: "t2", is_error: true,
+            content: [{ type: "text", text: "regex parse error" }],
+          }],
+        },
+      },
+    ]);
+
+    const detail = getSessionDetail(PROJECT, "s1")!;
+    const [bash, grep] = detail.messages[0].toolUse!;
+    expect(bash).toMatchObject({ id: "t1", result: "a.ts\nb.ts", isError: false, durationMs: 1500 });
+    expect(grep).toMatchObject({ id: "t2", result: "regex parse error", isError: true, durationMs: 4000 });
+  });
+
+  it("leaves calls without a result unresolved", () => {
+    writeJsonl(path.join(tmpHome, ".claude", "projects", PROJECT, "s2.jsonl"), [
+      {
+        type: "assistant", uuid: "a1", parentUuid: null, timestamp: "2026-01-30T10:00:00.000Z",
+        message: { id: "m1", role: "assistant", content: [{ type: "tool_use", id: "t1", name: "Read", input: {} }] },
+      },
+    ]);
+
+    const call = getSessionDetail(PROJECT, "s2")!.messages[0].toolUse![0];
+    expect(call.result).toBeUndefined();
+    expect(call.durationMs).toBeUndefined();
+  });
+
+  it("pairs Codex function calls with their outputs", () => {
+    const file = path.join(tmpHome, ".codex", "sessions", "2026", "01", "30", "rollout-2026-01-30-cx1.jsonl");
+    writeJsonl(file, [
+      { type: "session_meta", timestamp: "2026-01-30T10:00:00.000Z", payload: { cwd: "/home/me/app" } },
+      { type: "event_msg", timestamp: "2026-01-30T10:00:00.000Z", payload: { type: "user_message", message: "list files" } },
+      {
+        type: "response_item", timestamp: "2026-01-30T10:00:01.000Z",
+        payload: { type: "function_call", name: "shell", arguments: "{\"command\":[\"ls\"]}", call_id: "c1" },
+      },
+      {
+        type: "response_item", timestamp: "2026-01-30T10:00:03.000Z",
+        payload: {
+          type: "function_call_output", call_id: "c1",
+          output: JSON.stringify({ output: "ls: cannot access", metadata: { exit_code: 2, duration_seconds: 0.25 } }),
+        },
+      },
+    ]);
+
+    const detail = getSessionDetail("__codex__", "cx1")!;
+    const call = detail.messages[1].toolUse![0];
+    expect(detail.messages[1].role).toBe("assistant");
+    expect(call).toMatchObject({ id: "c1", name: "shell", result: "ls: cannot access", isError: true, durationMs: 250 });
+  });
+});
+
+describe("gemini session detail", () => {
+  it("reads messages, thoughts, tool results and per-message cost from a chat file", () => {
+    const file = path.join(tmpHome, ".gemini", "tmp", "abc123", "chats", "session-2026-02-03T09-00-g2bbbbbb.json");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({
+      sessionId: "g2bbbbbb-1111-2222-3333-444444444444", projectHash: "abc123",
+      startTime: "2026-02-03T09:00:00.000Z", lastUpdated: "2026-02-03T09:00:05.000Z",
+      messages: [
+        { id: "m1", type: "user", timestamp: "2026-02-03T09:00:00.000Z", content: [{ text: "read it" }] },
+        {
+          id: "m2", type: "gemini", timestamp: "2026-02-03T09:00:05.000Z", content: "Here it is.", model: "gemini-2.5-flash",
+          thoughts: [{ subject: "Reading", description: "Open the file first" }],
+          tokens: { input: 1000, output: 100, cached: 0 },
+          toolCalls: [{
+            id: "tc1", name: "read_file", args: { absolute_path: "/tmp/a.ts" }, status: "success",
+            result: [{ functionResponse: { id: "tc1", name: "read_file", response: { output: "const a = 1;" } } }],
+          }],
+        },
+        { id: "m3", type: "info", timestamp: "2026-02-03T09:00:06.000Z", content: "Request cancelled." },
+      ],
+    }));
+
+    const page = getSessionPage("__gemini__", "g2bbbbbb-1111-2222-3333-444444444444")!;
+    expect(page.messages.map((m) => m.role)).toEqual(["user", "assistant", "system"]);
+    expect(page.messages[0]).toMatchObject({ content: "read it", isCheckpoint: true });
+    expect(page.messages[1]).toMatchObject({ thinkingContent: "Reading: Open the file first", inputTokens: 1000, outputTokens: 100 });
+    expect(page.messages[1].toolUse![0]).toMatchObject({ id: "tc1", name: "read_file", result: "const a = 1;", isError: false });
+    expect(page.checkpoints).toEqual([{ index: 0, uuid: "m1", content: "read it", timestamp: "2026-02-03T09:00:00.000Z" }]);
+    expect(page.estimatedCost).toBeCloseTo((1000 * 0.3 + 100 * 2.5) / 1_000_000);
+    expect(page.messageCount).toBe(3);
+  });
+});
+
+describe("createClaudeRecordParser", () => {
+  it("reports results for calls seen in earlier lines", () => {
+    const parse = createClaudeRecordParser();
+    const call = parse(JSON.stringify({
+      type: "assistant", uuid: "a1", parentUuid: null, timestamp: "2026-01-30T10:00:00.000Z",
+      message: { id: "m1", role: "assistant", model: "claude-sonnet-4-5", content: [{ type: "tool_use", id: "t1", name: "Bash", input: {} }] },
+    }))!;
+    const result = parse(JSON.stringify({
+      type: "user", uuid: "u1", parentUuid: "a1", timestamp: "2026-01-30T10:00:02.000Z",
+      message: { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "ok" }] },
+    }))!;
+
+    expect(call.message?.toolUse?.[0]).toMatchObject({ id: "t1", result: "ok", durationMs: 2000 });
+    expect(result.toolResults).toEqual([
+      { toolUseId: "t1", result: "ok", isError: false, timestamp: "2026-01-30T10:00:02.000Z", durationMs: 2000 },
+    ]);
+    expect(result.treeRecord).toMatchObject({ uuid: "u1", transparent: true });
+    expect(result.model).toBe("claude-sonnet-4-5");
+    expect(parse("{not json")).toBeNull();
+  });
+
+  it("marks compaction summaries with the preceding boundary's metadata", () => {
+    const parse = createClaudeRecordParser();
+    parse(JSON.stringify({
+      type: "system", subtype: "compact_boundary", uuid: "b1", parentUuid: null, logicalParentUuid: "a9",
+      content: "Conversation compacted", compactMetadata: { trigger: "auto", preTokens: 167_000 },
+    }));
+    const summary = parse(JSON.stringify({
+      type: "user", uuid: "u2", parentUuid: "b1", isCompactSummary: true,
+      message: { role: "user", content: "This session is being continued from a previous conversation..." },
+    }))!;
+    const next = parse(JSON.stringify({ type: "user", uuid: "u3", parentUuid: "u2", message: { role: "user", content: "go on" } }))!;
+
+    expect(summary.message?.compaction).toEqual({ trigger: "auto", preTokens: 167_000 });
+    expect(next.message?.compaction).toBeUndefined();
+  });
+});
+
+describe("getSessionPage", () => {
+  const file = path.join(tmpHome, ".claude", "projects", PROJECT, "paged.jsonl");
+  const turn = (i: number) => [
+    {
+      type: "user", uuid: `u${i}`, parentUuid: i > 0 ? `a${i - 1}` : null, timestamp: `2026-01-30T10:0${i}:00.000Z`,
+      message: { role: "user", content: `prompt ${i}` },
+    },
+    {
+      type: "assistant", uuid: `a${i}`, parentUuid: `u${i}`, timestamp: `2026-01-30T10:0${i}:01.000Z`,
+      message: {
+        id: `m${i}`, role: "assistant", model: "claude-sonnet-4-5",
+        content: [{ type: "tool_use", id: `t${i}`, name: "Bash", input: { command: `echo ${i}` } }],
+        usage: { input_tokens: 10, output_tokens: 5 },
+      },
+    },
+    {
+      type: "user", uuid: `r${i}`, parentUuid: `a${i}`, timestamp: `2026-01-30T10:0${i}:02.000Z`,
+      message: { role: "user", content: [{ type: "tool_result", tool_use_id: `t${i}`, content: `out ${i}` }] },
+    },
+  ];
+
+  it("pages backward from the newest messages with whole-session totals", () => {
+    writeJsonl(file, [0, 1, 2].flatMap(turn));
+
+    const newest = getSessionPage(PROJECT, "paged", { limit: 4 })!;
+    expect(newest.messages.map((m) => m.uuid)).toEqual(["r1", "u2", "a2", "r2"]);
+    expect(newest).toMatchObject({ offset: 5, messageCount: 9, prevCursor: "5", nextCursor: undefined, totalInputTokens: 30 });
+    expect(newest.treeRecords).toHaveLength(9);
+    expect(newest.checkpoints.map((c) => c.uuid)).toEqual(["u0", "u1", "u2"]);
+
+    const older = getSessionPage(PROJECT, "paged", { cursor: newest.prevCursor, limit: 4 })!;
+    expect(older.messages.map((m) => m.uuid)).toEqual(["a0", "r0", "u1", "a1"]);
+    expect(older).toMatchObject({ offset: 1, prevCursor: "1", nextCursor: "5" });
+    expect(older.treeRecords).toBeUndefined();
+  });
+
+  it("pairs results that land after the page and picks up appended lines", () => {
+    writeJsonl(file, [0, 1].flatMap(turn));
+
+    const first = getSessionPage(PROJECT, "paged", { direction: "forward", limit: 2 })!;
+    expect(first.messages[1].toolUse![0]).toMatchObject({ id: "t0", result: "out 0" });
+    expect(first.nextCursor).toBe("2");
+
+    fs.appendFileSync(file, turn(2).map((r) => JSON.stringify(r)).join("\n") + "\n");
+    const rest = getSessionPage(PROJECT, "paged", { cursor: "6", direction: "forward" })!;
+    expect(rest.messages.map((m) => m.uuid)).toEqual(["u2", "a2", "r2"]);
+    expect(rest.messageCount).toBe(9);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { forkRecords } from "@/lib/session-fork";
+
+const rec = (uuid: string, parentUuid: string | null, type: "user" | "assistant", content: unknown, extra = {}) => ({
+  type, uuid, parentUuid, sessionId: "orig", cwd: "/home/me/app", timestamp: "2026-02-01T10:00:00.000Z",
+  message: { role: type, content }, ...extra,
+});
+
+describe("forkRecords", () => {
+  // u1 → a1 → u2 → a2 → u3, with u2' a retried branch and s1 a subagent thread
+  const records = [
+    { type: "summary", summary: "Old", leafUuid: "a2" },
+    rec("u1", null, "user", "build it"),
+    rec("a1", "u1", "assistant", [{ type: "text", text: "built" }]),
+    rec("u2x", "a1", "user", "abandoned"),
+    rec("u2", "a1", "user", "now test it"),
+    rec("s1", "u2", "user", "subagent task", { isSidechain: true }),
+    rec("a2", "u2", "assistant", [{ type: "text", text: "tested" }]),
+    rec("u3", "a2", "user", [{ type: "text", text: "ship" }, { type: "text", text: "it" }]),
+  ];
+  let n = 0;
+  const newUuid = () => `new-${++n}`;
+
+  it("copies only the branch before the checkpoint with fresh ids", () => {
+    const fork = forkRecords(records, "u3", "fork", newUuid)!;
+    expect(fork.prompt).toBe("ship\nit");
+    expect(fork.records.map((r) => (r.message as { content: unknown }).content)).toEqual([
+      "build it", [{ type: "text", text: "built" }], "now test it", [{ type: "text", text: "tested" }],
+    ]);
+    expect(fork.records.every((r) => r.sessionId === "fork")).toBe(true);
+    expect(fork.records[0].parentUuid).toBeNull();
+    for (let i = 1; i < fork.records.length; i++) {
+      expect(fork.records[i].parentUuid).toBe(fork.records[i - 1].uuid);
+    }
+    expect(fork.records.some((r) => ["u1", "a1", "u2", "a2"].includes(r.uuid as string))).toBe(false);
+  });
+
+  it("returns nothing to copy for the first prompt and null for unknown messages", () => {
+    expect(forkRecords(records, "u1", "fork", newUuid)?.records).toEqual([]);
+    expect(forkRecords(records, "missing", "fork", newUuid)).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import path from "path";
+
+const { tmpHome } = await vi.hoisted(async () => {
+  const nodeFs = await import("fs");
+  const nodeOs = await import("os");
+  const nodePath = await import("path");
+  return { tmpHome: nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), "scc-hooks-")) };
+});
+
+vi.mock("os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("os")>();
+  return {
+    ...actual,
+    default: { ...actual, homedir: () => tmpHome },
+    homedir: () => tmpHome,
+  };
+});
+
+import { recordHookEvent, getHookState, getHookEvents, sessionHookCommand, isSessionHookCommand } from "@/lib/session-hooks";
+import { listSessions } from "@/lib/session-reader";
+
+const PROJECT = "-home-me-app";
+
+beforeAll(() => {
+  fs.mkdirSync(path.join(tmpHome, ".claude"), { recursive: true });
+});
+
+afterAll(() => {
+  fs.rmSync(tmpHome, { recursive: true, force: true });
+});
+
+/** A finished exchange last written `ageMs` ago */
+function writeSession(id: string, ageMs: number): void {
+  const file = path.join(tmpHome, ".claude", "projects", PROJECT, `${id}.jsonl`);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const records = [
+    { type: "user", uuid: "u1", timestamp: "2026-01-30T10:00:00.000Z", message: { role: "user", content: "deploy" } },
+    { type: "assistant", uuid: "a1", timestamp: "2026-01-30T10:00:05.000Z", message: { role: "assistant", content: [{ type: "text", text: "ok" }] } },
+  ];
+  fs.writeFileSync(file, records.map((r) => JSON.stringify(r)).join("\n") + "\n");
+  const t = new Date(Date.now() - ageMs);
+  fs.utimesSync(file, t, t);
+}
+
+function statusOf(id: string): string | undefined {
+  return listSessions(PROJECT).find((s) => s.id === id)?.status;
+}
+
+describe("recordHookEvent", () => {
+  it("ignores payloads that are not one of the installed events", () => {
+    expect(recordHookEvent(null)).toBeNull();
+    expect(recordHookEvent({ hook_event_name: "Stop" })).toBeNull();
+    expect(recordHookEvent({ session_id: "x", hook_event_name: "PostToolUse" })).toBeNull();
+  });
+
+  it("keeps the last event per session and a history", () => {
+    recordHookEvent({ session_id: "h1", hook_event_name: "UserPromptSubmit", prompt: "hi" }, 1000);
+    recordHookEvent({ session_id: "h1", hook_event_name: "PreToolUse", tool_name: "Bash", tool_input: {} }, 2000);
+
+    expect(getHookState("h1")).toMatchObject({ event: "PreToolUse", toolName: "Bash", updatedAt: 2000 });
+    expect(getHookEvents("h1").map((e) => e.event)).toEqual(["PreToolUse", "UserPromptSubmit"]);
+  });
+
+  it("builds a receiver command it can recognise", () => {
+    const cmd = sessionHookCommand("http://localhost:3000/");
+    expect(cmd).toContain("http://localhost:3000/api/sessions/hooks");
+    expect(isSessionHookCommand(cmd)).toBe(true);
+  });
+});
+
+describe("hook-driven status", () => {
+  // Written up front: the index refresh is throttled between calls
+  beforeAll(() => {
+    writeSession("plain", 10 * 60 * 1000);
+    writeSession("prompt", 10 * 60 * 1000);
+    writeSession("tool", 0);
+    writeSession("stale", 0);
+  });
+
+  it("falls back to the transcript heuristics without hook data", () => {
+    expect(statusOf("plain")).toBe("completed");
+  });
+
+  it("keeps a session waiting on a permission prompt", () => {
+    recordHookEvent({
+      session_id: "prompt", hook_event_name: "Notification", message: "Claude needs your permission to use Bash",
+    }, Date.now() - 10 * 60 * 1000);
+    expect(statusOf("prompt")).toBe("waiting");
+  });
+
+  it("reports the kind of tool about to run", () => {
+    recordHookEvent({ session_id: "tool", hook_event_name: "PreToolUse", tool_name: "Edit" });
+    expect(statusOf("tool")).toBe("writing");
+  });
+
+  it("ignores hook state the transcript has long moved past", () => {
+    recordHookEvent({ session_id: "stale", hook_event_name: "Stop" }, Date.now() - 30 * 60 * 1000);
+    expect(statusOf("stale")).toBe("thinking");
+  });
+});
@@ -0,0 +1,386 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Point the readers and the index DB at a throwaway home directory
+const { tmpHome } = await vi.hoisted(async () => {
+  const nodeFs = await import("fs");
+  const nodeOs = await import("os");
+  const nodePath = await import("path");
+  return { tmpHome: nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), "scc-index-")) };
+});
+
+vi.mock("os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("os")>();
+  return {
+    ...actual,
+    default: { ...actual, homedir: () => tmpHome },
+    homedir: () => tmpHome,
+  };
+});
+
+import {
+  refreshSessionIndex, getIndexedSessions, getIndexedUsage, getIndexedHourlyUsage, getIndexedToolCalls, searchTranscripts,
+} from "@/lib/session-index";
+import { listSessions, getTokenSummary, getCostLedger, getBranchUsage, buildSnippet } from "@/lib/session-reader";
+
+const PROJECT = "-home-me-app";
+const projectDir = path.join(tmpHome, ".claude", "projects", PROJECT);
+const sessionFile = path.join(projectDir, "s1.jsonl");
+
+function line(obj: Record<string, unknown>): string {
+  return JSON.stringify(obj) + "\n";
+}
+
+function assistant(ts: string, input: number, output: number, cacheRead = 0): string {
+  return line({
+    type: "assistant",
+    timestamp: ts,
+    message: {
+      role: "assistant",
+      model: "claude-sonnet-4-5",
+      content: [{ type: "text", text: "ok" }],
+      usage: { input_tokens: input, output_tokens: output, cache_read_input_tokens: cacheRead },
+    },
+  });
+}
+
+let now = Date.parse("2026-02-01T00:00:00Z");
+
+/** Refresh after stepping the clock past the refresh throttle */
+function refresh(): void {
+  now += 10_000;
+  refreshSessionIndex();
+}
+
+beforeEach(() => {
+  now += 10_000;
+  vi.spyOn(Date, "now").mockImplementation(() => now);
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(tmpHome, { recursive: true, force: true });
+});
+
+describe("session index", () => {
+  it("indexes a new session file", () => {
+    fs.mkdirSync(projectDir, { recursive: true });
+    fs.writeFileSync(
+      sessionFile,
+      line({ type: "user", timestamp: "2026-01-30T10:00:00Z", cwd: "/home/me/app", message: { role: "user", content: "hello there" } }) +
+      assistant("2026-01-30T10:00:05Z", 100, 50, 10),
+    );
+
+    refresh();
+    const [s] = getIndexedSessions(PROJECT);
+
+    expect(s.sessionId).toBe("s1");
+    expect(s.firstMessage).toBe("hello there");
+    expect(s.cwd).toBe("/home/me/app");
+    expect(s.model).toBe("claude-sonnet-4-5");
+    expect(s.messageCount).toBe(2);
+    expect(s.usage.input).toBe(100);
+    expect(s.usage.cacheRead).toBe(10);
+  });
+
+  it("parses only appended lines and keeps usage buckets per day", () => {
+    fs.appendFileSync(sessionFile, assistant("2026-01-31T09:00:00Z", 20, 5));
+
+    refresh();
+    const [s] = getIndexedSessions(PROJECT);
+    expect(s.messageCount).toBe(3);
+    expect(s.usage.input).toBe(120);
+    expect(s.usage.output).toBe(55);
+
+    const usage = getIndexedUsage().sort((a, b) => a.date.localeCompare(b.date));
+    expect(usage.map((u) => [u.date, u.input])).toEqual([["2026-01-30", 100], ["2026-01-31", 20]]);
+  });
+
+  it("waits for an unterminated partial record to complete", () => {
+    const record = assistant("2026-01-31T09:05:00Z", 1, 1);
+    fs.appendFileSync(sessionFile, record.slice(0, 20));
+    refresh();
+    expect(getIndexedSessions(PROJECT)[0].messageCount).toBe(3);
+
+    fs.appendFileSync(sessionFile, record.slice(20));
+    refresh();
+    expect(getIndexedSessions(PROJECT)[0].messageCount).toBe(4);
+  });
+
+  it("rebuilds a file that was rewritten shorter", () => {
+    fs.writeFileSync(sessionFile, assistant("2026-01-30T10:00:05Z", 7, 3));
+    refresh();
+
+    const [s] = getIndexedSessions(PROJECT);
+    expect(s.messageCount).toBe(1);
+    expect(s.usage.input).toBe(7);
+    expect(getIndexedUsage()).toHaveLength(1);
+  });
+
+  it("serves listSessions and getTokenSummary from the index", () => {
+    const [info] = listSessions(PROJECT);
+    expect(info.id).toBe("s1");
+    expect(info.provider).toBe("claude");
+
+    const summary = getTokenSummary();
+    expect(summary.sessionCount).toBe(1);
+    expect(summary.totalInput).toBe(7);
+    expect(summary.byDate["2026-01-30"].sessions).toBe(1);
+    expect(summary.byModel["claude-sonnet-4-5"].sessions).toBe(1);
+    expect(getTokenSummary("codex").sessionCount).toBe(0);
+  });
+
+  it("tracks cache writes by TTL tier and prices them above plain input", () => {
+    fs.appendFileSync(
+      sessionFile,
+      line({
+        type: "assistant",
+        timestamp: "2026-01-30T11:00:00Z",
+        message: {
+          role: "assistant",
+          model: "claude-sonnet-4-5",
+          content: [{ type: "text", text: "ok" }],
+          usage: {
+            input_tokens: 0,
+            output_tokens: 0,
+            cache_creation_input_tokens: 1_000_000,
+            cache_creation: { ephemeral_5m_input_tokens: 600_000, ephemeral_1h_input_tokens: 400_000 },
+          },
+        },
+      }),
+    );
+    refresh();
+
+    const [s] = getIndexedSessions(PROJECT);
+    expect(s.usage.cacheWrite5m).toBe(600_000);
+    expect(s.usage.cacheWrite1h).toBe(400_000);
+
+    const summary = getTokenSummary();
+    expect(summary.totalCacheWrite).toBe(1_000_000);
+    expect(summary.byDate["2026-01-30"].cacheWrite).toBe(1_000_000);
+    // Sonnet input $3/M: 0.6M × 1.25 + 0.4M × 2 = 1.55M input-equivalents
+    expect(summary.byModel["claude-sonnet-4-5"].cost).toBeCloseTo((7 * 3 + 3 * 15) / 1e6 + 1.55 * 3, 6);
+    expect(summary.inputCost).toBeCloseTo((7 * 3) / 1e6, 9);
+    expect(summary.outputCost).toBeCloseTo((3 * 15) / 1e6, 9);
+
+    // The budget ledger splits the same cost by project, provider and model
+    const ledger = getCostLedger();
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0]).toMatchObject({ date: "2026-01-30", provider: "claude", model: "claude-sonnet-4-5" });
+    expect(ledger[0].cost).toBeCloseTo(summary.totalCost, 6);
+  });
+
+  it("costs a mixed-model session per bucket, matching the token summary", () => {
+    fs.appendFileSync(
+      sessionFile,
+      line({
+        type: "assistant",
+        timestamp: "2026-01-31T09:00:00Z",
+        message: {
+          role: "assistant",
+          model: "claude-opus-4-1",
+          content: [{ type: "text", text: "ok" }],
+          usage: { input_tokens: 1_000_000, output_tokens: 0 },
+        },
+      }),
+    );
+    refresh();
+
+    const [session] = listSessions(PROJECT);
+    // The session's first model is Sonnet; the Opus bucket is still billed at Opus rates
+    expect(session.model).toBe("claude-sonnet-4-5");
+    expect(session.estimatedCost).toBeCloseTo(getTokenSummary().totalCost, 9);
+    expect(session.estimatedCost).toBeGreaterThan(15);
+  });
+
+  it("searches message text and tool inputs with filters", () => {
+    fs.appendFileSync(
+      sessionFile,
+      line({
+        type: "assistant",
+        uuid: "m-tool",
+        timestamp: "2026-01-31T12:00:00Z",
+        message: {
+          role: "assistant",
+          model: "claude-sonnet-4-5",
+          content: [
+            { type: "text", text: "Refactoring the LoginForm component" },
+            { type: "tool_use", name: "Edit", input: { file_path: "/home/me/app/login.tsx" } },
+          ],
+        },
+      }),
+    );
+    refresh();
+
+    const byText = searchTranscripts({ query: "loginform" });
+    expect(byText).toHaveLength(1);
+    expect(byText[0]).toMatchObject({ messageUuid: "m-tool", kind: "text", sessionId: "s1" });
+
+    expect(searchTranscripts({ query: "login.tsx" })[0].kind).toBe("tool");
+    expect(searchTranscripts({ query: "loginform", project: "other" })).toHaveLength(0);
+    expect(searchTranscripts({ query: "loginform", model: "opus" })).toHaveLength(0);
+    expect(searchTranscripts({ query: "loginform", from: "2026-02-01" })).toHaveLength(0);
+  });
+
+  it("records tool calls and completes them when the result arrives later", () => {
+    fs.appendFileSync(
+      sessionFile,
+      line({
+        type: "assistant",
+        timestamp: "2026-01-31T13:00:00.000Z",
+        message: {
+          role: "assistant",
+          model: "claude-sonnet-4-5",
+          content: [
+            { type: "tool_use", id: "tu-1", name: "Bash", input: { command: "npm test" } },
+            { type: "tool_use", id: "tu-2", name: "mcp__github__get_issue", input: {} },
+          ],
+          usage: { input_tokens: 100, output_tokens: 40 },
+        },
+      }),
+    );
+    refresh();
+
+    let calls = getIndexedToolCalls().sort((a, b) => a.toolUseId.localeCompare(b.toolUseId));
+    expect(calls).toHaveLength(2);
+    expect(calls[0]).toMatchObject({ name: "Bash", detail: "npm test", isError: null, durationMs: null });
+    expect(calls[0].usage.output).toBe(20);
+
+    fs.appendFileSync(
+      sessionFile,
+      line({
+        type: "user",
+        timestamp: "2026-01-31T13:00:02.500Z",
+        message: { role: "user", content: [{ type: "tool_result", tool_use_id: "tu-1", is_error: true, content: "1 failing" }] },
+      }),
+    );
+    refresh();
+
+    calls = getIndexedToolCalls().sort((a, b) => a.toolUseId.localeCompare(b.toolUseId));
+    expect(calls[0]).toMatchObject({ isError: true, durationMs: 2500 });
+    expect(calls[1].isError).toBeNull();
+    expect(getIndexedToolCalls("2026-02-01")).toHaveLength(0);
+  });
+
+  it("splits usage by the git branch each message was recorded on", () => {
+    const onBranch = (ts: string, input: number): string =>
+      JSON.stringify({ ...JSON.parse(assistant(ts, input, 10)), gitBranch: "feat/login" }) + "\n";
+    fs.appendFileSync(sessionFile, onBranch("2026-01-31T14:00:00Z", 500) + onBranch("2026-01-31T15:00:00Z", 300));
+    refresh();
+
+    expect(getIndexedSessions(PROJECT)[0].gitBranch).toBe("feat/login");
+    const rows = getIndexedUsage().filter((u) => u.branch === "feat/login");
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ date: "2026-01-31", input: 800, output: 20 });
+
+    // Hourly buckets keep the span of messages for 5-hour billing blocks
+    expect(getIndexedHourlyUsage("2026-01-31T14")).toEqual([
+      expect.objectContaining({
+        hour: "2026-01-31T14", input: 500, messages: 1,
+        firstAt: Date.parse("2026-01-31T14:00:00Z"), lastAt: Date.parse("2026-01-31T14:00:00Z"),
+      }),
+      expect.objectContaining({ hour: "2026-01-31T15", input: 300, messages: 1 }),
+    ]);
+
+    const repos = getBranchUsage();
+    expect(repos).toHaveLength(1);
+    expect(repos[0].sessions).toBe(1);
+    const feature = repos[0].branches.find((b) => b.branch === "feat/login");
+    expect(feature).toMatchObject({ input: 800, output: 20, sessions: 1 });
+    expect(repos[0].branches.map((b) => b.branch).sort()).toEqual(["", "feat/login"]);
+    expect(repos[0].cost).toBeCloseTo(repos[0].branches.reduce((sum, b) => sum + b.cost, 0), 9);
+    expect(getBranchUsage("codex")).toHaveLength(0);
+  });
+
+  it("drops rows for deleted files", () => {
+    fs.rmSync(sessionFile);
+    refresh();
+    expect(getIndexedSessions(PROJECT)).toHaveLength(0);
+    expect(getIndexedUsage()).toHaveLength(0);
+    expect(getIndexedHourlyUsage()).toHaveLength(0);
+    expect(getIndexedToolCalls()).toHaveLength(0);
+  });
+});
+
+describe("gemini chats", () => {
+  const hash = crypto.createHash("sha256").update("/home/me/app").digest("hex");
+  const chatFile = path.join(tmpHome, ".gemini", "tmp", hash, "chats", "session-2026-02-03T09-00-g1aaaaaa.json");
+  const SESSION_ID = "g1aaaaaa-1111-2222-3333-444444444444";
+
+  function writeChat(messages: Record<string, unknown>[]): void {
+    fs.mkdirSync(path.dirname(chatFile), { recursive: true });
+    fs.writeFileSync(chatFile, JSON.stringify({
+      sessionId: SESSION_ID, projectHash: hash,
+      startTime: "2026-02-03T09:00:00.000Z", lastUpdated: messages[messages.length - 1].timestamp,
+      messages,
+    }, null, 2));
+  }
+
+  const turn = [
+    { id: "m1", type: "user", timestamp: "2026-02-03T09:00:00.000Z", content: "run the tests" },
+    {
+      id: "m2", type: "gemini", timestamp: "2026-02-03T09:00:05.000Z", content: "Running them.", model: "gemini-2.5-pro",
+      tokens: { input: 1000, output: 100, cached: 400, thoughts: 50, tool: 0, total: 1150 },
+      toolCalls: [{
+        id: "tc1", name: "run_shell_command", args: { command: "npm test" }, status: "error",
+        timestamp: "2026-02-03T09:00:04.000Z", resultDisplay: "1 failing",
+      }],
+    },
+  ];
+
+  it("indexes a chat file with per-message usage, tool calls and its directory", () => {
+    fs.writeFileSync(sessionFile, line({ type: "user", timestamp: "2026-02-03T08:00:00Z", cwd: "/home/me/app", message: { role: "user", content: "hi" } }));
+    writeChat(turn);
+    refresh();
+
+    const [s] = getIndexedSessions("__gemini__");
+    expect(s).toMatchObject({
+      sessionId: SESSION_ID, source: "gemini", cwd: "/home/me/app",
+      messageCount: 2, firstMessage: "run the tests", model: "gemini-2.5-pro",
+    });
+    expect(s.usage).toEqual({ input: 600, output: 150, cacheRead: 400, cacheWrite5m: 0, cacheWrite1h: 0 });
+    expect(getIndexedToolCalls().find((c) => c.toolUseId === "tc1")).toMatchObject({
+      name: "run_shell_command", detail: "npm test", isError: true, durationMs: null,
+    });
+  });
+
+  it("re-reads the whole file when the CLI rewrites it", () => {
+    writeChat([
+      ...turn,
+      { id: "m3", type: "user", timestamp: "2026-02-04T10:00:00.000Z", content: "again" },
+      {
+        id: "m4", type: "gemini", timestamp: "2026-02-04T10:00:03.000Z", content: "Done.", model: "gemini-2.5-pro",
+        tokens: { input: 2000, output: 20, cached: 1000 },
+      },
+    ]);
+    refresh();
+
+    const [s] = getIndexedSessions("__gemini__");
+    expect(s.messageCount).toBe(4);
+    expect(s.usage.input).toBe(1600);
+    expect(getIndexedUsage().filter((u) => u.filePath === chatFile).map((u) => u.date).sort()).toEqual(["2026-02-03", "2026-02-04"]);
+
+    const summary = getTokenSummary("gemini");
+    expect(summary.sessionCount).toBe(1);
+    expect(summary.byModel["gemini-2.5-pro"]).toMatchObject({ input: 1600, output: 170, cacheRead: 1400, sessions: 1 });
+    expect(summary.unpricedModels).toEqual([]);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("marks every term occurrence inside the window", () => {
+    const segments = buildSnippet("fix the Login bug, then login again", ["login"]);
+    expect(segments.filter((s) => s.match).map((s) => s.text)).toEqual(["Login", "login"]);
+    expect(segments.map((s) => s.text).join("")).toBe("fix the Login bug, then login again");
+  });
+
+  it("adds ellipses when the match is far into the text", () => {
+    const segments = buildSnippet("x".repeat(500) + " needle " + "y".repeat(500), ["needle"], 20);
+    const text = segments.map((s) => s.text).join("");
+    expect(text.startsWith("…")).toBe(true);
+    expect(text.endsWith("…")).toBe(true);
+    expect(text).toContain("needle");
+  });
+});
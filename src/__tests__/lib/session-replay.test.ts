@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { adjacentEvent, buildReplayTimeline, replaySnapshot, IDLE_GAP_MS } from "@/lib/session-replay";
+import type { SessionMessage } from "@/lib/session-reader";
+
+const T0 = Date.parse("2026-02-01T10:00:00.000Z");
+
+function msg(uuid: string, offsetMs: number, extra: Partial<SessionMessage> = {}): SessionMessage {
+  return {
+    uuid, parentUuid: null, role: "assistant", type: "assistant", content: uuid,
+    timestamp: new Date(T0 + offsetMs).toISOString(), ...extra,
+  };
+}
+
+// Prompt, a tool call whose result takes 3s, then a reply after a 10 minute pause
+const messages = [
+  msg("u1", 0, { role: "user", type: "user", isCheckpoint: true }),
+  msg("a1", 1000, {
+    inputTokens: 100, outputTokens: 20, cost: 0.01,
+    toolUse: [{ id: "t1", name: "Bash", result: "ok", isError: false, durationMs: 3000 }],
+  }),
+  msg("a2", 601_000, { inputTokens: 50, outputTokens: 10, cost: 0.02 }),
+];
+
+describe("session replay", () => {
+  it("plays on the original timing", () => {
+    const timeline = buildReplayTimeline(messages, false);
+    expect(timeline.duration).toBe(601_000);
+
+    const early = replaySnapshot(messages, timeline, 2000);
+    expect(early.messages.map((m) => m.uuid)).toEqual(["u1", "a1"]);
+    expect(early.messages[1].toolUse?.[0].result).toBeUndefined();
+    expect(early.cost).toBeCloseTo(0.01);
+
+    const later = replaySnapshot(messages, timeline, 4000);
+    expect(later.messages[1].toolUse?.[0]).toMatchObject({ result: "ok", durationMs: 3000 });
+    expect(later.inputTokens).toBe(100);
+  });
+
+  it("shortens idle gaps when skipping", () => {
+    const timeline = buildReplayTimeline(messages, true);
+    // 1s, then the 3s tool run and the 10 min pause each capped
+    expect(timeline.duration).toBe(1000 + 2 * IDLE_GAP_MS);
+    const end = replaySnapshot(messages, timeline, timeline.duration);
+    expect(end.messages).toHaveLength(3);
+    expect(end.cost).toBeCloseTo(0.03);
+  });
+
+  it("steps between events", () => {
+    const timeline = buildReplayTimeline(messages, true);
+    const next = adjacentEvent(timeline, 0, 1);
+    expect(replaySnapshot(messages, timeline, next).messages).toHaveLength(2);
+    expect(adjacentEvent(timeline, next, -1)).toBe(0);
+  });
+});
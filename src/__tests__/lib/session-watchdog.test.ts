@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { detectStalls, DEFAULT_WATCHDOG_CONFIG } from "@/lib/session-watchdog";
+import type { SessionInfo } from "@/lib/session-reader";
+import type { IndexedToolCall } from "@/lib/session-index";
+import type { ProcessInfo } from "@/lib/process-reader";
+
+const NOW = Date.parse("2026-03-01T12:00:00.000Z");
+const MIN = 60_000;
+
+function session(id: string, status: SessionInfo["status"], idleMs: number, project = "-home-me-app"): SessionInfo {
+  return {
+    id, project, projectName: "app", startTime: NOW - 60 * MIN, lastActive: NOW - idleMs,
+    messageCount: 4, provider: "claude", totalInputTokens: 0, totalOutputTokens: 0,
+    cacheReadTokens: 0, cacheWriteTokens: 0, estimatedCost: 0, status,
+  };
+}
+
+function call(sessionId: string, minuteAgo: number, isError: boolean | null, name = "Bash"): IndexedToolCall {
+  return {
+    filePath: `/x/${sessionId}.jsonl`, sessionId, project: "-home-me-app", source: "claude", cwd: "/home/me/app",
+    toolUseId: `t-${minuteAgo}`, name, model: "claude-sonnet-4-5",
+    timestamp: new Date(NOW - minuteAgo * MIN).toISOString(), isError, durationMs: 100,
+    usage: { input: 0, output: 0, cacheRead: 0, cacheWrite5m: 0, cacheWrite1h: 0 },
+    detail: "npm test",
+  };
+}
+
+const RUNNING: ProcessInfo[] = [{ pid: 42, name: "claude", startTime: "", memoryMB: 100 }];
+
+describe("detectStalls", () => {
+  it("reports a session waiting past the threshold", () => {
+    const stalls = detectStalls(
+      [session("w1", "waiting", 12 * MIN), session("w2", "waiting", 2 * MIN)],
+      [], RUNNING, DEFAULT_WATCHDOG_CONFIG, NOW,
+    );
+    expect(stalls).toHaveLength(1);
+    expect(stalls[0]).toMatchObject({ sessionId: "w1", reason: "waiting", since: NOW - 12 * MIN });
+  });
+
+  it("dates an error loop from the first failure of the trailing run", () => {
+    const calls = [call("e1", 9, false), call("e1", 8, true), call("e1", 7, true), call("e1", 6, true), call("e1", 5, null)];
+    const [stall] = detectStalls([session("e1", "thinking", 0)], calls, RUNNING, DEFAULT_WATCHDOG_CONFIG, NOW);
+    expect(stall).toMatchObject({ reason: "error-loop", since: NOW - 8 * MIN });
+    expect(stall.detail).toContain("3 failed tool calls in a row (Bash)");
+
+    // A further failure extends the same episode
+    const [again] = detectStalls([session("e1", "thinking", 0)], [...calls, call("e1", 4, true)], RUNNING, DEFAULT_WATCHDOG_CONFIG, NOW);
+    expect(again.since).toBe(stall.since);
+  });
+
+  it("ignores failures followed by a success", () => {
+    const calls = [call("e2", 9, true), call("e2", 8, true), call("e2", 7, true), call("e2", 6, false)];
+    expect(detectStalls([session("e2", "thinking", 0)], calls, RUNNING, DEFAULT_WATCHDOG_CONFIG, NOW)).toEqual([]);
+  });
+
+  it("flags active Claude sessions when no process is running", () => {
+    const stalls = detectStalls(
+      [session("p1", "writing", MIN), session("p2", "completed", MIN), session("p3", "thinking", MIN, "__codex__")],
+      [], [], DEFAULT_WATCHDOG_CONFIG, NOW,
+    );
+    expect(stalls.map((s) => [s.sessionId, s.reason])).toEqual([["p1", "process-exited"]]);
+  });
+});
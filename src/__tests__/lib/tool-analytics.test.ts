@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import fs from "fs";
+
+const { tmpHome } = await vi.hoisted(async () => {
+  const nodeFs = await import("fs");
+  const nodeOs = await import("os");
+  const nodePath = await import("path");
+  return { tmpHome: nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), "scc-tools-")) };
+});
+
+vi.mock("os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("os")>();
+  return {
+    ...actual,
+    default: { ...actual, homedir: () => tmpHome },
+    homedir: () => tmpHome,
+  };
+});
+
+import { aggregateToolCalls, parseMcpToolName, percentile, weekStart } from "@/lib/tool-analytics";
+import type { IndexedToolCall } from "@/lib/session-index";
+import { emptyUsage } from "@/lib/token-usage";
+
+fs.mkdirSync(`${tmpHome}/.claude`, { recursive: true });
+
+afterAll(() => {
+  fs.rmSync(tmpHome, { recursive: true, force: true });
+});
+
+function call(name: string, overrides: Partial<IndexedToolCall> = {}): IndexedToolCall {
+  return {
+    filePath: "/x.jsonl", sessionId: "s1", project: "-home-me-app", source: "claude", cwd: "/home/me/app",
+    toolUseId: Math.random().toString(36), name, model: "claude-sonnet-4-5", timestamp: "2026-01-28T10:00:00Z",
+    isError: false, durationMs: 100, usage: emptyUsage(), detail: "", ...overrides,
+  };
+}
+
+describe("tool analytics helpers", () => {
+  it("splits MCP tool names", () => {
+    expect(parseMcpToolName("mcp__github__get_issue")).toEqual({ server: "github", tool: "get_issue" });
+    expect(parseMcpToolName("Bash")).toBeNull();
+  });
+
+  it("computes nearest-rank percentiles", () => {
+    const sorted = Array.from({ length: 20 }, (_, i) => i + 1);
+    expect(percentile(sorted, 0.5)).toBe(10);
+    expect(percentile(sorted, 0.95)).toBe(19);
+    expect(percentile([], 0.5)).toBeNull();
+  });
+
+  it("buckets timestamps by Monday-based UTC week", () => {
+    expect(weekStart("2026-01-28T10:00:00Z")).toBe("2026-01-26");
+    expect(weekStart("2026-02-01T23:00:00Z")).toBe("2026-01-26");
+    expect(weekStart("2026-02-02T00:00:00Z")).toBe("2026-02-02");
+  });
+});
+
+describe("aggregateToolCalls", () => {
+  it("aggregates errors, latency, cost, MCP servers and failing commands", () => {
+    const result = aggregateToolCalls([
+      call("Bash", { detail: "npm test", isError: true, durationMs: 3000 }),
+      call("Bash", { detail: "npm test", isError: true, durationMs: 1000 }),
+      call("Bash", { detail: "ls", durationMs: 10, usage: { ...emptyUsage(), output: 1_000_000 } }),
+      call("mcp__github__get_issue", { isError: null, durationMs: null }),
+      call("mcp__github__list_prs", { model: "claude-opus-4-6", timestamp: "2026-02-03T10:00:00Z" }),
+    ], "week");
+
+    const bash = result.tools.find((t) => t.name === "Bash")!;
+    expect(bash).toMatchObject({ calls: 3, completed: 3, errors: 2, p50Ms: 1000, p95Ms: 3000 });
+    expect(bash.errorRate).toBeCloseTo(2 / 3);
+    // Sonnet output $15/M
+    expect(bash.cost).toBeCloseTo(15);
+
+    expect(result.mcpServers).toEqual([
+      expect.objectContaining({ name: "github", calls: 2, completed: 1, errors: 0 }),
+    ]);
+    expect(result.failingCommands).toEqual([
+      expect.objectContaining({ command: "npm test", calls: 2, failures: 2 }),
+    ]);
+    expect(result.breakdown.map((g) => [g.key, g.totals.calls])).toEqual([["2026-02-02", 1], ["2026-01-26", 4]]);
+    expect(result.totals.calls).toBe(5);
+  });
+});
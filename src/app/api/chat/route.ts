@@ -4,6 +4,10 @@ import { existsSync, realpathSync } from "fs";
 import { homedir } from "os";
 import { resolve } from "path";
 import { registry } from "@/lib/providers";
+import { budgetStopReason } from "@/lib/cost-budgets";
+import { recordRateLimit } from "@/lib/rate-limits";
+import { parseRateLimitEvent } from "@/lib/chat-types";
+import type { ProviderEvent } from "@/lib/providers/provider-interface";
 
 // Allow long-running CLI invocations
 export const maxDuration = 300;
@@ -88,6 +92,15 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Hard stop: refuse new runs while a cost budget covering them is exceeded
+    const stopReason = budgetStopReason({ project: cwd || undefined, provider: provider.name, model: model || undefined });
+    if (stopReason) {
+      return new Response(
+        JSON.stringify({ error: stopReason }),
+        { status: 402, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
     // Build command using provider
     const { binary, args, env } = provider.buildCommand(message.trim(), {
       sessionId,
@@ -137,6 +150,23 @@ export async function POST(req: NextRequest) {
           try { controller.close(); } catch { /* already closed */ }
         };
 
+        // Rate limit states are logged and forwarded, but are not model output
+        const forward = (event: ProviderEvent) => {
+          if (event.type === "rate_limit") {
+            const info = parseRateLimitEvent(event.raw);
+            if (info) {
+              try {
+                recordRateLimit(info, { source: "chat", provider: provider.name, sessionId: (event.raw.session_id as string) || sessionId || undefined });
+              } catch (err) {
+                console.error("[Chat API] Failed to record rate limit:", err);
+              }
+            }
+          } else {
+            hasOutput = true;
+          }
+          safeEnqueue(`data: ${JSON.stringify(event.raw)}\n\n`);
+        };
+
         child.stdout.on("data", (chunk: Buffer) => {
           buffer += chunk.toString("utf-8");
           const lines = buffer.split("\n");
@@ -148,10 +178,7 @@ export async function POST(req: NextRequest) {
 
             // Let the provider parse and normalize the event
             const event = provider.parseEvent(trimmed);
-            if (event) {
-              hasOutput = true;
-              safeEnqueue(`data: ${JSON.stringify(event.raw)}\n\n`);
-            }
+            if (event) forward(event);
           }
         });
 
@@ -177,10 +204,7 @@ export async function POST(req: NextRequest) {
           // Flush remaining buffer
           if (buffer.trim()) {
             const event = provider.parseEvent(buffer.trim());
-            if (event) {
-              hasOutput = true;
-              safeEnqueue(`data: ${JSON.stringify(event.raw)}\n\n`);
-            }
+            if (event) forward(event);
           }
           // If CLI exited with error, always send error event
           if (code !== 0) {
@@ -1,9 +1,9 @@
 import { NextResponse } from "next/server";
-import { getClaudeProcesses } from "@/lib/process-reader";
+import { getClaudeProcesses, getProcessHistory } from "@/lib/process-reader";
 
 export const dynamic = "force-dynamic";
 
 export function GET() {
-  const processes = getClaudeProcesses();
+  const processes = getClaudeProcesses().map((p) => ({ ...p, history: getProcessHistory(p.pid) }));
   return NextResponse.json({ processes, count: processes.length });
 }
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionChanges } from "@/lib/file-changes";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ project: string; id: string }> }
+) {
+  const { project, id } = await params;
+  if (project === "__codex__" || project === "__gemini__") {
+    return NextResponse.json({ files: [], totalAdded: 0, totalRemoved: 0 });
+  }
+  const changes = getSessionChanges(project, id);
+  if (!changes) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+  return NextResponse.json(changes);
+}
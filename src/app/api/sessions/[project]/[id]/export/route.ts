@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import os from "os";
+import { getSessionDetail } from "@/lib/session-reader";
+import { EXPORT_FORMATS, buildSessionExport, renderSessionExport } from "@/lib/session-export";
+import type { ExportFormat } from "@/lib/session-export";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET ?format=md|html|json (default md)
+ *     &redact=1 masks API keys, tokens, emails and home paths
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ project: string; id: string }> }
+) {
+  const { project, id } = await params;
+  const format = (req.nextUrl.searchParams.get("format") ?? "md") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+  const redact = ["1", "true"].includes(req.nextUrl.searchParams.get("redact") ?? "");
+
+  const detail = getSessionDetail(project, id);
+  if (!detail) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  const exp = buildSessionExport(detail, { redact: redact && { home: os.homedir() } });
+  const { body, contentType, ext } = renderSessionExport(exp, format);
+  const date = (detail.startTime || exp.exportedAt).split("T")[0];
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="session-${id.slice(0, 8)}-${date}${redact ? "-redacted" : ""}.${ext}"`,
+    },
+  });
+}
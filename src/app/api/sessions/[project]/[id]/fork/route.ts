@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { forkSession } from "@/lib/session-fork";
+
+export const dynamic = "force-dynamic";
+
+/** Body: { uuid } of the checkpoint (user message) to fork before */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ project: string; id: string }> }
+) {
+  const { project, id } = await params;
+  if (project === "__codex__" || project === "__gemini__") {
+    return NextResponse.json({ error: "Only Claude sessions can be forked" }, { status: 400 });
+  }
+  const body = await req.json().catch(() => ({}));
+  if (!body.uuid || typeof body.uuid !== "string") {
+    return NextResponse.json({ error: "uuid is required" }, { status: 400 });
+  }
+
+  try {
+    const fork = forkSession(project, id, body.uuid);
+    if (!fork) {
+      return NextResponse.json({ error: "Session or message not found, or nothing precedes it" }, { status: 404 });
+    }
+    return NextResponse.json(fork);
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Failed to fork session" }, { status: 500 });
+  }
+}
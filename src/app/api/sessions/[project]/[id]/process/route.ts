@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProcessHistory, getSessionProcess, stopSessionProcess } from "@/lib/process-reader";
+import type { StopSignal } from "@/lib/process-reader";
+
+export const dynamic = "force-dynamic";
+
+const SIGNALS: StopSignal[] = ["SIGINT", "SIGTERM"];
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ project: string; id: string }> }
+) {
+  const { project, id } = await params;
+  const proc = getSessionProcess(project, id);
+  return NextResponse.json({ process: proc, history: proc ? getProcessHistory(proc.pid) : [] });
+}
+
+/** Body: { signal: "SIGINT" | "SIGTERM" } */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ project: string; id: string }> }
+) {
+  const { project, id } = await params;
+  const body = await req.json().catch(() => ({}));
+  const signal = body.signal ?? "SIGINT";
+  if (!SIGNALS.includes(signal)) {
+    return NextResponse.json({ error: `signal must be one of: ${SIGNALS.join(", ")}` }, { status: 400 });
+  }
+
+  try {
+    const pid = stopSessionProcess(project, id, signal);
+    if (pid === null) {
+      return NextResponse.json({ error: "No running process for this session" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, pid, signal });
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Failed to signal process" }, { status: 500 });
+  }
+}
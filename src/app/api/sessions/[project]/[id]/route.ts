@@ -1,16 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getSessionDetail } from "@/lib/session-reader";
+import { getSessionPage } from "@/lib/session-reader";
 
 export const dynamic = "force-dynamic";
 
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ project: string; id: string }> }
 ) {
   const { project, id } = await params;
-  const detail = getSessionDetail(project, id);
-  if (!detail) {
+  const query = req.nextUrl.searchParams;
+
+  const cursor = query.get("cursor") || undefined;
+  if (cursor !== undefined && !/^\d+$/.test(cursor)) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+  const direction = query.get("direction") || "backward";
+  if (direction !== "forward" && direction !== "backward") {
+    return NextResponse.json({ error: "direction must be forward or backward" }, { status: 400 });
+  }
+  const limit = parseInt(query.get("limit") || "", 10) || undefined;
+
+  const page = getSessionPage(project, id, { cursor, limit, direction });
+  if (!page) {
     return NextResponse.json({ error: "Session not found" }, { status: 404 });
   }
-  return NextResponse.json(detail);
+  return NextResponse.json(page);
 }
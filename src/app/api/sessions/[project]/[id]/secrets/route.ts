@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionSecrets, redactSessionSecrets } from "@/lib/secret-scanner";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ project: string; id: string }> }
+) {
+  const { project, id } = await params;
+  return NextResponse.json({ findings: getSessionSecrets(project, id) });
+}
+
+/** Mask every finding in the transcript itself, keeping a backup of the original */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ project: string; id: string }> }
+) {
+  const { project, id } = await params;
+  try {
+    const result = redactSessionSecrets(project, id);
+    if (!result) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Failed to redact session" }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Receiver for the dashboard's Claude Code lifecycle hooks.
+ *
+ * POST  hook payload as Claude Code writes it to the hook's stdin
+ *       → 204; the session's exact state is updated
+ * GET   install status: { events, installed, command }
+ *       ?session=ID → { events: recent hook events of that session }
+ *
+ * Installing goes through /api/toolbox/hooks with `command` for each missing event.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SESSION_HOOK_EVENTS, getHookEvents, isSessionHookCommand, recordHookEvent, sessionHookCommand,
+} from "@/lib/session-hooks";
+import { notifyHookEvent } from "@/lib/session-watcher";
+import { getHooksConfig } from "@/lib/toolbox-reader";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest) {
+  let payload: unknown;
+  try {
+    payload = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const state = recordHookEvent(payload);
+  if (!state) {
+    return NextResponse.json(
+      { error: `Expected session_id and one of: ${SESSION_HOOK_EVENTS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    notifyHookEvent(state);
+  } catch (err) {
+    console.error("[SessionHooks] Failed to publish state:", err);
+  }
+  // Empty body: hook stdout is parsed by Claude Code
+  return new NextResponse(null, { status: 204 });
+}
+
+export function GET(req: NextRequest) {
+  const session = req.nextUrl.searchParams.get("session");
+  if (session) {
+    return NextResponse.json({ events: getHookEvents(session) });
+  }
+
+  const installed = new Set(
+    getHooksConfig().filter((h) => isSessionHookCommand(h.command)).map((h) => h.type),
+  );
+  return NextResponse.json({
+    events: SESSION_HOOK_EVENTS,
+    installed: SESSION_HOOK_EVENTS.filter((e) => installed.has(e)),
+    command: sessionHookCommand(req.nextUrl.origin),
+  });
+}
@@ -0,0 +1,70 @@
+import { NextRequest } from "next/server";
+import { subscribeLiveSessions } from "@/lib/session-watcher";
+import { liveEventSession } from "@/lib/live-events";
+import type { LiveEvent } from "@/lib/live-events";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 15_000;
+
+/**
+ * GET /api/sessions/live
+ *
+ * SSE stream of LiveEvents. Session-level events (created, updated, status)
+ * are always sent; message events only for the session named by the
+ * optional `project` and `id` query params.
+ */
+export function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const project = searchParams.get("project");
+  const id = searchParams.get("id");
+  const encoder = new TextEncoder();
+
+  const wants = (event: LiveEvent): boolean => {
+    if (event.type !== "session.messages" && event.type !== "session.changed") return true;
+    const s = liveEventSession(event);
+    return s.project === project && s.sessionId === id;
+  };
+
+  let cleanup = () => {};
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeLiveSessions((event) => {
+        if (wants(event)) send(`data: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try { controller.close(); } catch { /* already closed */ }
+      };
+      req.signal.addEventListener("abort", cleanup);
+
+      send(`data: ${JSON.stringify({ type: "ready" })}\n\n`);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
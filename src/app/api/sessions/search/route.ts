@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchSessions } from "@/lib/session-reader";
+
+export const dynamic = "force-dynamic";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const query = (params.get("q") || "").trim();
+  if (!query) {
+    return NextResponse.json({ error: "q is required" }, { status: 400 });
+  }
+
+  const from = params.get("from") || undefined;
+  const to = params.get("to") || undefined;
+  if ((from && !DATE_RE.test(from)) || (to && !DATE_RE.test(to))) {
+    return NextResponse.json({ error: "from/to must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  const limit = Math.min(Math.max(parseInt(params.get("limit") || "50", 10) || 50, 1), 200);
+  const results = searchSessions({
+    query,
+    project: params.get("project") || undefined,
+    model: params.get("model") || undefined,
+    from,
+    to,
+    limit,
+  });
+  return NextResponse.json({ query, results });
+}
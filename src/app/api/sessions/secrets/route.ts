@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getSecretSummaries } from "@/lib/secret-scanner";
+
+export const dynamic = "force-dynamic";
+
+/** Sessions whose transcripts contain leaked secrets */
+export function GET() {
+  try {
+    return NextResponse.json({ sessions: getSecretSummaries() });
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Failed to scan sessions" }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { budgetTargets, getBudgetConfig, setBudgetConfig } from "@/lib/cost-budgets";
+import { getCostLedger } from "@/lib/session-reader";
+import type { BudgetConfig, ScopedBudget } from "@/lib/cost-budgets";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/settings/budgets
+ *
+ * Returns the cost budgets and alert settings, plus the projects, providers
+ * and models with recorded spend as suggested budget targets.
+ */
+export function GET() {
+  return NextResponse.json({ config: getBudgetConfig(), targets: budgetTargets(getCostLedger()) });
+}
+
+/**
+ * PUT /api/settings/budgets
+ *
+ * Body: any of { dailyBudget, weeklyBudget, monthlyBudget, budgets, hardStop, telegram, feishu }
+ * where budgets is the full list of { scope, target, period, amount }
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const update: Partial<BudgetConfig> = {};
+    if ("dailyBudget" in body) update.dailyBudget = Number(body.dailyBudget);
+    if ("weeklyBudget" in body) update.weeklyBudget = Number(body.weeklyBudget);
+    if ("monthlyBudget" in body) update.monthlyBudget = Number(body.monthlyBudget);
+    if ("budgets" in body) {
+      if (!Array.isArray(body.budgets)) throw new Error("budgets must be an array");
+      // Scope and period are checked by setBudgetConfig
+      update.budgets = body.budgets.map((b: Record<string, unknown>): ScopedBudget => ({
+        scope: b.scope as ScopedBudget["scope"],
+        target: typeof b.target === "string" ? b.target.trim() : "",
+        period: b.period as ScopedBudget["period"],
+        amount: Number(b.amount),
+      }));
+    }
+    if ("hardStop" in body) update.hardStop = !!body.hardStop;
+    if ("telegram" in body) update.telegram = !!body.telegram;
+    if ("feishu" in body) update.feishu = !!body.feishu;
+    return NextResponse.json({ success: true, config: setBudgetConfig(update) });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to save budget settings" },
+      { status: 400 }
+    );
+  }
+}
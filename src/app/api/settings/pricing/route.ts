@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPriceCatalog, setPriceOverride, deletePriceOverride } from "@/lib/pricing";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/settings/pricing
+ *
+ * Returns the merged pricing catalog (built-in + custom entries).
+ */
+export function GET() {
+  return NextResponse.json({ entries: getPriceCatalog() });
+}
+
+/**
+ * PUT /api/settings/pricing
+ *
+ * Body: { model, effectiveFrom, input, output, cacheRead?, cacheWrite5m?, cacheWrite1h? }
+ * Adds a custom entry or replaces the one with the same model and date.
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const entry = setPriceOverride({
+      model: String(body.model || ""),
+      effectiveFrom: String(body.effectiveFrom || ""),
+      input: Number(body.input),
+      output: Number(body.output),
+      cacheRead: body.cacheRead === undefined || body.cacheRead === "" ? undefined : Number(body.cacheRead),
+      cacheWrite5m: body.cacheWrite5m === undefined || body.cacheWrite5m === "" ? undefined : Number(body.cacheWrite5m),
+      cacheWrite1h: body.cacheWrite1h === undefined || body.cacheWrite1h === "" ? undefined : Number(body.cacheWrite1h),
+    });
+    return NextResponse.json({ success: true, entry, entries: getPriceCatalog() });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to save price" },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/settings/pricing?model=...&effectiveFrom=YYYY-MM-DD
+ *
+ * Removes a custom entry. Built-in entries cannot be deleted.
+ */
+export function DELETE(req: NextRequest) {
+  const model = req.nextUrl.searchParams.get("model");
+  const effectiveFrom = req.nextUrl.searchParams.get("effectiveFrom");
+  if (!model || !effectiveFrom) {
+    return NextResponse.json({ success: false, error: "model and effectiveFrom are required" }, { status: 400 });
+  }
+  const removed = deletePriceOverride(model, effectiveFrom);
+  if (!removed) {
+    return NextResponse.json({ success: false, error: "No custom price for that model and date" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, entries: getPriceCatalog() });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWatchdogConfig, setWatchdogConfig } from "@/lib/session-watchdog";
+import type { WatchdogConfig } from "@/lib/session-watchdog";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/settings/watchdog
+ *
+ * Returns the stalled-session watchdog settings.
+ */
+export function GET() {
+  return NextResponse.json({ config: getWatchdogConfig() });
+}
+
+/**
+ * PUT /api/settings/watchdog
+ *
+ * Body: any of { enabled, waitingMinutes, errorLoopCount, telegram, feishu }
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const update: Partial<WatchdogConfig> = {};
+    if ("enabled" in body) update.enabled = !!body.enabled;
+    if ("telegram" in body) update.telegram = !!body.telegram;
+    if ("feishu" in body) update.feishu = !!body.feishu;
+    if ("waitingMinutes" in body) update.waitingMinutes = Number(body.waitingMinutes);
+    if ("errorLoopCount" in body) update.errorLoopCount = Number(body.errorLoopCount);
+    return NextResponse.json({ success: true, config: setWatchdogConfig(update) });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to save watchdog settings" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBillingBlocks } from "@/lib/session-reader";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/tokens/blocks?days=7
+ *
+ * Claude usage in rolling 5-hour windows: tokens and equivalent API cost per
+ * block, plus the current block's burn rate and projected exhaustion time.
+ */
+export function GET(request: NextRequest) {
+  const days = parseInt(request.nextUrl.searchParams.get("days") || "7", 10);
+  return NextResponse.json(getBillingBlocks(Number.isFinite(days) && days > 0 ? Math.min(days, 90) : 7));
+}
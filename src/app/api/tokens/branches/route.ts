@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBranchUsage } from "@/lib/session-reader";
+import type { SessionProvider } from "@/lib/session-reader";
+
+export const dynamic = "force-dynamic";
+
+const VALID_PROVIDERS = new Set<SessionProvider>(["claude", "codex", "gemini", "unknown"]);
+
+/**
+ * GET /api/tokens/branches?provider=claude
+ *
+ * Cost and tokens per repository, each broken down by git branch.
+ */
+export function GET(request: NextRequest) {
+  const providerParam = request.nextUrl.searchParams.get("provider");
+  const provider = providerParam && VALID_PROVIDERS.has(providerParam as SessionProvider)
+    ? (providerParam as SessionProvider)
+    : undefined;
+  return NextResponse.json({ repositories: getBranchUsage(provider) });
+}
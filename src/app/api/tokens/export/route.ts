@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getTokenExportData, getTokenSummary } from "@/lib/session-reader";
+import { getBranchUsage, getTokenExportData, getTokenSummary } from "@/lib/session-reader";
 
 export const dynamic = "force-dynamic";
 
@@ -13,7 +13,7 @@ function escapeCSV(value: string | number): string {
 
 function generateDetailCSV(): string {
   const data = getTokenExportData();
-  const headers = ["Date", "Project", "Session ID", "Model", "Input Tokens", "Output Tokens", "Cache Read", "Est. Cost"];
+  const headers = ["Date", "Project", "Session ID", "Model", "Input Tokens", "Output Tokens", "Cache Read", "Cache Write", "Est. Cost"];
   const rows = [headers.join(",")];
 
   for (const row of data) {
@@ -25,6 +25,7 @@ function generateDetailCSV(): string {
       escapeCSV(row.inputTokens),
       escapeCSV(row.outputTokens),
       escapeCSV(row.cacheReadTokens),
+      escapeCSV(row.cacheWriteTokens),
       escapeCSV(row.estimatedCost.toFixed(4)),
     ].join(","));
   }
@@ -34,7 +35,7 @@ function generateDetailCSV(): string {
 
 function generateSummaryCSV(): string {
   const summary = getTokenSummary();
-  const headers = ["Date", "Sessions", "Input Tokens", "Output Tokens", "Cache Read", "Est. Cost"];
+  const headers = ["Date", "Sessions", "Input Tokens", "Output Tokens", "Cache Read", "Cache Write", "Est. Cost"];
   const rows = [headers.join(",")];
 
   const dateEntries = Object.entries(summary.byDate)
@@ -47,7 +48,8 @@ function generateSummaryCSV(): string {
       escapeCSV(stats.sessions),
       escapeCSV(stats.input),
       escapeCSV(stats.output),
-      escapeCSV(summary.totalCacheRead), // Note: byDate doesn't track cacheRead separately
+      escapeCSV(stats.cacheRead),
+      escapeCSV(stats.cacheWrite),
       escapeCSV(stats.cost.toFixed(4)),
     ].join(","));
   }
@@ -55,12 +57,35 @@ function generateSummaryCSV(): string {
   return rows.join("\n");
 }
 
+function generateBranchCSV(): string {
+  const headers = ["Repository", "Branch", "Sessions", "Input Tokens", "Output Tokens", "Cache Read", "Cache Write", "Est. Cost", "Last Active"];
+  const rows = [headers.join(",")];
+
+  for (const repo of getBranchUsage()) {
+    for (const b of repo.branches) {
+      rows.push([
+        escapeCSV(repo.repository),
+        escapeCSV(b.branch),
+        escapeCSV(b.sessions),
+        escapeCSV(b.input),
+        escapeCSV(b.output),
+        escapeCSV(b.cacheRead),
+        escapeCSV(b.cacheWrite),
+        escapeCSV(b.cost.toFixed(4)),
+        escapeCSV(b.lastActive ? new Date(b.lastActive).toISOString() : ""),
+      ].join(","));
+    }
+  }
+
+  return rows.join("\n");
+}
+
 export function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const type = searchParams.get("type") || "detail";
 
   const today = new Date().toISOString().split("T")[0];
-  const csv = type === "summary" ? generateSummaryCSV() : generateDetailCSV();
+  const csv = type === "summary" ? generateSummaryCSV() : type === "branch" ? generateBranchCSV() : generateDetailCSV();
   const filename = `claude-tokens-${type}-${today}.csv`;
 
   return new NextResponse(csv, {
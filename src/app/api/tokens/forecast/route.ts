@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { getSpendForecast } from "@/lib/cost-budgets";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/tokens/forecast
+ *
+ * Month-end spend projection and each budget's projection through its
+ * current period, with 90% bands and the day it is expected to run out.
+ */
+export function GET() {
+  return NextResponse.json(getSpendForecast());
+}
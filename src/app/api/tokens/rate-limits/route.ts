@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRateLimitOverview } from "@/lib/rate-limits";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/tokens/rate-limits?days=14
+ *
+ * Plan rate limit states reported by chat and queued runs: the current state
+ * of each window, daily warning and rejection counts, and recent limited events.
+ */
+export function GET(request: NextRequest) {
+  const days = parseInt(request.nextUrl.searchParams.get("days") || "14", 10);
+  return NextResponse.json(getRateLimitOverview(Number.isFinite(days) && days > 0 ? Math.min(days, 90) : 14));
+}
@@ -4,7 +4,7 @@ import type { SessionProvider } from "@/lib/session-reader";
 
 export const dynamic = "force-dynamic";
 
-const VALID_PROVIDERS = new Set<SessionProvider>(["claude", "codex", "unknown"]);
+const VALID_PROVIDERS = new Set<SessionProvider>(["claude", "codex", "gemini", "unknown"]);
 
 export function GET(request: NextRequest) {
   const providerParam = request.nextUrl.searchParams.get("provider");
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToolAnalytics } from "@/lib/tool-analytics";
+import type { ToolBreakdown } from "@/lib/tool-analytics";
+import type { IndexSource } from "@/lib/session-index";
+
+export const dynamic = "force-dynamic";
+
+const VALID_BREAKDOWNS = new Set<ToolBreakdown>(["project", "model", "week"]);
+const VALID_SOURCES = new Set<IndexSource>(["claude", "codex", "gemini"]);
+
+export function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const breakdown = params.get("breakdown");
+  const source = params.get("provider");
+  const days = Number(params.get("days"));
+  return NextResponse.json(getToolAnalytics({
+    days: Number.isFinite(days) && days > 0 ? days : undefined,
+    source: source && VALID_SOURCES.has(source as IndexSource) ? (source as IndexSource) : undefined,
+    breakdown: breakdown && VALID_BREAKDOWNS.has(breakdown as ToolBreakdown) ? (breakdown as ToolBreakdown) : undefined,
+  }));
+}
@@ -14,8 +14,12 @@ import { SplitView } from "@/components/chat/split-view";
 import { MarkdownContent } from "@/components/markdown-content";
 import { useToast } from "@/components/toast";
 import { useChatStream } from "@/hooks/use-chat-stream";
+import { useLiveSessions } from "@/hooks/use-live-sessions";
+import { useSessionPages } from "@/hooks/use-session-pages";
+import { useVirtualList } from "@/hooks/use-virtual-list";
+import { applyLiveMessages, upsertSession } from "@/lib/live-events";
 import type { LiveChatMessage, PermissionMode } from "@/lib/chat-types";
-import type { SessionInfo, SessionDetail } from "@/components/sessions/types";
+import type { SessionInfo } from "@/components/sessions/types";
 import {
   ArrowDown, MessageCircle, Search, X, ChevronsUp, ChevronsDown,
   Wrench, Download, RefreshCw, DollarSign, Send, User, Loader2,
@@ -36,7 +40,10 @@ function ChatPageContent() {
   // Session viewer state
   const [sessions, setSessions] = useState<SessionInfo[]>([]);
   const [selectedSessionKey, setSelectedSessionKey] = useState<string>("");
-  const [sessionDetail, setSessionDetail] = useState<SessionDetail | null>(null);
+  const [selectedProject, selectedId] = selectedSessionKey ? selectedSessionKey.split("|") : [null, null];
+  const {
+    detail: sessionDetail, loadingOlder, hasOlder, update: updateSessionDetail, reload: reloadSessionDetail, loadOlder,
+  } = useSessionPages(selectedProject, selectedId);
   const [loading, setLoading] = useState(false);
   const [loadingSessions, setLoadingSessions] = useState(true);
   const [autoRefresh, setAutoRefresh] = useState(true);
@@ -47,7 +54,8 @@ function ChatPageContent() {
   const [convSearchMatch, setConvSearchMatch] = useState(0);
 
   // Live chat state (via streaming hook)
-  const [chatInput, setChatInput] = useState("");
+  // Forks open with the original prompt to edit (?prompt=) and the directory the session resumes from (?cwd=)
+  const [chatInput, setChatInput] = useState(() => searchParams.get("prompt") ?? "");
   const [chatMode, setChatMode] = useState<"session" | "chat">("chat");
   const [claudeSessionId, setClaudeSessionId] = useState<string>("");
 
@@ -57,9 +65,10 @@ function ChatPageContent() {
 
   // Workspace settings (cwd + permission mode)
   const DEFAULT_CWD = "E:\\claude-projects";
-  const [chatCwd, setChatCwd] = useState<string>(DEFAULT_CWD);
+  const [chatCwd, setChatCwd] = useState<string>(() => searchParams.get("cwd") || DEFAULT_CWD);
   const [permissionMode, setPermissionMode] = useState<PermissionMode>("default");
   const [chatProvider, setChatProvider] = useState<string>("claude");
+  const providerLabel = chatProvider === "codex" ? "Codex" : chatProvider === "gemini" ? "Gemini" : "Claude";
   const [chatModel, setChatModel] = useState<string>("");
   const [compareMode, setCompareMode] = useState(false);
   const [compareRightProvider, setCompareRightProvider] = useState<string>("codex");
@@ -85,7 +94,7 @@ function ChatPageContent() {
 
   // Sync from localStorage after mount (avoids SSR hydration mismatch)
   useEffect(() => {
-    const savedCwd = localStorage.getItem("chat-cwd");
+    const savedCwd = new URLSearchParams(window.location.search).get("cwd") ? null : localStorage.getItem("chat-cwd");
     const savedPermission = localStorage.getItem("chat-permission-mode") as PermissionMode | null;
     const savedProvider = localStorage.getItem("chat-provider");
     const savedCompareRight = localStorage.getItem("chat-compare-right");
@@ -109,7 +118,7 @@ function ChatPageContent() {
   // Streaming hook
   const {
     messages: chatMessages, setMessages: setChatMessages,
-    sending: chatSending, currentPhase, elapsedMs,
+    sending: chatSending, currentPhase, elapsedMs, rateLimit,
     send: chatSend, cancel: chatCancel, clearMessages,
   } = useChatStream({
     onSessionId: setClaudeSessionId,
@@ -189,8 +198,9 @@ function ChatPageContent() {
     setClaudeSessionId("");
 
     // Auto-set provider based on session's provider (only if available)
-    const isCodexSession = selectedSessionKey.startsWith("__codex__|");
-    const sessionProvider = isCodexSession && availableProviders?.has("codex") ? "codex" : "claude";
+    const sessionSource = selectedSessionKey.startsWith("__codex__|") ? "codex"
+      : selectedSessionKey.startsWith("__gemini__|") ? "gemini" : "claude";
+    const sessionProvider = availableProviders?.has(sessionSource) ? sessionSource : "claude";
     setChatProvider(sessionProvider);
     localStorage.setItem("chat-provider", sessionProvider);
 
@@ -198,30 +208,30 @@ function ChatPageContent() {
       setLoading(true);
       setConvSearch("");
       setConvSearchMatch(0);
-      try {
-        const [project, id] = selectedSessionKey.split("|");
-        const res = await fetch(`/api/sessions/${encodeURIComponent(project)}/${id}`);
-        if (res.ok) {
-          const detail = await res.json();
-          setSessionDetail(detail);
-          lastMessageCountRef.current = detail.messages.length;
-        } else {
-          setSessionDetail(null);
-        }
-      } catch (err) {
-        console.error("Failed to fetch session detail:", err);
-        setSessionDetail(null);
-      } finally {
-        setLoading(false);
-      }
+      const detail = await reloadSessionDetail();
+      lastMessageCountRef.current = detail?.messageCount ?? 0;
+      setLoading(false);
     };
 
     fetchDetail();
-  }, [selectedSessionKey, clearMessages]);
+  }, [selectedSessionKey, clearMessages, reloadSessionDetail]);
+
+  // Live updates: session list always, messages of the viewed session while auto-refresh is on
+  const [liveProject, liveId] = selectedSessionKey.split("|");
+  const liveSession = autoRefresh && chatMode === "session" && selectedSessionKey ? { project: liveProject, id: liveId } : null;
+  const live = useLiveSessions((event) => {
+    if (event.type === "session.messages") {
+      updateSessionDetail((d) => applyLiveMessages(d, event));
+    } else if (event.type === "session.changed") {
+      reloadSessionDetail();
+    } else {
+      setSessions((list) => upsertSession(list, event.session).sort((a, b) => b.lastActive - a.lastActive));
+    }
+  }, { session: liveSession });
 
-  // Auto-refresh for active sessions
+  // Poll active sessions while the live stream is down
   useEffect(() => {
-    if (!selectedSessionKey || !sessionDetail || !autoRefresh || chatMode !== "session") return;
+    if (live || !selectedSessionKey || !sessionDetail || !autoRefresh || chatMode !== "session") return;
 
     const session = sessions.find((s) => `${s.project}|${s.id}` === selectedSessionKey);
     if (!session) return;
@@ -230,24 +240,15 @@ function ChatPageContent() {
     if (!isActive) return;
 
     const interval = setInterval(async () => {
-      try {
-        const [project, id] = selectedSessionKey.split("|");
-        const res = await fetch(`/api/sessions/${encodeURIComponent(project)}/${id}`);
-        if (res.ok) {
-          const detail = await res.json();
-          setSessionDetail(detail);
-          if (detail.messages.length > lastMessageCountRef.current) {
-            lastMessageCountRef.current = detail.messages.length;
-            scrollToBottom();
-          }
-        }
-      } catch (err) {
-        console.error("Auto-refresh failed:", err);
+      const detail = await reloadSessionDetail();
+      if (detail && detail.messageCount > lastMessageCountRef.current) {
+        lastMessageCountRef.current = detail.messageCount;
+        scrollToBottom();
       }
     }, 5000);
 
     return () => clearInterval(interval);
-  }, [selectedSessionKey, sessionDetail, sessions, autoRefresh, chatMode]);
+  }, [live, selectedSessionKey, sessionDetail, sessions, autoRefresh, chatMode, reloadSessionDetail]);
 
   const scrollToBottom = useCallback(() => {
     if (chatContainerRef.current) {
@@ -255,11 +256,13 @@ function ChatPageContent() {
     }
   }, []);
 
+  // Open sessions at the newest message; the list keeps to the bottom from there while it grows
+  const openedSessionId = sessionDetail?.id;
   useEffect(() => {
-    if ((sessionDetail || chatMessages.length > 0) && chatContainerRef.current) {
+    if ((openedSessionId || chatMessages.length > 0) && chatContainerRef.current) {
       chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
     }
-  }, [sessionDetail, chatMessages]);
+  }, [openedSessionId, chatMessages]);
 
   const handleScroll = useCallback(() => {
     if (!chatContainerRef.current) return;
@@ -286,48 +289,30 @@ function ChatPageContent() {
       .filter((i) => i !== -1);
   }, [visible, convSearchLower]);
 
+  const visibleKeys = useMemo(() => visible.map((m) => m.uuid), [visible]);
+  const sessionList = useVirtualList({
+    scrollRef: chatContainerRef,
+    keys: visibleKeys,
+    onStartReached: () => { if (hasOlder) loadOlder(); },
+  });
+  const { scrollToIndex } = sessionList;
+
   useEffect(() => {
     if (matchedIndices.length > 0 && convSearchMatch >= 0 && convSearchMatch < matchedIndices.length) {
-      const msgIdx = matchedIndices[convSearchMatch];
-      const msg = visible[msgIdx];
-      if (msg) {
-        document.getElementById(`msg-${msg.uuid}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
-      }
+      scrollToIndex(matchedIndices[convSearchMatch], "center");
     }
-  }, [convSearchMatch, convSearch, matchedIndices, visible]);
+  }, [convSearchMatch, convSearch, matchedIndices, scrollToIndex]);
 
-  // Export
+  // Export the whole transcript, not just the pages loaded so far
   const exportAsMarkdown = useCallback(() => {
-    if (!sessionDetail) return;
-    let md = `# Session: ${sessionDetail.projectName}\n`;
-    md += `**Date:** ${sessionDetail.startTime} - ${sessionDetail.endTime}\n`;
-    md += `**Model:** ${shortModel(sessionDetail.model)}\n`;
-    md += `**Cost:** ${fmtCost(sessionDetail.estimatedCost)}\n`;
-    md += `**Tokens:** ${fmtTokens(sessionDetail.totalInputTokens)} in / ${fmtTokens(sessionDetail.totalOutputTokens)} out\n\n---\n\n`;
-    for (const msg of sessionDetail.messages) {
-      if (msg.role !== "user" && msg.role !== "assistant") continue;
-      if (!msg.content.trim() && (!msg.toolUse || msg.toolUse.length === 0)) continue;
-      md += `## ${msg.role === "user" ? "User" : "Claude"}\n`;
-      if (msg.timestamp) md += `*${new Date(msg.timestamp).toLocaleTimeString()}*\n\n`;
-      if (msg.content.trim()) md += msg.content.trim() + "\n\n";
-      if (msg.toolUse && msg.toolUse.length > 0) {
-        for (const tool of msg.toolUse) {
-          md += `### Tool: ${tool.name}\n\`\`\`json\n${tool.input?.slice(0, 500)}\n\`\`\`\n\n`;
-        }
-      }
-      md += `---\n\n`;
-    }
-    const blob = new Blob([md], { type: "text/markdown" });
-    const url = URL.createObjectURL(blob);
+    if (!selectedProject || !selectedId) return;
     const a = document.createElement("a");
-    a.href = url;
-    a.download = `session-${sessionDetail.id.slice(0, 8)}.md`;
+    a.href = `/api/sessions/${encodeURIComponent(selectedProject)}/${selectedId}/export?format=md`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
-    URL.revokeObjectURL(url);
     toast("Exported as Markdown");
-  }, [sessionDetail, toast]);
+  }, [selectedProject, selectedId, toast]);
 
   // Determine which session ID to resume: historical session ID or live chat session ID
   const activeSessionId = useMemo(() => {
@@ -450,7 +435,6 @@ function ChatPageContent() {
       runHandledRef.current = true;
       setChatMode("chat");
       setSelectedSessionKey("");
-      setSessionDetail(null);
       setTimeout(() => {
         setChatInput(runParam);
         handleSend(runParam);
@@ -514,7 +498,6 @@ function ChatPageContent() {
   const startNewChat = () => {
     manualClearRef.current = true; // Prevent URL effect from re-selecting
     setSelectedSessionKey("");
-    setSessionDetail(null);
     clearMessages();
     setChatMode("chat");
     setChatInput("");
@@ -731,6 +714,11 @@ function ChatPageContent() {
                       { name: "/config", desc: "Config" },
                       { name: "/status", desc: "Status" },
                       { name: "/compact", desc: "Compact" },
+                    ] : chatProvider === "gemini" ? [
+                      { name: "/help", desc: "Commands" },
+                      { name: "/memory", desc: "Memory" },
+                      { name: "/stats", desc: "Stats" },
+                      { name: "/compress", desc: "Compress" },
                     ] : [
                       { name: "/help", desc: "Commands" },
                       { name: "/commit", desc: "Commit" },
@@ -770,16 +758,24 @@ function ChatPageContent() {
           )}
 
           {/* Session messages */}
+          {!loading && isViewingSession && loadingOlder && (
+            <div className="sticky top-0 h-0 z-10 flex justify-center">
+              <Badge variant="secondary" className="mt-2 text-xs shadow-sm">
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />Loading earlier messages
+              </Badge>
+            </div>
+          )}
           {!loading && isViewingSession && (
-            <div className="divide-y divide-border/30">
-              {visible.map((msg, i) => (
-                <ConvMessage
-                  key={msg.uuid}
-                  msg={msg}
-                  showTools={showTools}
-                  searchHighlight={convSearchLower}
-                  isSearchMatch={convSearchLower ? matchedIndices[convSearchMatch] === i : false}
-                />
+            <div style={{ paddingTop: sessionList.paddingTop, paddingBottom: sessionList.paddingBottom }}>
+              {sessionList.items.map(({ index: i, key }) => (
+                <div key={key} ref={sessionList.measureRef} data-virtual-key={key} className="border-b border-border/30">
+                  <ConvMessage
+                    msg={visible[i]}
+                    showTools={showTools}
+                    searchHighlight={convSearchLower}
+                    isSearchMatch={convSearchLower ? matchedIndices[convSearchMatch] === i : false}
+                  />
+                </div>
               ))}
             </div>
           )}
@@ -804,7 +800,7 @@ function ChatPageContent() {
                     </div>
                   </div>
                 ) : (
-                  <LiveAssistantMessage key={msg.id} message={msg} showTools={showTools} providerLabel={chatProvider === "codex" ? "Codex" : "Claude"} />
+                  <LiveAssistantMessage key={msg.id} message={msg} showTools={showTools} providerLabel={providerLabel} />
                 )
               )}
             </div>
@@ -818,7 +814,8 @@ function ChatPageContent() {
             elapsedMs={elapsedMs}
             toolName={lastToolName}
             onCancel={chatCancel}
-            providerLabel={chatProvider === "codex" ? "Codex" : "Claude"}
+            providerLabel={providerLabel}
+            rateLimit={rateLimit}
           />
         )}
 
@@ -828,6 +825,7 @@ function ChatPageContent() {
             <span>{visible.length} messages</span>
             <span>{fmtTokens(sessionDetail.totalInputTokens)} in / {fmtTokens(sessionDetail.totalOutputTokens)} out</span>
             {sessionDetail.cacheReadTokens > 0 && <span>{fmtTokens(sessionDetail.cacheReadTokens)} cache</span>}
+            {sessionDetail.cacheWriteTokens > 0 && <span>{fmtTokens(sessionDetail.cacheWriteTokens)} cache write</span>}
             <span className="ml-auto font-mono">{fmtCost(sessionDetail.estimatedCost)}</span>
           </div>
         )}
@@ -13,10 +13,13 @@ import Link from "next/link";
 import { fmtCost, fmtTokens, timeAgo, shortModel } from "@/lib/format-utils";
 import { AreaChart, Area, ResponsiveContainer, Tooltip } from "recharts";
 import { useFavorites } from "@/hooks/use-favorites";
+import { useLiveSessions } from "@/hooks/use-live-sessions";
+import { upsertSession } from "@/lib/live-events";
+import { BlockGauge } from "@/components/tokens/block-gauge";
 
 // ---- Types ----
 
-type ProviderFilter = "all" | "claude" | "codex";
+type ProviderFilter = "all" | "claude" | "codex" | "gemini";
 
 interface TeamSummary {
   teams: {
@@ -36,6 +39,10 @@ interface ProcessInfo {
   startTime: string;
   memoryMB: number;
   command?: string;
+  sessionId?: string;
+  project?: string;
+  cpuPercent?: number;
+  rssMB?: number;
 }
 
 interface SessionInfo {
@@ -47,7 +54,7 @@ interface SessionInfo {
   messageCount: number;
   firstMessage?: string;
   model?: string;
-  provider?: "claude" | "codex" | "unknown";
+  provider?: "claude" | "codex" | "gemini" | "unknown";
   totalInputTokens: number;
   totalOutputTokens: number;
   estimatedCost: number;
@@ -109,6 +116,23 @@ export default function HomePage() {
     ]).finally(() => setLoading(false));
   }, []);
 
+  // Processes have no live feed; refresh their session links and CPU use
+  useEffect(() => {
+    const timer = setInterval(() => {
+      fetch("/api/processes").then((r) => r.json()).then((d) => setProcesses(d.processes || [])).catch(() => {});
+    }, 10000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Keep session cards and totals current as sessions are written
+  useLiveSessions((event) => {
+    if (event.type !== "session.created" && event.type !== "session.updated" && event.type !== "session.status") return;
+    setSessions((d) => d && {
+      totalSessions: d.totalSessions + (event.type === "session.created" ? 1 : 0),
+      recentSessions: upsertSession(d.recentSessions, event.session).sort((a, b) => b.lastActive - a.lastActive),
+    });
+  });
+
   const totalTeams = teams?.teams.length || 0;
   const totalAgents = teams?.teams.reduce((s, t) => s + t.memberCount, 0) || 0;
   const totalTasks = teams?.teams.reduce((s, t) => s + t.taskCount, 0) || 0;
@@ -121,6 +145,7 @@ export default function HomePage() {
     : allSessions.filter((s) => s.provider === providerFilter);
 
   const recentSessions = filteredSessions.slice(0, 5);
+  const runningPids = new Map(processes.flatMap((p) => (p.sessionId ? [[p.sessionId, p.pid] as const] : [])));
   const totalCost = filteredSessions.reduce((s, x) => s + x.estimatedCost, 0);
   const totalInputTokens = filteredSessions.reduce((s, x) => s + x.totalInputTokens, 0);
   const totalOutputTokens = filteredSessions.reduce((s, x) => s + x.totalOutputTokens, 0);
@@ -240,7 +265,7 @@ export default function HomePage() {
       <div className="flex items-center justify-between flex-wrap gap-2">
         <h1 className="text-2xl font-bold">Overview</h1>
         <div className="flex items-center gap-1 bg-muted/50 rounded-full p-0.5">
-          {(["all", "claude", "codex"] as const).map((opt) => (
+          {(["all", "claude", "codex", "gemini"] as const).map((opt) => (
             <button
               key={opt}
               onClick={() => setProviderFilter(opt)}
@@ -250,7 +275,7 @@ export default function HomePage() {
                   : "text-muted-foreground hover:text-foreground"
               }`}
             >
-              {opt === "all" ? "All" : opt === "claude" ? "Claude" : "Codex"}
+              {opt === "all" ? "All" : opt === "claude" ? "Claude" : opt === "codex" ? "Codex" : "Gemini"}
             </button>
           ))}
         </div>
@@ -338,16 +363,31 @@ export default function HomePage() {
           <CardContent>
             {processes.length > 0 ? (
               <div className="space-y-2">
-                {processes.map((p) => (
-                  <div key={p.pid} className="flex items-center justify-between text-sm bg-muted/30 rounded-md px-3 py-2">
-                    <div className="flex items-center gap-2">
-                      <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
-                      <span className="font-mono text-xs">{p.name}</span>
-                      <span className="text-xs text-muted-foreground">PID {p.pid}</span>
+                {processes.map((p) => {
+                  const session = p.sessionId ? allSessions.find((s) => s.id === p.sessionId) : undefined;
+                  const row = (
+                    <div className="flex items-center justify-between gap-3 text-sm bg-muted/30 rounded-md px-3 py-2 hover:bg-muted/50 transition-colors">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse flex-shrink-0" />
+                        <span className="font-mono text-xs">{p.name}</span>
+                        <span className="text-xs text-muted-foreground flex-shrink-0">PID {p.pid}</span>
+                        {p.sessionId && (
+                          <span className="text-xs truncate">
+                            {session?.firstMessage || p.sessionId.slice(0, 8)}
+                          </span>
+                        )}
+                      </div>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {p.cpuPercent !== undefined && `${p.cpuPercent}% · `}{p.rssMB ?? p.memoryMB}MB
+                      </span>
                     </div>
-                    <span className="text-xs text-muted-foreground">{p.memoryMB}MB</span>
-                  </div>
-                ))}
+                  );
+                  return p.sessionId ? (
+                    <Link key={p.pid} href={`/sessions?session=${p.sessionId}`}>{row}</Link>
+                  ) : (
+                    <div key={p.pid}>{row}</div>
+                  );
+                })}
               </div>
             ) : (
               <p className="text-sm text-muted-foreground text-center py-4">No active Claude processes detected</p>
@@ -355,60 +395,64 @@ export default function HomePage() {
           </CardContent>
         </Card>
 
-        {/* Token Usage Summary */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-base flex items-center gap-2">
-              <Coins className="h-4 w-4" /> Token Usage Summary
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-3 gap-4">
-              <div className="text-center">
-                <div className="text-xs text-muted-foreground mb-1">Input Tokens</div>
-                <div className="text-lg font-bold font-mono">{fmtTokens(totalInputTokens)}</div>
-              </div>
-              <div className="text-center">
-                <div className="text-xs text-muted-foreground mb-1">Output Tokens</div>
-                <div className="text-lg font-bold font-mono">{fmtTokens(totalOutputTokens)}</div>
-              </div>
-              <div className="text-center">
-                <div className="text-xs text-muted-foreground mb-1">Total Sessions</div>
-                <div className="text-lg font-bold font-mono">{filteredSessions.length}</div>
-              </div>
-            </div>
-            {sparklineData.length > 0 && (
-              <div className="mt-4">
-                <div className="text-xs text-muted-foreground mb-1">Daily Cost Trend (7 days)</div>
-                <ResponsiveContainer width="100%" height={60}>
-                  <AreaChart data={sparklineData} margin={{ top: 5, right: 0, left: 0, bottom: 0 }}>
-                    <defs>
-                      <linearGradient id="miniCostGradient" x1="0" y1="0" x2="0" y2="1">
-                        <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.4} />
-                        <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
-                      </linearGradient>
-                    </defs>
-                    <Tooltip content={<SparklineTooltip />} />
-                    <Area
-                      type="monotone"
-                      dataKey="cost"
-                      stroke="hsl(var(--primary))"
-                      strokeWidth={1.5}
-                      fill="url(#miniCostGradient)"
-                      isAnimationActive={false}
-                    />
-                  </AreaChart>
-                </ResponsiveContainer>
+        <div className="space-y-6">
+          {/* Token Usage Summary */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Coins className="h-4 w-4" /> Token Usage Summary
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="text-center">
+                  <div className="text-xs text-muted-foreground mb-1">Input Tokens</div>
+                  <div className="text-lg font-bold font-mono">{fmtTokens(totalInputTokens)}</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-xs text-muted-foreground mb-1">Output Tokens</div>
+                  <div className="text-lg font-bold font-mono">{fmtTokens(totalOutputTokens)}</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-xs text-muted-foreground mb-1">Total Sessions</div>
+                  <div className="text-lg font-bold font-mono">{filteredSessions.length}</div>
+                </div>
               </div>
-            )}
-            <div className="mt-4 pt-3 border-t">
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Estimated Total Cost</span>
-                <span className="font-bold font-mono">{fmtCost(totalCost)}</span>
+              {sparklineData.length > 0 && (
+                <div className="mt-4">
+                  <div className="text-xs text-muted-foreground mb-1">Daily Cost Trend (7 days)</div>
+                  <ResponsiveContainer width="100%" height={60}>
+                    <AreaChart data={sparklineData} margin={{ top: 5, right: 0, left: 0, bottom: 0 }}>
+                      <defs>
+                        <linearGradient id="miniCostGradient" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.4} />
+                          <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+                        </linearGradient>
+                      </defs>
+                      <Tooltip content={<SparklineTooltip />} />
+                      <Area
+                        type="monotone"
+                        dataKey="cost"
+                        stroke="hsl(var(--primary))"
+                        strokeWidth={1.5}
+                        fill="url(#miniCostGradient)"
+                        isAnimationActive={false}
+                      />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+              <div className="mt-4 pt-3 border-t">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Estimated Total Cost</span>
+                  <span className="font-bold font-mono">{fmtCost(totalCost)}</span>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+          {/* Current 5-hour Block */}
+          <BlockGauge />
+        </div>
       </div>
 
       {/* Recent Sessions */}
@@ -443,6 +487,11 @@ export default function HomePage() {
                         <div className="text-xs text-muted-foreground truncate">{s.projectName}</div>
                       </div>
                       <div className="flex items-center gap-1.5 flex-shrink-0">
+                        {runningPids.has(s.id) && (
+                          <Badge variant="outline" className="text-[10px] h-4 border-green-500/40" title="Claude process running">
+                            <Cpu className="h-2.5 w-2.5 mr-0.5" />{runningPids.get(s.id)}
+                          </Badge>
+                        )}
                         {s.model && <Badge variant="secondary" className="text-[10px] h-4">{shortModel(s.model)}</Badge>}
                         <span className="text-xs text-muted-foreground">{timeAgo(s.lastActive)}</span>
                         <span className="text-xs font-mono text-muted-foreground">{fmtCost(s.estimatedCost)}</span>
@@ -5,13 +5,15 @@ import { useSearchParams } from "next/navigation";
 import { RefreshCw, Clock } from "lucide-react";
 import { SessionList } from "@/components/sessions/session-list";
 import { SessionDetailView } from "@/components/sessions/session-detail";
-import type { SessionsData } from "@/components/sessions/types";
+import { useLiveSessions } from "@/hooks/use-live-sessions";
+import { upsertSession } from "@/lib/live-events";
+import type { SessionsData, MessageFocus } from "@/components/sessions/types";
 
 function SessionsPageInner() {
   const [data, setData] = useState<SessionsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [active, setActive] = useState<{ project: string; id: string } | null>(null);
+  const [active, setActive] = useState<{ project: string; id: string; focus?: MessageFocus } | null>(null);
   const searchParams = useSearchParams();
   const deepLinked = useRef(false);
 
@@ -22,13 +24,14 @@ function SessionsPageInner() {
       setLoading(false);
       setRefreshing(false);
 
-      // Deep-link: ?session=UUID auto-opens that session detail
+      // Deep-link: ?session=UUID auto-opens that session detail (&msg=UUID scrolls to a message)
       if (!deepLinked.current) {
         const sessionId = searchParams.get("session");
         if (sessionId && d.recentSessions) {
           const match = d.recentSessions.find(s => s.id === sessionId);
           if (match) {
-            setActive({ project: match.project, id: match.id });
+            const msg = searchParams.get("msg");
+            setActive({ project: match.project, id: match.id, focus: msg ? { uuid: msg } : undefined });
             deepLinked.current = true;
           }
         }
@@ -48,17 +51,28 @@ function SessionsPageInner() {
   // Initial load
   useEffect(() => { loadData(); }, [loadData]);
 
-  // Auto-refresh every 10s when on list view
+  // Live updates on the list view; a new session changes project counts, so reload
+  const live = useLiveSessions((event) => {
+    if (event.type === "session.created") loadData();
+    else if (event.type === "session.updated" || event.type === "session.status") {
+      setData(d => d && {
+        ...d,
+        recentSessions: upsertSession(d.recentSessions, event.session).sort((a, b) => b.lastActive - a.lastActive),
+      });
+    }
+  }, { enabled: !active });
+
+  // Fall back to polling every 10s while the live stream is down
   useEffect(() => {
-    if (active) return;
+    if (active || live) return;
     const iv = setInterval(() => loadData(), 10000);
     return () => clearInterval(iv);
-  }, [active, loadData]);
+  }, [active, live, loadData]);
 
   if (loading) return <div className="flex items-center justify-center h-64"><RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" /></div>;
-  if (active) return <SessionDetailView projectPath={active.project} sessionId={active.id} onBack={() => setActive(null)} />;
+  if (active) return <SessionDetailView projectPath={active.project} sessionId={active.id} focus={active.focus} onBack={() => setActive(null)} />;
   if (!data) return <div className="text-center py-16"><Clock className="h-12 w-12 mx-auto text-muted-foreground mb-4" /><h2 className="text-lg">No data</h2></div>;
-  return <SessionList data={data} onRefresh={() => loadData(true)} refreshing={refreshing} onSelect={(p, id) => setActive({ project: p, id })} />;
+  return <SessionList data={data} onRefresh={() => loadData(true)} refreshing={refreshing} onSelect={(p, id, focus) => setActive({ project: p, id, focus })} />;
 }
 
 export default function SessionsPage() {
@@ -16,9 +16,10 @@ import {
 } from "lucide-react";
 import { useTranslations } from "next-intl";
 import type { ClaudeSettings, CodexSettings, EnvironmentInfo } from "@/lib/settings-reader";
-import { useNotifications } from "@/hooks/use-notifications";
 import { GeneralSettings } from "@/components/settings/general-settings";
 import { CostAlertSettings } from "@/components/settings/cost-alert-settings";
+import { PricingSettings } from "@/components/settings/pricing-settings";
+import { WatchdogSettings } from "@/components/settings/watchdog-settings";
 import { PermissionsSettings } from "@/components/settings/permissions-settings";
 import { HooksSettings } from "@/components/settings/hooks-settings";
 import { ClaudeCliSettings } from "@/components/settings/claude-cli-settings";
@@ -39,7 +40,6 @@ interface SettingsResponse {
 export default function SettingsPage() {
   const [data, setData] = useState<SettingsResponse | null>(null);
   const { toast } = useToast();
-  const { alertConfig, updateAlertConfig } = useNotifications();
   const tMsg = useTranslations("settings");
 
   // Editable fields
@@ -49,10 +49,6 @@ export default function SettingsPage() {
   const [autoUpdate, setAutoUpdate] = useState(true);
   const [alwaysThinkingEnabled, setAlwaysThinkingEnabled] = useState(true);
 
-  // Cost alert fields
-  const [dailyBudget, setDailyBudget] = useState(0);
-  const [weeklyBudget, setWeeklyBudget] = useState(0);
-
   // Track original values to detect changes
   const [originalValues, setOriginalValues] = useState({
     defaultModel: "",
@@ -60,8 +56,6 @@ export default function SettingsPage() {
     theme: "",
     autoUpdate: true,
     alwaysThinkingEnabled: true,
-    dailyBudget: 0,
-    weeklyBudget: 0,
   });
 
   const hasChanges =
@@ -69,9 +63,7 @@ export default function SettingsPage() {
     codexDefaultModel !== originalValues.codexDefaultModel ||
     theme !== originalValues.theme ||
     autoUpdate !== originalValues.autoUpdate ||
-    alwaysThinkingEnabled !== originalValues.alwaysThinkingEnabled ||
-    dailyBudget !== originalValues.dailyBudget ||
-    weeklyBudget !== originalValues.weeklyBudget;
+    alwaysThinkingEnabled !== originalValues.alwaysThinkingEnabled;
 
   const [isSaving, setIsSaving] = useState(false);
 
@@ -100,17 +92,10 @@ export default function SettingsPage() {
           theme: themeValue,
           autoUpdate: autoUpdateValue,
           alwaysThinkingEnabled: thinkingValue,
-          dailyBudget: alertConfig.dailyBudget,
-          weeklyBudget: alertConfig.weeklyBudget,
         });
       });
   };
 
-  useEffect(() => {
-    setDailyBudget(alertConfig.dailyBudget);
-    setWeeklyBudget(alertConfig.weeklyBudget);
-  }, [alertConfig]);
-
   useEffect(() => {
     loadSettings();
   }, []);
@@ -133,7 +118,6 @@ export default function SettingsPage() {
       const result = await response.json();
 
       if (result.success) {
-        updateAlertConfig({ dailyBudget, weeklyBudget });
         toast(tMsg("savedSuccess"), "success");
         loadSettings();
       } else {
@@ -246,12 +230,9 @@ export default function SettingsPage() {
             onAutoUpdateChange={setAutoUpdate}
             onThinkingChange={setAlwaysThinkingEnabled}
           />
-          <CostAlertSettings
-            dailyBudget={dailyBudget}
-            weeklyBudget={weeklyBudget}
-            onDailyBudgetChange={setDailyBudget}
-            onWeeklyBudgetChange={setWeeklyBudget}
-          />
+          <CostAlertSettings />
+          <PricingSettings />
+          <WatchdogSettings />
           <PermissionsSettings merged={merged} />
           <HooksSettings merged={merged} />
         </TabsContent>
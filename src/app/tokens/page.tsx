@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -16,19 +17,30 @@ import {
 import type { PieLabelRenderProps } from "recharts";
 import { fmtCost, fmtTokens } from "@/lib/format-utils";
 import { useToast } from "@/components/toast";
+import type { PriceEntry } from "@/lib/pricing";
+import { SpendForecast } from "@/components/tokens/spend-forecast";
+import { BranchBreakdown } from "@/components/tokens/branch-breakdown";
+import { BillingBlocks } from "@/components/tokens/billing-blocks";
+import { RateLimitHistory } from "@/components/tokens/rate-limit-history";
 
 interface TokensData {
   totalInput: number;
   totalOutput: number;
   totalCacheRead: number;
+  totalCacheWrite: number;
   totalCost: number;
-  byModel: Record<string, { input: number; output: number; cost: number; sessions: number }>;
-  byDate: Record<string, { input: number; output: number; cost: number; sessions: number; byModel?: Record<string, { cost: number }> }>;
+  inputCost: number;
+  outputCost: number;
+  cacheSavings: number;
+  byModel: Record<string, { input: number; output: number; cacheRead: number; cacheWrite: number; cost: number; sessions: number }>;
+  byDate: Record<string, { input: number; output: number; cacheRead: number; cacheWrite: number; cost: number; sessions: number; byModel?: Record<string, { cost: number }> }>;
   sessionCount: number;
+  unpricedModels: string[];
 }
 
 const MODEL_NAMES: Record<string, string> = {
   "claude-opus-4-6": "Opus 4.6",
+  "claude-sonnet-4-6": "Sonnet 4.6",
   "claude-sonnet-4-5": "Sonnet 4.5",
   "claude-haiku-4-5": "Haiku 4.5",
   "gpt-5.2-codex": "GPT-5.2",
@@ -37,10 +49,15 @@ const MODEL_NAMES: Record<string, string> = {
   "o3": "o3",
   "o4-mini": "o4-Mini",
   "gpt-4.1": "GPT-4.1",
+  "gemini-3-pro-preview": "Gemini 3 Pro",
+  "gemini-2.5-pro": "Gemini 2.5 Pro",
+  "gemini-2.5-flash": "Gemini 2.5 Flash",
+  "gemini-2.5-flash-lite": "Gemini 2.5 Flash-Lite",
 };
 
 const MODEL_COLORS: Record<string, string> = {
   "claude-opus-4-6": "#6366f1",
+  "claude-sonnet-4-6": "#16a34a",
   "claude-sonnet-4-5": "#22c55e",
   "claude-haiku-4-5": "#f59e0b",
   "gpt-5.2-codex": "#10b981",
@@ -49,6 +66,10 @@ const MODEL_COLORS: Record<string, string> = {
   "o3": "#a78bfa",
   "o4-mini": "#f472b6",
   "gpt-4.1": "#34d399",
+  "gemini-3-pro-preview": "#2563eb",
+  "gemini-2.5-pro": "#3b82f6",
+  "gemini-2.5-flash": "#60a5fa",
+  "gemini-2.5-flash-lite": "#93c5fd",
 };
 
 // Custom Tooltip for dark mode support
@@ -88,19 +109,37 @@ function DailyTooltip({ active, payload, label }: any) {
   );
 }
 
+/** Latest catalog entry per model, most expensive first */
+function currentPrices(entries: PriceEntry[]): PriceEntry[] {
+  const latest = new Map<string, PriceEntry>();
+  for (const e of entries) {
+    const prev = latest.get(e.model);
+    if (!prev || e.effectiveFrom > prev.effectiveFrom) latest.set(e.model, e);
+  }
+  return [...latest.values()].sort((a, b) => b.input - a.input || a.model.localeCompare(b.model));
+}
+
+function priceTier(input: number): { tier: string; color: "destructive" | "secondary" | "outline" } {
+  if (input >= 15) return { tier: "High", color: "destructive" };
+  if (input >= 3) return { tier: "Mid", color: "secondary" };
+  return { tier: "Low", color: "outline" };
+}
+
 type TimeRange = "7d" | "14d" | "30d" | "all";
-type ProviderFilter = "all" | "claude" | "codex" | "unknown";
+type ProviderFilter = "all" | "claude" | "codex" | "gemini" | "unknown";
 type ViewMode = "chart" | "table";
 
 const PROVIDER_LABELS: Record<ProviderFilter, string> = {
   all: "All Providers",
   claude: "Claude",
   codex: "Codex (GPT/o3/o4)",
+  gemini: "Gemini",
   unknown: "Unknown",
 };
 
 export default function TokensPage() {
   const [data, setData] = useState<TokensData | null>(null);
+  const [prices, setPrices] = useState<PriceEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState<TimeRange>("14d");
   const [providerFilter, setProviderFilter] = useState<ProviderFilter>("all");
@@ -115,7 +154,11 @@ export default function TokensPage() {
     fetch(`/api/tokens${params}`).then(r => r.json()).then((d: TokensData) => { setData(d); setLoading(false); }).catch(() => setLoading(false));
   }, [providerFilter]);
 
-  const handleExport = (type: "detail" | "summary") => {
+  useEffect(() => {
+    fetch("/api/settings/pricing").then(r => r.json()).then((d) => setPrices(currentPrices(d.entries || []))).catch(() => {});
+  }, []);
+
+  const handleExport = (type: "detail" | "summary" | "branch") => {
     const url = `/api/tokens/export?type=${type}`;
     const a = document.createElement("a");
     a.href = url;
@@ -213,10 +256,6 @@ export default function TokensPage() {
     .reduce((sum, [, stats]) => sum + stats.cost, 0);
   const weekChange = lastWeekCost > 0 ? ((thisWeekCost - lastWeekCost) / lastWeekCost) * 100 : 0;
 
-  // Calculate cache savings (cache reads cost ~90% less)
-  const CACHE_DISCOUNT = 0.9;
-  const cacheSavings = (data.totalCacheRead * 15 / 1_000_000) * CACHE_DISCOUNT;
-
   // Prepare model data for PieChart
   const modelData = Object.entries(data.byModel)
     .filter(([, v]) => v.cost > 0)
@@ -257,7 +296,7 @@ export default function TokensPage() {
         <div className="flex flex-wrap items-center gap-2">
           {/* Provider Filter */}
           <div className="flex border rounded-md">
-            {(["all", "claude", "codex", "unknown"] as ProviderFilter[]).map((p) => (
+            {(["all", "claude", "codex", "gemini", "unknown"] as ProviderFilter[]).map((p) => (
               <Button
                 key={p}
                 variant={providerFilter === p ? "default" : "ghost"}
@@ -265,7 +304,7 @@ export default function TokensPage() {
                 className="h-7 text-xs px-2 rounded-none first:rounded-l-md last:rounded-r-md"
                 onClick={() => { setProviderFilter(p); setTablePage(0); }}
               >
-                {p === "all" ? "All" : p === "codex" ? "Codex" : p === "claude" ? "Claude" : "Unknown"}
+                {p === "all" ? "All" : p === "codex" ? "Codex" : p === "claude" ? "Claude" : p === "gemini" ? "Gemini" : "Unknown"}
               </Button>
             ))}
           </div>
@@ -292,6 +331,22 @@ export default function TokensPage() {
         </Card>
       )}
 
+      {data.unpricedModels.length > 0 && (
+        <Card className="border-amber-200 bg-amber-50 dark:bg-amber-950/20">
+          <CardContent className="py-4 flex items-start gap-3">
+            <Info className="h-5 w-5 text-amber-600 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                Unpriced models: <span className="font-mono">{data.unpricedModels.join(", ")}</span>
+              </p>
+              <p className="text-xs text-amber-600 mt-1">
+                Their tokens are counted but excluded from cost totals. <Link href="/settings" className="underline">Add prices in Settings</Link>.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-3 sm:gap-4">
         <Card>
@@ -321,26 +376,34 @@ export default function TokensPage() {
         <Card>
           <CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground flex items-center gap-2"><Database className="h-4 w-4" />Cache Savings</CardTitle></CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600 dark:text-green-400">{fmtCost(cacheSavings)}</div>
-            <div className="text-xs text-muted-foreground">{fmtTokens(data.totalCacheRead)} cached</div>
+            <div className="text-2xl font-bold text-green-600 dark:text-green-400">{fmtCost(data.cacheSavings)}</div>
+            <div className="text-xs text-muted-foreground">{fmtTokens(data.totalCacheRead)} read / {fmtTokens(data.totalCacheWrite)} written</div>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground flex items-center gap-2"><ArrowUpRight className="h-4 w-4" />Input</CardTitle></CardHeader>
           <CardContent>
             <div className="text-xl font-bold">{fmtTokens(data.totalInput)}</div>
-            <div className="text-xs text-muted-foreground">{fmtCost(data.totalInput * 15 / 1e6)} (Opus)</div>
+            <div className="text-xs text-muted-foreground">{fmtCost(data.inputCost)} uncached input</div>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground flex items-center gap-2"><ArrowDownRight className="h-4 w-4" />Output</CardTitle></CardHeader>
           <CardContent>
             <div className="text-xl font-bold">{fmtTokens(data.totalOutput)}</div>
-            <div className="text-xs text-muted-foreground">{fmtCost(data.totalOutput * 75 / 1e6)} (Opus)</div>
+            <div className="text-xs text-muted-foreground">{fmtCost(data.outputCost)} output</div>
           </CardContent>
         </Card>
       </div>
 
+      <SpendForecast />
+
+      <BillingBlocks />
+
+      <RateLimitHistory />
+
+      <BranchBreakdown provider={providerFilter} onExport={() => handleExport("branch")} />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Cost by Model - PieChart */}
         <Card>
@@ -379,31 +442,24 @@ export default function TokensPage() {
           <CardHeader><CardTitle className="text-base flex items-center gap-2"><Info className="h-4 w-4" />Pricing Reference</CardTitle></CardHeader>
           <CardContent>
             <div className="space-y-3">
-              <div className="text-xs font-medium text-muted-foreground mb-1">Claude</div>
-              {[
-                { name: "Opus 4.6", input: 15, output: 75, tier: "High", color: "destructive" as const },
-                { name: "Sonnet 4.5", input: 3, output: 15, tier: "Mid", color: "secondary" as const },
-                { name: "Haiku 4.5", input: 0.8, output: 4, tier: "Low", color: "outline" as const },
-              ].map(m => (
-                <div key={m.name} className="flex items-center gap-3 text-sm">
-                  <span className="w-24 font-mono font-medium">{m.name}</span>
-                  <span className="text-muted-foreground">${m.input}/M in</span>
-                  <span className="text-muted-foreground">${m.output}/M out</span>
-                  <Badge variant={m.color} className="ml-auto text-xs">{m.tier}</Badge>
-                </div>
-              ))}
-              <div className="text-xs font-medium text-muted-foreground mt-4 mb-1">Codex (OpenAI)</div>
-              {[
-                { name: "o3-Pro", input: 20, output: 80, tier: "High", color: "destructive" as const },
-                { name: "o3", input: 10, output: 40, tier: "Mid", color: "secondary" as const },
-                { name: "GPT-5.2", input: 2, output: 8, tier: "Low", color: "outline" as const },
-                { name: "o4-Mini", input: 1.1, output: 4.4, tier: "Low", color: "outline" as const },
-              ].map(m => (
-                <div key={m.name} className="flex items-center gap-3 text-sm">
-                  <span className="w-24 font-mono font-medium">{m.name}</span>
-                  <span className="text-muted-foreground">${m.input}/M in</span>
-                  <span className="text-muted-foreground">${m.output}/M out</span>
-                  <Badge variant={m.color} className="ml-auto text-xs">{m.tier}</Badge>
+              {([
+                ["Claude", prices.filter(p => p.model.startsWith("claude"))],
+                ["Codex (OpenAI)", prices.filter(p => !p.model.startsWith("claude") && !p.model.startsWith("gemini"))],
+                ["Gemini (Google)", prices.filter(p => p.model.startsWith("gemini"))],
+              ] as const).map(([group, list], gi) => list.length > 0 && (
+                <div key={group} className="space-y-3">
+                  <div className={`text-xs font-medium text-muted-foreground mb-1 ${gi > 0 ? "mt-4" : ""}`}>{group}</div>
+                  {list.map(m => {
+                    const { tier, color } = priceTier(m.input);
+                    return (
+                      <div key={m.model} className="flex items-center gap-3 text-sm">
+                        <span className="w-24 font-mono font-medium truncate" title={m.model}>{MODEL_NAMES[m.model] || m.model}</span>
+                        <span className="text-muted-foreground">${m.input}/M in</span>
+                        <span className="text-muted-foreground">${m.output}/M out</span>
+                        <Badge variant={color} className="ml-auto text-xs">{tier}</Badge>
+                      </div>
+                    );
+                  })}
                 </div>
               ))}
             </div>
@@ -411,7 +467,10 @@ export default function TokensPage() {
               <p className="font-medium mb-1">Cost estimation notes:</p>
               <ul className="space-y-0.5 list-disc list-inside">
                 <li>Model detection now scans all lines for accuracy</li>
-                <li>Cache reads cost ~90% less than regular input tokens</li>
+                <li>Cache reads are billed at 0.1× the input price</li>
+                <li>Cache writes are billed at 1.25× (5-minute TTL) or 2× (1-hour TTL) the input price</li>
+                <li>Savings are net of cache-write premiums</li>
+                <li>Historical usage is priced at the rate in effect that day; edit prices in <Link href="/settings" className="underline">Settings</Link></li>
                 <li>Actual billing may vary based on API usage</li>
               </ul>
             </div>
@@ -0,0 +1,323 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Activity, AlertTriangle, Timer, DollarSign, Server, Terminal, ChevronDown, ChevronRight, Wrench,
+} from "lucide-react";
+import { fmtCost, fmtDuration } from "@/lib/format-utils";
+import type { ToolAnalytics, ToolBreakdown, ToolStats } from "@/lib/tool-analytics";
+
+type TimeRange = "7" | "30" | "90" | "all";
+type ProviderFilter = "all" | "claude" | "codex" | "gemini";
+type SortKey = "calls" | "errorRate" | "p95Ms" | "cost";
+
+const SORT_LABELS: Record<SortKey, string> = {
+  calls: "Calls",
+  errorRate: "Error rate",
+  p95Ms: "p95",
+  cost: "Cost",
+};
+
+const BREAKDOWN_LABELS: Record<ToolBreakdown, string> = {
+  project: "Project",
+  model: "Model",
+  week: "Week",
+};
+
+function fmtMs(ms: number | null): string {
+  return ms === null ? "—" : fmtDuration(ms);
+}
+
+function fmtRate(rate: number): string {
+  return `${(rate * 100).toFixed(rate > 0 && rate < 0.01 ? 1 : 0)}%`;
+}
+
+function rateColor(s: ToolStats): string {
+  if (s.completed === 0 || s.errors === 0) return "text-muted-foreground";
+  if (s.errorRate >= 0.2) return "text-red-600 dark:text-red-400 font-semibold";
+  if (s.errorRate >= 0.05) return "text-amber-600 dark:text-amber-400";
+  return "";
+}
+
+function ToolName({ name }: { name: string }) {
+  const m = name.match(/^mcp__(.+?)__(.+)$/);
+  if (!m) return <span className="font-mono">{name}</span>;
+  return (
+    <span className="font-mono" title={name}>
+      <Badge variant="outline" className="text-[10px] h-4 mr-1.5">{m[1]}</Badge>
+      {m[2]}
+    </span>
+  );
+}
+
+function StatsTable({ rows, label, renderName }: {
+  rows: ToolStats[];
+  label: string;
+  renderName?: (name: string) => ReactNode;
+}) {
+  if (rows.length === 0) return <div className="text-center text-muted-foreground py-6 text-sm">No tool calls</div>;
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/30 border-b">
+          <tr>
+            <th className="text-left py-2 px-3 font-medium text-muted-foreground">{label}</th>
+            <th className="text-right py-2 px-3 font-medium text-muted-foreground">Calls</th>
+            <th className="text-right py-2 px-3 font-medium text-muted-foreground">Errors</th>
+            <th className="text-right py-2 px-3 font-medium text-muted-foreground">Error rate</th>
+            <th className="text-right py-2 px-3 font-medium text-muted-foreground">Median</th>
+            <th className="text-right py-2 px-3 font-medium text-muted-foreground">p95</th>
+            <th className="text-right py-2 px-3 font-medium text-muted-foreground">Cost</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {rows.map((s) => (
+            <tr key={s.name} className="hover:bg-muted/20">
+              <td className="py-1.5 px-3 truncate max-w-[320px]">{renderName ? renderName(s.name) : s.name}</td>
+              <td className="py-1.5 px-3 text-right font-mono">{s.calls.toLocaleString()}</td>
+              <td className="py-1.5 px-3 text-right font-mono">{s.errors.toLocaleString()}</td>
+              <td className={`py-1.5 px-3 text-right font-mono ${rateColor(s)}`}>{s.completed > 0 ? fmtRate(s.errorRate) : "—"}</td>
+              <td className="py-1.5 px-3 text-right font-mono">{fmtMs(s.p50Ms)}</td>
+              <td className="py-1.5 px-3 text-right font-mono">{fmtMs(s.p95Ms)}</td>
+              <td className="py-1.5 px-3 text-right font-mono">{fmtCost(s.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function sortStats(rows: ToolStats[], key: SortKey): ToolStats[] {
+  return [...rows].sort((a, b) => (b[key] ?? -1) - (a[key] ?? -1) || b.calls - a.calls);
+}
+
+export default function ToolsPage() {
+  const [range, setRange] = useState<TimeRange>("30");
+  const [provider, setProvider] = useState<ProviderFilter>("all");
+  const [breakdown, setBreakdown] = useState<ToolBreakdown>("project");
+  const [sortKey, setSortKey] = useState<SortKey>("calls");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [result, setResult] = useState<{ query: string; data: ToolAnalytics | null } | null>(null);
+
+  const params = new URLSearchParams({ breakdown });
+  if (range !== "all") params.set("days", range);
+  if (provider !== "all") params.set("provider", provider);
+  const query = params.toString();
+
+  useEffect(() => {
+    fetch(`/api/tools?${query}`)
+      .then(r => r.json())
+      .then((d: ToolAnalytics) => setResult({ query, data: d }))
+      .catch(() => setResult({ query, data: null }));
+  }, [query]);
+
+  const loading = result?.query !== query;
+  const data = result?.data;
+
+  const toggleGroup = (key: string) => {
+    const next = new Set(expanded);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    setExpanded(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <h1 className="text-2xl font-bold">Tool Reliability</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex border rounded-md">
+            {(["all", "claude", "codex", "gemini"] as ProviderFilter[]).map((p) => (
+              <Button
+                key={p}
+                variant={provider === p ? "default" : "ghost"}
+                size="sm"
+                className="h-7 text-xs px-2 rounded-none first:rounded-l-md last:rounded-r-md"
+                onClick={() => setProvider(p)}
+              >
+                {p === "all" ? "All" : p === "claude" ? "Claude" : p === "codex" ? "Codex" : "Gemini"}
+              </Button>
+            ))}
+          </div>
+          <div className="flex border rounded-md">
+            {(["7", "30", "90", "all"] as TimeRange[]).map((r) => (
+              <Button
+                key={r}
+                variant={range === r ? "default" : "ghost"}
+                size="sm"
+                className="h-7 text-xs px-2 rounded-none first:rounded-l-md last:rounded-r-md"
+                onClick={() => setRange(r)}
+              >
+                {r === "all" ? "All" : `${r}D`}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {loading && !data ? (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {[...Array(5)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader className="pb-2"><Skeleton className="h-4 w-20" /></CardHeader>
+              <CardContent><Skeleton className="h-8 w-24" /></CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : !data ? (
+        <div className="text-center py-16">
+          <Wrench className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h2 className="text-lg">No data</h2>
+        </div>
+      ) : (
+        <div className={`space-y-6 ${loading ? "opacity-60" : ""}`}>
+          {/* Stats Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 sm:gap-4">
+            <Card>
+              <CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground flex items-center gap-2"><Activity className="h-4 w-4" />Tool Calls</CardTitle></CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{data.totals.calls.toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">{data.tools.length} distinct tools</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground flex items-center gap-2"><AlertTriangle className="h-4 w-4" />Error Rate</CardTitle></CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${rateColor(data.totals)}`}>{fmtRate(data.totals.errorRate)}</div>
+                <div className="text-xs text-muted-foreground">{data.totals.errors.toLocaleString()} failed calls</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground flex items-center gap-2"><Timer className="h-4 w-4" />Median Latency</CardTitle></CardHeader>
+              <CardContent><div className="text-2xl font-bold">{fmtMs(data.totals.p50Ms)}</div></CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground flex items-center gap-2"><Timer className="h-4 w-4" />p95 Latency</CardTitle></CardHeader>
+              <CardContent><div className="text-2xl font-bold">{fmtMs(data.totals.p95Ms)}</div></CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2"><CardTitle className="text-sm text-muted-foreground flex items-center gap-2"><DollarSign className="h-4 w-4" />Attributed Cost</CardTitle></CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{fmtCost(data.totals.cost)}</div>
+                <div className="text-xs text-muted-foreground">Share of the responses issuing calls</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Per tool */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">By Tool</CardTitle>
+                <div className="flex border rounded-md">
+                  {(Object.keys(SORT_LABELS) as SortKey[]).map((k) => (
+                    <Button
+                      key={k}
+                      variant={sortKey === k ? "default" : "ghost"}
+                      size="sm"
+                      className="h-7 text-xs px-2 rounded-none first:rounded-l-md last:rounded-r-md"
+                      onClick={() => setSortKey(k)}
+                    >
+                      {SORT_LABELS[k]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <StatsTable rows={sortStats(data.tools, sortKey)} label="Tool" renderName={(n) => <ToolName name={n} />} />
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* MCP servers */}
+            <Card>
+              <CardHeader><CardTitle className="text-base flex items-center gap-2"><Server className="h-4 w-4" />MCP Servers</CardTitle></CardHeader>
+              <CardContent>
+                <StatsTable rows={sortStats(data.mcpServers, sortKey)} label="Server" />
+              </CardContent>
+            </Card>
+
+            {/* Failing shell commands */}
+            <Card>
+              <CardHeader><CardTitle className="text-base flex items-center gap-2"><Terminal className="h-4 w-4" />Failing Shell Commands</CardTitle></CardHeader>
+              <CardContent>
+                {data.failingCommands.length === 0 ? (
+                  <div className="text-center text-muted-foreground py-6 text-sm">No failed shell commands</div>
+                ) : (
+                  <div className="divide-y divide-border">
+                    {data.failingCommands.map((c) => (
+                      <div key={c.command} className="py-1.5 flex items-center gap-3 text-sm">
+                        <code className="font-mono text-xs truncate flex-1" title={c.command}>{c.command}</code>
+                        <span className="font-mono text-xs text-red-600 dark:text-red-400 flex-shrink-0">
+                          {c.failures}/{c.calls} failed
+                        </span>
+                        <span className="text-xs text-muted-foreground flex-shrink-0 w-20 text-right">
+                          {c.lastFailed ? new Date(c.lastFailed).toLocaleDateString("zh-CN") : ""}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Breakdown */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">Breakdown</CardTitle>
+                <div className="flex border rounded-md">
+                  {(Object.keys(BREAKDOWN_LABELS) as ToolBreakdown[]).map((b) => (
+                    <Button
+                      key={b}
+                      variant={breakdown === b ? "default" : "ghost"}
+                      size="sm"
+                      className="h-7 text-xs px-2 rounded-none first:rounded-l-md last:rounded-r-md"
+                      onClick={() => { setBreakdown(b); setExpanded(new Set()); }}
+                    >
+                      {BREAKDOWN_LABELS[b]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {data.breakdown.length === 0 && (
+                <div className="text-center text-muted-foreground py-6 text-sm">No tool calls</div>
+              )}
+              {data.breakdown.map((g) => (
+                <div key={g.key} className="border rounded-md">
+                  <button
+                    className="w-full flex items-center gap-3 px-3 py-2 text-sm hover:bg-muted/30"
+                    onClick={() => toggleGroup(g.key)}
+                  >
+                    {expanded.has(g.key) ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+                    <span className="font-mono truncate text-left flex-1" title={g.key}>
+                      {breakdown === "week" ? `Week of ${g.key}` : g.key}
+                    </span>
+                    <span className="font-mono text-xs text-muted-foreground">{g.totals.calls.toLocaleString()} calls</span>
+                    <span className={`font-mono text-xs w-14 text-right ${rateColor(g.totals)}`}>{fmtRate(g.totals.errorRate)}</span>
+                    <span className="font-mono text-xs w-16 text-right">{fmtMs(g.totals.p95Ms)}</span>
+                    <span className="font-mono text-xs w-16 text-right">{fmtCost(g.totals.cost)}</span>
+                  </button>
+                  {expanded.has(g.key) && (
+                    <div className="border-t">
+                      <StatsTable rows={sortStats(g.tools, sortKey)} label="Tool" renderName={(n) => <ToolName name={n} />} />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
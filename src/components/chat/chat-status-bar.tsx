@@ -1,8 +1,9 @@
 "use client";
 
-import { Brain, Bot, Loader2 } from "lucide-react";
+import { Brain, Bot, Gauge, Loader2 } from "lucide-react";
 import { TOOL_CONFIG, DEFAULT_TOOL_CONFIG } from "@/components/sessions/conv-message";
-import type { StreamPhase } from "@/lib/chat-types";
+import { rateLimitLabel } from "@/lib/chat-types";
+import type { RateLimitInfo, StreamPhase } from "@/lib/chat-types";
 
 interface ChatStatusBarProps {
   phase: StreamPhase;
@@ -10,6 +11,7 @@ interface ChatStatusBarProps {
   toolName?: string;
   onCancel: () => void;
   providerLabel?: string;
+  rateLimit?: RateLimitInfo | null;
 }
 
 const PHASE_ICON: Record<string, typeof Loader2> = {
@@ -18,7 +20,31 @@ const PHASE_ICON: Record<string, typeof Loader2> = {
   responding: Bot,
 };
 
-export function ChatStatusBar({ phase, elapsedMs, toolName, onCancel, providerLabel }: ChatStatusBarProps) {
+const RATE_LIMIT_STYLE: Record<RateLimitInfo["status"], string> = {
+  allowed: "text-muted-foreground",
+  allowed_warning: "text-amber-600 dark:text-amber-400",
+  rejected: "text-red-600 dark:text-red-400",
+};
+
+/** Plan usage window state from the CLI, e.g. "5-hour 82%" or "5-hour limited until 14:00" */
+function RateLimitIndicator({ info }: { info: RateLimitInfo }) {
+  const used = info.utilization !== null ? ` ${Math.round(info.utilization * 100)}%` : "";
+  const resets = info.resetsAt ? new Date(info.resetsAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "";
+  const text = info.status === "rejected"
+    ? `${rateLimitLabel(info.limitType)} limited${resets ? ` until ${resets}` : ""}`
+    : `${rateLimitLabel(info.limitType)}${used || (info.status === "allowed_warning" ? " near limit" : " ok")}`;
+  return (
+    <span
+      className={`flex items-center gap-1 flex-shrink-0 ${RATE_LIMIT_STYLE[info.status]}`}
+      title={`Rate limit: ${info.status.replace("_", " ")}${resets ? `, resets ${resets}` : ""}${info.usingOverage ? ", using overage" : ""}`}
+    >
+      <Gauge className="h-3.5 w-3.5" />
+      <span>{text}</span>
+    </span>
+  );
+}
+
+export function ChatStatusBar({ phase, elapsedMs, toolName, onCancel, providerLabel, rateLimit }: ChatStatusBarProps) {
   const name = providerLabel || "Claude";
   const seconds = (elapsedMs / 1000).toFixed(1);
 
@@ -52,6 +78,7 @@ export function ChatStatusBar({ phase, elapsedMs, toolName, onCancel, providerLa
         <Icon className={`h-3.5 w-3.5 flex-shrink-0 ${iconColor} ${phase === "connecting" ? "animate-spin" : "animate-pulse"}`} />
         <span className="text-muted-foreground truncate">{label}</span>
       </div>
+      {rateLimit && <RateLimitIndicator info={rateLimit} />}
       <span className="text-muted-foreground font-mono tabular-nums flex-shrink-0">{seconds}s</span>
       <button
         onClick={onCancel}
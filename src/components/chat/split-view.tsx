@@ -11,7 +11,7 @@ import { LiveAssistantMessage } from "./live-assistant-message";
 import { MarkdownContent } from "@/components/markdown-content";
 import { ChatStatusBar } from "./chat-status-bar";
 import { fmtCost } from "@/lib/format-utils";
-import type { PermissionMode, LiveChatMessage } from "@/lib/chat-types";
+import type { PermissionMode, LiveChatMessage, RateLimitInfo } from "@/lib/chat-types";
 
 interface SplitViewProps {
   leftProvider: string;
@@ -32,6 +32,7 @@ function ProviderPanel({
   sending,
   currentPhase,
   elapsedMs,
+  rateLimit,
   showTools,
   onCancel,
 }: {
@@ -40,6 +41,7 @@ function ProviderPanel({
   sending: boolean;
   currentPhase: string | null;
   elapsedMs: number;
+  rateLimit: RateLimitInfo | null;
   showTools: boolean;
   onCancel: () => void;
 }) {
@@ -71,7 +73,7 @@ function ProviderPanel({
       {/* Panel header */}
       <div className="border-b bg-card px-3 py-2 flex items-center gap-2 flex-shrink-0">
         <Bot className="h-4 w-4 text-primary" />
-        <span className="text-sm font-semibold">{provider === "claude" ? "Claude Code" : provider === "codex" ? "OpenAI Codex" : provider}</span>
+        <span className="text-sm font-semibold">{provider === "claude" ? "Claude Code" : provider === "codex" ? "OpenAI Codex" : provider === "gemini" ? "Gemini CLI" : provider}</span>
         {messages.length > 0 && (
           <Badge variant="outline" className="text-[10px] ml-auto">
             {messages.length} msgs
@@ -122,6 +124,7 @@ function ProviderPanel({
         <ChatStatusBar
           phase={currentPhase as "connecting" | "thinking" | "tool_use" | "responding"}
           elapsedMs={elapsedMs}
+          rateLimit={rateLimit}
           toolName={lastToolName}
           onCancel={onCancel}
           providerLabel={PROVIDER_LABELS[provider] || provider}
@@ -195,6 +198,7 @@ export function SplitView({
             sending={leftStream.sending}
             currentPhase={leftStream.currentPhase}
             elapsedMs={leftStream.elapsedMs}
+            rateLimit={leftStream.rateLimit}
             showTools={showTools}
             onCancel={leftStream.cancel}
           />
@@ -206,6 +210,7 @@ export function SplitView({
             sending={rightStream.sending}
             currentPhase={rightStream.currentPhase}
             elapsedMs={rightStream.elapsedMs}
+            rateLimit={rightStream.rateLimit}
             showTools={showTools}
             onCancel={rightStream.cancel}
           />
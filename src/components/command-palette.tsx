@@ -22,6 +22,7 @@ import {
   Cpu,
   DollarSign,
   Minimize2,
+  Activity,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
@@ -84,6 +85,7 @@ const PAGE_ITEMS: { href: string; label: string; icon: React.ReactNode; shortcut
   { href: "/sessions", label: "Sessions", icon: <Clock className="h-4 w-4" />, shortcut: "3" },
   { href: "/chat", label: "Chat", icon: <MessageCircle className="h-4 w-4" />, shortcut: "4" },
   { href: "/tokens", label: "Tokens", icon: <Coins className="h-4 w-4" />, shortcut: "5" },
+  { href: "/tools", label: "Tool Reliability", icon: <Activity className="h-4 w-4" /> },
   { href: "/toolbox", label: "Toolbox", icon: <Wrench className="h-4 w-4" />, shortcut: "6" },
   { href: "/editor", label: "Instructions", icon: <FileEdit className="h-4 w-4" />, shortcut: "7" },
   { href: "/settings", label: "Settings", icon: <Settings className="h-4 w-4" />, shortcut: "8" },
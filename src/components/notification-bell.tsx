@@ -15,7 +15,6 @@ export function NotificationBell() {
     markRead,
     markAllRead,
     clearAll,
-    checkCosts,
   } = useNotifications();
 
   // Close on click outside
@@ -38,19 +37,6 @@ export function NotificationBell() {
     };
   }, [isOpen]);
 
-  // Periodic cost checking
-  useEffect(() => {
-    // Check on mount
-    checkCosts();
-
-    // Check every 60 seconds
-    const interval = setInterval(() => {
-      checkCosts();
-    }, 60000);
-
-    return () => clearInterval(interval);
-  }, [checkCosts]);
-
   const getIcon = (type: Notification["type"]) => {
     switch (type) {
       case "cost":
@@ -8,6 +8,7 @@ import {
   Users, Edit3, Eye, Search, FileText, MessageSquare, Wrench,
 } from "lucide-react";
 import { fmtCost, fmtTokens, shortModel } from "@/lib/format-utils";
+import { ToolResultView, ToolStatus, editDiff } from "./tool-result";
 import type { SessionMessage } from "./types";
 
 // Tool Configuration
@@ -26,6 +27,7 @@ export const TOOL_CONFIG: Record<string, {
   // Write operations (purple/violet)
   Write: { color: "text-purple-600 dark:text-purple-400", bgColor: "bg-purple-50 dark:bg-purple-950/30", borderColor: "border-purple-200 dark:border-purple-800", icon: FileText, category: "write" },
   Edit: { color: "text-violet-600 dark:text-violet-400", bgColor: "bg-violet-50 dark:bg-violet-950/30", borderColor: "border-violet-200 dark:border-violet-800", icon: Edit3, category: "write" },
+  MultiEdit: { color: "text-violet-600 dark:text-violet-400", bgColor: "bg-violet-50 dark:bg-violet-950/30", borderColor: "border-violet-200 dark:border-violet-800", icon: Edit3, category: "write" },
   NotebookEdit: { color: "text-purple-600 dark:text-purple-400", bgColor: "bg-purple-50 dark:bg-purple-950/30", borderColor: "border-purple-200 dark:border-purple-800", icon: Edit3, category: "write" },
 
   // Terminal operations (green)
@@ -113,9 +115,8 @@ export const ConvMessage = memo(function ConvMessage({ msg, showTools, searchHig
             <span className="text-xs text-muted-foreground font-mono ml-auto">
               {fmtTokens(msg.inputTokens || 0)}in/{fmtTokens(msg.outputTokens || 0)}out
               {msg.cacheRead ? `/${fmtTokens(msg.cacheRead)}cache` : ""}
-              {msg.inputTokens && msg.outputTokens ? ` ≈ ${fmtCost(
-                ((msg.inputTokens || 0) * 15 + (msg.outputTokens || 0) * 75) / 1e6
-              )}` : ""}
+              {msg.cacheWrite ? `/${fmtTokens(msg.cacheWrite)}write` : ""}
+              {msg.cost ? ` ≈ ${fmtCost(msg.cost)}` : ""}
             </span>
           )}
         </div>
@@ -136,9 +137,10 @@ export const ConvMessage = memo(function ConvMessage({ msg, showTools, searchHig
               const Icon = config.icon;
               const isExpanded = expandedTools.has(i);
               const parsedInput = parseToolInput(tool);
+              const isEdit = editDiff(tool) !== null;
 
               return (
-                <div key={i} className={`text-xs rounded border ${config.bgColor} ${config.borderColor}`}>
+                <div key={i} className={`text-xs rounded border ${config.bgColor} ${config.borderColor} ${tool.isError ? "ring-1 ring-red-300 dark:ring-red-800" : ""}`}>
                   {/* Tool header - clickable to expand/collapse */}
                   <button
                     onClick={() => toggleToolExpanded(i)}
@@ -154,7 +156,7 @@ export const ConvMessage = memo(function ConvMessage({ msg, showTools, searchHig
                           <code className="font-mono">{parsedInput.command.slice(0, 60)}</code>
                         ) : tool.name === "Read" && parsedInput.file_path ? (
                           <span className="font-mono">{parsedInput.file_path.split(/[/\\]/).pop()}</span>
-                        ) : tool.name === "Edit" && parsedInput.file_path ? (
+                        ) : (tool.name === "Edit" || tool.name === "MultiEdit") && parsedInput.file_path ? (
                           <span className="font-mono">{parsedInput.file_path.split(/[/\\]/).pop()}</span>
                         ) : tool.name === "Write" && parsedInput.file_path ? (
                           <span className="font-mono">{parsedInput.file_path.split(/[/\\]/).pop()}</span>
@@ -164,11 +166,14 @@ export const ConvMessage = memo(function ConvMessage({ msg, showTools, searchHig
                       </span>
                     )}
 
-                    {isExpanded ? <ChevronDown className="h-3 w-3 ml-auto flex-shrink-0" /> : <ChevronRight className="h-3 w-3 ml-auto flex-shrink-0" />}
+                    <span className={`flex items-center gap-2 flex-shrink-0 ${isExpanded ? "ml-auto" : ""}`}>
+                      <ToolStatus tool={tool} />
+                    </span>
+                    {isExpanded ? <ChevronDown className="h-3 w-3 flex-shrink-0" /> : <ChevronRight className="h-3 w-3 flex-shrink-0" />}
                   </button>
 
                   {/* Expanded content */}
-                  {isExpanded && tool.input && (
+                  {isExpanded && (tool.input || tool.result !== undefined) && (
                     <div className="px-2.5 pb-2 pt-0 border-t border-current/10">
                       {/* Special handling for specific tool types */}
                       {tool.name === "Bash" && parsedInput.command ? (
@@ -178,7 +183,7 @@ export const ConvMessage = memo(function ConvMessage({ msg, showTools, searchHig
                             $ {parsedInput.command}
                           </div>
                         </div>
-                      ) : tool.name === "Edit" && parsedInput.old_string && parsedInput.new_string ? (
+                      ) : isEdit ? (
                         <div className="mt-1.5 space-y-1.5">
                           {parsedInput.file_path && (
                             <div>
@@ -188,16 +193,7 @@ export const ConvMessage = memo(function ConvMessage({ msg, showTools, searchHig
                           )}
                           <div>
                             <div className="text-[10px] text-muted-foreground mb-0.5">Changes:</div>
-                            <pre className="bg-red-50 dark:bg-red-950/30 border-l-2 border-red-400 px-2 py-1 font-mono text-xs text-red-700 dark:text-red-400 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
-                              {parsedInput.old_string.split("\n").map((line: string, li: number) => (
-                                <div key={li}>- {line}</div>
-                              ))}
-                            </pre>
-                            <pre className="bg-green-50 dark:bg-green-950/30 border-l-2 border-green-400 px-2 py-1 font-mono text-xs text-green-700 dark:text-green-400 mt-0.5 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
-                              {parsedInput.new_string.split("\n").map((line: string, li: number) => (
-                                <div key={li}>+ {line}</div>
-                              ))}
-                            </pre>
+                            <ToolResultView tool={tool} />
                           </div>
                         </div>
                       ) : tool.name === "Read" && parsedInput.file_path ? (
@@ -223,11 +219,21 @@ export const ConvMessage = memo(function ConvMessage({ msg, showTools, searchHig
                             </div>
                           )}
                         </div>
-                      ) : (
+                      ) : tool.input ? (
                         // Generic JSON display
                         <pre className="mt-1.5 text-[11px] font-mono text-muted-foreground whitespace-pre-wrap break-words max-h-32 overflow-y-auto">
                           {tool.input.slice(0, 500)}
                         </pre>
+                      ) : null}
+
+                      {/* Paired tool result */}
+                      {!isEdit && tool.result !== undefined && (
+                        <div className="mt-1.5">
+                          <div className={`text-[10px] mb-1 ${tool.isError ? "text-red-600 dark:text-red-400" : "text-muted-foreground"}`}>
+                            {tool.isError ? "Error:" : "Result:"}
+                          </div>
+                          <ToolResultView tool={tool} />
+                        </div>
                       )}
                     </div>
                   )}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { GitBranch, ChevronLeft, ChevronRight, ChevronDown, Users } from "lucide-react";
+import { selectPath } from "@/lib/conversation-tree";
+import type { ConversationTree, SidechainThread } from "@/lib/conversation-tree";
+import { ConvMessage } from "./conv-message";
+import type { SessionMessage } from "./types";
+
+/** Messages worth rendering as a conversation row */
+export function isVisibleMessage(m: SessionMessage): boolean {
+  return (m.role === "user" || m.role === "assistant") &&
+    !!(m.content.trim() || (m.toolUse && m.toolUse.length > 0) || m.thinkingContent);
+}
+
+/** Visible messages along a node path, in order */
+export function messagesOnPath(
+  tree: ConversationTree, path: string[], byUuid: Map<string, SessionMessage>,
+): SessionMessage[] {
+  const out: SessionMessage[] = [];
+  for (const id of path) {
+    for (const uuid of tree.nodes[id].messageUuids) {
+      const m = byUuid.get(uuid);
+      if (m && isVisibleMessage(m)) out.push(m);
+    }
+  }
+  return out;
+}
+
+// Shown above the first message of a branch that has siblings
+export function BranchSwitcher({ index, count, onSelect }: {
+  index: number;
+  count: number;
+  onSelect: (index: number) => void;
+}) {
+  return (
+    <div className="flex items-center gap-2 px-4 py-1 text-xs text-muted-foreground bg-muted/30">
+      <GitBranch className="h-3 w-3" />
+      <span>
+        Branch {index + 1}/{count}
+        {count > 1 && ` · ${count - 1} other branch${count > 2 ? "es" : ""} collapsed`}
+      </span>
+      <div className="ml-auto flex items-center gap-0.5">
+        <button
+          className="p-0.5 rounded hover:bg-muted disabled:opacity-40"
+          disabled={index === 0}
+          onClick={() => onSelect(index - 1)}
+          title="Previous branch"
+        >
+          <ChevronLeft className="h-3.5 w-3.5" />
+        </button>
+        <button
+          className="p-0.5 rounded hover:bg-muted disabled:opacity-40"
+          disabled={index === count - 1}
+          onClick={() => onSelect(index + 1)}
+          title="Next branch"
+        >
+          <ChevronRight className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Collapsible subagent transcript, nested under the Task call that spawned it
+export function SidechainThreadView({ thread, tree, byUuid, showTools }: {
+  thread: SidechainThread;
+  tree: ConversationTree;
+  byUuid: Map<string, SessionMessage>;
+  showTools: boolean;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const messages = useMemo(
+    () => (expanded ? messagesOnPath(tree, selectPath(tree, {}, thread.rootId), byUuid) : []),
+    [expanded, tree, thread.rootId, byUuid],
+  );
+
+  return (
+    <div className="ml-14 mr-4 my-1 border-l-2 border-pink-300 dark:border-pink-800">
+      <button
+        className="flex items-center gap-1.5 px-2 py-1 text-xs text-pink-600 dark:text-pink-400 hover:underline"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Users className="h-3 w-3" />
+        Subagent{thread.description ? `: ${thread.description}` : ""}
+        <span className="text-muted-foreground">({thread.messageCount} messages)</span>
+      </button>
+      {expanded && (
+        <div className="divide-y divide-border/30 bg-pink-50/30 dark:bg-pink-950/10">
+          {messages.map((m) => (
+            <ConvMessage key={m.uuid} msg={m} showTools={showTools} assistantLabel="Subagent" />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
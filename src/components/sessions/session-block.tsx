@@ -7,6 +7,7 @@ import { fmtCost, fmtTokens, timeAgo, formatDT, shortModel } from "@/lib/format-
 import type { SessionInfo, SessionStatus } from "./types";
 import type { SessionMetaEntry } from "@/hooks/use-session-meta";
 import { SessionActions, getTagColor } from "./session-actions";
+import { SecretsBadge } from "./session-secrets";
 
 // Session status configuration
 export const STATUS_CONFIG: Record<SessionStatus, {
@@ -44,7 +45,7 @@ export function highlightText(text: string, search: string): React.ReactNode {
 }
 
 // Session Grid Block Component
-export function SessionBlock({ session, onClick, searchQuery, isFavorite, onToggleFavorite, onOpenInChat, meta, onUpdateMeta }: {
+export function SessionBlock({ session, onClick, searchQuery, isFavorite, onToggleFavorite, onOpenInChat, meta, onUpdateMeta, secretCount }: {
   session: SessionInfo;
   onClick: () => void;
   searchQuery?: string;
@@ -53,6 +54,8 @@ export function SessionBlock({ session, onClick, searchQuery, isFavorite, onTogg
   onOpenInChat?: (project: string, id: string) => void;
   meta?: SessionMetaEntry;
   onUpdateMeta?: (sessionId: string, updates: Partial<Pick<SessionMetaEntry, "displayName" | "pinned" | "tags" | "deleted">>) => void;
+  /** Distinct leaked secrets found in the transcript */
+  secretCount?: number;
 }) {
   const status = (session.status || "idle") as SessionStatus;
   const cfg = STATUS_CONFIG[status] || STATUS_CONFIG.idle;
@@ -103,6 +106,7 @@ export function SessionBlock({ session, onClick, searchQuery, isFavorite, onTogg
           </button>
         )}
         <div className={`h-1 w-8 rounded-full ${modelColor} opacity-70`} />
+        {secretCount ? <SecretsBadge count={secretCount} compact /> : null}
         {meta && onUpdateMeta && (
           <div className="ml-auto z-10 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
             <SessionActions sessionId={session.id} meta={meta} onUpdate={onUpdateMeta} />
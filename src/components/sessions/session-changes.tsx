@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RefreshCw, FileDiff, AlertTriangle } from "lucide-react";
+import type { FileHistory, SessionChanges } from "@/lib/file-changes";
+
+function DiffView({ diff }: { diff: string }) {
+  if (!diff) return <div className="text-xs text-muted-foreground px-3 py-2">No textual changes</div>;
+  return (
+    <pre className="text-xs font-mono overflow-x-auto">
+      {diff.split("\n").map((line, i) => (
+        <div
+          key={i}
+          className={`px-3 whitespace-pre ${
+            line.startsWith("@@") ? "text-blue-600 dark:text-blue-400 bg-blue-50/50 dark:bg-blue-950/20"
+              : line.startsWith("+") ? "text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-950/30"
+              : line.startsWith("-") ? "text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-950/30"
+              : "text-muted-foreground"
+          }`}
+        >
+          {line || " "}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+function Counts({ added, removed }: { added: number; removed: number }) {
+  return (
+    <span className="font-mono text-xs">
+      <span className="text-green-600">+{added}</span> <span className="text-red-600">-{removed}</span>
+    </span>
+  );
+}
+
+function FilePatches({ file, mode }: { file: FileHistory; mode: "net" | "patches" }) {
+  if (mode === "net") {
+    if (file.netDiff !== null) return <DiffView diff={file.netDiff} />;
+    return (
+      <div className="text-xs text-amber-600 px-3 py-2 flex items-center gap-1.5">
+        <AlertTriangle className="h-3.5 w-3.5" />
+        The file&apos;s content before or after this session is unknown; see individual patches.
+      </div>
+    );
+  }
+  return (
+    <div className="divide-y">
+      {file.changes.map((c, i) => (
+        <div key={c.toolUseId || i} className={c.failed ? "opacity-50" : ""}>
+          <div className="flex items-center gap-2 px-3 py-1.5 text-xs bg-muted/30">
+            <Badge variant="outline" className="text-xs h-4">{c.tool}</Badge>
+            <span className="text-muted-foreground">
+              {c.timestamp ? new Date(c.timestamp).toLocaleTimeString("zh-CN", { hour: "2-digit", minute: "2-digit", second: "2-digit" }) : ""}
+            </span>
+            {c.note && <span className="text-muted-foreground">{c.note}</span>}
+            {!c.exact && <span className="text-amber-600" title="Prior file content unknown; only the replaced snippet is shown">snippet</span>}
+            {c.failed && <Badge variant="destructive" className="text-xs h-4">failed</Badge>}
+            <span className="ml-auto"><Counts added={c.added} removed={c.removed} /></span>
+          </div>
+          <DiffView diff={c.diff} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function SessionChangesView({ projectPath, sessionId }: { projectPath: string; sessionId: string }) {
+  const [data, setData] = useState<SessionChanges | null>(null);
+  const [error, setError] = useState(false);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [mode, setMode] = useState<"net" | "patches">("net");
+
+  useEffect(() => {
+    fetch(`/api/sessions/${projectPath}/${sessionId}/changes`)
+      .then(r => r.json())
+      .then((d) => { if (d.error) setError(true); else setData(d); })
+      .catch(() => setError(true));
+  }, [projectPath, sessionId]);
+
+  if (error) return <div className="text-center py-16 text-sm text-muted-foreground">Failed to load changes</div>;
+  if (!data) return <div className="flex items-center justify-center h-64"><RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" /></div>;
+  if (data.files.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <FileDiff className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+        <p className="text-sm text-muted-foreground">No file edits in this session</p>
+      </div>
+    );
+  }
+
+  const visibleFiles = selected ? data.files.filter(f => f.path === selected) : data.files;
+
+  return (
+    <div className="flex flex-1 overflow-hidden">
+      {/* File list */}
+      <div className="w-64 border-r overflow-auto bg-muted/5 flex-shrink-0 p-2 space-y-1">
+        <button
+          className={`w-full text-left px-2 py-1.5 rounded text-xs transition-colors ${selected === null ? "bg-primary/10 text-primary" : "hover:bg-muted"}`}
+          onClick={() => setSelected(null)}
+        >
+          <div className="font-medium">All files ({data.files.length})</div>
+          <Counts added={data.totalAdded} removed={data.totalRemoved} />
+        </button>
+        {data.files.map(f => (
+          <button
+            key={f.path}
+            className={`w-full text-left px-2 py-1.5 rounded text-xs transition-colors ${selected === f.path ? "bg-primary/10 text-primary" : "hover:bg-muted"}`}
+            onClick={() => setSelected(f.path)}
+            title={f.path}
+          >
+            <div className="font-mono truncate">
+              {f.path.split(/[/\\]/).pop()}
+              {f.created && <span className="ml-1 text-green-600">(new)</span>}
+            </div>
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Counts added={f.added} removed={f.removed} />
+              <span>{f.changes.length} change{f.changes.length === 1 ? "" : "s"}</span>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Diffs */}
+      <div className="flex-1 overflow-auto">
+        <div className="sticky top-0 z-10 border-b bg-background px-3 py-1.5 flex items-center gap-1">
+          <Button variant={mode === "net" ? "default" : "outline"} size="sm" className="text-xs h-6" onClick={() => setMode("net")}>
+            Net diff of this session
+          </Button>
+          <Button variant={mode === "patches" ? "default" : "outline"} size="sm" className="text-xs h-6" onClick={() => setMode("patches")}>
+            Patch history
+          </Button>
+        </div>
+        {visibleFiles.map(f => (
+          <div key={f.path} className="border-b">
+            <div className="px-3 py-2 text-xs font-mono font-medium bg-muted/20 flex items-center gap-2">
+              <span className="truncate" title={f.path}>{f.path}</span>
+              <span className="ml-auto"><Counts added={f.added} removed={f.removed} /></span>
+            </div>
+            <FilePatches file={f} mode={mode} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
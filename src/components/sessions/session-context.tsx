@@ -0,0 +1,124 @@
+"use client";
+
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  AreaChart, Area, ResponsiveContainer, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine,
+} from "recharts";
+import { Gauge, Minimize2 } from "lucide-react";
+import { fmtTokens } from "@/lib/format-utils";
+import { buildContextTimeline } from "@/lib/context-window";
+import type { ContextTurn } from "@/lib/context-window";
+import type { SessionMessage } from "./types";
+
+function TurnTooltip({ active, payload }: { active?: boolean; payload?: { payload: ContextTurn }[] }) {
+  if (!active || !payload || !payload.length) return null;
+  const t = payload[0].payload;
+  return (
+    <div className="bg-card border border-border rounded-md px-3 py-2 shadow-md text-xs space-y-0.5">
+      <p className="font-medium">Turn {t.turn} · {t.timestamp ? new Date(t.timestamp).toLocaleTimeString("zh-CN") : ""}</p>
+      <p className="font-mono font-bold">{fmtTokens(t.context)} ({t.percent.toFixed(1)}%)</p>
+      <p className="text-muted-foreground">
+        input <span className="font-mono">{fmtTokens(t.input)}</span> · cache read <span className="font-mono">{fmtTokens(t.cacheRead)}</span> · cache write <span className="font-mono">{fmtTokens(t.cacheWrite)}</span>
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Context usage per turn against the model's window, with compactions and
+ * the tool results that grew the context the most.
+ */
+export function SessionContext({ messages, model, onJump }: {
+  messages: SessionMessage[];
+  model?: string;
+  onJump: (uuid: string) => void;
+}) {
+  const timeline = useMemo(() => buildContextTimeline(messages, { model: model || undefined }), [messages, model]);
+  const { turns, compactions, inflators, window, peak } = timeline;
+  const latest = turns[turns.length - 1];
+
+  if (turns.length === 0) {
+    return <p className="flex-1 text-sm text-muted-foreground text-center py-16">No per-turn token usage recorded for this session</p>;
+  }
+
+  return (
+    <div className="flex-1 overflow-auto p-4 space-y-4">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Badge variant="outline" className="text-xs font-mono">
+          <Gauge className="h-3 w-3 mr-1" />window {fmtTokens(window)}
+        </Badge>
+        <Badge variant="outline" className={`text-xs font-mono ${peak / window > 0.9 ? "border-red-300 text-red-600" : ""}`}>
+          peak {fmtTokens(peak)} ({((peak / window) * 100).toFixed(0)}%)
+        </Badge>
+        <Badge variant="outline" className="text-xs font-mono">
+          now {fmtTokens(latest.context)} ({latest.percent.toFixed(0)}%)
+        </Badge>
+        <Badge variant="outline" className="text-xs">{turns.length} turns</Badge>
+        <Badge variant="outline" className="text-xs">
+          <Minimize2 className="h-3 w-3 mr-1" />{compactions.length} compaction{compactions.length === 1 ? "" : "s"}
+        </Badge>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={turns} margin={{ top: 16, right: 16, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis dataKey="turn" tick={{ fontSize: 10 }} />
+            <YAxis domain={[0, Math.max(window, peak)]} tickFormatter={(v: number) => fmtTokens(v)} tick={{ fontSize: 10 }} width={48} />
+            <Tooltip content={<TurnTooltip />} />
+            <ReferenceLine y={window} stroke="#ef4444" strokeDasharray="4 4" label={{ value: "limit", fontSize: 10, fill: "#ef4444", position: "insideTopRight" }} />
+            {compactions.map((c) => (
+              <ReferenceLine
+                key={c.uuid}
+                x={Math.min(c.afterTurn + 1, turns.length)}
+                stroke="#f59e0b"
+                strokeDasharray="3 3"
+                label={{ value: c.trigger === "manual" ? "/compact" : "auto-compact", fontSize: 10, fill: "#f59e0b", position: "top" }}
+              />
+            ))}
+            <Area type="monotone" dataKey="context" stroke="#6366f1" fill="#6366f1" fillOpacity={0.2} isAnimationActive={false} />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-muted-foreground">Largest context increases from tool results</div>
+          {inflators.map((i) => (
+            <button
+              key={`${i.uuid}-${i.toolUseId ?? i.name}`}
+              className="w-full text-left px-2 py-1.5 rounded text-xs hover:bg-muted transition-colors flex items-center gap-2"
+              onClick={() => onJump(i.uuid)}
+            >
+              <Badge variant="secondary" className="text-[10px] flex-shrink-0">{i.name}</Badge>
+              <span className="font-mono truncate flex-1 text-muted-foreground" title={i.summary}>{i.summary}</span>
+              <span className="font-mono flex-shrink-0">+{fmtTokens(i.tokens)}</span>
+              <span className="text-muted-foreground flex-shrink-0">turn {i.turn}</span>
+            </button>
+          ))}
+          {inflators.length === 0 && <p className="text-xs text-muted-foreground px-2 py-2">No tool results grew the context</p>}
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-muted-foreground">Compactions</div>
+          {compactions.map((c) => (
+            <button
+              key={c.uuid}
+              className="w-full text-left px-2 py-1.5 rounded text-xs hover:bg-muted transition-colors flex items-center gap-2"
+              onClick={() => onJump(c.uuid)}
+            >
+              <Badge variant="outline" className="text-[10px] border-amber-300 text-amber-600 flex-shrink-0">
+                {c.trigger === "manual" ? "/compact" : "auto"}
+              </Badge>
+              <span className="flex-1">after turn {c.afterTurn}</span>
+              <span className="font-mono">{fmtTokens(c.preTokens)} before</span>
+              <span className="text-muted-foreground">{c.timestamp ? new Date(c.timestamp).toLocaleTimeString("zh-CN", { hour: "2-digit", minute: "2-digit" }) : ""}</span>
+            </button>
+          ))}
+          {compactions.length === 0 && <p className="text-xs text-muted-foreground px-2 py-2">Never compacted</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
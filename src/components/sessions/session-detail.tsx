@@ -8,59 +8,177 @@ import { MarkdownContent } from "@/components/markdown-content";
 import { TerminalView } from "@/components/terminal-view";
 import {
   RefreshCw, ArrowLeft, Wrench, ChevronsUp, ChevronsDown, MapPin,
-  FileText, DollarSign, Search, X, Monitor, SquareTerminal, Download, BarChart3, Star, MessageCircle, Copy, Check,
+  FileText, DollarSign, Search, X, Monitor, SquareTerminal, BarChart3, Star, MessageCircle, Copy, Check,
+  GitBranch, FileDiff, GitFork, Film, ShieldAlert, Gauge,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { fmtCost, fmtTokens, shortModel } from "@/lib/format-utils";
 import { ConvMessage } from "./conv-message";
 import { SessionAnalytics } from "./session-analytics";
-import type { SessionDetail, FilePreview } from "./types";
+import { SessionChangesView } from "./session-changes";
+import { SessionProcess } from "./session-process";
+import { SessionReplay } from "./session-replay";
+import { SessionExportMenu } from "./session-export-menu";
+import { SessionSecrets } from "./session-secrets";
+import { SessionContext } from "./session-context";
+import { BranchSwitcher, SidechainThreadView, isVisibleMessage, messagesOnPath } from "./conversation-branches";
+import { buildConversationTree, selectPath, choicesToReveal, indexMessages } from "@/lib/conversation-tree";
+import type { BranchChoices, SidechainThread } from "@/lib/conversation-tree";
+import type { FilePreview, MessageFocus, SessionMessage } from "./types";
+import type { SecretFinding } from "@/lib/secret-scanner";
 import { useToast } from "@/components/toast";
 import { useFavorites } from "@/hooks/use-favorites";
+import { useLiveSessions } from "@/hooks/use-live-sessions";
+import { useSessionPages } from "@/hooks/use-session-pages";
+import { useVirtualList } from "@/hooks/use-virtual-list";
+import { applyLiveMessages } from "@/lib/live-events";
 
-export function SessionDetailView({ projectPath, sessionId, onBack }: {
+export function SessionDetailView({ projectPath, sessionId, focus, onBack }: {
   projectPath: string;
   sessionId: string;
+  /** Message to scroll to once loaded (e.g. from transcript search) */
+  focus?: MessageFocus;
   onBack: () => void;
 }) {
-  const [detail, setDetail] = useState<SessionDetail | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { detail, loading, loadingOlder, hasOlder, update, reload, loadOlder, loadAll } = useSessionPages(projectPath, sessionId);
+  // Changes, context and forking need Claude transcripts
+  const isClaudeSession = projectPath !== "__codex__" && projectPath !== "__gemini__";
   const [showTools, setShowTools] = useState(true);
   const [showCheckpoints, setShowCheckpoints] = useState(false);
   const [showFiles, setShowFiles] = useState(false);
   const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showChanges, setShowChanges] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
+  const [showContext, setShowContext] = useState(false);
+  const [showSecrets, setShowSecrets] = useState(false);
+  const [secrets, setSecrets] = useState<SecretFinding[]>([]);
   const [previewFile, setPreviewFile] = useState<FilePreview | null>(null);
   const [previewLoading, setPreviewLoading] = useState(false);
   const [convSearch, setConvSearch] = useState("");
   const [convSearchMatch, setConvSearchMatch] = useState(0);
   const [idCopied, setIdCopied] = useState(false);
+  const [branchChoices, setBranchChoices] = useState<BranchChoices>({});
+  const [forking, setForking] = useState(false);
   const [viewMode, setViewMode] = useState<"card" | "terminal">(() => {
     if (typeof window !== "undefined") {
       return (localStorage.getItem("session-view-mode") as "card" | "terminal") || "card";
     }
     return "card";
   });
+  const [jumpSeq, setJumpSeq] = useState(0);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Message to scroll to once it is loaded and on the shown branch
+  const pendingJump = useRef<((m: SessionMessage) => boolean) | null>(null);
+  const openedAt = useRef<string | null>(null);
   const { toast } = useToast();
   const { isFavorite, toggleFavorite } = useFavorites();
   const router = useRouter();
 
   useEffect(() => {
-    setLoading(true);
-    fetch(`/api/sessions/${projectPath}/${sessionId}`)
-      .then(r => r.json()).then(d => { if (!d.error) setDetail(d); setLoading(false); })
-      .catch(() => setLoading(false));
+    reload().then((d) => {
+      if (!d) return;
+      // Open the branch holding a deep-linked message; the tree covers the whole session
+      const t = d.treeRecords ? buildConversationTree(d.treeRecords) : undefined;
+      const node = t && focus?.uuid ? indexMessages(t).get(focus.uuid) : undefined;
+      setBranchChoices(t && node ? choicesToReveal(t, node) : {});
+    });
+    // focus only matters for the initial load of a session
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reload]);
+
+  const loadSecrets = useCallback(() => {
+    fetch(`/api/sessions/${encodeURIComponent(projectPath)}/${sessionId}/secrets`)
+      .then(r => r.json()).then((d) => setSecrets(d.findings ?? []))
+      .catch(() => {});
   }, [projectPath, sessionId]);
 
-  const scrollToTop = useCallback(() => scrollRef.current?.scrollTo({ top: 0, behavior: "smooth" }), []);
-  const scrollToBottom = useCallback(() => scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: "smooth" }), []);
-  const scrollToCheckpoint = useCallback((idx: number) => {
+  useEffect(() => { loadSecrets(); }, [loadSecrets]);
+
+  // Append records as they are written; Codex transcripts are refetched
+  useLiveSessions((event) => {
+    if (event.type === "session.messages") {
+      update(d => applyLiveMessages(d, event));
+    } else if (event.type === "session.changed") {
+      reload();
+    }
+  }, { session: { project: projectPath, id: sessionId } });
+
+  const treeRecords = detail?.treeRecords;
+  const tree = useMemo(() => (treeRecords ? buildConversationTree(treeRecords) : undefined), [treeRecords]);
+
+  const messageNodes = useMemo(() => (tree ? indexMessages(tree) : new Map<string, string>()), [tree]);
+
+  /**
+   * Scroll to the first message `match` accepts: switch to its branch, load
+   * the `older` messages it needs (all of them when unknown), then scroll once
+   * it is on screen.
+   */
+  const jumpTo = useCallback((match: (m: SessionMessage) => boolean, opts: { uuid?: string; older?: number } = {}) => {
     if (!detail) return;
-    const msg = detail.messages[idx];
-    if (!msg) return;
-    const el = document.getElementById(`msg-${msg.uuid}`);
-    el?.scrollIntoView({ behavior: "smooth", block: "start" });
-  }, [detail]);
+    const node = opts.uuid ? messageNodes.get(opts.uuid) : undefined;
+    if (tree && node) setBranchChoices((c) => choicesToReveal(tree, node, c));
+    if (!detail.messages.some(match)) {
+      if (opts.older) loadOlder(opts.older);
+      else loadAll();
+    }
+    pendingJump.current = match;
+    setJumpSeq((n) => n + 1);
+  }, [detail, tree, messageNodes, loadOlder, loadAll]);
+
+  const scrollToCheckpoint = useCallback((cp: { index: number; uuid: string }) => {
+    jumpTo(m => m.uuid === cp.uuid, { uuid: cp.uuid, older: detail ? detail.offset - cp.index : undefined });
+  }, [detail, jumpTo]);
+
+  // Tool results are folded into the message that made the call, so match that too
+  const jumpToSecret = useCallback((f: SecretFinding) => {
+    jumpTo(m => (!!f.messageUuid && m.uuid === f.messageUuid)
+      || (!!f.toolUseId && !!m.toolUse?.some(t => t.id === f.toolUseId))
+      || (!!f.timestamp && m.timestamp === f.timestamp), { uuid: f.messageUuid });
+  }, [jumpTo]);
+
+  // Leave the context chart for the conversation, scrolled to the message
+  const jumpFromContext = useCallback((uuid: string) => {
+    setShowContext(false);
+    jumpTo(m => m.uuid === uuid, { uuid });
+  }, [jumpTo]);
+
+  // Views over the whole session need all of it
+  const openWhole = useCallback((open: () => void) => {
+    loadAll();
+    open();
+  }, [loadAll]);
+
+  // The transcript was rewritten: reload it and rescan
+  const afterRedaction = useCallback(() => {
+    reload();
+    loadSecrets();
+  }, [reload, loadSecrets]);
+
+  // Copy the conversation before a checkpoint into a new session and continue it in Chat
+  const forkFromCheckpoint = useCallback(async (uuid: string | undefined) => {
+    if (!uuid) return;
+    setForking(true);
+    try {
+      const res = await fetch(`/api/sessions/${encodeURIComponent(projectPath)}/${sessionId}/fork`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ uuid }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast(data.error || "Failed to fork session", "error");
+        return;
+      }
+      const query = new URLSearchParams({ session: `${projectPath}|${data.sessionId}`, prompt: data.prompt });
+      if (data.cwd) query.set("cwd", data.cwd);
+      toast("Session forked");
+      router.push(`/chat?${query}`);
+    } catch {
+      toast("Failed to fork session", "error");
+    } finally {
+      setForking(false);
+    }
+  }, [projectPath, sessionId, router, toast]);
 
   const loadFilePreview = useCallback((filePath: string) => {
     setPreviewLoading(true);
@@ -80,58 +198,43 @@ export function SessionDetailView({ projectPath, sessionId, onBack }: {
       });
   }, []);
 
-  const exportAsMarkdown = useCallback(() => {
-    if (!detail) return;
+  // Compute search matches (must be before early returns to keep hook order stable)
+  const messagesByUuid = useMemo(() => new Map((detail?.messages ?? []).map(m => [m.uuid, m])), [detail]);
+  const selectedPath = useMemo(
+    () => (tree && tree.roots.length > 0 ? selectPath(tree, branchChoices) : null),
+    [tree, branchChoices],
+  );
 
-    let md = `# Session: ${detail.projectName}\n`;
-    md += `**Date:** ${detail.startTime} - ${detail.endTime}\n`;
-    md += `**Model:** ${shortModel(detail.model)}\n`;
-    md += `**Cost:** ${fmtCost(detail.estimatedCost)}\n`;
-    md += `**Tokens:** ${fmtTokens(detail.totalInputTokens)} in / ${fmtTokens(detail.totalOutputTokens)} out\n\n`;
-    md += `---\n\n`;
+  const allVisible = useMemo(() => {
+    if (!detail) return [];
+    if (tree && selectedPath) return messagesOnPath(tree, selectedPath, messagesByUuid);
+    return detail.messages.filter(m => !m.isSidechain && isVisibleMessage(m));
+  }, [detail, tree, selectedPath, messagesByUuid]);
 
-    for (const msg of detail.messages) {
-      if (msg.role !== "user" && msg.role !== "assistant") continue;
-      if (!msg.content.trim() && (!msg.toolUse || msg.toolUse.length === 0)) continue;
+  // Branch switchers go above the first visible message of each branch that has siblings
+  const branchSwitchers = useMemo(() => {
+    const map = new Map<string, { pointId: string; options: string[]; index: number }>();
+    if (!tree || !selectedPath) return map;
+    const visibleUuids = new Set(allVisible.map(m => m.uuid));
+    let pending: { pointId: string; options: string[]; index: number } | null = null;
+    selectedPath.forEach((id, i) => {
+      const pointId = i === 0 ? "" : selectedPath[i - 1];
+      const options = i === 0 ? tree.roots : tree.nodes[pointId].children;
+      if (options.length > 1) pending = { pointId, options, index: options.indexOf(id) };
+      const first = tree.nodes[id].messageUuids.find(u => visibleUuids.has(u));
+      if (pending && first) { map.set(first, pending); pending = null; }
+    });
+    return map;
+  }, [tree, selectedPath, allVisible]);
 
-      md += `## ${msg.role === "user" ? "User" : "Claude"}\n`;
-      if (msg.timestamp) {
-        md += `*${new Date(msg.timestamp).toLocaleTimeString()}*\n\n`;
-      }
-      if (msg.content.trim()) {
-        md += msg.content.trim() + "\n\n";
-      }
-      if (msg.toolUse && msg.toolUse.length > 0) {
-        for (const tool of msg.toolUse) {
-          md += `### Tool: ${tool.name}\n`;
-          if (tool.input) {
-            md += "```json\n" + tool.input.slice(0, 500) + "\n```\n\n";
-          }
-        }
-      }
-      md += `---\n\n`;
+  const sidechainsByHost = useMemo(() => {
+    const map = new Map<string, SidechainThread[]>();
+    for (const t of tree?.sidechains ?? []) {
+      const key = t.hostUuid ?? "";
+      map.set(key, [...(map.get(key) ?? []), t]);
     }
-
-    const blob = new Blob([md], { type: "text/markdown" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `session-${detail.id.slice(0, 8)}-${new Date(detail.startTime).toISOString().split("T")[0]}.md`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-
-    toast("Session exported as Markdown");
-  }, [detail, toast]);
-
-  // Compute search matches (must be before early returns to keep hook order stable)
-  const allVisible = useMemo(() => {
-    if (!detail) return [];
-    return detail.messages.filter(m =>
-      (m.role === "user" || m.role === "assistant") && (m.content.trim() || (m.toolUse && m.toolUse.length > 0) || m.thinkingContent)
-    );
-  }, [detail]);
+    return map;
+  }, [tree]);
 
   const convSearchLower = convSearch.trim().toLowerCase();
   const matchedIndices = useMemo(() => {
@@ -141,17 +244,59 @@ export function SessionDetailView({ projectPath, sessionId, onBack }: {
       .filter((i) => i !== -1);
   }, [allVisible, convSearchLower]);
 
+  // Deep-linked message: match by uuid, fall back to timestamp
+  const focusedUuid = useMemo(() => {
+    if (!focus) return null;
+    const hit = allVisible.find(m => focus.uuid && m.uuid === focus.uuid)
+      ?? allVisible.find(m => focus.timestamp && m.timestamp === focus.timestamp);
+    return hit?.uuid ?? null;
+  }, [allVisible, focus]);
+
+  const visibleKeys = useMemo(() => allVisible.map(m => m.uuid), [allVisible]);
+  const list = useVirtualList({
+    scrollRef,
+    keys: visibleKeys,
+    onStartReached: () => { if (hasOlder) loadOlder(); },
+  });
+  const { scrollToIndex } = list;
+  const scrollToTop = useCallback(() => scrollToIndex(0), [scrollToIndex]);
+  const scrollToBottom = useCallback(() => scrollToIndex(visibleKeys.length - 1, "end"), [scrollToIndex, visibleKeys]);
+
+  // Open at the newest message, or at the deep-linked one
+  useEffect(() => {
+    if (!detail || openedAt.current === detail.id || allVisible.length === 0) return;
+    if (focus && !focusedUuid) {
+      if (hasOlder) loadAll();
+      else openedAt.current = detail.id;
+      return;
+    }
+    openedAt.current = detail.id;
+    if (focusedUuid) scrollToIndex(allVisible.findIndex(m => m.uuid === focusedUuid), "center");
+    else scrollToIndex(allVisible.length - 1, "end");
+  }, [detail, allVisible, focus, focusedUuid, hasOlder, loadAll, scrollToIndex]);
+
+  useEffect(() => {
+    const match = pendingJump.current;
+    const i = match ? allVisible.findIndex(match) : -1;
+    if (i < 0) return;
+    pendingJump.current = null;
+    scrollToIndex(i);
+  }, [allVisible, jumpSeq, scrollToIndex]);
+
   // Jump to matched message
   useEffect(() => {
     if (matchedIndices.length > 0 && convSearchMatch >= 0 && convSearchMatch < matchedIndices.length) {
-      const msgIdx = matchedIndices[convSearchMatch];
-      const msg = allVisible[msgIdx];
-      if (msg) {
-        const el = document.getElementById(`msg-${msg.uuid}`);
-        el?.scrollIntoView({ behavior: "smooth", block: "center" });
-      }
+      scrollToIndex(matchedIndices[convSearchMatch], "center");
     }
-  }, [convSearchMatch, convSearch, matchedIndices, allVisible]);
+  }, [convSearchMatch, convSearch, matchedIndices, scrollToIndex]);
+
+  const terminalDetail = useMemo(() => detail && {
+    ...detail,
+    // Terminal view indexes checkpoints into the messages it was given
+    checkpoints: detail.checkpoints
+      .filter(cp => cp.index >= detail.offset)
+      .map(cp => ({ ...cp, index: cp.index - detail.offset })),
+  }, [detail]);
 
   if (loading) return <div className="flex items-center justify-center h-64"><RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" /></div>;
   if (!detail) return (
@@ -187,6 +332,7 @@ export function SessionDetailView({ projectPath, sessionId, onBack }: {
           </div>
         </div>
         <div className="flex items-center gap-1.5">
+          <SessionProcess projectPath={projectPath} sessionId={sessionId} />
           {/* Star toggle button */}
           <Button
             variant="ghost"
@@ -219,17 +365,39 @@ export function SessionDetailView({ projectPath, sessionId, onBack }: {
           <Button variant={showTools ? "default" : "outline"} size="sm" className="text-xs h-7" onClick={() => setShowTools(!showTools)}>
             <Wrench className="h-3 w-3 mr-1" />Tools
           </Button>
-          <Button variant={showCheckpoints ? "default" : "outline"} size="sm" className="text-xs h-7" onClick={() => { setShowCheckpoints(!showCheckpoints); setShowFiles(false); setShowAnalytics(false); }}>
+          <Button variant={showCheckpoints ? "default" : "outline"} size="sm" className="text-xs h-7" onClick={() => { setShowCheckpoints(!showCheckpoints); setShowFiles(false); setShowAnalytics(false); setShowSecrets(false); }}>
             <MapPin className="h-3 w-3 mr-1" />Checkpoints ({detail.checkpoints.length})
           </Button>
           {detail.contextFiles.length > 0 && (
-            <Button variant={showFiles ? "default" : "outline"} size="sm" className="text-xs h-7" onClick={() => { setShowFiles(!showFiles); setShowCheckpoints(false); setShowAnalytics(false); }}>
+            <Button variant={showFiles ? "default" : "outline"} size="sm" className="text-xs h-7" onClick={() => { setShowFiles(!showFiles); setShowCheckpoints(false); setShowAnalytics(false); setShowSecrets(false); }}>
               <FileText className="h-3 w-3 mr-1" />Files ({detail.contextFiles.length})
             </Button>
           )}
-          <Button variant={showAnalytics ? "default" : "outline"} size="sm" className="text-xs h-7" onClick={() => { setShowAnalytics(!showAnalytics); setShowCheckpoints(false); setShowFiles(false); }}>
+          <Button variant={showAnalytics ? "default" : "outline"} size="sm" className="text-xs h-7" onClick={() => openWhole(() => { setShowAnalytics(!showAnalytics); setShowCheckpoints(false); setShowFiles(false); setShowSecrets(false); })}>
             <BarChart3 className="h-3 w-3 mr-1" />Analytics
           </Button>
+          {secrets.length > 0 && (
+            <Button
+              variant={showSecrets ? "destructive" : "outline"} size="sm"
+              className={`text-xs h-7 ${showSecrets ? "" : "border-red-300 text-red-600"}`}
+              onClick={() => { setShowSecrets(!showSecrets); setShowCheckpoints(false); setShowFiles(false); setShowAnalytics(false); }}
+            >
+              <ShieldAlert className="h-3 w-3 mr-1" />Secrets ({new Set(secrets.map(f => f.fingerprint)).size})
+            </Button>
+          )}
+          {isClaudeSession && (
+            <Button variant={showChanges ? "default" : "outline"} size="sm" className="text-xs h-7" onClick={() => { setShowChanges(!showChanges); setShowReplay(false); setShowContext(false); }}>
+              <FileDiff className="h-3 w-3 mr-1" />Changes
+            </Button>
+          )}
+          <Button variant={showReplay ? "default" : "outline"} size="sm" className="text-xs h-7" onClick={() => openWhole(() => { setShowReplay(!showReplay); setShowChanges(false); setShowContext(false); })}>
+            <Film className="h-3 w-3 mr-1" />Replay
+          </Button>
+          {isClaudeSession && (
+            <Button variant={showContext ? "default" : "outline"} size="sm" className="text-xs h-7" onClick={() => openWhole(() => { setShowContext(!showContext); setShowChanges(false); setShowReplay(false); })}>
+              <Gauge className="h-3 w-3 mr-1" />Context
+            </Button>
+          )}
           <Button
             variant="outline" size="sm" className="text-xs h-7"
             onClick={() => router.push(`/chat?session=${encodeURIComponent(projectPath)}|${sessionId}`)}
@@ -237,13 +405,34 @@ export function SessionDetailView({ projectPath, sessionId, onBack }: {
           >
             <MessageCircle className="h-3 w-3 mr-1" />Chat
           </Button>
-          <Button variant="outline" size="sm" className="text-xs h-7" onClick={exportAsMarkdown} title="Export as Markdown">
-            <Download className="h-3 w-3 mr-1" />Export
-          </Button>
+          <SessionExportMenu projectPath={projectPath} sessionId={sessionId} />
           <Badge variant="outline" className="text-xs">{visible.length} msgs</Badge>
+          {hasOlder && (
+            <Badge
+              variant="outline" className="text-xs cursor-pointer"
+              title="Older messages load as you scroll up; click to load them all"
+              onClick={() => loadAll()}
+            >
+              {detail.offset} older
+            </Badge>
+          )}
+          {tree && (tree.branchPoints.length > 0 || tree.sidechains.length > 0) && (
+            <Badge variant="outline" className="text-xs" title="Branch points / subagent transcripts">
+              <GitBranch className="h-3 w-3 mr-0.5" />{tree.branchPoints.length} / {tree.sidechains.length}
+            </Badge>
+          )}
           <Badge variant="outline" className="text-xs font-mono">
             <DollarSign className="h-3 w-3" />{fmtCost(detail.estimatedCost)}
           </Badge>
+          {detail.unpricedModels && detail.unpricedModels.length > 0 && (
+            <Badge
+              variant="outline"
+              className="text-xs border-amber-300 text-amber-600"
+              title={`No price configured for ${detail.unpricedModels.join(", ")}; cost excludes their tokens`}
+            >
+              unpriced
+            </Badge>
+          )}
           <Badge variant="outline" className="text-xs font-mono">
             {fmtTokens(detail.totalInputTokens)}in / {fmtTokens(detail.totalOutputTokens)}out
           </Badge>
@@ -286,27 +475,50 @@ export function SessionDetailView({ projectPath, sessionId, onBack }: {
         )}
       </div>
 
+      {/* File changes replace the conversation while open */}
+      {showChanges && <SessionChangesView projectPath={projectPath} sessionId={sessionId} />}
+
+      {/* Replay plays the current branch back on its original timing */}
+      {showReplay && <SessionReplay messages={visible} showTools={showTools} />}
+
+      {/* Context usage per turn on the current branch */}
+      {showContext && <SessionContext messages={visible} model={detail.model} onJump={jumpFromContext} />}
+
       {/* Terminal View Mode */}
-      {viewMode === "terminal" && detail && (
+      {!showChanges && !showReplay && !showContext && viewMode === "terminal" && detail && (
         <div className="flex-1 overflow-hidden relative">
-          <TerminalView detail={detail} />
+          <TerminalView detail={terminalDetail ?? detail} />
         </div>
       )}
 
       {/* Card View Mode */}
-      {viewMode === "card" && (<div className="flex flex-1 overflow-hidden">
-        {/* Sidebar: checkpoints, files, or analytics */}
-        {(showCheckpoints || showFiles || showAnalytics) && (
+      {!showChanges && !showReplay && !showContext && viewMode === "card" && (<div className="flex flex-1 overflow-hidden">
+        {/* Sidebar: checkpoints, files, analytics, or leaked secrets */}
+        {(showCheckpoints || showFiles || showAnalytics || showSecrets) && (
           <div className="w-64 border-r overflow-auto bg-muted/5 flex-shrink-0">
             {showCheckpoints && (
               <div className="p-2 space-y-1">
                 <div className="text-xs font-medium text-muted-foreground px-2 py-1">User Messages (Checkpoints)</div>
                 {detail.checkpoints.map((cp, i) => (
-                  <button key={i} className="w-full text-left px-2 py-1.5 rounded text-xs hover:bg-muted transition-colors"
-                    onClick={() => scrollToCheckpoint(cp.index)}>
-                    <div className="font-medium truncate">{cp.content}</div>
-                    <div className="text-muted-foreground">{cp.timestamp ? new Date(cp.timestamp).toLocaleTimeString("zh-CN", { hour: "2-digit", minute: "2-digit" }) : ""}</div>
-                  </button>
+                  <div key={i} className="group relative">
+                    <button className="w-full text-left px-2 py-1.5 rounded text-xs hover:bg-muted transition-colors"
+                      onClick={() => scrollToCheckpoint(cp)}>
+                      <div className="font-medium truncate">{cp.content}</div>
+                      <div className="text-muted-foreground">{cp.timestamp ? new Date(cp.timestamp).toLocaleTimeString("zh-CN", { hour: "2-digit", minute: "2-digit" }) : ""}</div>
+                    </button>
+                    {/* Nothing precedes the first prompt, so there is nothing to fork */}
+                    {i > 0 && isClaudeSession && (
+                      <Button
+                        variant="outline" size="sm"
+                        className="absolute right-1 bottom-1 h-5 px-1.5 text-[10px] opacity-0 group-hover:opacity-100"
+                        disabled={forking}
+                        onClick={() => forkFromCheckpoint(cp.uuid)}
+                        title="Fork into a new chat with the conversation before this message"
+                      >
+                        <GitFork className="h-2.5 w-2.5 mr-0.5" />Fork from here
+                      </Button>
+                    )}
+                  </div>
                 ))}
               </div>
             )}
@@ -330,22 +542,56 @@ export function SessionDetailView({ projectPath, sessionId, onBack }: {
               </div>
             )}
             {showAnalytics && <SessionAnalytics detail={detail} />}
+            {showSecrets && (
+              <SessionSecrets
+                projectPath={projectPath}
+                sessionId={sessionId}
+                findings={secrets}
+                onJump={jumpToSecret}
+                onRedacted={afterRedaction}
+              />
+            )}
           </div>
         )}
 
         {/* Conversation */}
         <div className={`${previewFile ? "w-1/2" : "flex-1"} overflow-auto relative`} ref={scrollRef}>
-          <div className="divide-y divide-border/30">
-            {visible.map((msg, i) => (
-              <ConvMessage
-                key={msg.uuid}
-                msg={msg}
-                showTools={showTools}
-                searchHighlight={convSearchLower}
-                isSearchMatch={convSearchLower ? matchedIndices[convSearchMatch] === i : false}
-              />
-            ))}
+          {loadingOlder && (
+            <div className="sticky top-0 h-0 z-10 flex justify-center">
+              <Badge variant="secondary" className="mt-2 text-xs shadow-sm">
+                <RefreshCw className="h-3 w-3 mr-1 animate-spin" />Loading earlier messages
+              </Badge>
+            </div>
+          )}
+          <div style={{ paddingTop: list.paddingTop, paddingBottom: list.paddingBottom }}>
+            {list.items.map(({ index: i, key }) => {
+              const msg = visible[i];
+              const switcher = branchSwitchers.get(msg.uuid);
+              return (
+                <div key={key} ref={list.measureRef} data-virtual-key={key} className="border-b border-border/30">
+                  {switcher && (
+                    <BranchSwitcher
+                      index={switcher.index}
+                      count={switcher.options.length}
+                      onSelect={(idx) => setBranchChoices(c => ({ ...c, [switcher.pointId]: switcher.options[idx] }))}
+                    />
+                  )}
+                  <ConvMessage
+                    msg={msg}
+                    showTools={showTools}
+                    searchHighlight={convSearchLower}
+                    isSearchMatch={convSearchLower ? matchedIndices[convSearchMatch] === i : msg.uuid === focusedUuid}
+                  />
+                  {tree && sidechainsByHost.get(msg.uuid)?.map(t => (
+                    <SidechainThreadView key={t.rootId} thread={t} tree={tree} byUuid={messagesByUuid} showTools={showTools} />
+                  ))}
+                </div>
+              );
+            })}
           </div>
+          {tree && sidechainsByHost.get("")?.map(t => (
+            <SidechainThreadView key={t.rootId} thread={t} tree={tree} byUuid={messagesByUuid} showTools={showTools} />
+          ))}
 
           {/* Floating nav buttons - right side of conversation */}
           <div className="sticky bottom-4 float-right mr-4 flex flex-col gap-2">
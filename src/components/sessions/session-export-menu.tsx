@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Download, FileCode, FileJson, FileText } from "lucide-react";
+import type { ExportFormat } from "@/lib/session-export";
+
+const FORMATS: { format: ExportFormat; label: string; icon: typeof FileText }[] = [
+  { format: "md", label: "Markdown", icon: FileText },
+  { format: "html", label: "HTML (standalone)", icon: FileCode },
+  { format: "json", label: "JSON", icon: FileJson },
+];
+
+/** Download the session as Markdown, HTML or JSON, optionally redacted */
+export function SessionExportMenu({ projectPath, sessionId }: { projectPath: string; sessionId: string }) {
+  const [redact, setRedact] = useState(true);
+
+  const download = (format: ExportFormat) => {
+    const query = new URLSearchParams({ format, ...(redact && { redact: "1" }) });
+    const a = document.createElement("a");
+    a.href = `/api/sessions/${encodeURIComponent(projectPath)}/${sessionId}/export?${query}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="text-xs h-7" title="Export session">
+          <Download className="h-3 w-3 mr-1" />Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-52">
+        {FORMATS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem key={format} onClick={() => download(format)}>
+            <Icon className="h-3.5 w-3.5 mr-2" />
+            {label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={redact}
+          onCheckedChange={(v) => setRedact(v === true)}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Redact secrets & home paths
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
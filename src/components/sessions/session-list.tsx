@@ -14,26 +14,32 @@ import {
 } from "@/components/ui/select";
 import {
   FolderOpen, Hash, RefreshCw, DollarSign, Clock, LayoutGrid, List,
-  Search, ArrowUpDown, X, Star, Calendar, Cpu, MessageSquare, Pin, Globe,
+  Search, ArrowUpDown, X, Star, Calendar, Cpu, MessageSquare, Pin, Globe, TextSearch, GitMerge,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { fmtCost, fmtTokens, timeAgo, formatDT, shortModel } from "@/lib/format-utils";
 import { SessionBlock, StatusLegend, STATUS_CONFIG, highlightText } from "./session-block";
-import type { SessionsData, SessionStatus, SessionProvider } from "./types";
+import type { SessionsData, SessionStatus, SessionProvider, MessageFocus } from "./types";
 import { useFavorites } from "@/hooks/use-favorites";
 import { useSessionMeta } from "@/hooks/use-session-meta";
 import { SessionActions, getTagColor } from "./session-actions";
+import { TranscriptSearchResults } from "./transcript-search-results";
+import { SecretsBadge } from "./session-secrets";
+import type { SecretSessionSummary } from "@/lib/secret-scanner";
 
 const PAGE_SIZE = 24;
 
 type DateRange = "all" | "today" | "week" | "month";
 type ModelFilter = "all" | "opus" | "sonnet" | "haiku";
 type SortBy = "date" | "cost" | "messages" | "tokens";
-type ProviderFilter = "all" | "claude" | "codex";
+type ProviderFilter = "all" | "claude" | "codex" | "gemini";
+type SearchScope = "sessions" | "transcripts";
+
+const DATE_RANGE_DAYS: Record<Exclude<DateRange, "all">, number> = { today: 1, week: 7, month: 30 };
 
 export function SessionList({ data, onSelect, onRefresh, refreshing }: {
   data: SessionsData;
-  onSelect: (p: string, id: string) => void;
+  onSelect: (p: string, id: string, focus?: MessageFocus) => void;
   onRefresh?: () => void;
   refreshing?: boolean;
 }) {
@@ -48,8 +54,37 @@ export function SessionList({ data, onSelect, onRefresh, refreshing }: {
   const [dateRange, setDateRange] = useState<DateRange>("all");
   const [modelFilter, setModelFilter] = useState<ModelFilter>("all");
   const [providerFilter, setProviderFilter] = useState<ProviderFilter>("all");
+  const [searchScope, setSearchScope] = useState<SearchScope>("sessions");
+  const [mergeMoved, setMergeMoved] = useState(true);
   const { favorites, isFavorite, toggleFavorite } = useFavorites();
   const { getMeta, updateMeta, metaMap } = useSessionMeta();
+  const [secretCounts, setSecretCounts] = useState<Map<string, number>>(new Map());
+
+  // Flag sessions whose transcripts leaked credentials
+  useEffect(() => {
+    fetch("/api/sessions/secrets")
+      .then(r => r.json())
+      .then((d: { sessions?: SecretSessionSummary[] }) => {
+        setSecretCounts(new Map((d.sessions ?? []).map(s => [`${s.project}/${s.sessionId}`, s.secrets])));
+      })
+      .catch(() => {});
+  }, [data]);
+
+  // Moved projects resolve to where their sessions continue, following chains of moves
+  const canonical = useMemo(() => {
+    const movedTo = new Map(data.projects.filter(p => p.movedTo).map(p => [p.path, p.movedTo!]));
+    const resolve = (project: string) => {
+      const seen = new Set<string>();
+      let current = project;
+      while (movedTo.has(current) && !seen.has(current)) {
+        seen.add(current);
+        current = movedTo.get(current)!;
+      }
+      return current;
+    };
+    return new Map(data.projects.map(p => [p.path, resolve(p.path)]));
+  }, [data.projects]);
+  const hasMoved = data.projects.some(p => p.movedTo);
 
   // Debounce search input
   useEffect(() => {
@@ -63,7 +98,7 @@ export function SessionList({ data, onSelect, onRefresh, refreshing }: {
     let filtered = data.recentSessions.filter(s => !getMeta(s.id).deleted);
 
     if (filter) {
-      filtered = filtered.filter(s => s.project === filter);
+      filtered = filtered.filter(s => (mergeMoved ? canonical.get(s.project) ?? s.project : s.project) === filter);
     }
 
     // Apply favorites filter
@@ -129,7 +164,7 @@ export function SessionList({ data, onSelect, onRefresh, refreshing }: {
     });
 
     return sorted;
-  }, [data.recentSessions, filter, debouncedSearch, sortBy, showFavoritesOnly, favorites, dateRange, modelFilter, providerFilter, metaMap, getMeta]);
+  }, [data.recentSessions, filter, debouncedSearch, sortBy, showFavoritesOnly, favorites, dateRange, modelFilter, providerFilter, metaMap, getMeta, canonical, mergeMoved]);
 
   // Pagination
   const totalPages = Math.max(1, Math.ceil(sessions.length / PAGE_SIZE));
@@ -201,7 +236,9 @@ export function SessionList({ data, onSelect, onRefresh, refreshing }: {
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
             type="text"
-            placeholder="Search sessions (message, project, model, ID)..."
+            placeholder={searchScope === "transcripts"
+              ? "Search all transcripts (messages, thinking, tool inputs)..."
+              : "Search sessions (message, project, model, ID)..."}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-9 pr-9"
@@ -217,6 +254,16 @@ export function SessionList({ data, onSelect, onRefresh, refreshing }: {
             </Button>
           )}
         </div>
+        <Button
+          variant={searchScope === "transcripts" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setSearchScope(searchScope === "transcripts" ? "sessions" : "transcripts")}
+          className="h-9 px-3"
+          title="Full-text search across every message"
+        >
+          <TextSearch className="h-4 w-4 mr-2" />
+          Transcripts
+        </Button>
         <Select value={sortBy} onValueChange={(v) => setSortBy(v as SortBy)}>
           <SelectTrigger className="w-[140px] sm:w-[180px]">
             <ArrowUpDown className="h-4 w-4 mr-2" />
@@ -267,7 +314,7 @@ export function SessionList({ data, onSelect, onRefresh, refreshing }: {
         </div>
         <div className="flex items-center gap-1 border rounded-lg p-0.5">
           <Globe className="h-3.5 w-3.5 text-muted-foreground ml-1.5" />
-          {(["all", "claude", "codex"] as ProviderFilter[]).map((provider) => (
+          {(["all", "claude", "codex", "gemini"] as ProviderFilter[]).map((provider) => (
             <Button
               key={provider}
               variant={providerFilter === provider ? "default" : "ghost"}
@@ -300,17 +347,40 @@ export function SessionList({ data, onSelect, onRefresh, refreshing }: {
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <div className="flex flex-wrap gap-2">
           <Badge variant={filter === "" ? "default" : "outline"} className="cursor-pointer" onClick={() => setFilter("")}>All</Badge>
-          {data.projects.map(p => (
-            <Badge key={p.path} variant={filter === p.path ? "default" : "outline"} className="cursor-pointer"
-              onClick={() => setFilter(filter === p.path ? "" : p.path)}>
-              {p.name.length > 20 ? "..." + p.name.slice(-18) : p.name} ({p.sessionCount})
+          {data.projects.filter(p => !mergeMoved || !p.movedTo).map(p => {
+            const merged = mergeMoved ? data.projects.filter(q => q.path !== p.path && canonical.get(q.path) === p.path) : [];
+            const count = merged.reduce((n, q) => n + q.sessionCount, p.sessionCount);
+            const title = merged.length > 0
+              ? `Includes sessions from ${merged.map(q => q.name).join(", ")}`
+              : p.movedTo ? `Moved to ${data.projects.find(q => q.path === p.movedTo)?.name ?? p.movedTo}` : p.name;
+            return (
+              <Badge key={p.path} variant={filter === p.path ? "default" : "outline"} className={`cursor-pointer ${p.movedTo ? "opacity-60" : ""}`}
+                title={title} onClick={() => setFilter(filter === p.path ? "" : p.path)}>
+                {merged.length > 0 && <GitMerge className="h-3 w-3 mr-1" />}
+                {p.name.length > 20 ? "..." + p.name.slice(-18) : p.name} ({count})
+              </Badge>
+            );
+          })}
+          {hasMoved && (
+            <Badge variant={mergeMoved ? "secondary" : "outline"} className="cursor-pointer"
+              title="Show sessions from a project's old locations under its current one"
+              onClick={() => { setMergeMoved(!mergeMoved); setFilter(""); }}>
+              <GitMerge className="h-3 w-3 mr-1" />{mergeMoved ? "Merged moved projects" : "Merge moved projects"}
             </Badge>
-          ))}
+          )}
         </div>
         {viewMode === "grid" && <StatusLegend sessions={sessions} />}
       </div>
 
-      {viewMode === "grid" ? (
+      {searchScope === "transcripts" ? (
+        <TranscriptSearchResults
+          query={debouncedSearch}
+          project={filter || undefined}
+          model={modelFilter === "all" ? undefined : modelFilter}
+          withinDays={dateRange === "all" ? undefined : DATE_RANGE_DAYS[dateRange]}
+          onSelect={onSelect}
+        />
+      ) : viewMode === "grid" ? (
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
           {paginatedSessions.map(s => (
             <SessionBlock
@@ -323,6 +393,7 @@ export function SessionList({ data, onSelect, onRefresh, refreshing }: {
               onOpenInChat={(project, id) => router.push(`/chat?session=${encodeURIComponent(project)}|${id}`)}
               meta={getMeta(s.id)}
               onUpdateMeta={updateMeta}
+              secretCount={secretCounts.get(`${s.project}/${s.id}`)}
             />
           ))}
         </div>
@@ -367,6 +438,7 @@ export function SessionList({ data, onSelect, onRefresh, refreshing }: {
                     </div>
                   </div>
                   <div className="flex items-center gap-1.5 flex-shrink-0">
+                    {secretCounts.get(`${s.project}/${s.id}`) ? <SecretsBadge count={secretCounts.get(`${s.project}/${s.id}`)!} /> : null}
                     {s.model && <Badge variant="secondary" className="text-xs">{shortModel(s.model)}</Badge>}
                     <Badge variant="outline" className="text-xs font-mono">
                       <DollarSign className="h-3 w-3 mr-0.5" />{fmtCost(s.estimatedCost)}
@@ -393,7 +465,7 @@ export function SessionList({ data, onSelect, onRefresh, refreshing }: {
       )}
 
       {/* Pagination */}
-      {totalPages > 1 && (
+      {searchScope === "sessions" && totalPages > 1 && (
         <div className="flex items-center justify-center gap-2 pt-2">
           <Button
             variant="outline" size="sm" className="text-xs h-8"
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { LineChart, Line, ResponsiveContainer, YAxis } from "recharts";
+import { Cpu, Square } from "lucide-react";
+import { useToast } from "@/components/toast";
+import type { ProcessInfo, ProcessSample, StopSignal } from "@/lib/process-reader";
+
+const POLL_MS = 5000;
+
+const MATCH_LABELS: Record<NonNullable<ProcessInfo["matchedBy"]>, string> = {
+  "fd": "open transcript",
+  "session-id": "--session-id argument",
+  "resume": "--resume argument",
+  "cwd": "latest transcript in its working directory",
+};
+
+/**
+ * Running CLI process of a session: CPU/RSS with a short trend, and a Stop
+ * action. Renders nothing while no process is linked to the session.
+ */
+export function SessionProcess({ projectPath, sessionId }: { projectPath: string; sessionId: string }) {
+  const [proc, setProc] = useState<ProcessInfo | null>(null);
+  const [history, setHistory] = useState<ProcessSample[]>([]);
+  const [stopOpen, setStopOpen] = useState(false);
+  const [stopping, setStopping] = useState(false);
+  const { toast } = useToast();
+  const url = `/api/sessions/${encodeURIComponent(projectPath)}/${sessionId}/process`;
+
+  useEffect(() => {
+    if (projectPath === "__codex__" || projectPath === "__gemini__") return;
+    const load = () =>
+      fetch(url)
+        .then((r) => r.json())
+        .then((d) => { setProc(d.process ?? null); setHistory(d.history ?? []); })
+        .catch(() => {});
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [url, projectPath]);
+
+  if (!proc) return null;
+
+  const stop = async (signal: StopSignal) => {
+    setStopping(true);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ signal }),
+      });
+      const data = await res.json();
+      if (res.ok) toast(`Sent ${signal} to PID ${data.pid}`, "success");
+      else toast(data.error || "Failed to stop process", "error");
+    } catch {
+      toast("Failed to stop process", "error");
+    } finally {
+      setStopping(false);
+      setStopOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <Badge
+        variant="outline"
+        className="text-xs font-mono gap-1.5 border-green-500/40"
+        title={`PID ${proc.pid}${proc.cwd ? ` in ${proc.cwd}` : ""}${proc.matchedBy ? `, matched by ${MATCH_LABELS[proc.matchedBy]}` : ""}`}
+      >
+        <span className="h-1.5 w-1.5 rounded-full bg-green-500 animate-pulse" />
+        <Cpu className="h-3 w-3" />
+        {proc.cpuPercent ?? 0}% · {proc.rssMB ?? proc.memoryMB}MB
+        {history.length > 1 && (
+          <span className="inline-block h-4 w-16">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={history} margin={{ top: 1, right: 0, bottom: 1, left: 0 }}>
+                <YAxis hide domain={[0, "dataMax"]} />
+                <Line type="monotone" dataKey="cpuPercent" stroke="#22c55e" strokeWidth={1} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </span>
+        )}
+      </Badge>
+      <Button variant="outline" size="sm" className="text-xs h-7 text-red-600 dark:text-red-400" onClick={() => setStopOpen(true)} title="Stop the running CLI process">
+        <Square className="h-3 w-3 mr-1" />Stop
+      </Button>
+
+      <Dialog open={stopOpen} onOpenChange={setStopOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Stop Session</DialogTitle>
+            <DialogDescription>
+              Interrupt sends SIGINT to PID {proc.pid}, like pressing Ctrl+C in its terminal.
+              Terminate sends SIGTERM and ends the process.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStopOpen(false)}>Cancel</Button>
+            <Button variant="outline" disabled={stopping} onClick={() => stop("SIGINT")}>Interrupt</Button>
+            <Button variant="destructive" disabled={stopping} onClick={() => stop("SIGTERM")}>Terminate</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Play, Pause, StepBack, StepForward, FastForward, DollarSign } from "lucide-react";
+import { fmtCost, fmtTokens } from "@/lib/format-utils";
+import {
+  REPLAY_SPEEDS, adjacentEvent, buildReplayTimeline, replayPosition, replaySnapshot, replayTime,
+} from "@/lib/session-replay";
+import type { ReplaySpeed } from "@/lib/session-replay";
+import { ConvMessage } from "./conv-message";
+import type { SessionMessage } from "./types";
+
+const TICK_MS = 100;
+
+function fmtClock(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * Replay player: plays the conversation back on its original timing, with
+ * speed control, scrubbing, idle-gap skipping and running totals.
+ */
+export function SessionReplay({ messages, showTools }: { messages: SessionMessage[]; showTools: boolean }) {
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<ReplaySpeed>(4);
+  const [skipIdle, setSkipIdle] = useState(true);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const timeline = useMemo(() => buildReplayTimeline(messages, skipIdle), [messages, skipIdle]);
+  const snapshot = useMemo(() => replaySnapshot(messages, timeline, position), [messages, timeline, position]);
+  const atEnd = position >= timeline.duration;
+  const running = playing && !atEnd;
+
+  // Advance by wall-clock time so slow ticks don't slow playback down
+  useEffect(() => {
+    if (!running) return;
+    let last = performance.now();
+    const timer = setInterval(() => {
+      const now = performance.now();
+      const step = (now - last) * speed;
+      last = now;
+      setPosition((p) => Math.min(p + step, timeline.duration));
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [running, speed, timeline.duration]);
+
+  // Follow the newest message
+  const shown = snapshot.messages.length;
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: "smooth" });
+  }, [shown]);
+
+  const togglePlay = () => {
+    if (atEnd) setPosition(0);
+    setPlaying(!running);
+  };
+
+  // Keep the same moment in view when the clock is re-mapped
+  const toggleSkipIdle = () => {
+    const next = buildReplayTimeline(messages, !skipIdle);
+    setPosition(replayPosition(next, replayTime(timeline, position)));
+    setSkipIdle(!skipIdle);
+  };
+
+  const prompts = timeline.events.filter((e) => e.tool === undefined && messages[e.message]?.isCheckpoint);
+
+  return (
+    <div className="flex flex-col flex-1 overflow-hidden">
+      {/* Transport */}
+      <div className="border-b px-4 py-2 flex items-center gap-2 flex-shrink-0 bg-muted/10">
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Previous event"
+          onClick={() => setPosition(adjacentEvent(timeline, position, -1))}>
+          <StepBack className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="default" size="sm" className="h-7 w-7 p-0" title={running ? "Pause" : "Play"} onClick={togglePlay}>
+          {running ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Next event"
+          onClick={() => setPosition(adjacentEvent(timeline, position, 1))}>
+          <StepForward className="h-3.5 w-3.5" />
+        </Button>
+
+        <div className="flex items-center gap-0.5 border rounded-md p-0.5">
+          {REPLAY_SPEEDS.map((s) => (
+            <Button key={s} variant={speed === s ? "default" : "ghost"} size="sm" className="h-6 px-1.5 text-[10px]" onClick={() => setSpeed(s)}>
+              {s}x
+            </Button>
+          ))}
+        </div>
+        <Button variant={skipIdle ? "default" : "outline"} size="sm" className="text-xs h-7" onClick={toggleSkipIdle}
+          title="Play pauses longer than a couple of seconds as short gaps">
+          <FastForward className="h-3 w-3 mr-1" />Skip idle
+        </Button>
+
+        {/* Scrubber with a tick per user prompt */}
+        <div className="relative flex-1 mx-2 flex items-center">
+          <input
+            type="range" min={0} max={Math.max(timeline.duration, 1)} step={1} value={Math.min(position, timeline.duration)}
+            onChange={(e) => setPosition(Number(e.target.value))}
+            className="w-full accent-primary"
+          />
+          {timeline.duration > 0 && prompts.map((e) => (
+            <span
+              key={e.message}
+              className="absolute top-0 h-1.5 w-px bg-blue-500 pointer-events-none"
+              style={{ left: `${(e.position / timeline.duration) * 100}%` }}
+            />
+          ))}
+        </div>
+
+        <span className="text-xs font-mono text-muted-foreground whitespace-nowrap">
+          {fmtClock(position)} / {fmtClock(timeline.duration)}
+        </span>
+        <span className="text-xs text-muted-foreground whitespace-nowrap" title="Original time at this point">
+          {new Date(replayTime(timeline, position)).toLocaleTimeString("zh-CN")}
+        </span>
+        <Badge variant="outline" className="text-xs font-mono">
+          <DollarSign className="h-3 w-3" />{fmtCost(snapshot.cost)}
+        </Badge>
+        <Badge variant="outline" className="text-xs font-mono">
+          {fmtTokens(snapshot.inputTokens)}in / {fmtTokens(snapshot.outputTokens)}out
+        </Badge>
+        <Badge variant="outline" className="text-xs">{shown}/{messages.length} msgs</Badge>
+      </div>
+
+      {/* Conversation so far */}
+      <div className="flex-1 overflow-auto" ref={scrollRef}>
+        <div className="divide-y divide-border/30">
+          {snapshot.messages.map((msg) => (
+            <ConvMessage key={msg.uuid} msg={msg} showTools={showTools} />
+          ))}
+        </div>
+        {shown === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-16">Press play to replay this session</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ShieldAlert, EyeOff } from "lucide-react";
+import { useToast } from "@/components/toast";
+import type { SecretFinding, SecretLocation } from "@/lib/secret-scanner";
+
+const LOCATION_LABELS: Record<SecretLocation, string> = {
+  "text": "message",
+  "thinking": "thinking",
+  "tool-input": "tool input",
+  "tool-result": "tool result",
+};
+
+/** Leaked-secret count for session cards and rows */
+export function SecretsBadge({ count, compact }: { count: number; compact?: boolean }) {
+  return (
+    <Badge
+      variant="outline"
+      className={`border-red-300 text-red-600 ${compact ? "text-[9px] h-4 px-1" : "text-xs"}`}
+      title={`${count} leaked secret${count === 1 ? "" : "s"} in this transcript`}
+    >
+      <ShieldAlert className={compact ? "h-2.5 w-2.5 mr-0.5" : "h-3 w-3 mr-0.5"} />{count}
+    </Badge>
+  );
+}
+
+/**
+ * Sidebar list of a session's leaked secrets. Each finding jumps to its
+ * message; redaction masks them all in the transcript after a backup.
+ */
+export function SessionSecrets({ projectPath, sessionId, findings, onJump, onRedacted }: {
+  projectPath: string;
+  sessionId: string;
+  findings: SecretFinding[];
+  onJump: (finding: SecretFinding) => void;
+  onRedacted: () => void;
+}) {
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [redacting, setRedacting] = useState(false);
+  const { toast } = useToast();
+  const distinct = new Set(findings.map((f) => f.fingerprint)).size;
+
+  const redact = async () => {
+    setRedacting(true);
+    try {
+      const res = await fetch(`/api/sessions/${encodeURIComponent(projectPath)}/${sessionId}/secrets`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        toast(data.error || "Failed to redact session", "error");
+        return;
+      }
+      toast(`Redacted ${data.redacted} occurrence${data.redacted === 1 ? "" : "s"}; original saved to ${data.backupPath}`);
+      setConfirmOpen(false);
+      onRedacted();
+    } catch {
+      toast("Failed to redact session", "error");
+    } finally {
+      setRedacting(false);
+    }
+  };
+
+  return (
+    <div className="p-2 space-y-1">
+      <div className="flex items-center justify-between px-2 py-1">
+        <span className="text-xs font-medium text-muted-foreground">Leaked Secrets ({distinct})</span>
+        <Button variant="destructive" size="sm" className="h-6 px-2 text-[10px]" disabled={findings.length === 0}
+          onClick={() => setConfirmOpen(true)}>
+          <EyeOff className="h-3 w-3 mr-1" />Redact
+        </Button>
+      </div>
+      {findings.map((f) => (
+        <button
+          key={`${f.line}-${f.fingerprint}`}
+          className="w-full text-left px-2 py-1.5 rounded text-xs hover:bg-muted transition-colors"
+          onClick={() => onJump(f)}
+        >
+          <div className="font-medium truncate">{f.label}</div>
+          <div className="font-mono text-[10px] text-red-600 truncate">{f.preview}</div>
+          <div className="text-muted-foreground">
+            {LOCATION_LABELS[f.location]}
+            {f.timestamp ? ` · ${new Date(f.timestamp).toLocaleTimeString("zh-CN", { hour: "2-digit", minute: "2-digit" })}` : ""}
+          </div>
+        </button>
+      ))}
+      {findings.length === 0 && <p className="text-xs text-muted-foreground px-2 py-4 text-center">No secrets found</p>}
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Redact Transcript</DialogTitle>
+            <DialogDescription>
+              Replaces {findings.length} occurrence{findings.length === 1 ? "" : "s"} of {distinct} secret{distinct === 1 ? "" : "s"} with
+              [REDACTED] markers in the session file itself. The original is copied to ~/.claude/scc-backups/secrets first.
+              Rotate the credentials too: they may have been sent to the model provider already.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmOpen(false)}>Cancel</Button>
+            <Button variant="destructive" disabled={redacting} onClick={redact}>Redact</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
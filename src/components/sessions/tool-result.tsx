@@ -0,0 +1,185 @@
+"use client";
+
+import { AlertCircle } from "lucide-react";
+import { diffLines } from "@/lib/unified-diff";
+import type { DiffLine } from "@/lib/unified-diff";
+import { fmtDuration } from "@/lib/format-utils";
+import type { ToolCallInfo } from "./types";
+
+// Per-tool result renderers shared by the conversation and terminal views
+
+type Variant = "card" | "terminal";
+
+/** Shell tools from Claude (Bash) and Codex */
+const SHELL_TOOLS = new Set(["Bash", "shell", "exec_command", "local_shell"]);
+
+const STYLES: Record<Variant, {
+  pre: string; shell: string; shellError: string; error: string; muted: string; file: string; lineNo: string;
+  added: string; removed: string; context: string;
+}> = {
+  card: {
+    pre: "bg-muted/40 text-foreground/80",
+    shell: "bg-black/90 dark:bg-black/60 text-zinc-200",
+    shellError: "bg-black/90 dark:bg-black/60 text-red-400",
+    error: "text-red-600 dark:text-red-400",
+    muted: "text-muted-foreground",
+    file: "text-blue-700 dark:text-blue-400",
+    lineNo: "text-muted-foreground",
+    added: "text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-950/30",
+    removed: "text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-950/30",
+    context: "text-muted-foreground",
+  },
+  terminal: {
+    pre: "bg-black/40 text-zinc-400",
+    shell: "bg-black/40 text-zinc-300",
+    shellError: "bg-black/40 text-red-400",
+    error: "text-red-400",
+    muted: "text-zinc-600",
+    file: "text-cyan-400/80",
+    lineNo: "text-zinc-600",
+    added: "text-green-400/80 bg-green-950/20",
+    removed: "text-red-400/80 bg-red-950/20",
+    context: "text-zinc-500",
+  },
+};
+
+function parseInput(tool: ToolCallInfo): Record<string, unknown> {
+  if (!tool.input) return {};
+  try {
+    const parsed = JSON.parse(tool.input);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Line diff of an Edit/MultiEdit call's replacements, null for other tools or truncated input */
+export function editDiff(tool: ToolCallInfo): DiffLine[] | null {
+  const input = parseInput(tool);
+  if (tool.name === "Edit" && typeof input.old_string === "string" && typeof input.new_string === "string") {
+    return diffLines(input.old_string, input.new_string);
+  }
+  if (tool.name === "MultiEdit" && Array.isArray(input.edits)) {
+    return (input.edits as Record<string, unknown>[]).flatMap((e, i) => [
+      ...(i > 0 ? [{ op: " " as const, text: "⋯" }] : []),
+      ...diffLines(String(e.old_string ?? ""), String(e.new_string ?? "")),
+    ]);
+  }
+  return null;
+}
+
+interface SearchMatch {
+  file: string;
+  line?: number;
+  text?: string;
+  count?: number;
+}
+
+/** Grep/Glob output: an optional "Found N ..." header followed by paths, path:count or path:line:text */
+function parseMatches(result: string): { header?: string; matches: SearchMatch[] } {
+  const lines = result.split("\n").filter((l) => l.trim() && l !== "--");
+  let header: string | undefined;
+  if (lines.length > 0 && /^(Found \d+|No (files|matches) found)/.test(lines[0])) header = lines.shift();
+  const matches = lines.map((l): SearchMatch => {
+    const hit = l.match(/^(.+?):(\d+):(.*)$/);
+    if (hit) return { file: hit[1], line: Number(hit[2]), text: hit[3] };
+    const count = l.match(/^(.+?):(\d+)$/);
+    if (count) return { file: count[1], count: Number(count[2]) };
+    return { file: l };
+  });
+  return { header, matches };
+}
+
+/** Duration and error markers for a tool call header */
+export function ToolStatus({ tool, variant = "card" }: { tool: ToolCallInfo; variant?: Variant }) {
+  const s = STYLES[variant];
+  return (
+    <>
+      {tool.isError && (
+        <span className={`inline-flex items-center gap-0.5 flex-shrink-0 ${s.error}`}>
+          <AlertCircle className="h-3 w-3" />error
+        </span>
+      )}
+      {tool.durationMs !== undefined && (
+        <span className={`font-mono flex-shrink-0 ${s.muted}`}>{fmtDuration(tool.durationMs)}</span>
+      )}
+    </>
+  );
+}
+
+export function ToolDiffView({ lines, variant = "card" }: { lines: DiffLine[]; variant?: Variant }) {
+  const s = STYLES[variant];
+  if (lines.length === 0) return <div className={s.muted}>No textual changes</div>;
+  return (
+    <pre className="font-mono text-xs rounded overflow-x-auto max-h-64 overflow-y-auto">
+      {lines.map((l, i) => (
+        <div
+          key={i}
+          className={`px-2 whitespace-pre ${l.op === "+" ? s.added : l.op === "-" ? s.removed : s.context}`}
+        >
+          {l.op} {l.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+function MatchList({ result, variant }: { result: string; variant: Variant }) {
+  const s = STYLES[variant];
+  const { header, matches } = parseMatches(result);
+  return (
+    <div className="font-mono text-xs max-h-64 overflow-y-auto">
+      {header && <div className={`mb-0.5 ${s.muted}`}>{header}</div>}
+      {matches.map((m, i) => {
+        const sameFile = i > 0 && matches[i - 1].file === m.file && m.line !== undefined;
+        return (
+          <div key={i} className="whitespace-pre overflow-hidden text-ellipsis">
+            {!sameFile && <div className={s.file}>{m.file}{m.count !== undefined && <span className={s.muted}> ({m.count})</span>}</div>}
+            {m.line !== undefined && (
+              <div className="pl-3">
+                <span className={`inline-block w-10 text-right mr-2 ${s.lineNo}`}>{m.line}</span>
+                <span className={s.context}>{m.text}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Result of a tool call, rendered according to the tool; nothing while the call is pending */
+export function ToolResultView({ tool, variant = "card" }: { tool: ToolCallInfo; variant?: Variant }) {
+  const s = STYLES[variant];
+  const diff = editDiff(tool);
+  const result = tool.result ?? "";
+
+  if (diff) {
+    return (
+      <div className="space-y-1">
+        <ToolDiffView lines={diff} variant={variant} />
+        {tool.isError && result && <pre className={`font-mono text-xs whitespace-pre-wrap break-words ${s.error}`}>{result}</pre>}
+      </div>
+    );
+  }
+  if (tool.result === undefined) return null;
+  if (!result.trim()) return <div className={`text-[11px] ${s.muted}`}>(no output)</div>;
+
+  if (SHELL_TOOLS.has(tool.name)) {
+    return (
+      <pre className={`font-mono text-xs px-2 py-1.5 rounded whitespace-pre-wrap break-words max-h-64 overflow-y-auto ${tool.isError ? s.shellError : s.shell}`}>
+        {result}
+      </pre>
+    );
+  }
+  if ((tool.name === "Grep" || tool.name === "Glob") && !tool.isError) {
+    return <MatchList result={result} variant={variant} />;
+  }
+  return (
+    <pre className={`font-mono text-[11px] px-2 py-1 rounded whitespace-pre-wrap break-words max-h-48 overflow-y-auto ${
+      tool.isError ? s.error : s.pre
+    }`}>
+      {result}
+    </pre>
+  );
+}
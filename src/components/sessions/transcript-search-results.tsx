@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw, Search, User, Bot, Brain, Wrench } from "lucide-react";
+import { formatDT, shortModel } from "@/lib/format-utils";
+import type { MessageFocus, SessionSearchResult } from "./types";
+
+const KIND_ICON = { text: Bot, thinking: Brain, tool: Wrench };
+
+/** Full-text results across all transcripts (backed by /api/sessions/search) */
+export function TranscriptSearchResults({ query, project, model, withinDays, onSelect }: {
+  query: string;
+  project?: string;
+  model?: string;
+  /** Only messages from the last N days */
+  withinDays?: number;
+  onSelect: (project: string, id: string, focus: MessageFocus) => void;
+}) {
+  const requestKey = JSON.stringify([query.trim(), project, model, withinDays]);
+  // Results are tagged with the request they answer; a mismatch means a fetch is in flight
+  const [loaded, setLoaded] = useState<{ key: string; results: SessionSearchResult[] }>({ key: "", results: [] });
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) return;
+    const params = new URLSearchParams({ q });
+    if (project) params.set("project", project);
+    if (model) params.set("model", model);
+    if (withinDays) {
+      params.set("from", new Date(Date.now() - withinDays * 86400000).toISOString().split("T")[0]);
+    }
+
+    let cancelled = false;
+    fetch(`/api/sessions/search?${params}`)
+      .then(r => r.json())
+      .then(d => { if (!cancelled) setLoaded({ key: requestKey, results: d.results || [] }); })
+      .catch(() => { if (!cancelled) setLoaded({ key: requestKey, results: [] }); });
+    return () => { cancelled = true; };
+  }, [query, project, model, withinDays, requestKey]);
+
+  const loading = loaded.key !== requestKey;
+  const results = loaded.results;
+
+  if (!query.trim()) {
+    return (
+      <div className="text-center py-12 text-sm text-muted-foreground">
+        <Search className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        Search message text, thinking and tool inputs across all sessions
+      </div>
+    );
+  }
+  if (loading) return <div className="flex items-center justify-center h-32"><RefreshCw className="h-5 w-5 animate-spin text-muted-foreground" /></div>;
+  if (results.length === 0) return <div className="text-center py-12 text-sm text-muted-foreground">No matches</div>;
+
+  return (
+    <div className="space-y-1.5">
+      <div className="text-xs text-muted-foreground">{results.length} matches</div>
+      {results.map((r, i) => {
+        const Icon = r.role === "user" ? User : KIND_ICON[r.kind];
+        return (
+          <Card
+            key={`${r.sessionId}-${r.messageUuid}-${i}`}
+            className="cursor-pointer hover:shadow-md hover:border-primary/40 transition-all"
+            onClick={() => onSelect(r.project, r.sessionId, { uuid: r.messageUuid || undefined, timestamp: r.timestamp })}
+          >
+            <CardContent className="py-2.5 space-y-1">
+              <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Icon className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate">{r.projectName}</span>
+                <span>·</span>
+                <span className="flex-shrink-0">{r.timestamp ? formatDT(new Date(r.timestamp).getTime()) : ""}</span>
+                {r.model && <Badge variant="secondary" className="text-[10px] ml-auto">{shortModel(r.model)}</Badge>}
+                {r.kind !== "text" && <Badge variant="outline" className="text-[10px]">{r.kind}</Badge>}
+              </div>
+              <div className="text-sm break-words">
+                {r.snippet.map((seg, j) => seg.match
+                  ? <mark key={j} className="bg-yellow-200 dark:bg-yellow-800/60 px-0.5">{seg.text}</mark>
+                  : <span key={j}>{seg.text}</span>)}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
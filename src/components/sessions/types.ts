@@ -1,6 +1,9 @@
 // Shared TypeScript interfaces for Sessions
 
-export type SessionProvider = "claude" | "codex" | "unknown";
+import type { TreeRecord } from "@/lib/conversation-tree";
+import type { CompactionInfo } from "@/lib/session-reader";
+
+export type SessionProvider = "claude" | "codex" | "gemini" | "unknown";
 
 export interface SessionInfo {
   id: string;
@@ -15,6 +18,7 @@ export interface SessionInfo {
   totalInputTokens: number;
   totalOutputTokens: number;
   cacheReadTokens: number;
+  cacheWriteTokens: number;
   estimatedCost: number;
   status?: string;
 }
@@ -24,6 +28,8 @@ export interface ProjectInfo {
   name: string;
   sessionCount: number;
   lastActive: number;
+  /** Project that took over after this one's directory moved or was renamed */
+  movedTo?: string;
 }
 
 export interface SessionsData {
@@ -32,6 +38,15 @@ export interface SessionsData {
   recentSessions: SessionInfo[];
 }
 
+export interface ToolCallInfo {
+  id?: string;
+  name: string;
+  input?: string;
+  result?: string;
+  isError?: boolean;
+  durationMs?: number;
+}
+
 export interface SessionMessage {
   uuid: string;
   role: "user" | "assistant" | "system";
@@ -39,16 +54,21 @@ export interface SessionMessage {
   content: string;
   timestamp: string;
   model?: string;
-  toolUse?: { name: string; input?: string }[];
+  toolUse?: ToolCallInfo[];
   inputTokens?: number;
   outputTokens?: number;
   cacheRead?: number;
+  cacheWrite?: number;
+  cost?: number;
   thinkingContent?: string;
   isCheckpoint?: boolean;
+  isSidechain?: boolean;
+  compaction?: CompactionInfo;
 }
 
 export interface Checkpoint {
   index: number;
+  uuid: string;
   content: string;
   timestamp: string;
 }
@@ -70,12 +90,42 @@ export interface SessionDetail {
   totalInputTokens: number;
   totalOutputTokens: number;
   cacheReadTokens: number;
+  cacheWriteTokens: number;
   estimatedCost: number;
+  unpricedModels?: string[];
   model?: string;
   startTime: string;
   endTime: string;
   checkpoints: Checkpoint[];
   contextFiles: string[];
+  treeRecords?: TreeRecord[];
+}
+
+/** A page of a session's messages; `offset` is the index of messages[0] */
+export interface SessionPage extends SessionDetail {
+  offset: number;
+  messageCount: number;
+  prevCursor?: string;
+  nextCursor?: string;
+}
+
+/** Identifies one message to scroll to when opening a session (uuid preferred, timestamp as fallback) */
+export interface MessageFocus {
+  uuid?: string;
+  timestamp?: string;
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  project: string;
+  projectName: string;
+  provider: SessionProvider;
+  model?: string;
+  messageUuid: string;
+  role: string;
+  kind: "text" | "thinking" | "tool";
+  timestamp: string;
+  snippet: { text: string; match: boolean }[];
 }
 
 export type SessionStatus = "reading" | "thinking" | "writing" | "waiting" | "completed" | "error" | "idle";
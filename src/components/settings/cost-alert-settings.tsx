@@ -1,21 +1,167 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Bell, DollarSign, CheckCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/toast";
+import { Bell, DollarSign, CheckCircle, Loader2, Plus, Trash2 } from "lucide-react";
+import type { BudgetConfig, BudgetPeriod, BudgetScope, ScopedBudget } from "@/lib/cost-budgets";
 
-interface CostAlertSettingsProps {
-  dailyBudget: number;
-  weeklyBudget: number;
-  onDailyBudgetChange: (v: number) => void;
-  onWeeklyBudgetChange: (v: number) => void;
+const INPUT_CLASS =
+  "bg-muted border border-border rounded px-3 py-1.5 text-sm font-mono w-28 focus:outline-none focus:ring-2 focus:ring-ring";
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  project: "Project",
+  provider: "Provider",
+  model: "Model",
+};
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: "per day",
+  weekly: "per week",
+  monthly: "per month",
+};
+
+const TARGET_PLACEHOLDERS: Record<BudgetScope, string> = {
+  project: "/home/me/app",
+  provider: "claude",
+  model: "claude-sonnet-4-6",
+};
+
+/** Where budgets lived before they moved server-side */
+const LEGACY_ALERTS_KEY = "scc-alerts";
+
+/**
+ * Carry daily and weekly budgets saved in this browser over to the server,
+ * once, when the server has none yet. Returns the saved config, or null.
+ */
+async function migrateLegacyBudgets(config: BudgetConfig): Promise<BudgetConfig | null> {
+  const stored = localStorage.getItem(LEGACY_ALERTS_KEY);
+  if (stored === null) return null;
+  const hasBudgets = config.dailyBudget > 0 || config.weeklyBudget > 0 || config.monthlyBudget > 0 || config.budgets.length > 0;
+  let legacy: { dailyBudget?: unknown; weeklyBudget?: unknown } = {};
+  try { legacy = JSON.parse(stored) ?? {}; } catch { /* unreadable: drop it */ }
+  const dailyBudget = Number(legacy.dailyBudget) || 0;
+  const weeklyBudget = Number(legacy.weeklyBudget) || 0;
+  if (hasBudgets || (dailyBudget <= 0 && weeklyBudget <= 0)) {
+    localStorage.removeItem(LEGACY_ALERTS_KEY);
+    return null;
+  }
+
+  const res = await fetch("/api/settings/budgets", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ dailyBudget, weeklyBudget }),
+  });
+  const data = await res.json();
+  if (!res.ok || !data.success) throw new Error(data.error || "Failed to migrate saved budgets");
+  localStorage.removeItem(LEGACY_ALERTS_KEY);
+  return data.config;
 }
 
-export function CostAlertSettings({
-  dailyBudget,
-  weeklyBudget,
-  onDailyBudgetChange,
-  onWeeklyBudgetChange,
-}: CostAlertSettingsProps) {
+function Toggle({ label, hint, checked, onChange }: {
+  label: string; hint: string; checked: boolean; onChange: (v: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between">
+      <div>
+        <div className="text-sm font-medium">{label}</div>
+        <div className="text-xs text-muted-foreground">{hint}</div>
+      </div>
+      <Switch checked={checked} onCheckedChange={onChange} />
+    </div>
+  );
+}
+
+function BudgetInput({ label, hint, unit, value, onChange }: {
+  label: string; hint: string; unit: string; value: number; onChange: (v: number) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between">
+      <div>
+        <div className="text-sm font-medium">{label}</div>
+        <div className="text-xs text-muted-foreground">{hint}</div>
+      </div>
+      <div className="flex items-center gap-2">
+        <DollarSign className="h-4 w-4 text-muted-foreground" />
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={value}
+          onChange={(e) => onChange(Number(e.target.value))}
+          className={INPUT_CLASS}
+          placeholder="0.00"
+        />
+        <span className="text-xs text-muted-foreground w-16">
+          {value === 0 ? "(disabled)" : unit}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export function CostAlertSettings() {
+  const [config, setConfig] = useState<BudgetConfig | null>(null);
+  const [targets, setTargets] = useState<Record<BudgetScope, string[]>>({ project: [], provider: [], model: [] });
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetch("/api/settings/budgets")
+      .then((r) => r.json())
+      .then(async (data) => {
+        setConfig(data.config);
+        if (data.targets) setTargets(data.targets);
+        const migrated = await migrateLegacyBudgets(data.config);
+        if (migrated) {
+          setConfig(migrated);
+          toast("Moved this browser's saved budgets to the server", "success");
+        }
+      })
+      .catch(() => {});
+  }, [toast]);
+
+  if (!config) return null;
+
+  const update = <K extends keyof BudgetConfig>(key: K, value: BudgetConfig[K]) =>
+    setConfig((c) => c && { ...c, [key]: value });
+
+  const updateBudget = (index: number, patch: Partial<ScopedBudget>) =>
+    setConfig((c) => c && { ...c, budgets: c.budgets.map((b, i) => (i === index ? { ...b, ...patch } : b)) });
+
+  const addBudget = () =>
+    setConfig((c) => c && { ...c, budgets: [...c.budgets, { scope: "project", target: "", period: "monthly", amount: 0 }] });
+
+  const removeBudget = (index: number) =>
+    setConfig((c) => c && { ...c, budgets: c.budgets.filter((_, i) => i !== index) });
+
+  const enabled = config.dailyBudget > 0 || config.weeklyBudget > 0 || config.monthlyBudget > 0 || config.budgets.length > 0;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/settings/budgets", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(config),
+      });
+      const data = await res.json();
+      if (res.ok && data.success) {
+        setConfig(data.config);
+        toast("Budget settings saved", "success");
+      } else {
+        toast(data.error || "Failed to save budget settings", "error");
+      }
+    } catch {
+      toast("Failed to save budget settings", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -25,74 +171,122 @@ export function CostAlertSettings({
         </CardTitle>
         <p className="text-sm text-muted-foreground">
           Set budget limits to receive notifications when costs exceed thresholds. Set to 0 to disable.
+          Days, weeks (starting Sunday) and months are counted in UTC, like the token usage page.
         </p>
       </CardHeader>
       <CardContent className="space-y-5">
-        {/* Daily Budget */}
-        <div className="flex items-center justify-between">
-          <div>
-            <div className="text-sm font-medium">Daily Budget</div>
-            <div className="text-xs text-muted-foreground">
-              Maximum spend per day before alerting
-            </div>
-          </div>
-          <div className="flex items-center gap-2">
-            <DollarSign className="h-4 w-4 text-muted-foreground" />
-            <input
-              type="number"
-              min="0"
-              step="0.01"
-              value={dailyBudget}
-              onChange={(e) => onDailyBudgetChange(Number(e.target.value))}
-              className="bg-muted border border-border rounded px-3 py-1.5 text-sm font-mono w-28 focus:outline-none focus:ring-2 focus:ring-ring"
-              placeholder="0.00"
-            />
-            <span className="text-xs text-muted-foreground w-16">
-              {dailyBudget === 0 ? "(disabled)" : "per day"}
-            </span>
-          </div>
-        </div>
+        <BudgetInput
+          label="Daily Budget" hint="Maximum spend per day before alerting" unit="per day"
+          value={config.dailyBudget} onChange={(v) => update("dailyBudget", v)}
+        />
+        <BudgetInput
+          label="Weekly Budget" hint="Maximum spend per week before alerting" unit="per week"
+          value={config.weeklyBudget} onChange={(v) => update("weeklyBudget", v)}
+        />
+        <BudgetInput
+          label="Monthly Budget" hint="Maximum spend per calendar month before alerting" unit="per month"
+          value={config.monthlyBudget} onChange={(v) => update("monthlyBudget", v)}
+        />
 
-        {/* Weekly Budget */}
-        <div className="flex items-center justify-between">
+        {/* Scoped budgets */}
+        <div className="space-y-2">
           <div>
-            <div className="text-sm font-medium">Weekly Budget</div>
+            <div className="text-sm font-medium">Project, provider and model budgets</div>
             <div className="text-xs text-muted-foreground">
-              Maximum spend per week before alerting
+              Limit the spend of one project path, provider (claude, codex, gemini) or model
             </div>
           </div>
-          <div className="flex items-center gap-2">
-            <DollarSign className="h-4 w-4 text-muted-foreground" />
-            <input
-              type="number"
-              min="0"
-              step="0.01"
-              value={weeklyBudget}
-              onChange={(e) => onWeeklyBudgetChange(Number(e.target.value))}
-              className="bg-muted border border-border rounded px-3 py-1.5 text-sm font-mono w-28 focus:outline-none focus:ring-2 focus:ring-ring"
-              placeholder="0.00"
-            />
-            <span className="text-xs text-muted-foreground w-16">
-              {weeklyBudget === 0 ? "(disabled)" : "per week"}
-            </span>
-          </div>
+          {config.budgets.map((b, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2">
+              <Select value={b.scope} onValueChange={(v) => updateBudget(i, { scope: v as BudgetScope })}>
+                <SelectTrigger size="sm" className="w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SCOPE_LABELS) as BudgetScope[]).map((scope) => (
+                    <SelectItem key={scope} value={scope}>{SCOPE_LABELS[scope]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <input
+                type="text"
+                list={`budget-targets-${b.scope}`}
+                value={b.target}
+                onChange={(e) => updateBudget(i, { target: e.target.value })}
+                className={`${INPUT_CLASS} flex-1 min-w-40`}
+                placeholder={TARGET_PLACEHOLDERS[b.scope]}
+              />
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={b.amount}
+                onChange={(e) => updateBudget(i, { amount: Number(e.target.value) })}
+                className={INPUT_CLASS}
+              />
+              <Select value={b.period} onValueChange={(v) => updateBudget(i, { period: v as BudgetPeriod })}>
+                <SelectTrigger size="sm" className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PERIOD_LABELS) as BudgetPeriod[]).map((period) => (
+                    <SelectItem key={period} value={period}>{PERIOD_LABELS[period]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <button
+                className="text-muted-foreground hover:text-destructive"
+                onClick={() => removeBudget(i)}
+                title="Remove budget"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+          {(Object.keys(SCOPE_LABELS) as BudgetScope[]).map((scope) => (
+            <datalist key={scope} id={`budget-targets-${scope}`}>
+              {targets[scope].map((t) => <option key={t} value={t} />)}
+            </datalist>
+          ))}
+          <Button size="sm" variant="outline" onClick={addBudget}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add budget
+          </Button>
         </div>
 
+        <Toggle
+          label="Hard stop"
+          hint="Refuse new chat and bot queue runs while a budget covering them is exceeded"
+          checked={config.hardStop}
+          onChange={(v) => update("hardStop", v)}
+        />
+        <Toggle label="Telegram" hint="Send alerts to the Telegram bot's chat" checked={config.telegram} onChange={(v) => update("telegram", v)} />
+        <Toggle label="Feishu" hint="Send alerts to the first allowed Feishu chat" checked={config.feishu} onChange={(v) => update("feishu", v)} />
+
         {/* Alert Status */}
-        {(dailyBudget > 0 || weeklyBudget > 0) && (
+        {enabled && (
           <div className="p-3 bg-muted/50 rounded-md">
             <div className="flex items-start gap-2">
               <CheckCircle className="h-4 w-4 text-green-600 mt-0.5" />
               <div className="text-sm">
                 <p className="font-medium">Alerts enabled</p>
                 <p className="text-muted-foreground text-xs mt-1">
-                  You&apos;ll receive notifications when costs exceed your budget limits.
-                  Checks run every 60 seconds.
+                  The server checks spend every 60 seconds, even with no dashboard open,
+                  and alerts once per period that a budget is exceeded.
+                  The Token Usage page forecasts when each budget runs out.
                 </p>
               </div>
             </div>
           </div>
         )}
+
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving} className="gap-1.5">
+            {saving && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            Save
+          </Button>
+        </div>
       </CardContent>
     </Card>
   );
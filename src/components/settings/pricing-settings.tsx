@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/toast";
+import { Tag, Loader2, Plus, Trash2 } from "lucide-react";
+import type { PriceEntry } from "@/lib/pricing";
+
+interface PriceForm {
+  model: string;
+  effectiveFrom: string;
+  input: string;
+  output: string;
+  cacheRead: string;
+  cacheWrite5m: string;
+  cacheWrite1h: string;
+}
+
+const EMPTY_FORM: PriceForm = {
+  model: "", effectiveFrom: "", input: "", output: "", cacheRead: "", cacheWrite5m: "", cacheWrite1h: "",
+};
+
+const INPUT_CLASS =
+  "w-full px-2 py-1.5 text-sm font-mono border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring";
+
+function fmtRate(v: number): string {
+  return `$${Number(v.toFixed(4))}`;
+}
+
+export function PricingSettings() {
+  const [entries, setEntries] = useState<PriceEntry[] | null>(null);
+  const [form, setForm] = useState<PriceForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetch("/api/settings/pricing")
+      .then((r) => r.json())
+      .then((data) => setEntries(data.entries || []))
+      .catch(() => setEntries([]));
+  }, []);
+
+  const update = (field: keyof PriceForm, value: string) => setForm((f) => ({ ...f, [field]: value }));
+
+  /** Prefill the form from an entry so it can be overridden */
+  const editEntry = (e: PriceEntry) => {
+    setForm({
+      model: e.model,
+      effectiveFrom: e.effectiveFrom,
+      input: String(e.input),
+      output: String(e.output),
+      cacheRead: String(e.cacheRead),
+      cacheWrite5m: String(e.cacheWrite5m),
+      cacheWrite1h: String(e.cacheWrite1h),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.model.trim() || !form.effectiveFrom || form.input === "" || form.output === "") {
+      toast("Model, effective date, input and output prices are required", "error");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch("/api/settings/pricing", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json();
+      if (res.ok && data.success) {
+        setEntries(data.entries);
+        setForm(EMPTY_FORM);
+        toast(`Price saved for ${data.entry.model}`, "success");
+      } else {
+        toast(data.error || "Failed to save price", "error");
+      }
+    } catch {
+      toast("Failed to save price", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (e: PriceEntry) => {
+    try {
+      const params = new URLSearchParams({ model: e.model, effectiveFrom: e.effectiveFrom });
+      const res = await fetch(`/api/settings/pricing?${params}`, { method: "DELETE" });
+      const data = await res.json();
+      if (res.ok && data.success) {
+        setEntries(data.entries);
+        toast(`Custom price removed for ${e.model}`, "success");
+      } else {
+        toast(data.error || "Failed to remove price", "error");
+      }
+    } catch {
+      toast("Failed to remove price", "error");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Tag className="h-5 w-5" />
+          Model Pricing
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          USD per million tokens. Each price applies from its effective date until the next entry for the
+          same model. Models missing here are reported as unpriced instead of being estimated.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {entries === null ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading pricing catalog...
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground border-b">
+                  <th className="text-left font-medium py-1.5">Model</th>
+                  <th className="text-left font-medium">From</th>
+                  <th className="text-right font-medium">Input</th>
+                  <th className="text-right font-medium">Output</th>
+                  <th className="text-right font-medium">Cache read</th>
+                  <th className="text-right font-medium">Write 5m</th>
+                  <th className="text-right font-medium">Write 1h</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((e) => (
+                  <tr
+                    key={`${e.model}@${e.effectiveFrom}`}
+                    className="border-b last:border-0 hover:bg-muted/50 cursor-pointer"
+                    onClick={() => editEntry(e)}
+                    title="Edit as custom price"
+                  >
+                    <td className="py-1.5 font-mono">{e.model}</td>
+                    <td className="font-mono text-xs text-muted-foreground">{e.effectiveFrom}</td>
+                    <td className="text-right font-mono">{fmtRate(e.input)}</td>
+                    <td className="text-right font-mono">{fmtRate(e.output)}</td>
+                    <td className="text-right font-mono text-muted-foreground">{fmtRate(e.cacheRead)}</td>
+                    <td className="text-right font-mono text-muted-foreground">{fmtRate(e.cacheWrite5m)}</td>
+                    <td className="text-right font-mono text-muted-foreground">{fmtRate(e.cacheWrite1h)}</td>
+                    <td className="text-right pl-2 whitespace-nowrap">
+                      {e.source === "custom" ? (
+                        <>
+                          <Badge variant="default" className="text-xs">Custom</Badge>
+                          <button
+                            className="ml-1 align-middle text-muted-foreground hover:text-destructive"
+                            onClick={(ev) => { ev.stopPropagation(); handleDelete(e); }}
+                            title="Remove custom price"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        </>
+                      ) : (
+                        <Badge variant="outline" className="text-xs">Built-in</Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Add / override form */}
+        <div className="space-y-3">
+          <div className="text-sm font-medium">Add or override a price</div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Model ID</label>
+              <input
+                type="text"
+                value={form.model}
+                onChange={(e) => update("model", e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="claude-sonnet-4-6"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Effective from</label>
+              <input
+                type="date"
+                value={form.effectiveFrom}
+                onChange={(e) => update("effectiveFrom", e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-5 gap-2">
+            {([
+              ["input", "Input"],
+              ["output", "Output"],
+              ["cacheRead", "Cache read"],
+              ["cacheWrite5m", "Write 5m"],
+              ["cacheWrite1h", "Write 1h"],
+            ] as const).map(([field, label]) => (
+              <div key={field} className="space-y-1">
+                <label className="text-xs text-muted-foreground">{label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form[field]}
+                  onChange={(e) => update(field, e.target.value)}
+                  className={INPUT_CLASS}
+                  placeholder={field === "input" || field === "output" ? "0.00" : "auto"}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave cache rates empty to derive them from the input price.
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin mr-1" /> : <Plus className="h-3.5 w-3.5 mr-1" />}
+              Save price
+            </Button>
+            {form !== EMPTY_FORM && (
+              <Button size="sm" variant="ghost" onClick={() => setForm(EMPTY_FORM)}>
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
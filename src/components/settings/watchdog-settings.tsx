@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/toast";
+import { AlarmClock, Loader2 } from "lucide-react";
+import type { WatchdogConfig } from "@/lib/session-watchdog";
+
+const INPUT_CLASS =
+  "bg-muted border border-border rounded px-3 py-1.5 text-sm font-mono w-20 focus:outline-none focus:ring-2 focus:ring-ring";
+
+function Toggle({ label, hint, checked, onChange }: {
+  label: string; hint: string; checked: boolean; onChange: (v: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between">
+      <div>
+        <div className="text-sm font-medium">{label}</div>
+        <div className="text-xs text-muted-foreground">{hint}</div>
+      </div>
+      <Switch checked={checked} onCheckedChange={onChange} />
+    </div>
+  );
+}
+
+export function WatchdogSettings() {
+  const [config, setConfig] = useState<WatchdogConfig | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetch("/api/settings/watchdog")
+      .then((r) => r.json())
+      .then((data) => setConfig(data.config))
+      .catch(() => {});
+  }, []);
+
+  if (!config) return null;
+
+  const update = <K extends keyof WatchdogConfig>(key: K, value: WatchdogConfig[K]) =>
+    setConfig((c) => c && { ...c, [key]: value });
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/settings/watchdog", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(config),
+      });
+      const data = await res.json();
+      if (res.ok && data.success) {
+        setConfig(data.config);
+        toast("Watchdog settings saved", "success");
+      } else {
+        toast(data.error || "Failed to save watchdog settings", "error");
+      }
+    } catch {
+      toast("Failed to save watchdog settings", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <AlarmClock className="h-5 w-5" />
+          Stalled Session Alerts
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Checks active sessions every minute and alerts once per episode when one waits for input too long,
+          keeps failing tool calls, or is still marked active after its Claude process exited.
+          Exact waiting times need the session state hooks from the Toolbox.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <Toggle label="Enabled" hint="Run the watchdog" checked={config.enabled} onChange={(v) => update("enabled", v)} />
+
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-sm font-medium">Waiting threshold</div>
+            <div className="text-xs text-muted-foreground">Minutes waiting for a prompt or permission before alerting</div>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="number" min="1" max="59" value={config.waitingMinutes}
+              onChange={(e) => update("waitingMinutes", Number(e.target.value))}
+              className={INPUT_CLASS}
+            />
+            <span className="text-xs text-muted-foreground w-10">min</span>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-sm font-medium">Error loop</div>
+            <div className="text-xs text-muted-foreground">Consecutive failed tool calls that count as a loop</div>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="number" min="2" step="1" value={config.errorLoopCount}
+              onChange={(e) => update("errorLoopCount", Number(e.target.value))}
+              className={INPUT_CLASS}
+            />
+            <span className="text-xs text-muted-foreground w-10">calls</span>
+          </div>
+        </div>
+
+        <Toggle label="Telegram" hint="Send alerts to the Telegram bot's chat" checked={config.telegram} onChange={(v) => update("telegram", v)} />
+        <Toggle label="Feishu" hint="Send alerts to the first allowed Feishu chat" checked={config.feishu} onChange={(v) => update("feishu", v)} />
+
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving} className="gap-1.5">
+            {saving && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
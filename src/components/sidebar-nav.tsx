@@ -19,9 +19,10 @@ import {
   PanelLeftOpen,
   Puzzle,
   ListOrdered,
+  Activity,
 } from "lucide-react";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { NotificationBell } from "@/components/notification-bell";
+import { NotificationCenter } from "@/components/notification-center";
 import { Button } from "@/components/ui/button";
 import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
 import { ShortcutsHelp } from "@/components/shortcuts-help";
@@ -35,6 +36,7 @@ const navItems = [
   { href: "/sessions", labelKey: "sessions", icon: Clock },
   { href: "/chat", labelKey: "chat", icon: MessageCircle },
   { href: "/tokens", labelKey: "tokens", icon: Coins },
+  { href: "/tools", labelKey: "tools", icon: Activity },
   { href: "/toolbox", labelKey: "toolbox", icon: Wrench },
   { href: "/queue", labelKey: "queue", icon: ListOrdered },
   { href: "/editor", labelKey: "instructions", icon: FileEdit },
@@ -212,7 +214,7 @@ export function SidebarNav() {
                 <span className="text-xl">⚡</span>
                 <span className="truncate">Super Claude Code</span>
               </div>
-              <NotificationBell />
+              <NotificationCenter />
             </>
           )}
         </div>
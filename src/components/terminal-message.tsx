@@ -3,13 +3,12 @@
 import React, { useState } from "react";
 import { ChevronDown, ChevronRight, Copy, Check } from "lucide-react";
 import { shortModel as shortModelUtil } from "@/lib/format-utils";
+import { ToolResultView, ToolStatus, editDiff } from "@/components/sessions/tool-result";
+import type { ToolCallInfo } from "@/components/sessions/types";
 
 // ---- Types ----
 
-interface ToolUse {
-  name: string;
-  input?: string;
-}
+type ToolUse = ToolCallInfo;
 
 interface Message {
   uuid: string;
@@ -56,6 +55,7 @@ const TOOL_COLORS: Record<string, string> = {
   Grep: "text-blue-400",
   Write: "text-purple-400",
   Edit: "text-violet-400",
+  MultiEdit: "text-violet-400",
   Bash: "text-green-400",
   WebFetch: "text-amber-400",
   WebSearch: "text-orange-400",
@@ -170,7 +170,7 @@ export function TerminalMessage({ msg, showTools, searchHighlight, isSearchMatch
                   summary = String(parsed.command).slice(0, 60);
                 } else if (tool.name === "Read" && parsed.file_path) {
                   summary = String(parsed.file_path).split(/[/\\]/).pop() || "";
-                } else if ((tool.name === "Edit" || tool.name === "Write") && parsed.file_path) {
+                } else if ((tool.name === "Edit" || tool.name === "MultiEdit" || tool.name === "Write") && parsed.file_path) {
                   summary = String(parsed.file_path).split(/[/\\]/).pop() || "";
                 } else if ((tool.name === "Glob" || tool.name === "Grep") && parsed.pattern) {
                   summary = String(parsed.pattern);
@@ -181,6 +181,7 @@ export function TerminalMessage({ msg, showTools, searchHighlight, isSearchMatch
                     <span className="text-zinc-600 select-none">  </span>
                     <span className={color}>[{tool.name}]</span>
                     {summary && <span className="text-zinc-500 ml-1">{summary}</span>}
+                    <span className="text-[11px] ml-2 inline-flex gap-2"><ToolStatus tool={tool} variant="terminal" /></span>
                   </div>
                 );
               })}
@@ -192,42 +193,38 @@ export function TerminalMessage({ msg, showTools, searchHighlight, isSearchMatch
               {msg.toolUse!.map((tool, i) => {
                 const color = TOOL_COLORS[tool.name] || "text-zinc-400";
                 const parsed = parseToolInput(tool);
+                const isEdit = editDiff(tool) !== null;
 
                 return (
-                  <div key={i} className="ml-2 border-l border-zinc-800 pl-2">
-                    <div className={`text-[12px] ${color} font-semibold`}>[{tool.name}]</div>
+                  <div key={i} className={`ml-2 border-l pl-2 ${tool.isError ? "border-red-900" : "border-zinc-800"}`}>
+                    <div className="text-[12px] flex items-center gap-2">
+                      <span className={`${color} font-semibold`}>[{tool.name}]</span>
+                      <span className="text-[11px] inline-flex gap-2"><ToolStatus tool={tool} variant="terminal" /></span>
+                    </div>
                     {tool.name === "Bash" && parsed.command && (
                       <div className="text-green-400/80 text-[12px] bg-black/40 px-2 py-1 rounded mt-0.5">
                         $ {String(parsed.command)}
                       </div>
                     )}
-                    {tool.name === "Edit" && parsed.file_path && (
+                    {isEdit && (
                       <div className="text-[11px] mt-0.5 space-y-0.5">
-                        <div className="text-zinc-500">{parsed.file_path}</div>
-                        {parsed.old_string && (
-                          <pre className="text-red-400/70 bg-red-950/20 px-2 py-1 rounded font-mono whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
-                            {parsed.old_string.split("\n").map((line, li) => (
-                              <div key={li}>- {line}</div>
-                            ))}
-                          </pre>
-                        )}
-                        {parsed.new_string && (
-                          <pre className="text-green-400/70 bg-green-950/20 px-2 py-1 rounded font-mono whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
-                            {parsed.new_string.split("\n").map((line, li) => (
-                              <div key={li}>+ {line}</div>
-                            ))}
-                          </pre>
-                        )}
+                        {parsed.file_path && <div className="text-zinc-500">{parsed.file_path}</div>}
+                        <ToolResultView tool={tool} variant="terminal" />
                       </div>
                     )}
                     {(tool.name === "Read" || tool.name === "Write") && parsed.file_path && (
                       <div className="text-[11px] text-zinc-500 mt-0.5">{String(parsed.file_path)}</div>
                     )}
-                    {!["Bash", "Edit", "Read", "Write"].includes(tool.name) && tool.input && (
+                    {!["Bash", "Read", "Write"].includes(tool.name) && !isEdit && tool.input && (
                       <pre className="text-[11px] text-zinc-600 mt-0.5 whitespace-pre-wrap max-h-24 overflow-hidden">
                         {tool.input.slice(0, 300)}
                       </pre>
                     )}
+                    {!isEdit && tool.result !== undefined && (
+                      <div className="mt-0.5">
+                        <ToolResultView tool={tool} variant="terminal" />
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Timer } from "lucide-react";
+import { fmtCost, fmtTokens, formatDT, shortModel } from "@/lib/format-utils";
+import { BLOCK_HOURS } from "@/lib/billing-blocks";
+import type { BillingBlocksData } from "@/lib/session-reader";
+import { BlockGaugeContent, fmtClock } from "./block-gauge";
+
+/**
+ * Claude usage in rolling 5-hour subscription windows: the current block's
+ * gauge and every block of the last week with its equivalent API cost.
+ */
+export function BillingBlocks() {
+  const [data, setData] = useState<BillingBlocksData | null>(null);
+
+  useEffect(() => {
+    fetch("/api/tokens/blocks?days=7").then((r) => r.json()).then(setData).catch(() => {});
+  }, []);
+
+  if (!data) return null;
+  const peak = Math.max(0, ...data.blocks.map((b) => b.tokens));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Timer className="h-4 w-4" />
+          Billing Blocks
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Claude usage in {BLOCK_HOURS}-hour windows opened by the first message after the last one closed.
+          The limit is your largest earlier block; cost is the API-price equivalent.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md border p-3">
+          <div className="text-xs font-medium text-muted-foreground mb-2">Current block</div>
+          <BlockGaugeContent data={data} />
+        </div>
+
+        {data.blocks.length === 0 ? (
+          <div className="text-center text-muted-foreground py-6 text-sm">No blocks in the last 7 days</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/30 border-b">
+                <tr>
+                  <th className="text-left py-2 px-3 font-medium text-muted-foreground">Block</th>
+                  <th className="text-left py-2 px-3 font-medium text-muted-foreground hidden md:table-cell">Models</th>
+                  <th className="text-right py-2 px-3 font-medium text-muted-foreground hidden sm:table-cell">Messages</th>
+                  <th className="text-right py-2 px-3 font-medium text-muted-foreground">Tokens</th>
+                  <th className="text-right py-2 px-3 font-medium text-muted-foreground">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {data.blocks.map((b) => (
+                  <tr key={b.start} className="hover:bg-muted/30 transition-colors">
+                    <td className="py-2 px-3">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-xs">{formatDT(b.start)} – {fmtClock(b.end)}</span>
+                        {b.active && <Badge className="text-[10px]">active</Badge>}
+                      </div>
+                      <div className="text-[10px] text-muted-foreground font-mono">
+                        active {fmtClock(b.firstAt)} – {fmtClock(b.lastAt)}
+                      </div>
+                    </td>
+                    <td className="py-2 px-3 hidden md:table-cell">
+                      <div className="flex gap-1 flex-wrap">
+                        {b.models.map((m) => <Badge key={m} variant="outline" className="text-[10px]">{shortModel(m)}</Badge>)}
+                      </div>
+                    </td>
+                    <td className="py-2 px-3 text-right font-mono hidden sm:table-cell">{b.messages}</td>
+                    <td className="py-2 px-3 text-right font-mono">
+                      {fmtTokens(b.tokens)}
+                      {b.tokens === peak && peak > 0 && <span className="ml-1 text-[10px] text-muted-foreground">peak</span>}
+                    </td>
+                    <td className="py-2 px-3 text-right font-mono font-bold">{fmtCost(b.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
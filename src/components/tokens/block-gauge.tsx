@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Timer } from "lucide-react";
+import { fmtCost, fmtTokens } from "@/lib/format-utils";
+import type { BillingBlocksData } from "@/lib/session-reader";
+
+const POLL_MS = 60_000;
+
+export function fmtClock(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function fmtLeft(ms: number): string {
+  const m = Math.max(0, Math.round(ms / 60_000));
+  return m >= 60 ? `${Math.floor(m / 60)}h ${String(m % 60).padStart(2, "0")}m` : `${m}m`;
+}
+
+function Bar({ percent, className }: { percent: number; className: string }) {
+  return (
+    <div className="h-2 rounded-full bg-muted overflow-hidden">
+      <div className={`h-full rounded-full transition-all ${className}`} style={{ width: `${Math.min(100, Math.max(0, percent))}%` }} />
+    </div>
+  );
+}
+
+/** The current 5-hour block: tokens against the limit, time left, burn rate and projection */
+export function BlockGaugeContent({ data }: { data: BillingBlocksData }) {
+  const { current, burn, now } = data;
+  if (!current || !burn) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No Claude messages in the last 5 hours</p>;
+  }
+  const used = burn.limit ? (current.tokens / burn.limit) * 100 : null;
+  const projected = burn.limit ? (burn.projectedTokens / burn.limit) * 100 : null;
+  const elapsed = ((now - current.start) / (current.end - current.start)) * 100;
+  const tone = used === null ? "bg-primary" : used >= 90 ? "bg-red-500" : used >= 70 ? "bg-amber-500" : "bg-green-500";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="font-mono">{fmtClock(current.start)} – {fmtClock(current.end)}</span>
+        <span>{fmtLeft(current.end - now)} left</span>
+      </div>
+      <div className="space-y-1">
+        <div className="flex items-baseline justify-between text-sm">
+          <span>
+            <span className="font-mono font-bold">{fmtTokens(current.tokens)}</span>
+            {burn.limit !== null && <span className="text-muted-foreground"> / {fmtTokens(burn.limit)} tokens</span>}
+          </span>
+          <span className="font-mono font-bold">{fmtCost(current.cost)}</span>
+        </div>
+        <Bar percent={used ?? elapsed} className={tone} />
+        {burn.limit !== null && <Bar percent={elapsed} className="bg-muted-foreground/40" />}
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div>
+          <div className="text-[10px] text-muted-foreground">Burn rate</div>
+          <div className="text-xs font-mono">{fmtTokens(Math.round(burn.tokensPerMinute))}/min</div>
+          <div className="text-[10px] font-mono text-muted-foreground">{fmtCost(burn.costPerHour)}/h</div>
+        </div>
+        <div>
+          <div className="text-[10px] text-muted-foreground">At block end</div>
+          <div className="text-xs font-mono">{fmtTokens(Math.round(burn.projectedTokens))}</div>
+          <div className="text-[10px] font-mono text-muted-foreground">
+            {fmtCost(burn.projectedCost)}{projected !== null && ` · ${projected.toFixed(0)}%`}
+          </div>
+        </div>
+        <div>
+          <div className="text-[10px] text-muted-foreground">Limit reached</div>
+          {burn.limit === null ? (
+            <div className="text-xs text-muted-foreground">no history yet</div>
+          ) : burn.exhaustsAt !== null ? (
+            <div className="text-xs font-mono font-medium text-red-600 dark:text-red-400">
+              {burn.exhaustsAt <= now ? "reached" : `~${fmtClock(burn.exhaustsAt)}`}
+            </div>
+          ) : (
+            <div className="text-xs text-green-600 dark:text-green-400">lasts the block</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Live gauge of the current 5-hour block for the overview page */
+export function BlockGauge() {
+  const [data, setData] = useState<BillingBlocksData | null>(null);
+
+  useEffect(() => {
+    const load = () => fetch("/api/tokens/blocks?days=1").then((r) => r.json()).then(setData).catch(() => {});
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!data) return null;
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Timer className="h-4 w-4" /> 5-hour Block
+          </CardTitle>
+          {data.current && (
+            <Badge variant="secondary" className="text-xs">
+              {data.current.messages} msg{data.current.messages === 1 ? "" : "s"}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <BlockGaugeContent data={data} />
+        <Link href="/tokens" className="block mt-3 text-xs text-muted-foreground hover:underline text-right">
+          All blocks →
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
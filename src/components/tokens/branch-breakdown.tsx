@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, Download, GitBranch } from "lucide-react";
+import { fmtCost, fmtTokens } from "@/lib/format-utils";
+import type { RepositoryUsage } from "@/lib/session-reader";
+
+function formatDate(ms: number): string {
+  return ms ? new Date(ms).toISOString().split("T")[0] : "";
+}
+
+/**
+ * Cost per repository with a drill-down into its git branches, so agent
+ * spend can be charged to the feature or ticket a branch stands for.
+ */
+export function BranchBreakdown({ provider, onExport }: { provider: string; onExport: () => void }) {
+  const [repos, setRepos] = useState<{ provider: string; list: RepositoryUsage[] } | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = provider !== "all" ? `?provider=${provider}` : "";
+    fetch(`/api/tokens/branches${params}`)
+      .then((r) => r.json())
+      .then((d) => setRepos({ provider, list: d.repositories || [] }))
+      .catch(() => {});
+  }, [provider]);
+
+  const list = repos?.provider === provider ? repos.list : null;
+  if (!list) return null;
+  const totalCost = list.reduce((sum, r) => sum + r.cost, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <GitBranch className="h-4 w-4" />
+            Cost by Repository &amp; Branch
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={onExport}>
+            <Download className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Export Branch CSV</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {list.length === 0 ? (
+          <div className="text-center text-muted-foreground py-6 text-sm">No usage recorded</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-muted/30 border-b">
+              <tr>
+                <th className="text-left py-2 px-3 font-medium text-muted-foreground">Repository / Branch</th>
+                <th className="text-right py-2 px-3 font-medium text-muted-foreground">Sessions</th>
+                <th className="text-right py-2 px-3 font-medium text-muted-foreground hidden sm:table-cell">Input</th>
+                <th className="text-right py-2 px-3 font-medium text-muted-foreground hidden sm:table-cell">Output</th>
+                <th className="text-right py-2 px-3 font-medium text-muted-foreground">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {list.map((repo) => {
+                const open = expanded === repo.repository;
+                return [
+                  <tr
+                    key={repo.repository}
+                    className="hover:bg-muted/30 transition-colors cursor-pointer"
+                    onClick={() => setExpanded(open ? null : repo.repository)}
+                  >
+                    <td className="py-2 px-3">
+                      <div className="flex items-center gap-1.5 min-w-0">
+                        {open ? <ChevronDown className="h-3.5 w-3.5 shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 shrink-0" />}
+                        <span className="font-mono text-xs truncate" title={repo.repository}>{repo.repository}</span>
+                        <Badge variant="outline" className="text-[10px] shrink-0">
+                          {repo.branches.length} branch{repo.branches.length === 1 ? "" : "es"}
+                        </Badge>
+                      </div>
+                    </td>
+                    <td className="py-2 px-3 text-right font-mono">{repo.sessions}</td>
+                    <td className="py-2 px-3 text-right font-mono hidden sm:table-cell">{fmtTokens(repo.input)}</td>
+                    <td className="py-2 px-3 text-right font-mono hidden sm:table-cell">{fmtTokens(repo.output)}</td>
+                    <td className="py-2 px-3 text-right font-mono font-bold">
+                      {fmtCost(repo.cost)}
+                      {totalCost > 0 && (
+                        <span className="ml-1 text-xs font-normal text-muted-foreground">{((repo.cost / totalCost) * 100).toFixed(0)}%</span>
+                      )}
+                    </td>
+                  </tr>,
+                  ...(open ? repo.branches.map((b) => (
+                    <tr key={`${repo.repository}\0${b.branch}`} className="bg-muted/20">
+                      <td className="py-1.5 px-3 pl-9">
+                        <div className="flex items-center gap-1.5 min-w-0">
+                          <GitBranch className="h-3 w-3 shrink-0 text-muted-foreground" />
+                          {b.branch
+                            ? <span className="font-mono text-xs truncate" title={b.branch}>{b.branch}</span>
+                            : <span className="text-xs text-muted-foreground italic">no branch recorded</span>}
+                          <span className="text-[10px] text-muted-foreground shrink-0">{formatDate(b.lastActive)}</span>
+                        </div>
+                      </td>
+                      <td className="py-1.5 px-3 text-right font-mono text-xs">{b.sessions}</td>
+                      <td className="py-1.5 px-3 text-right font-mono text-xs hidden sm:table-cell">{fmtTokens(b.input)}</td>
+                      <td className="py-1.5 px-3 text-right font-mono text-xs hidden sm:table-cell">{fmtTokens(b.output)}</td>
+                      <td className="py-1.5 px-3 text-right font-mono text-xs">{fmtCost(b.cost)}</td>
+                    </tr>
+                  )) : []),
+                ];
+              })}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
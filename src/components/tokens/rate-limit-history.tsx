@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  ComposedChart, Bar, Line, ResponsiveContainer, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
+} from "recharts";
+import { Gauge } from "lucide-react";
+import { formatDT } from "@/lib/format-utils";
+import { rateLimitLabel } from "@/lib/chat-types";
+import type { RateLimitEvent, RateLimitOverview } from "@/lib/rate-limits";
+
+const STATUS_BADGE: Record<RateLimitEvent["status"], { label: string; className: string }> = {
+  allowed: { label: "ok", className: "bg-green-500/15 text-green-700 dark:text-green-400" },
+  allowed_warning: { label: "warning", className: "bg-amber-500/15 text-amber-700 dark:text-amber-400" },
+  rejected: { label: "limited", className: "bg-red-500/15 text-red-700 dark:text-red-400" },
+};
+
+function fmtUsed(utilization: number | null): string {
+  return utilization !== null ? `${Math.round(utilization * 100)}%` : "";
+}
+
+/**
+ * Plan throttling reported by chat and queued runs: the current state of each
+ * window and daily warnings and rejections, to line slowdowns up with limits.
+ */
+export function RateLimitHistory() {
+  const [data, setData] = useState<RateLimitOverview | null>(null);
+
+  useEffect(() => {
+    fetch("/api/tokens/rate-limits?days=14").then((r) => r.json()).then(setData).catch(() => {});
+  }, []);
+
+  const points = useMemo(() => (data?.history ?? []).map((d) => ({
+    date: d.date.slice(5),
+    warnings: d.warnings,
+    rejections: d.rejections,
+    peak: d.peakUtilization !== null ? Math.round(d.peakUtilization * 100) : undefined,
+  })), [data]);
+
+  if (!data) return null;
+  const reported = data.history.some((d) => d.allowed + d.warnings + d.rejections > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Gauge className="h-4 w-4" />
+            Rate Limits
+          </CardTitle>
+          <div className="flex items-center gap-2 flex-wrap">
+            {data.current.map((e) => (
+              <Badge key={e.limitType} variant="outline" className={`text-xs ${STATUS_BADGE[e.status].className}`}>
+                {rateLimitLabel(e.limitType)} {STATUS_BADGE[e.status].label} {fmtUsed(e.utilization)}
+                {e.resetsAt && e.status !== "allowed" && <span className="ml-1 font-mono">until {formatDT(e.resetsAt)}</span>}
+              </Badge>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Plan usage windows reported by the CLI during dashboard chat and queued runs, last 14 days.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!reported ? (
+          <div className="text-center text-muted-foreground py-6 text-sm">No rate limit reports yet</div>
+        ) : (
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                <XAxis dataKey="date" tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }} />
+                <YAxis yAxisId="count" allowDecimals={false} tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }} width={32} />
+                <YAxis
+                  yAxisId="pct"
+                  orientation="right"
+                  domain={[0, 100]}
+                  tickFormatter={(v: number) => `${v}%`}
+                  tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }}
+                  width={40}
+                />
+                <Tooltip
+                  contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))", fontSize: 12 }}
+                  formatter={(value, name) => (name === "Peak used" ? `${value}%` : value)}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Bar yAxisId="count" dataKey="warnings" name="Warnings" stackId="limited" fill="#f59e0b" isAnimationActive={false} />
+                <Bar yAxisId="count" dataKey="rejections" name="Rejections" stackId="limited" fill="#ef4444" isAnimationActive={false} />
+                <Line yAxisId="pct" dataKey="peak" name="Peak used" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {data.recent.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/30 border-b">
+                <tr>
+                  <th className="text-left py-2 px-3 font-medium text-muted-foreground">When</th>
+                  <th className="text-left py-2 px-3 font-medium text-muted-foreground">Window</th>
+                  <th className="text-left py-2 px-3 font-medium text-muted-foreground hidden sm:table-cell">Run</th>
+                  <th className="text-right py-2 px-3 font-medium text-muted-foreground">Used</th>
+                  <th className="text-right py-2 px-3 font-medium text-muted-foreground">Resets</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {data.recent.map((e, i) => (
+                  <tr key={`${e.at}-${i}`} className="hover:bg-muted/30 transition-colors">
+                    <td className="py-2 px-3 font-mono text-xs">{formatDT(e.at)}</td>
+                    <td className="py-2 px-3">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs">{rateLimitLabel(e.limitType)}</span>
+                        <Badge variant="outline" className={`text-[10px] ${STATUS_BADGE[e.status].className}`}>{STATUS_BADGE[e.status].label}</Badge>
+                      </div>
+                    </td>
+                    <td className="py-2 px-3 text-xs text-muted-foreground hidden sm:table-cell">{e.provider} {e.source}</td>
+                    <td className="py-2 px-3 text-right font-mono text-xs">{fmtUsed(e.utilization)}</td>
+                    <td className="py-2 px-3 text-right font-mono text-xs">{e.resetsAt ? formatDT(e.resetsAt) : ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  ComposedChart, Area, Line, ResponsiveContainer, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine,
+} from "recharts";
+import { CalendarClock } from "lucide-react";
+import { fmtCost } from "@/lib/format-utils";
+import type { BudgetForecast, SpendForecast as SpendForecastData } from "@/lib/cost-budgets";
+
+interface ChartPoint {
+  date: string;
+  actual?: number;
+  projected?: number;
+  band?: [number, number];
+}
+
+function ForecastTooltip({ active, payload, label }: { active?: boolean; payload?: { payload: ChartPoint }[]; label?: string }) {
+  if (!active || !payload || !payload.length) return null;
+  const p = payload[0].payload;
+  return (
+    <div className="bg-card border border-border rounded-md px-3 py-2 shadow-md text-xs space-y-0.5">
+      <p className="font-medium font-mono">{label}</p>
+      {p.actual !== undefined && <p>Spent: <span className="font-mono font-bold">{fmtCost(p.actual)}</span></p>}
+      {p.projected !== undefined && <p>Projected: <span className="font-mono font-bold">{fmtCost(p.projected)}</span></p>}
+      {p.band && <p className="text-muted-foreground">90% band: <span className="font-mono">{fmtCost(p.band[0])} – {fmtCost(p.band[1])}</span></p>}
+    </div>
+  );
+}
+
+function RunsOut({ budget }: { budget: BudgetForecast }) {
+  if (!budget.exhaustedOn) {
+    if (budget.exhaustedEarliest) {
+      return <span className="text-amber-600">possibly {budget.exhaustedEarliest}</span>;
+    }
+    return <span className="text-muted-foreground">lasts the {budget.period === "daily" ? "day" : budget.period === "weekly" ? "week" : "month"}</span>;
+  }
+  const early = budget.exhaustedEarliest && budget.exhaustedEarliest < budget.exhaustedOn ? ` (as early as ${budget.exhaustedEarliest})` : "";
+  return <span className="text-red-600 dark:text-red-400 font-medium">{budget.exhaustedOn}{early}</span>;
+}
+
+/**
+ * Month-end projection of all spend from weekday-adjusted history, and when
+ * each configured budget is expected to run out.
+ */
+export function SpendForecast() {
+  const [data, setData] = useState<SpendForecastData | null>(null);
+
+  useEffect(() => {
+    fetch("/api/tokens/forecast").then((r) => r.json()).then(setData).catch(() => {});
+  }, []);
+
+  const points = useMemo((): ChartPoint[] => {
+    if (!data) return [];
+    let spent = 0;
+    return data.month.days.map((d) => {
+      const point: ChartPoint = { date: d.date.slice(5) };
+      if (d.date <= data.today) {
+        spent += d.actual ?? 0;
+        point.actual = spent;
+      }
+      if (d.date >= data.today) {
+        point.projected = d.cumulative;
+        point.band = [d.low, d.high];
+      }
+      return point;
+    });
+  }, [data]);
+
+  if (!data) return null;
+  const { month, budgets } = data;
+  const monthly = budgets.find((b) => !b.scope && b.period === "monthly");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <CardTitle className="text-base flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Month-end Forecast
+          </CardTitle>
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge variant="outline" className="text-xs font-mono">spent {fmtCost(month.spent)}</Badge>
+            <Badge variant="outline" className="text-xs font-mono">
+              projected {fmtCost(month.projected)} ({fmtCost(month.low)} – {fmtCost(month.high)})
+            </Badge>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          All providers. Projects the rest of {month.start.slice(0, 7)} from the last two weeks&apos; spend,
+          shaped by each weekday&apos;s share of the last eight weeks; the shaded band is a 90% range.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={points} margin={{ top: 16, right: 16, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+              <XAxis dataKey="date" tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }} />
+              <YAxis
+                tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }}
+                tickFormatter={(v: number) => fmtCost(v)}
+                domain={[0, (max: number) => Math.max(max, monthly?.amount ?? 0)]}
+                width={56}
+              />
+              <Tooltip content={<ForecastTooltip />} />
+              {monthly && (
+                <ReferenceLine
+                  y={monthly.amount}
+                  stroke="#ef4444"
+                  strokeDasharray="4 4"
+                  label={{ value: "monthly budget", fontSize: 10, fill: "#ef4444", position: "insideTopLeft" }}
+                />
+              )}
+              <Area dataKey="band" stroke="none" fill="hsl(var(--primary))" fillOpacity={0.15} isAnimationActive={false} />
+              <Line dataKey="projected" stroke="hsl(var(--primary))" strokeDasharray="5 4" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line dataKey="actual" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {budgets.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/30 border-b">
+                <tr>
+                  <th className="text-left py-2 px-3 font-medium text-muted-foreground">Budget</th>
+                  <th className="text-right py-2 px-3 font-medium text-muted-foreground">Spent</th>
+                  <th className="text-right py-2 px-3 font-medium text-muted-foreground">Projected (90%)</th>
+                  <th className="text-right py-2 px-3 font-medium text-muted-foreground">Runs out</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {budgets.map((b) => (
+                  <tr key={b.key} className="hover:bg-muted/30 transition-colors">
+                    <td className="py-2 px-3">
+                      <div>{b.label}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{b.start === b.end ? b.start : `${b.start} – ${b.end}`}</div>
+                    </td>
+                    <td className="py-2 px-3 text-right font-mono">
+                      {fmtCost(b.spent)} <span className="text-muted-foreground">/ {fmtCost(b.amount)}</span>
+                    </td>
+                    <td className="py-2 px-3 text-right font-mono">
+                      {fmtCost(b.projected)} <span className="text-xs text-muted-foreground">({fmtCost(b.low)} – {fmtCost(b.high)})</span>
+                    </td>
+                    <td className="py-2 px-3 text-right font-mono text-xs"><RunsOut budget={b} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            <Link href="/settings" className="underline">Set budgets in Settings</Link> to see when each one runs out.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -87,7 +87,7 @@ export function AgentsTab({ agents, onRefresh, AgentDialog }: AgentsTabProps) {
     }
   };
 
-  const [providerFilter, setProviderFilter] = useState<"all" | "claude" | "codex">("all");
+  const [providerFilter, setProviderFilter] = useState<"all" | "claude" | "codex" | "gemini">("all");
 
   // Get installed agent names
   const filteredAgents = filterByProvider(agents, providerFilter);
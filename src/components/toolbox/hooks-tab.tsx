@@ -9,11 +9,12 @@ import {
   Shield, Info, Plus, Pencil, Trash2, Clock, AlertCircle, X,
 } from "lucide-react";
 import { OnlineSearch } from "./online-search";
+import { SessionHooksCard } from "./session-hooks-card";
 import type { HookEntry } from "./types";
 
 const HOOK_TYPES = [
-  "PreToolUse", "PostToolUse", "Stop", "SessionStart", "SessionEnd",
-  "PreCompact", "PermissionRequest", "SubagentStart", "SubagentStop",
+  "PreToolUse", "PostToolUse", "Stop", "SessionStart", "SessionEnd", "UserPromptSubmit",
+  "Notification", "PreCompact", "PermissionRequest", "SubagentStart", "SubagentStop",
 ];
 
 const HOOK_COLORS: Record<string, string> = {
@@ -24,6 +25,8 @@ const HOOK_COLORS: Record<string, string> = {
   SessionEnd: "bg-orange-500/10 text-orange-500",
   PreCompact: "bg-purple-500/10 text-purple-500",
   PermissionRequest: "bg-amber-500/10 text-amber-500",
+  UserPromptSubmit: "bg-indigo-500/10 text-indigo-500",
+  Notification: "bg-yellow-500/10 text-yellow-600",
 };
 
 interface HooksTabProps {
@@ -94,6 +97,7 @@ export function HooksTab({ hooks, onRefresh, HookDialog }: HooksTabProps) {
             <Plus className="h-4 w-4" /> Add Hook
           </Button>
         </div>
+        <SessionHooksCard hooks={hooks} onRefresh={onRefresh} />
         <Card className="border-dashed">
           <CardContent className="py-10 text-center">
             <Shield className="h-10 w-10 mx-auto mb-3 text-muted-foreground/40" />
@@ -130,6 +134,7 @@ export function HooksTab({ hooks, onRefresh, HookDialog }: HooksTabProps) {
           <Plus className="h-4 w-4" /> Add Hook
         </Button>
       </div>
+      <SessionHooksCard hooks={hooks} onRefresh={onRefresh} />
       <div className="space-y-4">
         <div className="flex items-start gap-2 bg-muted/30 rounded-lg px-3 py-2.5">
           <Info className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
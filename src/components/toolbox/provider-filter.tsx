@@ -3,7 +3,7 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 
-type Provider = "claude" | "codex";
+type Provider = "claude" | "codex" | "gemini";
 type ProviderFilterValue = "all" | Provider;
 
 interface ProviderFilterProps {
@@ -14,19 +14,22 @@ interface ProviderFilterProps {
 
 export function countByProvider(
   items: { provider?: Provider }[]
-): { all: number; claude: number; codex: number } {
+): { all: number; claude: number; codex: number; gemini: number } {
   let claude = 0;
   let codex = 0;
+  let gemini = 0;
 
   for (const item of items) {
     if (item.provider === "codex") {
       codex++;
+    } else if (item.provider === "gemini") {
+      gemini++;
     } else {
       claude++;
     }
   }
 
-  return { all: items.length, claude, codex };
+  return { all: items.length, claude, codex, gemini };
 }
 
 export function filterByProvider<T extends { provider?: Provider }>(
@@ -34,7 +37,7 @@ export function filterByProvider<T extends { provider?: Provider }>(
   filter: string
 ): T[] {
   if (filter === "all") return items;
-  if (filter === "codex") return items.filter((item) => item.provider === "codex");
+  if (filter === "codex" || filter === "gemini") return items.filter((item) => item.provider === filter);
   return items.filter((item) => item.provider === undefined || item.provider === "claude");
 }
 
@@ -42,6 +45,7 @@ const FILTERS: { label: string; value: ProviderFilterValue }[] = [
   { label: "All", value: "all" },
   { label: "Claude", value: "claude" },
   { label: "Codex", value: "codex" },
+  { label: "Gemini", value: "gemini" },
 ];
 
 export function ProviderFilter({ value, onChange, items }: ProviderFilterProps) {
@@ -79,7 +79,7 @@ export function RulesTab({ rules, onRefresh, RuleDialog }: RulesTabProps) {
     }
   };
 
-  const [providerFilter, setProviderFilter] = useState<"all" | "claude" | "codex">("all");
+  const [providerFilter, setProviderFilter] = useState<"all" | "claude" | "codex" | "gemini">("all");
 
   const existingGroups = Array.from(new Set(rules.map(r => r.group)));
 
@@ -176,7 +176,7 @@ export function RulesTab({ rules, onRefresh, RuleDialog }: RulesTabProps) {
               <div className="flex items-start gap-2 bg-muted/30 rounded-lg px-3 py-2.5 flex-1 mr-3">
                 <Info className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
                 <p className="text-xs text-muted-foreground">
-                  Instruction files Claude follows automatically. Organized by category in <code className="bg-muted px-1 rounded">{providerFilter === "all" ? "~/.claude/rules/ and ~/.codex/rules/" : providerFilter === "codex" ? "~/.codex/rules/" : "~/.claude/rules/"}</code>
+                  Instruction files Claude follows automatically. Organized by category in <code className="bg-muted px-1 rounded">{providerFilter === "all" ? "~/.claude/rules/, ~/.codex/rules/ and ~/.gemini/GEMINI.md" : providerFilter === "codex" ? "~/.codex/rules/" : providerFilter === "gemini" ? "~/.gemini/GEMINI.md" : "~/.claude/rules/"}</code>
                 </p>
               </div>
               <ProviderFilter value={providerFilter} onChange={setProviderFilter} items={rules} />
@@ -213,6 +213,9 @@ export function RulesTab({ rules, onRefresh, RuleDialog }: RulesTabProps) {
                                       {rule.provider === "codex" && (
                                         <span className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 flex-shrink-0">Codex</span>
                                       )}
+                                      {rule.provider === "gemini" && (
+                                        <span className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400 flex-shrink-0">Gemini</span>
+                                      )}
                                     </div>
                                     {subtitle && <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">{subtitle}</p>}
                                   </div>
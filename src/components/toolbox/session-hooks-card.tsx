@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/toast";
+import { Activity, Loader2 } from "lucide-react";
+import type { HookEntry } from "./types";
+
+interface HookInstallStatus {
+  events: string[];
+  installed: string[];
+  command: string;
+}
+
+const DESCRIPTION = "Super Claude Code: exact session state";
+
+/**
+ * One-click install of the lifecycle hooks that report session state to the
+ * dashboard. Entries are added and removed through the regular hooks API.
+ */
+export function SessionHooksCard({ hooks, onRefresh }: { hooks: HookEntry[]; onRefresh: () => void }) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<HookInstallStatus | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Re-read after every change to the hook list
+  useEffect(() => {
+    fetch("/api/sessions/hooks")
+      .then(r => r.json())
+      .then((d: HookInstallStatus) => setStatus(d))
+      .catch(() => {});
+  }, [hooks]);
+
+  if (!status) return null;
+  const missing = status.events.filter(e => !status.installed.includes(e));
+  const ours = hooks.filter(h => h.command === status.command || h.description === DESCRIPTION);
+
+  const install = async () => {
+    setBusy(true);
+    try {
+      for (const type of missing) {
+        const res = await fetch("/api/toolbox/hooks", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ type, command: status.command, timeout: 5, description: DESCRIPTION }),
+        });
+        if (!res.ok) throw new Error((await res.json()).error || `Failed to add ${type} hook`);
+      }
+      toast("Session state hooks installed", "success");
+    } catch (err) {
+      toast(err instanceof Error ? err.message : "Failed to install hooks", "error");
+    } finally {
+      setBusy(false);
+      onRefresh();
+    }
+  };
+
+  const uninstall = async () => {
+    setBusy(true);
+    try {
+      // Highest index first so earlier indices stay valid
+      const sorted = [...ours].sort((a, b) => (b.index ?? 0) - (a.index ?? 0));
+      for (const hook of sorted) {
+        const res = await fetch("/api/toolbox/hooks", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ type: hook.type, index: hook.index }),
+        });
+        if (!res.ok) throw new Error((await res.json()).error || `Failed to remove ${hook.type} hook`);
+      }
+      toast("Session state hooks removed", "success");
+    } catch (err) {
+      toast(err instanceof Error ? err.message : "Failed to remove hooks", "error");
+    } finally {
+      setBusy(false);
+      onRefresh();
+    }
+  };
+
+  return (
+    <Card className="mb-4 bg-muted/20">
+      <CardContent className="py-3 px-4 flex items-start justify-between gap-4">
+        <div className="flex items-start gap-2.5 min-w-0">
+          <Activity className="h-4 w-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <p className="text-sm font-medium">Exact session state</p>
+              <Badge variant="outline" className="text-[10px]">
+                {status.installed.length}/{status.events.length} installed
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              Reports {status.events.join(", ")} to the dashboard, so waiting-for-permission and running-tool states are exact instead of guessed from the transcript.
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-1.5 flex-shrink-0">
+          {missing.length > 0 && (
+            <Button size="sm" onClick={install} disabled={busy} className="gap-1.5">
+              {busy && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+              {status.installed.length > 0 ? "Install missing" : "Install"}
+            </Button>
+          )}
+          {ours.length > 0 && (
+            <Button size="sm" variant="outline" onClick={uninstall} disabled={busy}>Remove</Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
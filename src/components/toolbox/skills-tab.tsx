@@ -76,7 +76,7 @@ export function SkillsTab({ skills, commands, onRefresh }: SkillsTabProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [skillToDelete, setSkillToDelete] = useState<SkillInfo | null>(null);
 
-  const [providerFilter, setProviderFilter] = useState<"all" | "claude" | "codex">("all");
+  const [providerFilter, setProviderFilter] = useState<"all" | "claude" | "codex" | "gemini">("all");
 
   const community = useCommunityTemplates();
   const [communitySearchQuery, setCommunitySearchQuery] = useState("");
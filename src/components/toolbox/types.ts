@@ -12,7 +12,7 @@ export interface MCPServersData {
   projects: { project: string; servers: Record<string, MCPServerConfig> }[];
 }
 
-export type ToolboxProvider = "claude" | "codex";
+export type ToolboxProvider = "claude" | "codex" | "gemini";
 
 export interface SkillInfo {
   name: string;
@@ -1,6 +1,6 @@
 import { useState, useRef, useCallback, useEffect } from "react";
-import type { LiveChatMessage, StreamPhase, ChatSendOptions } from "@/lib/chat-types";
-import { parseAssistantEvent } from "@/lib/chat-types";
+import type { LiveChatMessage, StreamPhase, ChatSendOptions, RateLimitInfo } from "@/lib/chat-types";
+import { parseAssistantEvent, parseRateLimitEvent } from "@/lib/chat-types";
 
 interface UseChatStreamCallbacks {
   onSessionId?: (id: string) => void;
@@ -14,6 +14,8 @@ export interface UseChatStreamReturn {
   sending: boolean;
   currentPhase: StreamPhase | null;
   elapsedMs: number;
+  /** Latest plan rate limit state the CLI reported */
+  rateLimit: RateLimitInfo | null;
   send: (text: string, options?: ChatSendOptions) => Promise<void>;
   cancel: () => void;
   clearMessages: () => void;
@@ -24,6 +26,7 @@ export function useChatStream(callbacks: UseChatStreamCallbacks = {}): UseChatSt
   const [sending, setSending] = useState(false);
   const [currentPhase, setCurrentPhase] = useState<StreamPhase | null>(null);
   const [elapsedMs, setElapsedMs] = useState(0);
+  const [rateLimit, setRateLimit] = useState<RateLimitInfo | null>(null);
 
   const abortRef = useRef<AbortController | null>(null);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -185,6 +188,17 @@ export function useChatStream(callbacks: UseChatStreamCallbacks = {}): UseChatSt
                     : m
                 )
               );
+            } else if (event.type === "rate_limit_event") {
+              const info = parseRateLimitEvent(event);
+              if (info) setRateLimit(info);
+            } else if (event.type === "content_block_delta" && event.delta?.text) {
+              // Streamed text chunk: append to what the current message shows
+              setCurrentPhase("responding");
+              setMessages((prev) =>
+                prev.map((m) =>
+                  m.id === assistantId ? { ...m, text: m.text + event.delta.text, phase: "responding" as StreamPhase } : m
+                )
+              );
             } else if (event.type === "result") {
               if (event.session_id) callbacksRef.current.onSessionId?.(event.session_id);
               const finalText = event.result
@@ -261,5 +275,5 @@ export function useChatStream(callbacks: UseChatStreamCallbacks = {}): UseChatSt
     }
   }, [sending]);
 
-  return { messages, setMessages, sending, currentPhase, elapsedMs, send, cancel, clearMessages };
+  return { messages, setMessages, sending, currentPhase, elapsedMs, rateLimit, send, cancel, clearMessages };
 }
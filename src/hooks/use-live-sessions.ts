@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { LiveEvent } from "@/lib/live-events";
+
+const RECONNECT_MS = 5000;
+
+export interface LiveSessionsOptions {
+  /** Also receive message events for this session */
+  session?: { project: string; id: string } | null;
+  /** Disconnect while false (default true) */
+  enabled?: boolean;
+}
+
+/**
+ * Subscribe to live session events over SSE. Returns whether the stream is
+ * connected, so callers can fall back to polling while it isn't.
+ */
+export function useLiveSessions(
+  handler: (event: LiveEvent) => void,
+  { session, enabled = true }: LiveSessionsOptions = {},
+): boolean {
+  const [connected, setConnected] = useState(false);
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  const project = session?.project;
+  const id = session?.id;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let es: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+
+    const connect = () => {
+      const query = project && id ? `?${new URLSearchParams({ project, id })}` : "";
+      es = new EventSource(`/api/sessions/live${query}`);
+
+      es.onmessage = (e) => {
+        let event: LiveEvent | { type: "ready" };
+        try { event = JSON.parse(e.data); } catch { return; }
+        if (event.type === "ready") setConnected(true);
+        else handlerRef.current(event);
+      };
+
+      es.onerror = () => {
+        setConnected(false);
+        es?.close();
+        if (!disposed) retry = setTimeout(connect, RECONNECT_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(retry);
+      es?.close();
+      setConnected(false);
+    };
+  }, [project, id, enabled]);
+
+  return enabled && connected;
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SessionPage } from "@/components/sessions/types";
+
+/** Messages per request; the API caps a page at 1000 */
+const PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Load a session newest page first and prepend older pages on demand, so a
+ * huge transcript never arrives in one response. Call `reload` to fetch the
+ * newest page (again); `update` folds live events into what is loaded.
+ */
+export function useSessionPages(projectPath: string | null, sessionId: string | null) {
+  const key = projectPath && sessionId ? `${projectPath}|${sessionId}` : null;
+  const url = projectPath && sessionId ? `/api/sessions/${encodeURIComponent(projectPath)}/${sessionId}` : null;
+  const [state, setState] = useState<{ key: string | null; page: SessionPage | null }>({ key: null, page: null });
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const inFlight = useRef(false);
+  const currentKey = useRef(key);
+  useEffect(() => {
+    currentKey.current = key;
+  });
+
+  const reload = useCallback(async (): Promise<SessionPage | null> => {
+    if (!url) return null;
+    try {
+      const res = await fetch(`${url}?limit=${PAGE_SIZE}`);
+      const page: SessionPage | null = res.ok ? await res.json() : null;
+      // A response for a session that is no longer selected
+      if (currentKey.current !== key) return null;
+      setState({ key, page });
+      return page;
+    } catch {
+      if (currentKey.current === key) setState({ key, page: null });
+      return null;
+    }
+  }, [key, url]);
+
+  const page = state.key === key ? state.page : null;
+  const loading = key !== null && state.key !== key;
+  const prevCursor = page?.prevCursor;
+
+  const update = useCallback((fn: (page: SessionPage) => SessionPage) => {
+    setState((s) => (s.page ? { ...s, page: fn(s.page) } : s));
+  }, []);
+
+  /** Prepend up to `count` older messages; Infinity loads the rest of the session */
+  const loadOlder = useCallback(async (count: number = PAGE_SIZE) => {
+    if (!url || !prevCursor || inFlight.current) return;
+    inFlight.current = true;
+    setLoadingOlder(true);
+    let cursor: string | undefined = prevCursor;
+    let remaining = count;
+    try {
+      while (cursor && remaining > 0) {
+        const limit = Math.min(remaining, MAX_PAGE_SIZE);
+        const res = await fetch(`${url}?cursor=${cursor}&direction=backward&limit=${limit}`);
+        if (!res.ok) break;
+        const older: SessionPage = await res.json();
+        if (older.messages.length === 0) break;
+        setState((s) => {
+          // Pages must line up; anything else means the file was rewritten meanwhile
+          if (s.key !== key || !s.page || older.offset + older.messages.length !== s.page.offset) return s;
+          return {
+            key,
+            page: { ...s.page, messages: [...older.messages, ...s.page.messages], offset: older.offset, prevCursor: older.prevCursor },
+          };
+        });
+        remaining -= older.messages.length;
+        cursor = older.prevCursor;
+      }
+    } catch { /* keep what loaded */ } finally {
+      inFlight.current = false;
+      setLoadingOlder(false);
+    }
+  }, [key, url, prevCursor]);
+
+  const loadAll = useCallback(() => loadOlder(Infinity), [loadOlder]);
+
+  return { detail: page, loading, loadingOlder, hasOlder: !!prevCursor, update, reload, loadOlder, loadAll };
+}
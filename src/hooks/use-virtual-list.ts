@@ -0,0 +1,208 @@
+"use client";
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import type { RefObject } from "react";
+
+/** Distance from the top, in pixels, at which `onStartReached` fires */
+const START_THRESHOLD = 400;
+/** How long a scrollToIndex target is held in place while items around it get measured */
+const TARGET_HOLD_MS = 600;
+
+export type ScrollAlign = "start" | "center" | "end";
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+}
+
+export interface VirtualListOptions {
+  /** The scrolling element; the list must start at the top of its content */
+  scrollRef: RefObject<HTMLElement | null>;
+  /** Stable key per item, in render order */
+  keys: string[];
+  /** Height assumed until an item has been measured */
+  estimateSize?: number;
+  /** Pixels rendered beyond the viewport on either side */
+  overscan?: number;
+  /** Scrolled near the top, e.g. to load older items */
+  onStartReached?: () => void;
+}
+
+interface Layout {
+  keys: string[];
+  starts: number[];
+  indexByKey: Map<string, number>;
+  total: number;
+}
+
+/** Index of the last item starting at or above `offset` */
+function itemAt(starts: number[], offset: number): number {
+  let lo = 0, hi = starts.length - 1, found = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (starts[mid] <= offset) { found = mid; lo = mid + 1; } else hi = mid - 1;
+  }
+  return found;
+}
+
+/**
+ * Render only the items of a long list that are near the viewport. Items are
+ * measured as they render; when anything above the viewport changes height,
+ * or older items are prepended, the first visible item keeps its place, and
+ * a list scrolled to the bottom stays there as items are appended.
+ */
+export function useVirtualList({
+  scrollRef, keys, estimateSize = 120, overscan = 1000, onStartReached,
+}: VirtualListOptions) {
+  const [sizes, setSizes] = useState<Map<string, number>>(() => new Map());
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  const layout = useMemo<Layout>(() => {
+    const starts = new Array<number>(keys.length);
+    const indexByKey = new Map<string, number>();
+    let total = 0;
+    keys.forEach((key, i) => {
+      starts[i] = total;
+      indexByKey.set(key, i);
+      total += sizes.get(key) ?? estimateSize;
+    });
+    return { keys, starts, indexByKey, total };
+  }, [keys, sizes, estimateSize]);
+
+  const layoutRef = useRef(layout);
+  const anchor = useRef<{ key: string; delta: number; atBottom: boolean } | null>(null);
+  const target = useRef<{ key: string; align: ScrollAlign; until: number } | null>(null);
+  const pendingSizes = useRef(new Map<string, number>());
+  const sizeFrame = useRef(0);
+  const observer = useRef<ResizeObserver | null>(null);
+  const attached = useRef<{ el: HTMLElement; detach: () => void } | null>(null);
+  const startReached = useRef(onStartReached);
+  useEffect(() => {
+    startReached.current = onStartReached;
+  });
+
+  const alignedTop = useCallback((el: HTMLElement, key: string, align: ScrollAlign): number | null => {
+    const { starts, indexByKey, total } = layoutRef.current;
+    const i = indexByKey.get(key);
+    if (i === undefined) return null;
+    const size = (starts[i + 1] ?? total) - starts[i];
+    const top = align === "start" ? starts[i]
+      : align === "center" ? starts[i] - (el.clientHeight - size) / 2
+      : starts[i] + size - el.clientHeight;
+    return Math.max(0, top);
+  }, []);
+
+  // Remember what the user is looking at, to restore it after the layout changes
+  const captureAnchor = useCallback((el: HTMLElement) => {
+    const { keys: current, starts } = layoutRef.current;
+    const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight < 2;
+    if (current.length === 0) { anchor.current = null; return; }
+    const i = itemAt(starts, el.scrollTop);
+    anchor.current = { key: current[i], delta: starts[i] - el.scrollTop, atBottom };
+  }, []);
+
+  // Follow whichever element the ref points at; it remounts with the view around it
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (attached.current?.el === el) return;
+    attached.current?.detach();
+    attached.current = null;
+    if (!el) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      setViewport({ top: el.scrollTop, height: el.clientHeight });
+      captureAnchor(el);
+      if (el.scrollTop < START_THRESHOLD) startReached.current?.();
+    };
+    const onScroll = () => { if (!frame) frame = requestAnimationFrame(update); };
+    const resize = new ResizeObserver(onScroll);
+    el.addEventListener("scroll", onScroll, { passive: true });
+    resize.observe(el);
+    onScroll();
+    attached.current = {
+      el,
+      detach: () => {
+        el.removeEventListener("scroll", onScroll);
+        resize.disconnect();
+        cancelAnimationFrame(frame);
+      },
+    };
+  });
+
+  useEffect(() => () => {
+    attached.current?.detach();
+    observer.current?.disconnect();
+    cancelAnimationFrame(sizeFrame.current);
+  }, []);
+
+  // Put the viewport back where it was relative to its content
+  useLayoutEffect(() => {
+    layoutRef.current = layout;
+    const el = scrollRef.current;
+    if (!el) return;
+    const t = target.current;
+    const a = anchor.current;
+    let top: number | null = null;
+    if (t && Date.now() < t.until) top = alignedTop(el, t.key, t.align);
+    else if (a?.atBottom) top = el.scrollHeight - el.clientHeight;
+    else if (a) {
+      const i = layout.indexByKey.get(a.key);
+      if (i !== undefined) top = layout.starts[i] - a.delta;
+    }
+    if (top !== null && Math.abs(el.scrollTop - top) > 1) el.scrollTop = top;
+  }, [layout, scrollRef, alignedTop]);
+
+  const flushSizes = useCallback(() => {
+    sizeFrame.current = 0;
+    const measured = [...pendingSizes.current];
+    pendingSizes.current.clear();
+    setSizes((prev) => {
+      if (measured.every(([key, size]) => prev.get(key) === size)) return prev;
+      const next = new Map(prev);
+      for (const [key, size] of measured) next.set(key, size);
+      return next;
+    });
+  }, []);
+
+  /** Ref for each rendered item's wrapper, which must carry `data-virtual-key` */
+  const measureRef = useCallback((el: HTMLElement | null) => {
+    if (!el) return;
+    const ro = observer.current ??= new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        const item = entry.target as HTMLElement;
+        const key = item.dataset.virtualKey;
+        // Zero while detached or hidden: keep the last real size
+        if (key && item.offsetHeight > 0) pendingSizes.current.set(key, item.offsetHeight);
+      }
+      if (!sizeFrame.current) sizeFrame.current = requestAnimationFrame(flushSizes);
+    });
+    ro.observe(el);
+    return () => ro.unobserve(el);
+  }, [flushSizes]);
+
+  const scrollToIndex = useCallback((index: number, align: ScrollAlign = "start") => {
+    const el = scrollRef.current;
+    const key = layoutRef.current.keys[index];
+    if (!el || key === undefined) return;
+    target.current = { key, align, until: Date.now() + TARGET_HOLD_MS };
+    const top = alignedTop(el, key, align);
+    if (top !== null) el.scrollTop = top;
+  }, [scrollRef, alignedTop]);
+
+  const { items, paddingTop, paddingBottom } = useMemo(() => {
+    const { starts, total } = layout;
+    const first = itemAt(starts, viewport.top - overscan);
+    let last = first;
+    const bottom = viewport.top + Math.max(viewport.height, 1) + overscan;
+    while (last < starts.length && starts[last] < bottom) last++;
+    return {
+      items: layout.keys.slice(first, last).map((key, i): VirtualItem => ({ index: first + i, key })),
+      paddingTop: starts[first] ?? 0,
+      paddingBottom: total - (starts[last] ?? total),
+    };
+  }, [layout, viewport, overscan]);
+
+  return { items, paddingTop, paddingBottom, measureRef, scrollToIndex };
+}
@@ -0,0 +1,15 @@
+/**
+ * Next.js instrumentation - runs once when the server starts.
+ * Background jobs that must run without an open page are started here.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { startWatchdog } = await import("./lib/session-watchdog");
+  const { startProcessSampler } = await import("./lib/process-reader");
+  const { startBudgetMonitor } = await import("./lib/cost-budgets");
+  const { startRateLimitAlerts } = await import("./lib/rate-limits");
+  startWatchdog();
+  startBudgetMonitor();
+  startRateLimitAlerts();
+  startProcessSampler();
+}
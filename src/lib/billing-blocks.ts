@@ -0,0 +1,132 @@
+/**
+ * Rolling 5-hour usage windows ("billing blocks") of subscription plans.
+ *
+ * A block opens with the first message after the previous block ended and
+ * runs five hours from the start of that message's clock hour; everything
+ * sent before it closes counts against it. Activity arrives as per-hour
+ * buckets, which is exact because blocks start and end on the hour.
+ *
+ * Token totals count input, output and cache traffic alike. Everything here
+ * is pure so the API and tests share it.
+ */
+
+import { addUsage, cacheWriteTotal, emptyUsage } from "./token-usage";
+import type { TokenUsage } from "./token-usage";
+
+const HOUR_MS = 3_600_000;
+export const BLOCK_HOURS = 5;
+const BLOCK_MS = BLOCK_HOURS * HOUR_MS;
+/** Burn rate is measured over at least this much time, so one early message does not project wildly */
+const MIN_BURN_WINDOW_MS = 10 * 60_000;
+
+/** Usage inside one clock hour */
+export interface BlockActivity {
+  firstAt: number;
+  lastAt: number;
+  model: string;
+  messages: number;
+  usage: TokenUsage;
+  /** Equivalent API cost */
+  cost: number;
+}
+
+export interface BillingBlock {
+  start: number;
+  end: number;
+  firstAt: number;
+  lastAt: number;
+  /** `now` falls inside the block */
+  active: boolean;
+  usage: TokenUsage;
+  tokens: number;
+  cost: number;
+  messages: number;
+  models: string[];
+}
+
+export interface BlockBurn {
+  tokensPerMinute: number;
+  costPerHour: number;
+  /** Totals at the block's end if the current rate holds */
+  projectedTokens: number;
+  projectedCost: number;
+  /** Token ceiling the exhaustion time is measured against; null without history */
+  limit: number | null;
+  /** When the limit is reached at the current rate; null if it lasts the block */
+  exhaustsAt: number | null;
+}
+
+export function totalTokens(u: TokenUsage): number {
+  return u.input + u.output + u.cacheRead + cacheWriteTotal(u);
+}
+
+function floorToHour(ms: number): number {
+  return Math.floor(ms / HOUR_MS) * HOUR_MS;
+}
+
+/** Group activity into blocks, oldest first */
+export function groupBillingBlocks(activity: BlockActivity[], now: number): BillingBlock[] {
+  type Open = BillingBlock & { modelSet: Set<string> };
+  const blocks: Open[] = [];
+  let current: Open | null = null;
+  for (const a of [...activity].sort((x, y) => x.firstAt - y.firstAt)) {
+    if (!current || a.firstAt >= current.end) {
+      const start = floorToHour(a.firstAt);
+      current = {
+        start,
+        end: start + BLOCK_MS,
+        firstAt: a.firstAt,
+        lastAt: a.lastAt,
+        active: false,
+        usage: emptyUsage(),
+        tokens: 0,
+        cost: 0,
+        messages: 0,
+        models: [],
+        modelSet: new Set(),
+      };
+      blocks.push(current);
+    }
+    current.lastAt = Math.max(current.lastAt, a.lastAt);
+    addUsage(current.usage, a.usage);
+    current.cost += a.cost;
+    current.messages += a.messages;
+    current.modelSet.add(a.model);
+  }
+  return blocks.map(({ modelSet, ...b }) => ({
+    ...b,
+    active: now >= b.start && now < b.end,
+    tokens: totalTokens(b.usage),
+    models: [...modelSet].sort(),
+  }));
+}
+
+/** Largest token total of a finished block: the most the plan is known to have allowed */
+export function blockLimit(blocks: BillingBlock[]): number | null {
+  const finished = blocks.filter((b) => !b.active).map((b) => b.tokens);
+  return finished.length > 0 ? Math.max(...finished) : null;
+}
+
+/** Rate since the block's first message, projected to its end and against `limit` */
+export function blockBurn(block: BillingBlock, now: number, limit: number | null): BlockBurn {
+  const elapsed = Math.max(now - block.firstAt, MIN_BURN_WINDOW_MS);
+  const tokensPerMs = block.tokens / elapsed;
+  const costPerMs = block.cost / elapsed;
+  const remaining = Math.max(0, block.end - now);
+  let exhaustsAt: number | null = null;
+  if (limit !== null) {
+    if (block.tokens >= limit) exhaustsAt = block.lastAt;
+    else if (tokensPerMs > 0) {
+      const at = now + (limit - block.tokens) / tokensPerMs;
+      if (at < block.end) exhaustsAt = Math.round(at);
+    }
+  }
+  return {
+    tokensPerMinute: tokensPerMs * 60_000,
+    costPerHour: costPerMs * HOUR_MS,
+    projectedTokens: block.tokens + tokensPerMs * remaining,
+    projectedCost: block.cost + costPerMs * remaining,
+    limit,
+    exhaustsAt,
+  };
+}
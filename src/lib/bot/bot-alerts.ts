@@ -0,0 +1,28 @@
+/**
+ * Push alerts to the configured bot chats.
+ * Kept apart from bot-helpers, which the bots themselves import.
+ */
+
+import { getTelegramBot } from "./telegram-bot";
+import { getFeishuBot } from "./feishu-bot";
+
+export interface BotAlertTargets {
+  telegram: boolean;
+  feishu: boolean;
+}
+
+/** Send a markdown alert to each enabled bot that has a chat; failures are logged, never thrown */
+export async function sendBotAlert(text: string, targets: BotAlertTargets, logPrefix = "[Bot]"): Promise<void> {
+  const telegram = targets.telegram ? getTelegramBot() : null;
+  const telegramChat = telegram?.getChatId();
+  if (telegram && telegramChat) {
+    await telegram.sendMessage(telegramChat, { text, parseMode: "markdown" })
+      .catch((err) => console.error(`${logPrefix} Telegram alert failed:`, err));
+  }
+  const feishu = targets.feishu ? getFeishuBot() : null;
+  const feishuChat = feishu?.getChatId();
+  if (feishu && feishuChat) {
+    await feishu.sendMessage(feishuChat, { text, parseMode: "markdown" })
+      .catch((err) => console.error(`${logPrefix} Feishu alert failed:`, err));
+  }
+}
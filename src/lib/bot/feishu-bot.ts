@@ -287,6 +287,11 @@ export class FeishuBot implements Bot {
   getClient(): lark.Client {
     return this.client;
   }
+
+  /** Chat that receives alerts: the first allowed chat */
+  getChatId(): string | undefined {
+    return this.config.allowedChatIds?.[0];
+  }
 }
 
 /** Singleton bot instance */
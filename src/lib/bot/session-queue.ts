@@ -13,6 +13,9 @@ import { spawn } from "child_process";
 import path from "path";
 import os from "os";
 import { registry } from "@/lib/providers";
+import { budgetStopReason } from "@/lib/cost-budgets";
+import { recordRateLimit } from "@/lib/rate-limits";
+import { parseRateLimitEvent } from "@/lib/chat-types";
 import type { BotReply } from "./bot-interface";
 import { formatChatResponse, formatError } from "./message-formatter";
 
@@ -239,6 +242,10 @@ async function processSession(session: QueuedSession): Promise<{ content: string
     throw new Error(`Provider "${session.provider}" not available`);
   }
 
+  // Hard stop: refuse new runs while a cost budget covering them is exceeded
+  const stopReason = budgetStopReason({ project: session.cwd || undefined, provider: provider.name });
+  if (stopReason) throw new Error(stopReason);
+
   const { binary, args, env } = provider.buildCommand(session.prompt, {
     cwd: session.cwd || undefined,
     permissionMode: "plan",
@@ -270,6 +277,17 @@ async function processSession(session: QueuedSession): Promise<{ content: string
         if (!event) continue;
 
         const raw = event.raw;
+        if (event.type === "rate_limit") {
+          const info = parseRateLimitEvent(raw);
+          if (info) {
+            try {
+              recordRateLimit(info, { source: "queue", provider: provider.name, sessionId: (raw.session_id as string) || undefined });
+            } catch (err) {
+              console.error("[SessionQueue] Failed to record rate limit:", err);
+            }
+          }
+          continue;
+        }
         if (raw.type === "assistant" && raw.message) {
           const msg = raw.message as Record<string, unknown>;
           if (Array.isArray(msg.content)) {
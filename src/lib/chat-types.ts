@@ -130,3 +130,47 @@ export const PHASE_LABELS: Record<StreamPhase, string> = {
   cancelled: "Cancelled",
   error: "Error",
 };
+
+// Plan rate limit state reported by a CLI `rate_limit_event`
+export type RateLimitStatus = "allowed" | "allowed_warning" | "rejected";
+
+export interface RateLimitInfo {
+  status: RateLimitStatus;
+  /** Window the state applies to, e.g. "five_hour" or "seven_day"; empty when not reported */
+  limitType: string;
+  /** When the window resets (epoch ms) */
+  resetsAt: number | null;
+  /** Share of the window used, 0-1 */
+  utilization: number | null;
+  usingOverage: boolean;
+}
+
+// Parse a rate_limit_event line; null when it carries no recognizable status
+export function parseRateLimitEvent(event: Record<string, unknown>): RateLimitInfo | null {
+  const info = (event.rate_limit_info ?? event) as Record<string, unknown>;
+  const status = info.status;
+  if (status !== "allowed" && status !== "allowed_warning" && status !== "rejected") return null;
+  const resetsAt = typeof info.resetsAt === "number" && info.resetsAt > 0
+    ? info.resetsAt < 1e12 ? info.resetsAt * 1000 : info.resetsAt
+    : null;
+  return {
+    status,
+    limitType: typeof info.rateLimitType === "string" ? info.rateLimitType : "",
+    resetsAt,
+    utilization: typeof info.utilization === "number" ? info.utilization : null,
+    usingOverage: info.isUsingOverage === true,
+  };
+}
+
+// Short label for a rate limit window
+export function rateLimitLabel(limitType: string): string {
+  switch (limitType) {
+    case "five_hour": return "5-hour";
+    case "seven_day": return "Weekly";
+    case "seven_day_opus": return "Weekly Opus";
+    case "seven_day_sonnet": return "Weekly Sonnet";
+    case "overage": return "Overage";
+    case "": return "Plan";
+    default: return limitType.replace(/_/g, " ");
+  }
+}
@@ -5,6 +5,7 @@
 import fs from "fs";
 import path from "path";
 import os from "os";
+import { getProjectPaths, projectPathFor } from "./project-paths";
 
 const CLAUDE_DIR = path.join(os.homedir(), ".claude");
 const CODEX_DIR = path.join(os.homedir(), ".codex");
@@ -30,19 +31,6 @@ function sanitize(s: string): string {
   return s.replace(/[\uD800-\uDFFF]/g, "\uFFFD");
 }
 
-/**
- * 解码项目路径（从 ~/.claude/projects/ 目录名还原真实路径）
- * 例如: "E--" -> "E:/" 或 "home-user-dev" -> "/home/user/dev"
- */
-function decodeProjectPath(encoded: string): string {
-  // Windows: "E--" -> "E:/"
-  if (/^[A-Z]--$/.test(encoded)) {
-    return encoded.substring(0, 1) + ":/";
-  }
-  // Unix-like: "home-user-dev" -> "/home/user/dev"
-  return "/" + encoded.replace(/-/g, "/");
-}
-
 // ---- Registry (tracks custom-created CLAUDE.md files) ----
 
 function readRegistry(): string[] {
@@ -110,7 +98,7 @@ export function listClaudeMdFiles(): ClaudeMdFile[] {
         // 方式1: ~/.claude/projects/{encoded-path}/CLAUDE.md
         const projectClaudemd = path.join(projectPath, "CLAUDE.md");
         if (fs.existsSync(projectClaudemd)) {
-          const decoded = decodeProjectPath(projectDir);
+          const decoded = projectPathFor(projectDir);
           files.push({
             path: projectClaudemd,
             label: `Project: ${decoded}`,
@@ -121,7 +109,7 @@ export function listClaudeMdFiles(): ClaudeMdFile[] {
         }
 
         // 方式2: 实际项目目录下的 CLAUDE.md 和 AGENTS.md
-        const realProjectPath = decodeProjectPath(projectDir);
+        const realProjectPath = projectPathFor(projectDir);
         try {
           for (const instrFile of INSTRUCTION_FILES) {
             const realPath = path.join(realProjectPath, instrFile);
@@ -211,14 +199,17 @@ export function listProjectOptions(): ProjectOption[] {
     claudeMdPath: globalPath,
   });
 
+  const paths = getProjectPaths();
   try {
     for (const projectDir of fs.readdirSync(PROJECTS_DIR)) {
       const projectPath = path.join(PROJECTS_DIR, projectDir);
       try {
         if (!fs.statSync(projectPath).isDirectory()) continue;
       } catch { continue; }
+      // Listed under the location it moved to
+      if (paths.get(projectDir)?.movedTo) continue;
 
-      const decoded = decodeProjectPath(projectDir);
+      const decoded = projectPathFor(projectDir);
       const claudeMdInProject = path.join(projectPath, "CLAUDE.md");
       const realClaudeMd = path.join(decoded, "CLAUDE.md");
 
@@ -261,7 +252,7 @@ export function createClaudeMd(projectEncoded: string, fileName: string = "CLAUD
     return { success: ok, path: globalPath };
   }
 
-  const decoded = decodeProjectPath(projectEncoded);
+  const decoded = projectPathFor(projectEncoded);
   const realFile = path.join(decoded, fileName);
   const projectFile = path.join(PROJECTS_DIR, projectEncoded, fileName);
 
@@ -0,0 +1,214 @@
+/**
+ * Context Window - how full the model's context was on each turn of a session.
+ *
+ * A turn's effective context is everything the model read: fresh input plus
+ * cache reads and cache writes. Growth from one turn to the next, beyond the
+ * previous turn's own output, is charged to the tool results that arrived in
+ * between (split by result length), which is an estimate but points at the
+ * reads and commands that filled the window. Compaction summaries mark where
+ * the CLI replaced the conversation with a summary.
+ *
+ * Pure module: safe to import from client components.
+ */
+
+import type { CompactionInfo, ToolCallInfo } from "./session-reader";
+
+export const DEFAULT_CONTEXT_WINDOW = 200_000;
+const EXTENDED_CONTEXT_WINDOW = 1_000_000;
+
+/** Nominal windows by model prefix; the first match wins */
+const MODEL_WINDOWS: [string, number][] = [
+  ["gpt-4.1", 1_047_576],
+  ["gpt-5", 400_000],
+  ["o3", 200_000],
+  ["o4-mini", 200_000],
+  ["claude-", 200_000],
+];
+
+const COMPACT_COMMAND = /<command-name>\/compact<\/command-name>/;
+const TOOL_SUMMARY_KEYS = ["file_path", "notebook_path", "command", "pattern", "url", "query", "description"];
+
+// ---- Types ----
+
+/** The message fields the timeline reads */
+export interface ContextMessage {
+  uuid: string;
+  role: "user" | "assistant" | "system";
+  content: string;
+  timestamp: string;
+  model?: string;
+  toolUse?: ToolCallInfo[];
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+  isSidechain?: boolean;
+  compaction?: CompactionInfo;
+}
+
+export interface ContextTurn {
+  /** 1-based */
+  turn: number;
+  uuid: string;
+  timestamp: string;
+  /** input + cacheRead + cacheWrite */
+  context: number;
+  input: number;
+  cacheRead: number;
+  cacheWrite: number;
+  output: number;
+  /** Share of the window, 0-100+ */
+  percent: number;
+}
+
+export interface ContextCompaction {
+  uuid: string;
+  timestamp: string;
+  trigger: "manual" | "auto";
+  /** Context before compacting: reported by the CLI, else the last turn's */
+  preTokens: number;
+  /** Turns completed before the compaction */
+  afterTurn: number;
+}
+
+export interface ContextInflator {
+  /** Message holding the tool call */
+  uuid: string;
+  toolUseId?: string;
+  name: string;
+  /** File, command or query the call was about */
+  summary: string;
+  /** Estimated tokens its result added to the next turn */
+  tokens: number;
+  /** Turn that first read the result */
+  turn: number;
+}
+
+export interface ContextTimeline {
+  model: string;
+  window: number;
+  peak: number;
+  turns: ContextTurn[];
+  compactions: ContextCompaction[];
+  /** Largest first */
+  inflators: ContextInflator[];
+}
+
+// ---- Window ----
+
+/**
+ * Context window of `model`. A `[1m]` tag, or a session that already went
+ * past the nominal window (the 1M beta keeps the plain model name), means
+ * the extended window.
+ */
+export function contextWindowFor(model: string, peak = 0): number {
+  const name = model.trim().toLowerCase();
+  if (/\[1m\]$/.test(name)) return EXTENDED_CONTEXT_WINDOW;
+  const nominal = MODEL_WINDOWS.find(([prefix]) => name.startsWith(prefix))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+  return peak > nominal ? Math.max(nominal, EXTENDED_CONTEXT_WINDOW) : nominal;
+}
+
+// ---- Timeline ----
+
+function toolSummary(call: ToolCallInfo): string {
+  if (!call.input) return "";
+  try {
+    const input = JSON.parse(call.input) as Record<string, unknown>;
+    for (const key of TOOL_SUMMARY_KEYS) {
+      if (typeof input[key] === "string" && input[key]) return (input[key] as string).slice(0, 120);
+    }
+  } catch { /* truncated or plain input */ }
+  return call.input.slice(0, 120);
+}
+
+function hasUsage(m: ContextMessage): boolean {
+  return m.inputTokens !== undefined || m.cacheRead !== undefined || m.cacheWrite !== undefined;
+}
+
+export function buildContextTimeline(
+  messages: ContextMessage[],
+  opts: { model?: string; topInflators?: number } = {},
+): ContextTimeline {
+  const turns: ContextTurn[] = [];
+  const compactions: ContextCompaction[] = [];
+  const inflators: ContextInflator[] = [];
+  let model = opts.model ?? "";
+  let last: ContextTurn | null = null;
+  // Anything but the same API response's next record starts a new turn
+  let interrupted = false;
+  // The conversation was replaced, so growth says nothing about tool results
+  let compacted = false;
+  let compactCommand = false;
+  let pending: { uuid: string; call: ToolCallInfo }[] = [];
+
+  for (const m of messages) {
+    if (m.isSidechain) continue;
+
+    if (m.role !== "assistant") {
+      interrupted = true;
+      if (COMPACT_COMMAND.test(m.content)) compactCommand = true;
+      if (m.compaction) {
+        compactions.push({
+          uuid: m.uuid,
+          timestamp: m.timestamp,
+          trigger: m.compaction.trigger ?? (compactCommand ? "manual" : "auto"),
+          preTokens: m.compaction.preTokens ?? last?.context ?? 0,
+          afterTurn: turns.length,
+        });
+        compactCommand = false;
+        compacted = true;
+        pending = [];
+      }
+      continue;
+    }
+
+    if (m.model && !opts.model) model = m.model;
+    if (hasUsage(m)) {
+      const input = m.inputTokens ?? 0, cacheRead = m.cacheRead ?? 0, cacheWrite = m.cacheWrite ?? 0;
+      const context = input + cacheRead + cacheWrite;
+      if (last && !interrupted && context === last.context) {
+        // Another record of the same response (one per content block)
+        last.output = Math.max(last.output, m.outputTokens ?? 0);
+      } else {
+        const turn: ContextTurn = {
+          turn: turns.length + 1, uuid: m.uuid, timestamp: m.timestamp,
+          context, input, cacheRead, cacheWrite, output: m.outputTokens ?? 0, percent: 0,
+        };
+        const growth = last && !compacted ? Math.max(0, context - last.context - last.output) : 0;
+        if (growth > 0 && pending.length > 0) {
+          const sizes = pending.map((p) => p.call.result?.length ?? 0);
+          const total = sizes.reduce((a, b) => a + b, 0);
+          pending.forEach((p, i) => {
+            const share = total > 0 ? sizes[i] / total : 1 / pending.length;
+            inflators.push({
+              uuid: p.uuid, toolUseId: p.call.id, name: p.call.name, summary: toolSummary(p.call),
+              tokens: Math.round(growth * share), turn: turn.turn,
+            });
+          });
+        }
+        turns.push(turn);
+        last = turn;
+        pending = [];
+        interrupted = false;
+        compacted = false;
+      }
+    }
+    for (const call of m.toolUse ?? []) {
+      if (call.result !== undefined) pending.push({ uuid: m.uuid, call });
+    }
+  }
+
+  const peak = turns.reduce((max, t) => Math.max(max, t.context), 0);
+  const window = contextWindowFor(model, peak);
+  for (const t of turns) t.percent = (t.context / window) * 100;
+  inflators.sort((a, b) => b.tokens - a.tokens);
+
+  return {
+    model,
+    window,
+    peak,
+    turns,
+    compactions,
+    inflators: inflators.filter((i) => i.tokens > 0).slice(0, opts.topInflators ?? 10),
+  };
+}
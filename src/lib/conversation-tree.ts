@@ -0,0 +1,252 @@
+/**
+ * Conversation tree - rebuilds the branching structure of a Claude session
+ * from the `uuid`/`parentUuid` links on each JSONL record.
+ *
+ * Rewinds and prompt edits create siblings under the same parent; the branch
+ * holding the most recent record is the active one. Subagent transcripts
+ * (`isSidechain`) form separate roots and are attributed to the Task tool call
+ * that spawned them.
+ *
+ * Pure data, no fs access: shared by the session reader and the detail view.
+ */
+
+// ---- Types ----
+
+export interface TreeRecord {
+  uuid: string;
+  parentUuid: string | null;
+  /** Set on compaction boundaries, whose parentUuid is null */
+  logicalParentUuid?: string | null;
+  /** Assistant records from one API response (same message.id) form one node */
+  groupKey?: string;
+  /** Tool-result-only and metadata records attach to their parent node */
+  transparent?: boolean;
+  isSidechain?: boolean;
+  agentId?: string;
+  timestamp?: string;
+  /** User prompt text, used to match a sidechain root to its Task call */
+  prompt?: string;
+  /** Task tool calls made by this record */
+  taskCalls?: { id: string; prompt: string; description?: string }[];
+  /** Agent reported by a Task tool result */
+  taskResult?: { toolUseId: string; agentId: string };
+}
+
+export interface TreeNode {
+  id: string;
+  /** Records that make up the node, in file order */
+  messageUuids: string[];
+  parent: string | null;
+  /** Child node ids in file order */
+  children: string[];
+  /** Child on the latest path through this node */
+  activeChild: string | null;
+  sidechain: boolean;
+}
+
+export interface SidechainThread {
+  rootId: string;
+  /** Main-chain message holding the Task tool call, null if unattributed */
+  hostUuid: string | null;
+  toolUseId: string | null;
+  description?: string;
+  messageCount: number;
+}
+
+export interface ConversationTree {
+  /** Main-chain roots in file order */
+  roots: string[];
+  activeRoot: string | null;
+  nodes: Record<string, TreeNode>;
+  sidechains: SidechainThread[];
+  /** Main-chain nodes with more than one child */
+  branchPoints: string[];
+}
+
+/** Branch choices keyed by node id; "" selects among roots */
+export type BranchChoices = Record<string, string>;
+
+// ---- Build ----
+
+function parentOf(rec: TreeRecord): string | null {
+  return rec.parentUuid ?? rec.logicalParentUuid ?? null;
+}
+
+export function buildConversationTree(records: TreeRecord[]): ConversationTree {
+  const byUuid = new Map<string, TreeRecord>();
+  for (const r of records) byUuid.set(r.uuid, r);
+
+  const groupFirst = new Map<string, string>();
+  for (const r of records) {
+    if (!r.transparent && r.groupKey && !groupFirst.has(r.groupKey)) groupFirst.set(r.groupKey, r.uuid);
+  }
+
+  // Record uuid → node id, following transparent records up to a real node
+  const resolved = new Map<string, string | null>();
+  const resolveNode = (start: string | null): string | null => {
+    const seen: string[] = [];
+    let cur = start;
+    let result: string | null = null;
+    while (cur) {
+      if (resolved.has(cur)) { result = resolved.get(cur)!; break; }
+      const rec = byUuid.get(cur);
+      if (!rec) break;
+      seen.push(cur);
+      if (!rec.transparent) {
+        result = rec.groupKey ? groupFirst.get(rec.groupKey)! : rec.uuid;
+        break;
+      }
+      cur = parentOf(rec);
+      if (seen.includes(cur || "")) break;
+    }
+    for (const s of seen) resolved.set(s, result);
+    return result;
+  };
+
+  const nodes: Record<string, TreeNode> = {};
+  const order: string[] = [];
+  let prevMain: string | null = null;
+
+  for (const r of records) {
+    if (r.transparent) continue;
+    const id = resolveNode(r.uuid)!;
+    if (nodes[id]) continue;
+    let parent = resolveNode(parentOf(r));
+    if (parent === id) parent = null;
+    // A link to a record missing from this file continues the chain rather than starting a new root
+    if (!parent && parentOf(r) && !r.isSidechain) parent = prevMain;
+    nodes[id] = { id, messageUuids: [], parent, children: [], activeChild: null, sidechain: !!r.isSidechain };
+    order.push(id);
+    if (!r.isSidechain) prevMain = id;
+  }
+
+  // Transparent records ride along with the node they resolve to
+  for (const r of records) {
+    const id = resolveNode(r.uuid);
+    if (id && nodes[id]) nodes[id].messageUuids.push(r.uuid);
+  }
+
+  const roots: string[] = [];
+  const sidechainRoots: string[] = [];
+  for (const id of order) {
+    const node = nodes[id];
+    if (node.parent && nodes[node.parent]) {
+      nodes[node.parent].children.push(id);
+    } else {
+      node.parent = null;
+      (node.sidechain ? sidechainRoots : roots).push(id);
+    }
+  }
+
+  // Default to the newest child everywhere, then pin the path to the newest main-chain record
+  for (const id of order) {
+    const kids = nodes[id].children;
+    nodes[id].activeChild = kids.length > 0 ? kids[kids.length - 1] : null;
+  }
+  let activeRoot = roots.length > 0 ? roots[roots.length - 1] : null;
+  const latest = [...records].reverse().find((r) => !r.isSidechain && resolveNode(r.uuid));
+  if (latest) {
+    let cur: string | null = resolveNode(latest.uuid);
+    while (cur) {
+      const parent: string | null = nodes[cur].parent;
+      if (parent) nodes[parent].activeChild = cur;
+      else activeRoot = cur;
+      cur = parent;
+    }
+  }
+
+  return {
+    roots,
+    activeRoot,
+    nodes,
+    sidechains: attributeSidechains(records, nodes, sidechainRoots),
+    branchPoints: order.filter((id) => !nodes[id].sidechain && nodes[id].children.length > 1),
+  };
+}
+
+function countMessages(nodes: Record<string, TreeNode>, rootId: string): number {
+  let count = 0;
+  const stack = [rootId];
+  while (stack.length > 0) {
+    const node = nodes[stack.pop()!];
+    count += node.messageUuids.length;
+    stack.push(...node.children);
+  }
+  return count;
+}
+
+/**
+ * Match each sidechain root to a Task call: by agent id when the Task result
+ * reports one, then by identical prompt, then the latest earlier unmatched call.
+ */
+function attributeSidechains(
+  records: TreeRecord[], nodes: Record<string, TreeNode>, sidechainRoots: string[],
+): SidechainThread[] {
+  const byUuid = new Map(records.map((r) => [r.uuid, r]));
+  const agentByCall = new Map<string, string>();
+  for (const r of records) {
+    if (r.taskResult) agentByCall.set(r.taskResult.toolUseId, r.taskResult.agentId);
+  }
+
+  const calls = records
+    .filter((r) => !r.isSidechain && r.taskCalls)
+    .flatMap((r) => r.taskCalls!.map((c) => ({
+      ...c, hostUuid: r.uuid, timestamp: r.timestamp || "", agentId: agentByCall.get(c.id),
+    })));
+  const used = new Set<string>();
+
+  return sidechainRoots.map((rootId) => {
+    const root = byUuid.get(rootId)!;
+    const prompt = (root.prompt || "").trim();
+    const call =
+      (root.agentId && calls.find((c) => c.agentId === root.agentId)) ||
+      (prompt && calls.find((c) => !used.has(c.id) && c.prompt.trim() === prompt)) ||
+      [...calls].reverse().find((c) => !used.has(c.id) && (!root.timestamp || c.timestamp <= root.timestamp)) ||
+      null;
+    if (call) used.add(call.id);
+    return {
+      rootId,
+      hostUuid: call?.hostUuid ?? null,
+      toolUseId: call?.id ?? null,
+      description: call?.description,
+      messageCount: countMessages(nodes, rootId),
+    };
+  });
+}
+
+// ---- Navigation ----
+
+/** Node ids along the path selected by `choices`, falling back to the active branch */
+export function selectPath(tree: ConversationTree, choices: BranchChoices = {}, from?: string): string[] {
+  const path: string[] = [];
+  let cur: string | null = from ?? (tree.roots.includes(choices[""]) ? choices[""] : tree.activeRoot);
+  while (cur && tree.nodes[cur]) {
+    path.push(cur);
+    const node: TreeNode = tree.nodes[cur];
+    const chosen = choices[cur];
+    cur = chosen && node.children.includes(chosen) ? chosen : node.activeChild;
+  }
+  return path;
+}
+
+/** Choices that make `nodeId` part of the selected path */
+export function choicesToReveal(tree: ConversationTree, nodeId: string, choices: BranchChoices = {}): BranchChoices {
+  if (!tree.nodes[nodeId] || tree.nodes[nodeId].sidechain) return choices;
+  const next = { ...choices };
+  let cur: string | null = nodeId;
+  while (cur && tree.nodes[cur]) {
+    const parent: string | null = tree.nodes[cur].parent;
+    next[parent ?? ""] = cur;
+    cur = parent;
+  }
+  return next;
+}
+
+/** Record uuid → node id */
+export function indexMessages(tree: ConversationTree): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const node of Object.values(tree.nodes)) {
+    for (const uuid of node.messageUuids) index.set(uuid, node.id);
+  }
+  return index;
+}
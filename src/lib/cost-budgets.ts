@@ -0,0 +1,393 @@
+/**
+ * Cost Budgets - spend limits checked against the token data by a background
+ * job, so alerts fire even when no dashboard tab is open.
+ *
+ * Global daily, weekly and monthly budgets cover all spend; scoped budgets
+ * cover one project, provider or model over any of those periods. Each
+ * overrun is published once per budget period as `cost.alert` on the event
+ * bus; the router below turns it into a dashboard notification and a bot
+ * message. With the hard stop enabled, the chat route and the bot session
+ * queue refuse new runs that an exceeded budget covers. Settings and the alert
+ * log live in scc-dashboard.db.
+ */
+
+import Database from "better-sqlite3";
+import path from "path";
+import os from "os";
+import { getCostLedger } from "./session-reader";
+import type { CostEntry } from "./session-reader";
+import { addDays, fitForecastModel, forecastRange, projectBudget } from "./cost-forecast";
+import type { BudgetProjection, RangeForecast } from "./cost-forecast";
+import { eventBus } from "./event-bus";
+import type { EventMap } from "./event-bus";
+import { addNotification } from "./event-bus/notification-queue";
+import { sendBotAlert } from "./bot/bot-alerts";
+
+const DB_PATH = path.join(os.homedir(), ".claude", "scc-dashboard.db");
+
+const CHECK_INTERVAL_MS = 60_000;
+
+// ---- Types ----
+
+export type CostAlert = EventMap["cost.alert"];
+
+export type BudgetPeriod = CostAlert["type"];
+
+export type BudgetScope = NonNullable<CostAlert["scope"]>;
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ["daily", "weekly", "monthly"];
+
+export const BUDGET_SCOPES: BudgetScope[] = ["project", "provider", "model"];
+
+/** A budget on one project (path), provider (claude, codex, ...) or model */
+export interface ScopedBudget {
+  scope: BudgetScope;
+  target: string;
+  period: BudgetPeriod;
+  /** USD per period */
+  amount: number;
+}
+
+export interface BudgetConfig {
+  /** USD per UTC day; 0 disables */
+  dailyBudget: number;
+  /** USD per week starting Sunday (UTC); 0 disables */
+  weeklyBudget: number;
+  /** USD per calendar month (UTC); 0 disables */
+  monthlyBudget: number;
+  budgets: ScopedBudget[];
+  /** Refuse new chat and queued runs while a budget covering them is exceeded */
+  hardStop: boolean;
+  telegram: boolean;
+  feishu: boolean;
+}
+
+export const DEFAULT_BUDGET_CONFIG: BudgetConfig = {
+  dailyBudget: 0,
+  weeklyBudget: 0,
+  monthlyBudget: 0,
+  budgets: [],
+  hardStop: false,
+  telegram: true,
+  feishu: true,
+};
+
+/** Any enabled budget, global ones with no scope */
+export interface Budget {
+  /** Stable identity for the alert log, e.g. "monthly" or "project:/home/me/app:weekly" */
+  key: string;
+  scope?: BudgetScope;
+  target?: string;
+  period: BudgetPeriod;
+  amount: number;
+}
+
+/** A budget that is currently exceeded, with the start of its period (YYYY-MM-DD) */
+export interface BudgetOverrun extends CostAlert {
+  key: string;
+  periodStart: string;
+}
+
+/** What a new run would spend against, for the hard stop */
+export interface RunScope {
+  project?: string;
+  provider?: string;
+  model?: string;
+}
+
+export interface BudgetForecast extends BudgetProjection {
+  key: string;
+  label: string;
+  scope?: BudgetScope;
+  target?: string;
+  period: BudgetPeriod;
+}
+
+export interface SpendForecast {
+  today: string;
+  /** All spend this calendar month */
+  month: RangeForecast;
+  budgets: BudgetForecast[];
+}
+
+// ---- Database ----
+
+let _db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!_db) {
+    _db = new Database(DB_PATH);
+    _db.pragma("journal_mode = WAL");
+    _db.exec(`
+      CREATE TABLE IF NOT EXISTS budget_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS budget_alert_log (
+        budget TEXT PRIMARY KEY,
+        period_start TEXT NOT NULL,
+        alerted_at INTEGER NOT NULL
+      );
+    `);
+  }
+  return _db;
+}
+
+export function getBudgetConfig(): BudgetConfig {
+  const row = getDb().prepare("SELECT value FROM budget_settings WHERE key = 'config'").get() as { value: string } | undefined;
+  if (!row) return { ...DEFAULT_BUDGET_CONFIG };
+  try {
+    return { ...DEFAULT_BUDGET_CONFIG, ...JSON.parse(row.value) };
+  } catch {
+    return { ...DEFAULT_BUDGET_CONFIG };
+  }
+}
+
+/** Merge and validate a partial config. Throws on out-of-range values. */
+export function setBudgetConfig(update: Partial<BudgetConfig>): BudgetConfig {
+  const config = { ...getBudgetConfig(), ...update };
+  for (const period of BUDGET_PERIODS) {
+    const amount = config[GLOBAL_FIELDS[period]];
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new Error(`${GLOBAL_FIELDS[period]} must be a non-negative number`);
+    }
+  }
+  const seen = new Set<string>();
+  for (const b of config.budgets) {
+    if (!BUDGET_SCOPES.includes(b.scope)) throw new Error(`Unknown budget scope: ${b.scope}`);
+    if (!BUDGET_PERIODS.includes(b.period)) throw new Error(`Unknown budget period: ${b.period}`);
+    if (typeof b.target !== "string" || !b.target.trim()) throw new Error(`A ${b.scope} budget needs a ${b.scope}`);
+    if (!Number.isFinite(b.amount) || b.amount <= 0) throw new Error(`The ${b.scope} budget for ${b.target} must be positive`);
+    const key = scopedKey(b);
+    if (seen.has(key)) throw new Error(`Duplicate ${b.period} budget for ${b.scope} ${b.target}`);
+    seen.add(key);
+  }
+  getDb()
+    .prepare("INSERT OR REPLACE INTO budget_settings (key, value) VALUES ('config', ?)")
+    .run(JSON.stringify(config));
+  return config;
+}
+
+// ---- Budgets and periods ----
+
+const GLOBAL_FIELDS = {
+  daily: "dailyBudget",
+  weekly: "weeklyBudget",
+  monthly: "monthlyBudget",
+} as const satisfies Record<BudgetPeriod, keyof BudgetConfig>;
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+function scopedKey(b: ScopedBudget): string {
+  return `${b.scope}:${b.target}:${b.period}`;
+}
+
+/** Every enabled budget, global ones first */
+export function listBudgets(config: BudgetConfig): Budget[] {
+  const budgets: Budget[] = BUDGET_PERIODS
+    .filter((period) => config[GLOBAL_FIELDS[period]] > 0)
+    .map((period) => ({ key: period, period, amount: config[GLOBAL_FIELDS[period]] }));
+  for (const b of config.budgets) {
+    budgets.push({ key: scopedKey(b), scope: b.scope, target: b.target, period: b.period, amount: b.amount });
+  }
+  return budgets;
+}
+
+export function budgetLabel(b: Pick<Budget, "scope" | "target" | "period">): string {
+  return b.scope ? `${PERIOD_LABELS[b.period]} ${b.scope} budget (${b.target})` : `${PERIOD_LABELS[b.period]} budget`;
+}
+
+function utcDate(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0];
+}
+
+/** First and last day (inclusive) of the period containing `today` */
+export function periodRange(period: BudgetPeriod, today: string): { start: string; end: string } {
+  if (period === "daily") return { start: today, end: today };
+  if (period === "weekly") {
+    const start = addDays(today, -new Date(`${today}T00:00:00.000Z`).getUTCDay());
+    return { start, end: addDays(start, 6) };
+  }
+  const [year, month] = today.split("-").map(Number);
+  return { start: `${today.slice(0, 7)}-01`, end: utcDate(Date.UTC(year, month, 0)) };
+}
+
+function covers(b: Budget, e: CostEntry): boolean {
+  if (b.scope === "project") return e.project === b.target;
+  if (b.scope === "provider") return e.provider === b.target;
+  if (b.scope === "model") return e.model === b.target;
+  return true;
+}
+
+/** Daily spend under a budget, keyed by date */
+function dailySpend(ledger: CostEntry[], b: Budget): Record<string, number> {
+  const daily: Record<string, number> = {};
+  for (const e of ledger) {
+    if (covers(b, e)) daily[e.date] = (daily[e.date] ?? 0) + e.cost;
+  }
+  return daily;
+}
+
+// ---- Detection ----
+
+/** Budgets exceeded by the spend in `ledger`. Pure: the caller supplies every input. */
+export function findOverruns(ledger: CostEntry[], config: BudgetConfig, now: number): BudgetOverrun[] {
+  const today = utcDate(now);
+  const overruns: BudgetOverrun[] = [];
+  for (const b of listBudgets(config)) {
+    const { start } = periodRange(b.period, today);
+    let current = 0;
+    // Ledger dates are UTC dates, so string order is date order
+    for (const e of ledger) {
+      if (e.date >= start && e.date <= today && covers(b, e)) current += e.cost;
+    }
+    if (current > b.amount) {
+      overruns.push({
+        type: b.period, current, budget: b.amount, scope: b.scope, target: b.target,
+        key: b.key, periodStart: start,
+      });
+    }
+  }
+  return overruns;
+}
+
+function currentOverruns(config: BudgetConfig, now: number): BudgetOverrun[] {
+  if (listBudgets(config).length === 0) return [];
+  return findOverruns(getCostLedger(), config, now);
+}
+
+/** Whether a run with this scope would spend against the overrun budget */
+export function overrunCovers(overrun: CostAlert, run: RunScope): boolean {
+  if (overrun.scope === "project") return run.project === overrun.target;
+  if (overrun.scope === "provider") return run.provider === overrun.target;
+  // Runs that don't name a model fall outside model budgets
+  if (overrun.scope === "model") return run.model === overrun.target;
+  return true;
+}
+
+const SPEND_PHRASES: Record<BudgetPeriod, string> = {
+  daily: "Today's",
+  weekly: "This week's",
+  monthly: "This month's",
+};
+
+function overrunText(overrun: CostAlert): string {
+  const subject = overrun.scope ? ` for ${overrun.target}` : "";
+  return `${SPEND_PHRASES[overrun.type]} cost${subject} ($${overrun.current.toFixed(2)}) exceeded the ${budgetLabel({ ...overrun, period: overrun.type })} ($${overrun.budget.toFixed(2)})`;
+}
+
+/**
+ * Why a new run is refused right now, or null when it may start. Only
+ * enforced with the hard stop enabled, and only for budgets covering the run.
+ */
+export function budgetStopReason(run: RunScope = {}, now = Date.now()): string | null {
+  const config = getBudgetConfig();
+  if (!config.hardStop) return null;
+  const overrun = currentOverruns(config, now).find((o) => overrunCovers(o, run));
+  return overrun ? `${overrunText(overrun)}; new runs are paused until the budget resets or is raised` : null;
+}
+
+/** Projects, providers and models with spend, most expensive first, for the settings form */
+export function budgetTargets(ledger: CostEntry[]): Record<BudgetScope, string[]> {
+  const totals: Record<BudgetScope, Map<string, number>> = { project: new Map(), provider: new Map(), model: new Map() };
+  for (const e of ledger) {
+    for (const scope of BUDGET_SCOPES) {
+      totals[scope].set(e[scope], (totals[scope].get(e[scope]) ?? 0) + e.cost);
+    }
+  }
+  const ranked = (m: Map<string, number>) => [...m.entries()].sort((a, b) => b[1] - a[1]).map(([k]) => k);
+  return { project: ranked(totals.project), provider: ranked(totals.provider), model: ranked(totals.model) };
+}
+
+// ---- Forecast ----
+
+/** Month-end projection of all spend, and each budget's projection through its current period */
+export function forecastSpend(ledger: CostEntry[], config: BudgetConfig, now: number): SpendForecast {
+  const today = utcDate(now);
+  const total = dailySpend(ledger, { key: "all", period: "monthly", amount: 0 });
+  const month = periodRange("monthly", today);
+  const budgets = listBudgets(config).map((b): BudgetForecast => {
+    const daily = b.scope ? dailySpend(ledger, b) : total;
+    const { start, end } = periodRange(b.period, today);
+    return {
+      ...projectBudget(daily, fitForecastModel(daily, today), start, end, today, b.amount),
+      key: b.key, label: budgetLabel(b), scope: b.scope, target: b.target, period: b.period,
+    };
+  });
+  return { today, month: forecastRange(total, fitForecastModel(total, today), month.start, month.end, today), budgets };
+}
+
+export function getSpendForecast(now = Date.now()): SpendForecast {
+  return forecastSpend(getCostLedger(), getBudgetConfig(), now);
+}
+
+// ---- Alerting ----
+
+/** Record an alert; false when this period was already reported */
+function claimAlert(overrun: BudgetOverrun, now: number): boolean {
+  const db = getDb();
+  const row = db.prepare("SELECT period_start FROM budget_alert_log WHERE budget = ?")
+    .get(overrun.key) as { period_start: string } | undefined;
+  if (row?.period_start === overrun.periodStart) return false;
+  db.prepare("INSERT OR REPLACE INTO budget_alert_log (budget, period_start, alerted_at) VALUES (?, ?, ?)")
+    .run(overrun.key, overrun.periodStart, now);
+  return true;
+}
+
+async function routeAlert(alert: CostAlert): Promise<void> {
+  const title = `${budgetLabel({ ...alert, period: alert.type })} exceeded`;
+  const message = overrunText(alert);
+  addNotification("cost", title, message, {
+    source: "budget",
+    meta: { period: alert.type, scope: alert.scope, target: alert.target, current: alert.current, budget: alert.budget },
+  });
+
+  const config = getBudgetConfig();
+  const text = `*${title}*\n${message}${config.hardStop ? "\nNew runs it covers are paused." : ""}`;
+  await sendBotAlert(text, config, "[Budgets]");
+}
+
+/** Run one check and publish new overruns. Returns the budgets currently exceeded. */
+export function checkBudgets(now = Date.now()): BudgetOverrun[] {
+  const overruns = currentOverruns(getBudgetConfig(), now);
+  for (const o of overruns) {
+    if (claimAlert(o, now)) {
+      eventBus.emit("cost.alert", { type: o.type, current: o.current, budget: o.budget, scope: o.scope, target: o.target });
+    }
+  }
+  return overruns;
+}
+
+// ---- Lifecycle ----
+
+let budgetInterval: ReturnType<typeof setInterval> | null = null;
+let unsubscribeRouter: (() => void) | null = null;
+
+/** Start periodic checks and alert routing (idempotent) */
+export function startBudgetMonitor(): void {
+  if (budgetInterval) return;
+  unsubscribeRouter = eventBus.on("cost.alert", (alert) => {
+    routeAlert(alert).catch((err) => console.error("[Budgets] Failed to route alert:", err));
+  });
+  budgetInterval = setInterval(() => {
+    try {
+      checkBudgets();
+    } catch (err) {
+      console.error("[Budgets] Check failed:", err);
+    }
+  }, CHECK_INTERVAL_MS);
+  console.log("[Budgets] Started");
+}
+
+export function stopBudgetMonitor(): void {
+  if (budgetInterval) {
+    clearInterval(budgetInterval);
+    budgetInterval = null;
+  }
+  unsubscribeRouter?.();
+  unsubscribeRouter = null;
+}
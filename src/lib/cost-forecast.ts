@@ -0,0 +1,185 @@
+/**
+ * Spend forecasting from daily cost history.
+ *
+ * The model is a recent spend level scaled by weekday factors learned from
+ * the last eight weeks, so quiet weekends and busy Mondays carry forward.
+ * Residuals around that model give the spread: the band around a cumulative
+ * projection widens with the square root of the days remaining.
+ *
+ * Dates are UTC YYYY-MM-DD strings, like the token summary's byDate keys.
+ * Everything here is pure so the API and tests share it.
+ */
+
+const DAY_MS = 86_400_000;
+/** Days of history the weekday factors and spread are learned from */
+const HISTORY_DAYS = 56;
+/** Days of history the current spend level is taken from */
+const LEVEL_DAYS = 14;
+/** Two-sided 90% normal quantile */
+const Z_90 = 1.645;
+
+export interface ForecastModel {
+  /** Deseasonalized daily spend */
+  level: number;
+  /** Multiplier per weekday, Sunday first */
+  weekdayFactors: number[];
+  /** Standard deviation of daily spend around the model */
+  sigma: number;
+}
+
+export interface ForecastDay {
+  date: string;
+  /** Actual spend, through today */
+  actual?: number;
+  /** Cumulative spend within the range: actual through today, then projected */
+  cumulative: number;
+  /** 90% band of the cumulative projection; equal to it for past days */
+  low: number;
+  high: number;
+}
+
+export interface RangeForecast {
+  start: string;
+  end: string;
+  /** Spend so far, today included */
+  spent: number;
+  /** Projected total at the end of the range, with its 90% band */
+  projected: number;
+  low: number;
+  high: number;
+  days: ForecastDay[];
+}
+
+export interface BudgetProjection extends RangeForecast {
+  amount: number;
+  /** First day cumulative spend passes the budget: actual, else projected; null if it lasts the range */
+  exhaustedOn: string | null;
+  /** Same on the high edge of the band */
+  exhaustedEarliest: string | null;
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().split("T")[0];
+}
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00.000Z`).getUTCDay();
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * Fit the model to completed days before `today`. History starts at the
+ * first day with spend, so a new install is not averaged against empty weeks.
+ */
+export function fitForecastModel(daily: Record<string, number>, today: string): ForecastModel {
+  const first = Object.keys(daily).filter((d) => d < today && daily[d] > 0).sort()[0];
+  const windowStart = addDays(today, -HISTORY_DAYS);
+  const start = first && first > windowStart ? first : windowStart;
+
+  const days: { date: string; cost: number; weekday: number }[] = [];
+  if (first) {
+    for (let d = start; d < today; d = addDays(d, 1)) {
+      days.push({ date: d, cost: daily[d] ?? 0, weekday: weekday(d) });
+    }
+  }
+  if (days.length === 0) return { level: 0, weekdayFactors: Array(7).fill(1), sigma: 0 };
+
+  const overall = mean(days.map((d) => d.cost));
+  const weekdayFactors = Array.from({ length: 7 }, (_, w) => {
+    const costs = days.filter((d) => d.weekday === w).map((d) => d.cost);
+    return costs.length > 0 && overall > 0 ? mean(costs) / overall : 1;
+  });
+
+  // Deseasonalize the recent days; weekdays that never see spend say nothing about the level
+  const recent = days.slice(-LEVEL_DAYS).filter((d) => weekdayFactors[d.weekday] > 0);
+  const level = recent.length > 0 ? mean(recent.map((d) => d.cost / weekdayFactors[d.weekday])) : overall;
+
+  const residuals = days.map((d) => d.cost - level * weekdayFactors[d.weekday]);
+  const sigma = Math.sqrt(mean(residuals.map((r) => r * r)));
+  return { level, weekdayFactors, sigma };
+}
+
+/** Expected spend for a whole day */
+export function expectedSpend(model: ForecastModel, date: string): number {
+  return model.level * model.weekdayFactors[weekday(date)];
+}
+
+/**
+ * Cumulative spend from `start` to `end` (inclusive): actual through today,
+ * projected after. Today counts as part actual, part forecast: it is expected
+ * to reach at least the model's spend for its weekday.
+ */
+export function forecastRange(
+  daily: Record<string, number>,
+  model: ForecastModel,
+  start: string,
+  end: string,
+  today: string,
+): RangeForecast {
+  const days: ForecastDay[] = [];
+  let cumulative = 0, spent = 0, expected = 0, variance = 0;
+  for (let d = start; d <= end; d = addDays(d, 1)) {
+    if (d < today) {
+      const actual = daily[d] ?? 0;
+      cumulative += actual;
+      spent += actual;
+      days.push({ date: d, actual, cumulative, low: cumulative, high: cumulative });
+      continue;
+    }
+    if (d === today) {
+      const actual = daily[d] ?? 0;
+      spent += actual;
+      cumulative += actual;
+      expected += Math.max(0, expectedSpend(model, d) - actual);
+    } else {
+      expected += expectedSpend(model, d);
+    }
+    variance += model.sigma * model.sigma;
+    const spread = Z_90 * Math.sqrt(variance);
+    days.push({
+      date: d,
+      actual: d === today ? daily[d] ?? 0 : undefined,
+      cumulative: cumulative + expected,
+      low: cumulative + Math.max(0, expected - spread),
+      high: cumulative + expected + spread,
+    });
+  }
+  const last = days[days.length - 1];
+  return {
+    start,
+    end,
+    spent,
+    projected: last?.cumulative ?? 0,
+    low: last?.low ?? 0,
+    high: last?.high ?? 0,
+    days,
+  };
+}
+
+/** forecastRange plus when the budget runs out */
+export function projectBudget(
+  daily: Record<string, number>,
+  model: ForecastModel,
+  start: string,
+  end: string,
+  today: string,
+  amount: number,
+): BudgetProjection {
+  const range = forecastRange(daily, model, start, end, today);
+  // Through today only actual spend counts; from tomorrow the projection does
+  let actual = 0;
+  const crossed = (day: ForecastDay, value: number): boolean => {
+    if (day.date <= today) {
+      actual += day.actual ?? 0;
+      return actual > amount;
+    }
+    return value > amount;
+  };
+  const exhaustedOn = range.days.find((d) => crossed(d, d.cumulative))?.date ?? null;
+  actual = 0;
+  const exhaustedEarliest = range.days.find((d) => crossed(d, d.high))?.date ?? null;
+  return { ...range, amount, exhaustedOn, exhaustedEarliest };
+}
@@ -12,8 +12,33 @@ export interface EventMap {
   "session.complete": { sessionId: string; project?: string; cost?: number; durationMs?: number };
   /** A session started */
   "session.start": { sessionId: string; project?: string };
-  /** Cost threshold alert */
-  "cost.alert": { type: "daily" | "weekly"; current: number; budget: number };
+  /** A session needs attention (from the session watchdog) */
+  "session.stalled": {
+    sessionId: string;
+    project: string;
+    projectName: string;
+    reason: "waiting" | "error-loop" | "process-exited";
+    detail: string;
+    /** Start of the stalled episode (epoch ms) */
+    since: number;
+  };
+  /** Cost threshold alert (from the budget monitor); scoped budgets name their project, provider or model */
+  "cost.alert": {
+    type: "daily" | "weekly" | "monthly";
+    current: number;
+    budget: number;
+    scope?: "project" | "provider" | "model";
+    target?: string;
+  };
+  /** A CLI run reported a plan rate limit warning or rejection (from the rate limit log) */
+  "rate_limit.hit": {
+    status: "allowed_warning" | "rejected";
+    limitType: string;
+    resetsAt: number | null;
+    utilization: number | null;
+    provider: string;
+    source: "chat" | "queue";
+  };
   /** A plugin emitted a custom event */
   "plugin.event": { pluginId: string; action: string; data?: unknown };
   /** Bot message received */
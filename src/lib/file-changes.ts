@@ -0,0 +1,290 @@
+/**
+ * File change history - rebuilds what a Claude session did to each file from
+ * its Edit/MultiEdit/Write/NotebookEdit tool calls.
+ *
+ * File contents are tracked where they can be known: the `originalFile`
+ * Claude Code attaches to tool results, earlier Write calls, and the backups
+ * referenced by `file-history-snapshot` records. Where the prior content is
+ * unknown a change falls back to a diff of just the replaced snippet.
+ */
+
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { unifiedDiff } from "./unified-diff";
+
+const CLAUDE_DIR = path.join(os.homedir(), ".claude");
+const PROJECTS_DIR = path.join(CLAUDE_DIR, "projects");
+const FILE_HISTORY_DIR = path.join(CLAUDE_DIR, "file-history");
+
+// ---- Types ----
+
+export type FileChangeTool = "Edit" | "MultiEdit" | "Write" | "NotebookEdit";
+
+export interface FileChange {
+  tool: FileChangeTool;
+  toolUseId?: string;
+  /** Assistant message holding the tool call */
+  messageUuid: string;
+  timestamp: string;
+  /** Unified diff hunks */
+  diff: string;
+  added: number;
+  removed: number;
+  /** False when the prior file content was unknown and only the snippet is diffed */
+  exact: boolean;
+  /** The tool reported an error, so the change was not applied */
+  failed?: boolean;
+  /** Extra context, e.g. the notebook cell an edit targeted */
+  note?: string;
+}
+
+export interface FileHistory {
+  path: string;
+  changes: FileChange[];
+  /** File did not exist before the session */
+  created: boolean;
+  /** Diff from the content before the session to the final content, null when either is unknown */
+  netDiff: string | null;
+  added: number;
+  removed: number;
+}
+
+export interface SessionChanges {
+  files: FileHistory[];
+  totalAdded: number;
+  totalRemoved: number;
+}
+
+interface ToolCall {
+  id?: string;
+  name: FileChangeTool;
+  input: Record<string, unknown>;
+  messageUuid: string;
+  timestamp: string;
+}
+
+interface ToolOutcome {
+  isError: boolean;
+  originalFile?: string | null;
+  /** "create" for Write calls that made a new file */
+  writeType?: string;
+}
+
+interface FileState {
+  history: FileHistory;
+  /** Content before the session; undefined = unknown, null = did not exist */
+  base: string | null | undefined;
+  /** Current tracked content; undefined = unknown */
+  current: string | undefined;
+}
+
+const CHANGE_TOOLS = new Set<string>(["Edit", "MultiEdit", "Write", "NotebookEdit"]);
+
+// ---- Edits ----
+
+function applyReplace(content: string, oldStr: string, newStr: string, all: boolean): string | undefined {
+  if (!oldStr || !content.includes(oldStr)) return undefined;
+  return all ? content.split(oldStr).join(newStr) : content.replace(oldStr, () => newStr);
+}
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/** Resolve a snapshot key (absolute or cwd-relative) to an absolute path */
+function resolvePath(p: string, cwd: string): string {
+  return path.isAbsolute(p) || !cwd ? p : path.join(cwd, p);
+}
+
+/**
+ * Earliest backup per file from file-history-snapshot records: the content
+ * before the session first touched it (null backupFileName = file was new).
+ */
+function readSnapshotBases(snapshots: unknown[], sessionId: string, cwd: string): Map<string, string | null> {
+  const earliest = new Map<string, { version: number; backup: string | null }>();
+  for (const snap of snapshots) {
+    const tracked = (snap as { trackedFileBackups?: Record<string, { backupFileName?: string | null; version?: number }> })
+      ?.trackedFileBackups;
+    if (!tracked) continue;
+    for (const [file, info] of Object.entries(tracked)) {
+      const abs = resolvePath(file, cwd);
+      const version = info?.version ?? 0;
+      const prev = earliest.get(abs);
+      if (!prev || version < prev.version) earliest.set(abs, { version, backup: info?.backupFileName ?? null });
+    }
+  }
+
+  const bases = new Map<string, string | null>();
+  for (const [file, { backup }] of earliest) {
+    if (!backup) { bases.set(file, null); continue; }
+    try {
+      bases.set(file, fs.readFileSync(path.join(FILE_HISTORY_DIR, sessionId, backup), "utf-8"));
+    } catch { /* backup pruned */ }
+  }
+  return bases;
+}
+
+function snippetChange(call: ToolCall, before: string, after: string, note?: string): Omit<FileChange, "failed"> {
+  const d = unifiedDiff(before, after);
+  return {
+    tool: call.name, toolUseId: call.id, messageUuid: call.messageUuid, timestamp: call.timestamp,
+    diff: d.text, added: d.added, removed: d.removed, exact: false, note,
+  };
+}
+
+/** Compute one change and the file content after it (undefined = unknown) */
+function applyCall(call: ToolCall, before: string | undefined): { change: Omit<FileChange, "failed">; after: string | undefined } {
+  const exact = (after: string) => {
+    const d = unifiedDiff(before!, after);
+    return {
+      change: {
+        tool: call.name, toolUseId: call.id, messageUuid: call.messageUuid, timestamp: call.timestamp,
+        diff: d.text, added: d.added, removed: d.removed, exact: true,
+      },
+      after,
+    };
+  };
+
+  switch (call.name) {
+    case "Write": {
+      const content = str(call.input.content);
+      if (before !== undefined) return exact(content);
+      return { change: snippetChange(call, "", content, "previous content unknown"), after: content };
+    }
+    case "Edit": {
+      const oldStr = str(call.input.old_string), newStr = str(call.input.new_string);
+      const after = before !== undefined ? applyReplace(before, oldStr, newStr, !!call.input.replace_all) : undefined;
+      if (after !== undefined) return exact(after);
+      return { change: snippetChange(call, oldStr, newStr), after: undefined };
+    }
+    case "MultiEdit": {
+      const edits = Array.isArray(call.input.edits) ? call.input.edits as Record<string, unknown>[] : [];
+      let after = before;
+      for (const e of edits) {
+        if (after === undefined) break;
+        after = applyReplace(after, str(e.old_string), str(e.new_string), !!e.replace_all);
+      }
+      if (after !== undefined) return exact(after);
+      const oldJoined = edits.map((e) => str(e.old_string)).join("\n");
+      const newJoined = edits.map((e) => str(e.new_string)).join("\n");
+      return { change: snippetChange(call, oldJoined, newJoined), after: undefined };
+    }
+    case "NotebookEdit": {
+      // Notebook JSON isn't reconstructed; show the cell source change only
+      const mode = str(call.input.edit_mode) || "replace";
+      const cell = str(call.input.cell_id);
+      const source = str(call.input.new_source);
+      const note = `cell ${cell || "?"} (${mode})`;
+      return {
+        change: snippetChange(call, "", mode === "delete" ? "" : source, note),
+        after: undefined,
+      };
+    }
+  }
+}
+
+// ---- Session ----
+
+export function getSessionChanges(projectPath: string, sessionId: string): SessionChanges | null {
+  const filePath = path.join(PROJECTS_DIR, projectPath, `${sessionId}.jsonl`);
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+
+  const calls: ToolCall[] = [];
+  const outcomes = new Map<string, ToolOutcome>();
+  const snapshots: unknown[] = [];
+  let cwd = "";
+
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    let obj;
+    try { obj = JSON.parse(line); } catch { continue; }
+    if (!cwd && obj.cwd) cwd = obj.cwd;
+
+    if (obj.type === "file-history-snapshot") {
+      if (obj.snapshot) snapshots.push(obj.snapshot);
+      continue;
+    }
+    const blocks = obj.message?.content;
+    if (!Array.isArray(blocks)) continue;
+
+    for (const block of blocks) {
+      if (block.type === "tool_use" && CHANGE_TOOLS.has(block.name)) {
+        calls.push({
+          id: block.id,
+          name: block.name,
+          input: block.input || {},
+          messageUuid: obj.uuid || "",
+          timestamp: obj.timestamp || "",
+        });
+      } else if (block.type === "tool_result" && block.tool_use_id) {
+        const result = obj.toolUseResult && typeof obj.toolUseResult === "object" ? obj.toolUseResult : {};
+        outcomes.set(block.tool_use_id, {
+          isError: !!block.is_error,
+          originalFile: typeof result.originalFile === "string" || result.originalFile === null ? result.originalFile : undefined,
+          writeType: result.type,
+        });
+      }
+    }
+  }
+
+  const snapshotBases = readSnapshotBases(snapshots, sessionId, cwd);
+  const files = new Map<string, FileState>();
+
+  for (const call of calls) {
+    const target = str(call.input.file_path) || str(call.input.notebook_path);
+    if (!target) continue;
+    const abs = resolvePath(target, cwd);
+    const outcome = call.id ? outcomes.get(call.id) : undefined;
+
+    let state = files.get(abs);
+    if (!state) {
+      const base = outcome?.writeType === "create" ? null
+        : outcome?.originalFile !== undefined ? outcome.originalFile
+        : snapshotBases.has(abs) ? snapshotBases.get(abs)
+        : undefined;
+      state = {
+        history: { path: abs, changes: [], created: base === null, netDiff: null, added: 0, removed: 0 },
+        base,
+        current: base === null ? "" : base ?? undefined,
+      };
+      files.set(abs, state);
+    }
+
+    // Tool results carry the file as it was right before the call
+    const before = typeof outcome?.originalFile === "string" ? outcome.originalFile : state.current;
+    const { change, after } = applyCall(call, before);
+
+    if (outcome?.isError) {
+      state.history.changes.push({ ...change, failed: true });
+      continue;
+    }
+    state.history.changes.push(change);
+    state.current = after;
+  }
+
+  let totalAdded = 0, totalRemoved = 0;
+  const result: FileHistory[] = [];
+  for (const { history, base, current } of files.values()) {
+    const applied = history.changes.filter((c) => !c.failed);
+    if (base !== undefined && current !== undefined) {
+      const net = unifiedDiff(base ?? "", current);
+      history.netDiff = net.text;
+      history.added = net.added;
+      history.removed = net.removed;
+    } else {
+      history.added = applied.reduce((s, c) => s + c.added, 0);
+      history.removed = applied.reduce((s, c) => s + c.removed, 0);
+    }
+    totalAdded += history.added;
+    totalRemoved += history.removed;
+    result.push(history);
+  }
+
+  return { files: result, totalAdded, totalRemoved };
+}
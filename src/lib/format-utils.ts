@@ -12,6 +12,13 @@ export function fmtTokens(n: number): string {
   return n.toString();
 }
 
+export function fmtDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  const s = Math.round(ms / 1000);
+  return `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, "0")}s`;
+}
+
 export function timeAgo(ms: number): string {
   if (!ms) return "";
   const diff = Date.now() - ms;
@@ -0,0 +1,130 @@
+/**
+ * Live Events - payloads the session watcher streams over SSE, and the
+ * reducers clients use to fold them into data they already loaded.
+ * Pure module: safe to import from client components.
+ */
+
+import type { SessionInfo, SessionMessage, SessionStatus, ToolCallInfo, ToolResultUpdate } from "./session-reader";
+import type { TreeRecord } from "./conversation-tree";
+
+// ---- Types ----
+
+export type LiveEvent =
+  /** A session file appeared */
+  | { type: "session.created"; session: SessionInfo }
+  /** New records were indexed; `session` carries the refreshed totals */
+  | { type: "session.updated"; session: SessionInfo }
+  /** The detected status changed, from new records or from time passing */
+  | { type: "session.status"; session: SessionInfo; previous: SessionStatus }
+  /** Records appended to a Claude session, parsed */
+  | {
+      type: "session.messages";
+      project: string;
+      sessionId: string;
+      messages: SessionMessage[];
+      treeRecords: TreeRecord[];
+      toolResults: ToolResultUpdate[];
+    }
+  /** The file changed in a way that can't be applied incrementally (Codex, rewrites): refetch */
+  | { type: "session.changed"; project: string; sessionId: string };
+
+export type LiveEventType = LiveEvent["type"];
+
+export type LiveMessagesEvent = Extract<LiveEvent, { type: "session.messages" }>;
+
+/** The slice of a session detail that live messages update */
+export interface LiveDetail {
+  messages: { uuid: string; content: string; timestamp: string; toolUse?: ToolCallInfo[]; isCheckpoint?: boolean;
+    inputTokens?: number; outputTokens?: number; cacheRead?: number; cacheWrite?: number; cost?: number }[];
+  checkpoints: { index: number; uuid: string; content: string; timestamp: string }[];
+  treeRecords?: TreeRecord[];
+  /** Session index of messages[0], when only the newest messages are loaded */
+  offset?: number;
+  messageCount?: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  estimatedCost: number;
+  endTime: string;
+}
+
+// ---- Helpers ----
+
+/** Session id and project of any live event */
+export function liveEventSession(event: LiveEvent): { project: string; sessionId: string } {
+  return "session" in event
+    ? { project: event.session.project, sessionId: event.session.id }
+    : { project: event.project, sessionId: event.sessionId };
+}
+
+/** Replace a session in a list by id and project, or prepend it */
+export function upsertSession<T extends { id: string; project: string }>(list: T[], session: T): T[] {
+  const i = list.findIndex((s) => s.id === session.id && s.project === session.project);
+  if (i < 0) return [session, ...list];
+  const next = [...list];
+  next[i] = session;
+  return next;
+}
+
+// ---- Reducers ----
+
+/**
+ * Append live messages to a loaded detail. Messages already present (the
+ * detail was fetched after they were written) are skipped, and results are
+ * attached to their calls, with latency taken from the calling message when
+ * the watcher never saw the call.
+ */
+export function applyLiveMessages<D extends LiveDetail>(detail: D, event: LiveMessagesEvent): D {
+  const known = new Set(detail.messages.map((m) => m.uuid).filter(Boolean));
+  const messages = [...detail.messages];
+  const checkpoints = [...detail.checkpoints];
+  const totals = {
+    totalInputTokens: detail.totalInputTokens,
+    totalOutputTokens: detail.totalOutputTokens,
+    cacheReadTokens: detail.cacheReadTokens,
+    cacheWriteTokens: detail.cacheWriteTokens,
+    estimatedCost: detail.estimatedCost,
+  };
+  let endTime = detail.endTime;
+  const offset = detail.offset ?? 0;
+
+  for (const m of event.messages) {
+    if (m.uuid && known.has(m.uuid)) continue;
+    if (m.isCheckpoint) checkpoints.push({ index: offset + messages.length, uuid: m.uuid, content: m.content.slice(0, 100), timestamp: m.timestamp });
+    messages.push(m);
+    totals.totalInputTokens += m.inputTokens ?? 0;
+    totals.totalOutputTokens += m.outputTokens ?? 0;
+    totals.cacheReadTokens += m.cacheRead ?? 0;
+    totals.cacheWriteTokens += m.cacheWrite ?? 0;
+    totals.estimatedCost += m.cost ?? 0;
+    if (m.timestamp) endTime = m.timestamp;
+  }
+
+  for (const r of event.toolResults) {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const calls = messages[i].toolUse;
+      const j = calls?.findIndex((c) => c.id === r.toolUseId) ?? -1;
+      if (!calls || j < 0) continue;
+      let durationMs = r.durationMs;
+      if (durationMs === undefined) {
+        const ms = Date.parse(r.timestamp) - Date.parse(messages[i].timestamp);
+        if (Number.isFinite(ms) && ms >= 0) durationMs = ms;
+      }
+      const toolUse = [...calls];
+      toolUse[j] = { ...calls[j], result: r.result, isError: r.isError, durationMs };
+      messages[i] = { ...messages[i], toolUse };
+      break;
+    }
+  }
+
+  let treeRecords = detail.treeRecords;
+  if (treeRecords && event.treeRecords.length > 0) {
+    const knownRecords = new Set(treeRecords.map((t) => t.uuid));
+    treeRecords = [...treeRecords, ...event.treeRecords.filter((t) => !knownRecords.has(t.uuid))];
+  }
+
+  const next = { ...detail, ...totals, messages, checkpoints, treeRecords, endTime };
+  if (detail.messageCount !== undefined) next.messageCount = detail.messageCount + messages.length - detail.messages.length;
+  return next;
+}
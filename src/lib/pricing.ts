@@ -0,0 +1,280 @@
+/**
+ * Model pricing catalog.
+ *
+ * Prices are versioned: each entry applies from its `effectiveFrom` date until
+ * the next entry for the same model, so historical usage is costed at the
+ * price in effect that day. Built-in entries can be overridden or extended from
+ * Settings; overrides are stored in the dashboard database.
+ *
+ * Models without an entry are reported as unpriced instead of being billed at
+ * some other model's rate.
+ */
+
+import Database from "better-sqlite3";
+import path from "path";
+import os from "os";
+import type { TokenUsage } from "./token-usage";
+
+// ---- Types ----
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite5m: number;
+  cacheWrite1h: number;
+}
+
+export interface PriceEntry extends ModelPrice {
+  model: string;
+  /** YYYY-MM-DD, inclusive */
+  effectiveFrom: string;
+  source: "builtin" | "custom";
+}
+
+export type PriceOverrideInput = Pick<PriceEntry, "model" | "effectiveFrom" | "input" | "output">
+  & Partial<Pick<ModelPrice, "cacheRead" | "cacheWrite5m" | "cacheWrite1h">>;
+
+// ---- Built-in catalog ----
+
+/** Claude: reads 0.1x input, 5m writes 1.25x, 1h writes 2x */
+function claudePrice(input: number, output: number): ModelPrice {
+  return { input, output, cacheRead: input * 0.1, cacheWrite5m: input * 1.25, cacheWrite1h: input * 2 };
+}
+
+/**
+ * OpenAI and Gemini: implicit caching discounts reads and has no separate
+ * write charge, so any reported cache writes are billed as plain input
+ */
+function implicitCachePrice(input: number, output: number, cacheRead: number): ModelPrice {
+  return { input, output, cacheRead, cacheWrite5m: input, cacheWrite1h: input };
+}
+
+function builtin(model: string, effectiveFrom: string, price: ModelPrice): PriceEntry {
+  return { model, effectiveFrom, source: "builtin", ...price };
+}
+
+const BUILTIN_PRICING: PriceEntry[] = [
+  // Claude models
+  builtin("claude-opus-4-6", "2026-02-05", claudePrice(5.0, 25.0)),
+  builtin("claude-opus-4-5", "2025-11-24", claudePrice(5.0, 25.0)),
+  builtin("claude-opus-4-1", "2025-08-05", claudePrice(15.0, 75.0)),
+  builtin("claude-opus-4", "2025-05-22", claudePrice(15.0, 75.0)),
+  builtin("claude-sonnet-4-6", "2026-02-17", claudePrice(3.0, 15.0)),
+  builtin("claude-sonnet-4-5", "2025-09-29", claudePrice(3.0, 15.0)),
+  builtin("claude-sonnet-4", "2025-05-22", claudePrice(3.0, 15.0)),
+  builtin("claude-3-7-sonnet", "2025-02-24", claudePrice(3.0, 15.0)),
+  builtin("claude-haiku-4-5", "2025-10-15", claudePrice(1.0, 5.0)),
+  builtin("claude-3-5-haiku", "2024-10-22", claudePrice(0.8, 4.0)),
+  // Codex / OpenAI models
+  builtin("gpt-5.2-codex", "2025-12-01", implicitCachePrice(2.0, 8.0, 0.2)),
+  builtin("gpt-5.3-codex", "2026-02-01", implicitCachePrice(2.0, 8.0, 0.2)),
+  builtin("o3-pro", "2025-06-10", implicitCachePrice(20.0, 80.0, 20.0)),
+  builtin("o3", "2025-04-16", implicitCachePrice(10.0, 40.0, 2.5)),
+  builtin("o4-mini", "2025-04-16", implicitCachePrice(1.1, 4.4, 0.275)),
+  builtin("gpt-4.1", "2025-04-14", implicitCachePrice(2.0, 8.0, 0.5)),
+  // Gemini models (prompts up to 200k tokens)
+  builtin("gemini-3-pro-preview", "2025-11-18", implicitCachePrice(2.0, 12.0, 0.2)),
+  builtin("gemini-2.5-pro", "2025-06-17", implicitCachePrice(1.25, 10.0, 0.125)),
+  builtin("gemini-2.5-flash", "2025-06-17", implicitCachePrice(0.3, 2.5, 0.03)),
+  builtin("gemini-2.5-flash-lite", "2025-07-22", implicitCachePrice(0.1, 0.4, 0.01)),
+];
+
+// ---- Overrides ----
+
+const DB_PATH = path.join(os.homedir(), ".claude", "scc-dashboard.db");
+
+let _db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!_db) {
+    _db = new Database(DB_PATH);
+    _db.pragma("journal_mode = WAL");
+    _db.exec(`
+      CREATE TABLE IF NOT EXISTS pricing_overrides (
+        model TEXT NOT NULL,
+        effective_from TEXT NOT NULL,
+        input REAL NOT NULL,
+        output REAL NOT NULL,
+        cache_read REAL NOT NULL,
+        cache_write_5m REAL NOT NULL,
+        cache_write_1h REAL NOT NULL,
+        updated_at TEXT DEFAULT (datetime('now')),
+        PRIMARY KEY (model, effective_from)
+      )
+    `);
+  }
+  return _db;
+}
+
+interface OverrideRow {
+  model: string;
+  effective_from: string;
+  input: number;
+  output: number;
+  cache_read: number;
+  cache_write_5m: number;
+  cache_write_1h: number;
+}
+
+/** Merged catalog grouped by model, each list sorted by effectiveFrom ascending */
+let _catalog: Map<string, PriceEntry[]> | null = null;
+
+function loadCatalog(): Map<string, PriceEntry[]> {
+  if (_catalog) return _catalog;
+
+  const byKey = new Map<string, PriceEntry>();
+  for (const e of BUILTIN_PRICING) byKey.set(`${e.model}@${e.effectiveFrom}`, e);
+
+  try {
+    const rows = getDb().prepare("SELECT * FROM pricing_overrides").all() as OverrideRow[];
+    for (const r of rows) {
+      byKey.set(`${r.model}@${r.effective_from}`, {
+        model: r.model,
+        effectiveFrom: r.effective_from,
+        source: "custom",
+        input: r.input,
+        output: r.output,
+        cacheRead: r.cache_read,
+        cacheWrite5m: r.cache_write_5m,
+        cacheWrite1h: r.cache_write_1h,
+      });
+    }
+  } catch (err) {
+    console.error("Failed to load pricing overrides:", err);
+  }
+
+  const catalog = new Map<string, PriceEntry[]>();
+  for (const e of byKey.values()) {
+    const list = catalog.get(e.model) || [];
+    list.push(e);
+    catalog.set(e.model, list);
+  }
+  for (const list of catalog.values()) list.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  _catalog = catalog;
+  return catalog;
+}
+
+/** All price entries, built-in and custom, sorted by model then date */
+export function getPriceCatalog(): PriceEntry[] {
+  return [...loadCatalog().values()]
+    .flat()
+    .sort((a, b) => a.model.localeCompare(b.model) || a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+
+/** Cache rates for an override that only specifies input/output */
+function defaultCacheRates(model: string, input: number): Pick<ModelPrice, "cacheRead" | "cacheWrite5m" | "cacheWrite1h"> {
+  if (model.startsWith("claude")) {
+    const { cacheRead, cacheWrite5m, cacheWrite1h } = claudePrice(input, 0);
+    return { cacheRead, cacheWrite5m, cacheWrite1h };
+  }
+  return { cacheRead: input, cacheWrite5m: input, cacheWrite1h: input };
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Add or replace a custom price entry. Throws on invalid input. */
+export function setPriceOverride(entry: PriceOverrideInput): PriceEntry {
+  const model = normalizeModel(entry.model);
+  if (!model) throw new Error("Model is required");
+  if (!DATE_RE.test(entry.effectiveFrom)) throw new Error("effectiveFrom must be YYYY-MM-DD");
+  const prices = [entry.input, entry.output, entry.cacheRead, entry.cacheWrite5m, entry.cacheWrite1h];
+  if (prices.some((p) => p !== undefined && (typeof p !== "number" || !Number.isFinite(p) || p < 0))) {
+    throw new Error("Prices must be non-negative numbers");
+  }
+
+  const defaults = defaultCacheRates(model, entry.input);
+  const saved: PriceEntry = {
+    model,
+    effectiveFrom: entry.effectiveFrom,
+    source: "custom",
+    input: entry.input,
+    output: entry.output,
+    cacheRead: entry.cacheRead ?? defaults.cacheRead,
+    cacheWrite5m: entry.cacheWrite5m ?? defaults.cacheWrite5m,
+    cacheWrite1h: entry.cacheWrite1h ?? defaults.cacheWrite1h,
+  };
+
+  getDb().prepare(
+    `INSERT INTO pricing_overrides (model, effective_from, input, output, cache_read, cache_write_5m, cache_write_1h, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+     ON CONFLICT(model, effective_from) DO UPDATE SET
+       input = excluded.input, output = excluded.output, cache_read = excluded.cache_read,
+       cache_write_5m = excluded.cache_write_5m, cache_write_1h = excluded.cache_write_1h,
+       updated_at = excluded.updated_at`
+  ).run(saved.model, saved.effectiveFrom, saved.input, saved.output, saved.cacheRead, saved.cacheWrite5m, saved.cacheWrite1h);
+
+  _catalog = null;
+  return saved;
+}
+
+/** Remove a custom entry; built-in entries it shadowed become visible again */
+export function deletePriceOverride(model: string, effectiveFrom: string): boolean {
+  const result = getDb()
+    .prepare("DELETE FROM pricing_overrides WHERE model = ? AND effective_from = ?")
+    .run(normalizeModel(model), effectiveFrom);
+  _catalog = null;
+  return result.changes > 0;
+}
+
+// ---- Lookup ----
+
+/**
+ * Strip decorations that don't change pricing: dated snapshot suffixes
+ * (`claude-haiku-4-5-20251001`) and context-window tags (`claude-opus-4-6[1m]`).
+ */
+export function normalizeModel(model: string): string {
+  return model.trim().toLowerCase().replace(/\[[^\]]*\]$/, "").replace(/-\d{8}$/, "");
+}
+
+/**
+ * Price in effect for `model` on `date` (YYYY-MM-DD or ISO timestamp; latest
+ * price when omitted). Dates before a model's first entry use that entry.
+ * Returns null for models not in the catalog.
+ */
+export function priceFor(model: string, date?: string): ModelPrice | null {
+  if (!model) return null;
+  const entries = loadCatalog().get(normalizeModel(model));
+  if (!entries) return null;
+
+  const day = date ? date.slice(0, 10) : "";
+  let match = entries[0];
+  for (const e of entries) {
+    if (day && e.effectiveFrom > day) break;
+    match = e;
+  }
+  return match;
+}
+
+export function isPriced(model: string): boolean {
+  return priceFor(model) !== null;
+}
+
+/** Estimated cost in USD; 0 for unpriced models */
+export function estimateCost(model: string, usage: TokenUsage, date?: string): number {
+  const p = priceFor(model, date);
+  if (!p) return 0;
+  return (
+    usage.input * p.input +
+    usage.output * p.output +
+    usage.cacheRead * p.cacheRead +
+    usage.cacheWrite5m * p.cacheWrite5m +
+    usage.cacheWrite1h * p.cacheWrite1h
+  ) / 1_000_000;
+}
+
+/**
+ * Net saving from prompt caching versus sending every cached token as plain
+ * input: discounted reads minus the write premium. Negative when writes are
+ * never read back.
+ */
+export function estimateCacheSavings(model: string, usage: TokenUsage, date?: string): number {
+  const p = priceFor(model, date);
+  if (!p) return 0;
+  return (
+    usage.cacheRead * (p.input - p.cacheRead) -
+    usage.cacheWrite5m * (p.cacheWrite5m - p.input) -
+    usage.cacheWrite1h * (p.cacheWrite1h - p.input)
+  ) / 1_000_000;
+}
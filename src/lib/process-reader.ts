@@ -1,18 +1,52 @@
 /**
  * Process Reader - detect active Claude CLI processes
+ *
+ * On Linux each CLI process is also tied to the session it is writing, from
+ * /proc: open transcript descriptors, then --session-id / --resume arguments,
+ * then the newest transcript of its working directory. CPU and RSS are
+ * sampled into a short per-process history.
  */
 
 import { execSync } from "child_process";
+import fs from "fs";
+import path from "path";
 import os from "os";
 
+const PROJECTS_DIR = path.join(os.homedir(), ".claude", "projects");
+
+/** Kernel clock ticks per second (USER_HZ), 100 on every mainstream Linux build */
+const CLOCK_TICKS = 100;
+const SAMPLE_INTERVAL_MS = 10_000;
+/** Samples kept per process: 30 minutes at the sample interval */
+const HISTORY_LIMIT = 180;
+
+export type SessionMatch = "fd" | "session-id" | "resume" | "cwd";
+
 export interface ProcessInfo {
   pid: number;
   name: string;
   startTime: string;
   memoryMB: number;
   command?: string;
+  /** Linux only: working directory of the process */
+  cwd?: string;
+  /** Linux only: session the process is writing, with how it was matched */
+  sessionId?: string;
+  project?: string;
+  matchedBy?: SessionMatch;
+  /** Linux only: CPU use since the previous sample, percent of one core */
+  cpuPercent?: number;
+  rssMB?: number;
 }
 
+export interface ProcessSample {
+  timestamp: number;
+  cpuPercent: number;
+  rssMB: number;
+}
+
+export type StopSignal = "SIGINT" | "SIGTERM";
+
 export function getClaudeProcesses(): ProcessInfo[] {
   const platform = os.platform();
   const processes: ProcessInfo[] = [];
@@ -110,5 +144,248 @@ export function getClaudeProcesses(): ProcessInfo[] {
     // No matching processes or command failed
   }
 
+  if (platform === "linux") attachSessions(processes);
   return processes;
 }
+
+// ---- Linux session correlation ----
+
+export interface ProcStat {
+  /** utime + stime, in clock ticks */
+  cpuTicks: number;
+  /** Process start, ms since epoch */
+  startedAt: number;
+  rssMB: number;
+}
+
+interface CpuReading {
+  cpuTicks: number;
+  at: number;
+}
+
+const lastCpu = new Map<number, CpuReading>();
+const histories = new Map<number, ProcessSample[]>();
+let bootTime: number | null = null;
+
+/** Claude Code's project directory name for a working directory */
+export function encodeProjectPath(cwd: string): string {
+  return cwd.replace(/[^a-zA-Z0-9]/g, "-");
+}
+
+/** True for the CLI itself (native binary or node running the package), not for tools mentioning it */
+export function isClaudeCli(argv: string[]): boolean {
+  const bin = path.basename(argv[0] ?? "");
+  if (bin === "claude") return true;
+  const script = argv[1] ?? "";
+  return /^node(js)?$/.test(bin) && (path.basename(script) === "claude" || script.includes("@anthropic-ai/claude-code"));
+}
+
+/** Session ids named on the command line */
+export function parseSessionArgs(argv: string[]): { sessionId?: string; resume?: string } {
+  const result: { sessionId?: string; resume?: string } = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inline] = arg.includes("=") ? [arg.slice(0, arg.indexOf("=")), arg.slice(arg.indexOf("=") + 1)] : [arg, undefined];
+    const value = inline ?? argv[i + 1];
+    // Bare --resume opens a picker; only an id-shaped value names the session
+    if (!value || !/^[0-9a-f-]{8,}$/i.test(value)) continue;
+    if (flag === "--session-id") result.sessionId = value;
+    else if (flag === "--resume" || flag === "-r") result.resume = value;
+  }
+  return result;
+}
+
+function readBootTime(): number {
+  if (bootTime === null) {
+    const match = fs.readFileSync("/proc/stat", "utf-8").match(/^btime (\d+)/m);
+    bootTime = match ? parseInt(match[1], 10) * 1000 : 0;
+  }
+  return bootTime;
+}
+
+function readProcStat(pid: number): ProcStat | null {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, "utf-8");
+    // Fields after the parenthesised command name, which may contain spaces
+    const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+    const status = fs.readFileSync(`/proc/${pid}/status`, "utf-8");
+    const rssKB = parseInt(status.match(/^VmRSS:\s+(\d+)/m)?.[1] ?? "0", 10);
+    return {
+      cpuTicks: parseInt(fields[11], 10) + parseInt(fields[12], 10),
+      startedAt: readBootTime() + (parseInt(fields[19], 10) / CLOCK_TICKS) * 1000,
+      rssMB: Math.round(rssKB / 1024),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function readArgv(pid: number): string[] {
+  try {
+    return fs.readFileSync(`/proc/${pid}/cmdline`, "utf-8").split("\0").filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+function readCwd(pid: number): string | undefined {
+  try {
+    return fs.readlinkSync(`/proc/${pid}/cwd`);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Transcripts the process holds open (the CLI appends without keeping them open, so often none) */
+function readOpenTranscripts(pid: number): string[] {
+  try {
+    const files: string[] = [];
+    for (const fd of fs.readdirSync(`/proc/${pid}/fd`)) {
+      try {
+        const target = fs.readlinkSync(`/proc/${pid}/fd/${fd}`);
+        if (target.startsWith(PROJECTS_DIR + path.sep) && target.endsWith(".jsonl")) files.push(target);
+      } catch { /* fd closed meanwhile */ }
+    }
+    return files;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Record a CPU/RSS sample, at most one per sample interval. CPU is the share
+ * since the previous sample, or over the process lifetime for the first one.
+ */
+export function sampleProcess(pid: number, stat: ProcStat, now: number): ProcessSample {
+  const history = histories.get(pid) ?? [];
+  const last = history[history.length - 1];
+  if (last && now - last.timestamp < SAMPLE_INTERVAL_MS) return { ...last, rssMB: stat.rssMB };
+
+  const prev = lastCpu.get(pid) ?? { cpuTicks: 0, at: stat.startedAt };
+  const elapsed = Math.max(now - prev.at, 1);
+  const cpuPercent = Math.round((((stat.cpuTicks - prev.cpuTicks) / CLOCK_TICKS) * 1000 / elapsed) * 1000) / 10;
+  lastCpu.set(pid, { cpuTicks: stat.cpuTicks, at: now });
+
+  const entry = { timestamp: now, cpuPercent: Math.max(cpuPercent, 0), rssMB: stat.rssMB };
+  history.push(entry);
+  if (history.length > HISTORY_LIMIT) history.splice(0, history.length - HISTORY_LIMIT);
+  histories.set(pid, history);
+  return entry;
+}
+
+function transcriptPath(project: string, sessionId: string): string {
+  return path.join(PROJECTS_DIR, project, `${sessionId}.jsonl`);
+}
+
+/** Newest transcript in a project directory written since `since` and not taken by another process */
+function newestTranscript(project: string, since: number, taken: Set<string>): string | null {
+  const dir = path.join(PROJECTS_DIR, project);
+  let best: { id: string; mtime: number } | null = null;
+  try {
+    for (const name of fs.readdirSync(dir)) {
+      if (!name.endsWith(".jsonl")) continue;
+      const id = name.slice(0, -".jsonl".length);
+      if (taken.has(id)) continue;
+      const mtime = fs.statSync(path.join(dir, name)).mtimeMs;
+      if (mtime >= since && (!best || mtime > best.mtime)) best = { id, mtime };
+    }
+  } catch { /* no transcripts for this directory yet */ }
+  return best?.id ?? null;
+}
+
+/** Fill in cwd, session and resource usage for CLI processes */
+function attachSessions(processes: ProcessInfo[], now = Date.now()): void {
+  const pending: { proc: ProcessInfo; startedAt: number }[] = [];
+  const taken = new Set<string>();
+  const alive = new Set<number>();
+
+  for (const proc of processes) {
+    const argv = readArgv(proc.pid);
+    if (!isClaudeCli(argv)) continue;
+    const stat = readProcStat(proc.pid);
+    if (!stat) continue;
+    alive.add(proc.pid);
+
+    const usage = sampleProcess(proc.pid, stat, now);
+    proc.cpuPercent = usage.cpuPercent;
+    proc.rssMB = stat.rssMB;
+    proc.cwd = readCwd(proc.pid);
+    const project = proc.cwd ? encodeProjectPath(proc.cwd) : undefined;
+
+    const open = readOpenTranscripts(proc.pid)[0];
+    const args = parseSessionArgs(argv);
+    if (open) {
+      proc.project = path.basename(path.dirname(open));
+      proc.sessionId = path.basename(open, ".jsonl");
+      proc.matchedBy = "fd";
+    } else if (project && args.sessionId && fs.existsSync(transcriptPath(project, args.sessionId))) {
+      proc.project = project;
+      proc.sessionId = args.sessionId;
+      proc.matchedBy = "session-id";
+    } else if (project && args.resume && fs.existsSync(transcriptPath(project, args.resume))) {
+      proc.project = project;
+      proc.sessionId = args.resume;
+      proc.matchedBy = "resume";
+    } else {
+      pending.push({ proc, startedAt: stat.startedAt });
+    }
+    if (proc.sessionId) taken.add(proc.sessionId);
+  }
+
+  // Newest processes first: they own the most recently written transcripts
+  pending.sort((a, b) => b.startedAt - a.startedAt);
+  for (const { proc, startedAt } of pending) {
+    if (!proc.cwd) continue;
+    const project = encodeProjectPath(proc.cwd);
+    const id = newestTranscript(project, startedAt, taken);
+    if (!id) continue;
+    proc.project = project;
+    proc.sessionId = id;
+    proc.matchedBy = "cwd";
+    taken.add(id);
+  }
+
+  for (const pid of histories.keys()) {
+    if (!alive.has(pid)) {
+      histories.delete(pid);
+      lastCpu.delete(pid);
+    }
+  }
+}
+
+/** CPU/RSS samples of a process, oldest first */
+export function getProcessHistory(pid: number): ProcessSample[] {
+  return histories.get(pid) ?? [];
+}
+
+/** The CLI process writing a session, if one is running (Linux only) */
+export function getSessionProcess(project: string, sessionId: string): ProcessInfo | null {
+  if (os.platform() !== "linux") return null;
+  return getClaudeProcesses().find((p) => p.project === project && p.sessionId === sessionId) ?? null;
+}
+
+/** Signal the process writing a session. Returns the signalled pid, or null when none runs. */
+export function stopSessionProcess(project: string, sessionId: string, signal: StopSignal): number | null {
+  const proc = getSessionProcess(project, sessionId);
+  if (!proc) return null;
+  process.kill(proc.pid, signal);
+  return proc.pid;
+}
+
+// ---- Sampler ----
+
+let samplerInterval: ReturnType<typeof setInterval> | null = null;
+
+/** Keep CPU/RSS history current without an open page (Linux only, idempotent) */
+export function startProcessSampler(): void {
+  if (samplerInterval || os.platform() !== "linux") return;
+  samplerInterval = setInterval(() => getClaudeProcesses(), SAMPLE_INTERVAL_MS);
+  samplerInterval.unref?.();
+}
+
+export function stopProcessSampler(): void {
+  if (samplerInterval) {
+    clearInterval(samplerInterval);
+    samplerInterval = null;
+  }
+}
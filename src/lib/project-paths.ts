@@ -0,0 +1,244 @@
+/**
+ * Project Paths - the real directory behind each ~/.claude/projects entry.
+ *
+ * Entry names are the launch directory with every non-alphanumeric character
+ * replaced by "-", which cannot be reversed: "-home-me-my-app" may be
+ * /home/me/my-app or /home/me/my/app. The `cwd` recorded on session lines is
+ * authoritative, so a project resolves to the cwd of its latest session; only
+ * projects without one fall back to matching the name against the disk.
+ *
+ * Resolved paths are cached in scc-dashboard.db together with the repo's git
+ * remote, so a project whose directory has disappeared can still be matched
+ * to where it went: the project with the same remote (moved or renamed repo),
+ * or else the only one with the same directory name (moved).
+ */
+
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { getProjectCwds } from "./session-index";
+
+const PROJECTS_DIR = path.join(os.homedir(), ".claude", "projects");
+const DB_PATH = path.join(os.homedir(), ".claude", "scc-dashboard.db");
+
+const REFRESH_INTERVAL_MS = 5000;
+/** Separators a "-" in an entry name may stand for, most common first */
+const NAME_SEPARATORS = ["-", ".", "_", " "];
+
+// ---- Types ----
+
+export interface ProjectPath {
+  /** Entry name under ~/.claude/projects */
+  project: string;
+  path: string;
+  /** Taken from a session's cwd rather than guessed from the name */
+  fromCwd: boolean;
+  exists: boolean;
+  /** Normalized origin URL, e.g. github.com/me/app */
+  gitRemote?: string;
+  /** Project now holding this one's sessions, when the directory moved */
+  movedTo?: string;
+}
+
+interface ProjectPathRow {
+  project: string;
+  path: string;
+  from_cwd: number;
+  git_remote: string | null;
+  last_active: number;
+}
+
+// ---- Database ----
+
+let _db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!_db) {
+    _db = new Database(DB_PATH);
+    _db.pragma("journal_mode = WAL");
+    _db.exec(`
+      CREATE TABLE IF NOT EXISTS project_paths (
+        project TEXT PRIMARY KEY,
+        path TEXT NOT NULL,
+        from_cwd INTEGER NOT NULL DEFAULT 0,
+        git_remote TEXT,
+        last_active REAL NOT NULL DEFAULT 0
+      )
+    `);
+  }
+  return _db;
+}
+
+// ---- Decoding ----
+
+/** Naive decoding: every "-" is a path separator */
+function naiveDecode(entry: string): string {
+  if (/^[A-Za-z]--/.test(entry)) return entry.replace(/^([A-Za-z])--/, "$1:/").replace(/-/g, "/");
+  return "/" + entry.replace(/^-/, "").replace(/-/g, "/");
+}
+
+/**
+ * Find an existing directory whose encoding is `entry`, trying each "-" as a
+ * separator or as part of a name. Null when nothing on disk matches.
+ */
+export function guessProjectPath(entry: string): string | null {
+  const drive = entry.match(/^([A-Za-z])--/);
+  const root = drive ? `${drive[1]}:/` : "/";
+  const tokens = (drive ? entry.slice(3) : entry.replace(/^-/, "")).split("-");
+
+  const walk = (dir: string, rest: string[]): string | null => {
+    if (rest.length === 0) return dir;
+    // An empty token is a "." starting a hidden name: "me--config" is "me/.config"
+    const hidden = rest[0] === "" && rest.length > 1;
+    const parts = hidden ? rest.slice(1) : rest;
+    for (let take = parts.length; take >= 1; take--) {
+      for (const sep of take === 1 ? [""] : NAME_SEPARATORS) {
+        const candidate = path.join(dir, (hidden ? "." : "") + parts.slice(0, take).join(sep));
+        try {
+          if (!fs.statSync(candidate).isDirectory()) continue;
+        } catch { continue; }
+        const found = walk(candidate, parts.slice(take));
+        if (found) return found;
+      }
+    }
+    return null;
+  };
+  return tokens.length === 1 && tokens[0] === "" ? root : walk(root, tokens);
+}
+
+/** Best-effort path for an entry with no recorded cwd */
+export function decodeProjectDir(entry: string): string {
+  return guessProjectPath(entry) ?? naiveDecode(entry);
+}
+
+// ---- Git remotes ----
+
+/** "git@github.com:me/app.git" and "https://github.com/me/app" both become "github.com/me/app" */
+export function normalizeGitRemote(url: string): string {
+  return url.trim()
+    .replace(/^[a-z+]+:\/\//i, "")
+    .replace(/^[^@/]+@/, "")
+    .replace(/^([^/:]+):(?!\d)/, "$1/")
+    .replace(/\.git$/, "")
+    .replace(/\/+$/, "")
+    .toLowerCase();
+}
+
+/** Origin remote of the repository containing `dir` */
+function readGitRemote(dir: string): string | undefined {
+  for (let d = dir; ; d = path.dirname(d)) {
+    const gitPath = path.join(d, ".git");
+    try {
+      let gitDir = gitPath;
+      if (fs.statSync(gitPath).isFile()) {
+        // Worktrees and submodules point at the real git dir
+        const target = fs.readFileSync(gitPath, "utf-8").match(/^gitdir:\s*(.+)$/m)?.[1];
+        if (!target) return undefined;
+        gitDir = path.resolve(d, target.trim());
+        const common = path.join(gitDir, "commondir");
+        if (fs.existsSync(common)) gitDir = path.resolve(gitDir, fs.readFileSync(common, "utf-8").trim());
+      }
+      const config = fs.readFileSync(path.join(gitDir, "config"), "utf-8");
+      const url = config.match(/\[remote "origin"\][^[]*?^\s*url\s*=\s*(.+)$/m)?.[1];
+      return url ? normalizeGitRemote(url) : undefined;
+    } catch { /* not here, look further up */ }
+    if (path.dirname(d) === d) return undefined;
+  }
+}
+
+const remotes = new Map<string, string | undefined>();
+
+/** Origin remote of the repository containing `dir`, looked up once per directory */
+export function gitRemoteFor(dir: string): string | undefined {
+  if (!remotes.has(dir)) remotes.set(dir, readGitRemote(dir));
+  return remotes.get(dir);
+}
+
+// ---- Resolution ----
+
+let cache: Map<string, ProjectPath> | null = null;
+let cachedAt = 0;
+
+function listProjectEntries(): string[] {
+  try {
+    return fs.readdirSync(PROJECTS_DIR).filter((e) => {
+      try { return fs.statSync(path.join(PROJECTS_DIR, e)).isDirectory(); } catch { return false; }
+    });
+  } catch { return []; }
+}
+
+/** Point each project whose directory is gone at the project that took its place */
+function detectMoves(paths: Map<string, ProjectPath>, lastActive: Map<string, number>): void {
+  const live = [...paths.values()].filter((p) => p.exists);
+  for (const p of paths.values()) {
+    if (p.exists || !p.fromCwd) continue;
+    const newer = (q: ProjectPath) => q.project !== p.project && (lastActive.get(q.project) ?? 0) >= (lastActive.get(p.project) ?? 0);
+    const byRemote = p.gitRemote ? live.filter((q) => newer(q) && q.gitRemote === p.gitRemote) : [];
+    const byName = live.filter((q) => newer(q) && path.basename(q.path) === path.basename(p.path));
+    const match = byRemote.length > 0
+      ? byRemote.sort((a, b) => (lastActive.get(b.project) ?? 0) - (lastActive.get(a.project) ?? 0))[0]
+      : byName.length === 1 ? byName[0] : undefined;
+    if (match) p.movedTo = match.project;
+  }
+}
+
+/** Every Claude project with its real path, refreshed at most every few seconds */
+export function getProjectPaths(): Map<string, ProjectPath> {
+  if (cache && Date.now() - cachedAt < REFRESH_INTERVAL_MS) return cache;
+
+  const db = getDb();
+  const stored = new Map(
+    (db.prepare("SELECT * FROM project_paths").all() as ProjectPathRow[]).map((r) => [r.project, r]),
+  );
+  const cwds = new Map(getProjectCwds().map((c) => [c.project, c]));
+  const paths = new Map<string, ProjectPath>();
+  const lastActive = new Map<string, number>();
+
+  for (const project of new Set([...listProjectEntries(), ...cwds.keys()])) {
+    const prev = stored.get(project);
+    const cwd = cwds.get(project);
+    // A recorded cwd beats the cache, and the cache beats guessing
+    const resolved = cwd?.cwd ?? (prev?.from_cwd ? prev.path : decodeProjectDir(project));
+    const fromCwd = Boolean(cwd) || Boolean(prev?.from_cwd);
+    let exists = false;
+    try { exists = fs.statSync(resolved).isDirectory(); } catch { /* gone */ }
+    // Keep the last known remote: it identifies the repo after it moved
+    const known = prev?.path === resolved ? prev.git_remote ?? undefined : undefined;
+    const gitRemote = exists ? known ?? readGitRemote(resolved) : known;
+    paths.set(project, { project, path: resolved, fromCwd, exists, gitRemote });
+    lastActive.set(project, cwd?.lastActive ?? prev?.last_active ?? 0);
+  }
+  detectMoves(paths, lastActive);
+
+  const upsert = db.prepare(`
+    INSERT OR REPLACE INTO project_paths (project, path, from_cwd, git_remote, last_active) VALUES (?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    for (const p of paths.values()) {
+      upsert.run(p.project, p.path, p.fromCwd ? 1 : 0, p.gitRemote ?? null, lastActive.get(p.project) ?? 0);
+    }
+  })();
+
+  cache = paths;
+  cachedAt = Date.now();
+  return paths;
+}
+
+/** Real path of a Claude project entry */
+export function projectPathFor(project: string): string {
+  return getProjectPaths().get(project)?.path ?? decodeProjectDir(project);
+}
+
+/** Where a moved project's sessions belong now, following chains of moves */
+export function canonicalProject(project: string, paths = getProjectPaths()): string {
+  const seen = new Set<string>();
+  let current = project;
+  while (!seen.has(current)) {
+    seen.add(current);
+    const next = paths.get(current)?.movedTo;
+    if (!next) break;
+    current = next;
+  }
+  return current;
+}
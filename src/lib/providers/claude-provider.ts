@@ -120,8 +120,11 @@ export class ClaudeProvider implements CliProvider {
       if (type === "system" || type === "assistant" || type === "result" || type === "error") {
         return { type, raw: parsed };
       }
+      if (type === "rate_limit_event") {
+        return { type: "rate_limit", raw: parsed };
+      }
 
-      // Skip non-essential events (rate_limit_event, etc.)
+      // Skip other non-essential events
       return null;
     } catch {
       return null;
@@ -0,0 +1,179 @@
+import { execSync } from "child_process";
+import { existsSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import type {
+  CliProvider,
+  ProviderCapabilities,
+  ProviderEvent,
+  SpawnOptions,
+} from "./provider-interface";
+
+/** Find gemini executable */
+function findGeminiBinary(): string {
+  const exe = process.platform === "win32" ? "gemini.cmd" : "gemini";
+  // Check common install locations
+  const localBin = join(homedir(), ".local", "bin", exe);
+  if (existsSync(localBin)) return localBin;
+  const npmGlobal = join(homedir(), ".npm-global", "bin", exe);
+  if (existsSync(npmGlobal)) return npmGlobal;
+  return "gemini";
+}
+
+export class GeminiProvider implements CliProvider {
+  readonly name = "gemini";
+  readonly displayName = "Gemini CLI";
+
+  isAvailable(): boolean {
+    const binary = findGeminiBinary();
+    if (binary === "gemini") {
+      // PATH fallback — check if it actually exists via common paths
+      try {
+        const which = process.platform === "win32" ? "where" : "which";
+        execSync(`${which} gemini`, { stdio: "ignore" });
+        return true;
+      } catch {
+        return false;
+      }
+    }
+    return existsSync(binary);
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      streaming: true,
+      thinking: false,
+      toolUse: true,
+      models: ["gemini-2.5-pro", "gemini-2.5-flash", "gemini-2.5-flash-lite", "gemini-3-pro-preview"],
+    };
+  }
+
+  buildCommand(
+    prompt: string,
+    options: SpawnOptions
+  ): { binary: string; args: string[]; env: Record<string, string | undefined> } {
+    const binary = findGeminiBinary();
+    // Headless mode: gemini --output-format stream-json [options] --prompt "prompt"
+    const args: string[] = ["--output-format", "stream-json"];
+
+    if (options.sessionId && typeof options.sessionId === "string" && options.sessionId.trim()) {
+      args.push("--resume", options.sessionId.trim());
+    }
+
+    // Approval mode mapping; the default mode refuses tools that need approval
+    if (options.permissionMode === "trust") {
+      args.push("--approval-mode", "yolo");
+    } else if (options.permissionMode === "acceptEdits") {
+      args.push("--approval-mode", "auto_edit");
+    }
+
+    if (options.model) {
+      args.push("--model", options.model);
+    }
+
+    args.push("--prompt", prompt);
+
+    const env: Record<string, string | undefined> = { ...process.env };
+
+    return { binary, args, env };
+  }
+
+  parseEvent(line: string): ProviderEvent | null {
+    const trimmed = line.trim();
+    if (!trimmed) return null;
+
+    try {
+      const parsed = JSON.parse(trimmed);
+      const geminiType = parsed.type as string;
+
+      // Gemini stream-json event types:
+      // init, message, tool_use, tool_result, error, result
+
+      if (geminiType === "init") {
+        // Map to system init event
+        return {
+          type: "system",
+          raw: {
+            type: "system",
+            session_id: parsed.session_id,
+            model: parsed.model,
+          },
+        };
+      }
+
+      if (geminiType === "message") {
+        if (parsed.role !== "assistant") return null;
+        // Streamed text arrives in chunks; deltas are appended, not replaced
+        if (parsed.delta) {
+          return {
+            type: "assistant",
+            raw: {
+              type: "content_block_delta",
+              delta: { type: "text_delta", text: parsed.content || "" },
+            },
+          };
+        }
+        return {
+          type: "assistant",
+          raw: {
+            type: "assistant",
+            message: {
+              content: [{ type: "text", text: parsed.content || "" }],
+            },
+          },
+        };
+      }
+
+      if (geminiType === "tool_use") {
+        return {
+          type: "assistant",
+          raw: {
+            type: "assistant",
+            message: {
+              content: [
+                {
+                  type: "tool_use",
+                  id: parsed.tool_id,
+                  name: parsed.tool_name || "tool",
+                  input: parsed.parameters || {},
+                },
+              ],
+            },
+          },
+        };
+      }
+
+      if (geminiType === "error") {
+        // Warnings (e.g. loop detection) don't end the turn
+        if (parsed.severity === "warning") return null;
+        return { type: "error", raw: { type: "error", error: parsed.message || "Gemini error" } };
+      }
+
+      if (geminiType === "result") {
+        if (parsed.status === "error") {
+          return { type: "error", raw: { type: "error", error: parsed.error?.message || "Gemini error" } };
+        }
+        const stats = parsed.stats;
+        return {
+          type: "result",
+          raw: {
+            type: "result",
+            result: "",
+            duration_ms: stats?.duration_ms,
+            usage: stats ? {
+              input_tokens: stats.input_tokens,
+              output_tokens: stats.output_tokens,
+              cache_read_input_tokens: stats.cached,
+            } : undefined,
+          },
+        };
+      }
+
+      // Skip: user messages, tool_result
+      return null;
+    } catch {
+      // Not JSON — startup notices such as "Loaded cached credentials."
+      return null;
+    }
+  }
+}
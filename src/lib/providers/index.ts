@@ -7,4 +7,5 @@ export type {
 } from "./provider-interface";
 export { ClaudeProvider } from "./claude-provider";
 export { CodexProvider } from "./codex-provider";
+export { GeminiProvider } from "./gemini-provider";
 export { registry } from "./provider-registry";
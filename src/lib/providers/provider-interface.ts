@@ -19,7 +19,8 @@ export interface ProviderCapabilities {
 
 /** Normalized event emitted from a provider's stdout stream */
 export interface ProviderEvent {
-  type: "system" | "assistant" | "result" | "error";
+  /** "rate_limit" reports the plan's usage window state, not model output */
+  type: "system" | "assistant" | "result" | "error" | "rate_limit";
   /** Raw parsed JSON from the CLI line */
   raw: Record<string, unknown>;
 }
@@ -37,7 +38,7 @@ export interface SpawnResult {
  * with a specific AI CLI tool (Claude, Codex, etc.).
  */
 export interface CliProvider {
-  /** Unique identifier, e.g. "claude" or "codex" */
+  /** Unique identifier, e.g. "claude", "codex" or "gemini" */
   readonly name: string;
   /** Human-readable name, e.g. "Claude Code" */
   readonly displayName: string;
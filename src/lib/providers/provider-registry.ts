@@ -1,6 +1,7 @@
 import type { CliProvider } from "./provider-interface";
 import { ClaudeProvider } from "./claude-provider";
 import { CodexProvider } from "./codex-provider";
+import { GeminiProvider } from "./gemini-provider";
 
 class ProviderRegistry {
   private providers = new Map<string, CliProvider>();
@@ -35,6 +36,7 @@ class ProviderRegistry {
 const registry = new ProviderRegistry();
 registry.register(new ClaudeProvider());
 registry.register(new CodexProvider());
+registry.register(new GeminiProvider());
 
 export { registry };
 export type { ProviderRegistry };
@@ -0,0 +1,230 @@
+/**
+ * Rate Limits - plan usage window state reported by the CLI during chat and
+ * queued runs (`rate_limit_event` in Claude's stream-json output).
+ *
+ * Every reported state is logged so throttling can be lined up against
+ * slowdowns and spend. The first warning or rejection in a window is
+ * published once as `rate_limit.hit` on the event bus; the router below turns
+ * it into a dashboard notification. The log lives in scc-dashboard.db.
+ */
+
+import Database from "better-sqlite3";
+import path from "path";
+import os from "os";
+import { rateLimitLabel } from "./chat-types";
+import type { RateLimitInfo, RateLimitStatus } from "./chat-types";
+import { eventBus } from "./event-bus";
+import type { EventMap } from "./event-bus";
+import { addNotification } from "./event-bus/notification-queue";
+
+const DB_PATH = path.join(os.homedir(), ".claude", "scc-dashboard.db");
+
+const DAY_MS = 86_400_000;
+/** Events older than this are pruned on insert */
+const RETENTION_DAYS = 90;
+/** Alert episode length when the CLI reports no reset time */
+const FALLBACK_WINDOW_MS = 5 * 3_600_000;
+
+// ---- Types ----
+
+export type RateLimitHit = EventMap["rate_limit.hit"];
+
+export interface RateLimitContext {
+  source: RateLimitHit["source"];
+  provider: string;
+  sessionId?: string;
+}
+
+export interface RateLimitEvent extends RateLimitInfo {
+  at: number;
+  provider: string;
+  source: RateLimitHit["source"];
+  sessionId: string;
+}
+
+export interface RateLimitDay {
+  /** UTC date, YYYY-MM-DD */
+  date: string;
+  allowed: number;
+  warnings: number;
+  rejections: number;
+  /** Highest reported utilization that day, 0-1 */
+  peakUtilization: number | null;
+}
+
+export interface RateLimitOverview {
+  /** Latest state of each window that has not reset since */
+  current: RateLimitEvent[];
+  history: RateLimitDay[];
+  /** Most recent warnings and rejections, newest first */
+  recent: RateLimitEvent[];
+}
+
+interface RateLimitRow {
+  at: number;
+  provider: string;
+  source: RateLimitHit["source"];
+  session_id: string;
+  status: RateLimitStatus;
+  limit_type: string;
+  resets_at: number | null;
+  utilization: number | null;
+  using_overage: number;
+}
+
+// ---- Database ----
+
+let _db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!_db) {
+    _db = new Database(DB_PATH);
+    _db.pragma("journal_mode = WAL");
+    _db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        at INTEGER NOT NULL,
+        provider TEXT NOT NULL,
+        source TEXT NOT NULL,
+        session_id TEXT DEFAULT '',
+        status TEXT NOT NULL,
+        limit_type TEXT DEFAULT '',
+        resets_at INTEGER,
+        utilization REAL,
+        using_overage INTEGER DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS idx_rate_limit_events_at ON rate_limit_events(at);
+      CREATE TABLE IF NOT EXISTS rate_limit_alert_log (
+        limit_type TEXT PRIMARY KEY,
+        episode TEXT NOT NULL,
+        alerted_at INTEGER NOT NULL
+      );
+    `);
+  }
+  return _db;
+}
+
+function rowToEvent(r: RateLimitRow): RateLimitEvent {
+  return {
+    at: r.at,
+    provider: r.provider,
+    source: r.source,
+    sessionId: r.session_id,
+    status: r.status,
+    limitType: r.limit_type,
+    resetsAt: r.resets_at,
+    utilization: r.utilization,
+    usingOverage: r.using_overage === 1,
+  };
+}
+
+// ---- Recording ----
+
+/** Record an alert; false when this window and status were already reported */
+function claimAlert(info: RateLimitInfo, now: number): boolean {
+  const db = getDb();
+  const episode = `${info.status}:${info.resetsAt ?? Math.floor(now / FALLBACK_WINDOW_MS)}`;
+  const row = db.prepare("SELECT episode FROM rate_limit_alert_log WHERE limit_type = ?")
+    .get(info.limitType) as { episode: string } | undefined;
+  if (row?.episode === episode) return false;
+  db.prepare("INSERT OR REPLACE INTO rate_limit_alert_log (limit_type, episode, alerted_at) VALUES (?, ?, ?)")
+    .run(info.limitType, episode, now);
+  return true;
+}
+
+/** Log a reported rate limit state and publish the first warning or rejection of each window */
+export function recordRateLimit(info: RateLimitInfo, ctx: RateLimitContext, now = Date.now()): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO rate_limit_events (
+      at, provider, source, session_id, status, limit_type, resets_at, utilization, using_overage
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    now, ctx.provider, ctx.source, ctx.sessionId ?? "", info.status, info.limitType,
+    info.resetsAt, info.utilization, info.usingOverage ? 1 : 0,
+  );
+  db.prepare("DELETE FROM rate_limit_events WHERE at < ?").run(now - RETENTION_DAYS * DAY_MS);
+
+  if (info.status !== "allowed" && claimAlert(info, now)) {
+    eventBus.emit("rate_limit.hit", {
+      status: info.status,
+      limitType: info.limitType,
+      resetsAt: info.resetsAt,
+      utilization: info.utilization,
+      provider: ctx.provider,
+      source: ctx.source,
+    });
+  }
+}
+
+// ---- Queries ----
+
+/** Current window states, daily throttling counts for the last `days` days and recent limited events */
+export function getRateLimitOverview(days = 14, now = Date.now()): RateLimitOverview {
+  const db = getDb();
+  const since = Math.floor(now / DAY_MS) * DAY_MS - (days - 1) * DAY_MS;
+  const events = (db.prepare("SELECT * FROM rate_limit_events WHERE at >= ? ORDER BY at")
+    .all(since) as RateLimitRow[]).map(rowToEvent);
+
+  const history = new Map<string, RateLimitDay>();
+  for (let t = since; t <= now; t += DAY_MS) {
+    const date = new Date(t).toISOString().split("T")[0];
+    history.set(date, { date, allowed: 0, warnings: 0, rejections: 0, peakUtilization: null });
+  }
+  for (const e of events) {
+    const day = history.get(new Date(e.at).toISOString().split("T")[0]);
+    if (!day) continue;
+    if (e.status === "rejected") day.rejections++;
+    else if (e.status === "allowed_warning") day.warnings++;
+    else day.allowed++;
+    if (e.utilization !== null) day.peakUtilization = Math.max(day.peakUtilization ?? 0, e.utilization);
+  }
+
+  // Latest state per window, across all time so a quiet week still shows an open rejection
+  const latest = db.prepare(`
+    SELECT e.* FROM rate_limit_events e
+    JOIN (SELECT limit_type, MAX(id) AS id FROM rate_limit_events GROUP BY limit_type) l ON l.id = e.id
+    ORDER BY e.at DESC
+  `).all() as RateLimitRow[];
+  const current = latest.map(rowToEvent).filter((e) => e.resetsAt === null ? now - e.at < FALLBACK_WINDOW_MS : e.resetsAt > now);
+
+  const recent = (db.prepare("SELECT * FROM rate_limit_events WHERE status != 'allowed' ORDER BY at DESC LIMIT 20")
+    .all() as RateLimitRow[]).map(rowToEvent);
+
+  return { current, history: [...history.values()], recent };
+}
+
+// ---- Alerting ----
+
+export function rateLimitText(hit: Pick<RateLimitHit, "status" | "limitType" | "resetsAt" | "utilization">): string {
+  const window = `${rateLimitLabel(hit.limitType)} limit`;
+  const used = hit.utilization !== null ? ` (${Math.round(hit.utilization * 100)}% used)` : "";
+  const resets = hit.resetsAt ? `; resets ${new Date(hit.resetsAt).toLocaleString()}` : "";
+  return hit.status === "rejected"
+    ? `Requests are being rejected by the ${window}${used}${resets}`
+    : `Approaching the ${window}${used}${resets}`;
+}
+
+let unsubscribeRouter: (() => void) | null = null;
+
+/** Route rate limit hits to dashboard notifications (idempotent) */
+export function startRateLimitAlerts(): void {
+  if (unsubscribeRouter) return;
+  unsubscribeRouter = eventBus.on("rate_limit.hit", (hit) => {
+    try {
+      addNotification(
+        "system",
+        hit.status === "rejected" ? `${rateLimitLabel(hit.limitType)} rate limit reached` : `${rateLimitLabel(hit.limitType)} rate limit warning`,
+        `${rateLimitText(hit)} (${hit.provider} ${hit.source} run)`,
+        { source: "rate-limit", meta: { ...hit } },
+      );
+    } catch (err) {
+      console.error("[RateLimits] Failed to route alert:", err);
+    }
+  });
+}
+
+export function stopRateLimitAlerts(): void {
+  unsubscribeRouter?.();
+  unsubscribeRouter = null;
+}
@@ -0,0 +1,163 @@
+/**
+ * Redaction - masks credentials and personal details in transcript text
+ * before it leaves the machine.
+ *
+ * Pure module: the home directory is passed in by the caller.
+ */
+
+// ---- Types ----
+
+export type RedactionKind = "api-key" | "token" | "email" | "home-path";
+
+export interface RedactionRule {
+  id: string;
+  kind: RedactionKind;
+  label: string;
+  /** Global regex; the value to mask is capture group 1 when present, else the whole match */
+  pattern: RegExp;
+}
+
+export interface RedactOptions {
+  /** Home directory to replace with `~` */
+  home?: string;
+}
+
+// ---- Rules ----
+
+export const REDACTION_RULES: RedactionRule[] = [
+  { id: "anthropic-key", kind: "api-key", label: "Anthropic API key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { id: "openai-key", kind: "api-key", label: "OpenAI API key", pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { id: "aws-access-key", kind: "api-key", label: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { id: "google-key", kind: "api-key", label: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { id: "github-token", kind: "token", label: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/g },
+  { id: "slack-token", kind: "token", label: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { id: "jwt", kind: "token", label: "JSON Web Token", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { id: "private-key", kind: "token", label: "Private key", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { id: "bearer", kind: "token", label: "Bearer token", pattern: /\bBearer\s+([A-Za-z0-9._~+/-]{16,}=*)/g },
+  {
+    id: "secret-assignment", kind: "token", label: "Secret assignment",
+    pattern: /\b[A-Za-z_]*(?:api[_-]?key|secret|token|password|passwd)[A-Za-z_]*["']?\s*[:=]\s*["']?(?!\[REDACTED)([^\s"'`,;]{8,})/gi,
+  },
+  { id: "email", kind: "email", label: "Email address", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+];
+
+/** Generic user directories, for paths from other machines or accounts */
+const HOME_PATTERN = /(?:\/home\/|\/Users\/|[A-Za-z]:\\Users\\)[^/\\\s"'`]+/g;
+
+function mask(kind: RedactionKind): string {
+  return `[REDACTED:${kind}]`;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** The forms a home directory takes in transcripts: native, slash-normalized, and as a project directory name */
+function homeVariants(home: string): string[] {
+  const trimmed = home.replace(/[\\/]+$/, "");
+  if (!trimmed) return [];
+  const variants = new Set([
+    trimmed,
+    trimmed.replace(/\\/g, "/"),
+    trimmed.replace(/[^a-zA-Z0-9]/g, "-"),
+  ]);
+  return [...variants].sort((a, b) => b.length - a.length);
+}
+
+/** Mask every rule match, then shorten home directories to `~` */
+export function redactText(text: string, opts: RedactOptions = {}): string {
+  let out = text;
+  for (const rule of REDACTION_RULES) {
+    out = out.replace(rule.pattern, (match: string, group?: unknown) =>
+      typeof group === "string" && group ? match.replace(group, mask(rule.kind)) : mask(rule.kind));
+  }
+  for (const variant of homeVariants(opts.home ?? "")) {
+    out = out.replace(new RegExp(escapeRegExp(variant), "g"), "~");
+  }
+  return out.replace(HOME_PATTERN, "~");
+}
+
+// ---- Secret detection ----
+
+export interface SecretMatch {
+  ruleId: string;
+  kind: RedactionKind;
+  label: string;
+  /** The secret itself, without surrounding context such as `Bearer ` */
+  value: string;
+  index: number;
+}
+
+/** Rules precise enough to flag on their own */
+const SECRET_RULES = REDACTION_RULES.filter((r) => (r.kind === "api-key" || r.kind === "token") && r.id !== "secret-assignment");
+/** `password=...` style assignments: checked last, so any more specific match wins */
+const ASSIGNMENT_RULE = REDACTION_RULES.find((r) => r.id === "secret-assignment")!;
+/** Assigned values that are code rather than a literal: calls, templates, variables */
+const CODE_VALUE = /[(){}[\]$]/;
+
+/** Standalone base64/base62-looking runs; longer runs are usually images or signatures */
+const ENTROPY_CANDIDATE = /(?<![A-Za-z0-9+/=_-])[A-Za-z0-9+/_-]{24,100}={0,2}(?![A-Za-z0-9+/=_-])/g;
+const MIN_ENTROPY_BITS = 3.8;
+
+export const HIGH_ENTROPY_RULE_ID = "high-entropy";
+
+/** Shannon entropy in bits per character */
+export function shannonEntropy(s: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of s) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let bits = 0;
+  for (const n of counts.values()) {
+    const p = n / s.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/** Random-looking token: mixed case and digits, not a hash, uuid or path */
+function looksRandom(s: string): boolean {
+  if (/^[0-9a-f-]+$/i.test(s)) return false;
+  if ((s.match(/\//g) ?? []).length >= 2) return false;
+  if (!/[a-z]/.test(s) || !/[A-Z]/.test(s) || !/[0-9]/.test(s)) return false;
+  return shannonEntropy(s) >= MIN_ENTROPY_BITS;
+}
+
+/** Credentials in `text`, in order of appearance; earlier rules win overlaps */
+export function findSecrets(text: string): SecretMatch[] {
+  const found: SecretMatch[] = [];
+  const overlaps = (start: number, end: number) =>
+    found.some((m) => start < m.index + m.value.length && m.index < end);
+
+  for (const rule of SECRET_RULES) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const value = match[1] ?? match[0];
+      const index = match.index + (match[1] ? match[0].indexOf(match[1]) : 0);
+      if (!overlaps(index, index + value.length)) {
+        found.push({ ruleId: rule.id, kind: rule.kind, label: rule.label, value, index });
+      }
+    }
+  }
+  for (const match of text.matchAll(ENTROPY_CANDIDATE)) {
+    const value = match[0];
+    if (looksRandom(value) && !overlaps(match.index, match.index + value.length)) {
+      found.push({ ruleId: HIGH_ENTROPY_RULE_ID, kind: "token", label: "High-entropy string", value, index: match.index });
+    }
+  }
+  for (const match of text.matchAll(ASSIGNMENT_RULE.pattern)) {
+    const value = match[1];
+    const index = match.index + match[0].indexOf(value);
+    if (!CODE_VALUE.test(value) && !overlaps(index, index + value.length)) {
+      found.push({ ruleId: ASSIGNMENT_RULE.id, kind: ASSIGNMENT_RULE.kind, label: ASSIGNMENT_RULE.label, value, index });
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Mask for a secret: the labelled mask, or the plain `[REDACTED]` when the
+ * labelled one would be longer than the secret. Short secrets can still end
+ * up the same length or longer, so callers must not rely on the text shrinking.
+ */
+export function secretMask(match: SecretMatch): string {
+  const full = mask(match.kind);
+  return full.length < match.value.length ? full : "[REDACTED]";
+}
@@ -0,0 +1,394 @@
+/**
+ * Secret Scanner - finds credentials that leaked into session transcripts:
+ * pasted API keys, `.env` files read by tools, tokens echoed by shell commands.
+ *
+ * Runs over the session index and, like it, reads only bytes appended since
+ * the last scan. Findings keep a masked preview and a fingerprint, never the
+ * secret itself. Redaction rewrites the JSONL in place after copying the
+ * original to ~/.claude/scc-backups/secrets.
+ */
+
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { createHash } from "crypto";
+import {
+  getIndexedSessions, indexSessionFile, readAppendedLines, refreshSessionIndex, sessionFileFor,
+} from "./session-index";
+import { findSecrets, secretMask } from "./redaction";
+import type { SecretMatch } from "./redaction";
+
+const CLAUDE_DIR = path.join(os.homedir(), ".claude");
+const DB_PATH = path.join(CLAUDE_DIR, "scc-dashboard.db");
+const BACKUP_DIR = path.join(CLAUDE_DIR, "scc-backups", "secrets");
+
+/** Bump when rules change so every file is scanned again */
+const SCAN_VERSION = 1;
+const MIN_SCAN_INTERVAL_MS = 5000;
+
+/** Identifiers and opaque blobs that are never user content */
+const SKIP_KEYS = new Set([
+  "uuid", "parentUuid", "logicalParentUuid", "leafUuid", "sessionId", "requestId", "messageId",
+  "id", "tool_use_id", "call_id", "turn_id", "signature", "encrypted_content", "data",
+  "timestamp", "cwd", "gitBranch", "version", "model", "type",
+]);
+
+// ---- Types ----
+
+export type SecretLocation = "text" | "thinking" | "tool-input" | "tool-result";
+
+export interface SecretFinding {
+  sessionId: string;
+  project: string;
+  /** 1-based record number within the JSONL file */
+  line: number;
+  /** Record uuid (Claude only) */
+  messageUuid: string;
+  /** Tool call whose input or result holds the secret */
+  toolUseId: string;
+  timestamp: string;
+  location: SecretLocation;
+  ruleId: string;
+  label: string;
+  /** First and last characters only */
+  preview: string;
+  /** Hash of the secret, to tell repeats of one secret from distinct ones */
+  fingerprint: string;
+}
+
+export interface SecretSessionSummary {
+  sessionId: string;
+  project: string;
+  /** Distinct secrets */
+  secrets: number;
+  /** Occurrences across the transcript */
+  occurrences: number;
+  ruleIds: string[];
+}
+
+export interface SecretRedaction {
+  /** Occurrences replaced */
+  redacted: number;
+  /** Copy of the original transcript, or null when nothing needed redacting */
+  backupPath: string | null;
+}
+
+/** A secret located in one transcript line */
+export interface LineSecret {
+  match: SecretMatch;
+  location: SecretLocation;
+  toolUseId: string;
+}
+
+interface ScanStateRow {
+  file_path: string;
+  version: number;
+  byte_offset: number;
+  file_size: number;
+  mtime_ms: number;
+  line_count: number;
+}
+
+interface FindingRow {
+  session_id: string;
+  project: string;
+  line: number;
+  message_uuid: string;
+  tool_use_id: string;
+  timestamp: string;
+  location: SecretLocation;
+  rule_id: string;
+  label: string;
+  preview: string;
+  fingerprint: string;
+}
+
+// ---- Database ----
+
+let _db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!_db) {
+    _db = new Database(DB_PATH);
+    _db.pragma("journal_mode = WAL");
+    _db.exec(`
+      CREATE TABLE IF NOT EXISTS secret_scan_state (
+        file_path TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        byte_offset INTEGER NOT NULL,
+        file_size INTEGER NOT NULL,
+        mtime_ms REAL NOT NULL,
+        line_count INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS secret_findings (
+        file_path TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        project TEXT NOT NULL,
+        line INTEGER NOT NULL,
+        message_uuid TEXT NOT NULL,
+        tool_use_id TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        location TEXT NOT NULL,
+        rule_id TEXT NOT NULL,
+        label TEXT NOT NULL,
+        preview TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        PRIMARY KEY (file_path, line, fingerprint)
+      );
+      CREATE INDEX IF NOT EXISTS idx_secret_findings_session ON secret_findings(session_id);
+    `);
+  }
+  return _db;
+}
+
+// ---- Line scanning ----
+
+function previewOf(value: string): string {
+  if (value.startsWith("-----BEGIN")) return value.split("\n")[0];
+  return value.length < 16 ? `${value.slice(0, 2)}…` : `${value.slice(0, 6)}…${value.slice(-4)}`;
+}
+
+function fingerprintOf(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/** Visit every user-content string of a record with where it sits */
+function walkStrings(
+  value: unknown, location: SecretLocation, toolUseId: string,
+  visit: (s: string, location: SecretLocation, toolUseId: string) => void,
+): void {
+  if (typeof value === "string") {
+    visit(value, location, toolUseId);
+  } else if (Array.isArray(value)) {
+    for (const v of value) walkStrings(v, location, toolUseId, visit);
+  } else if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    let loc = location, tool = toolUseId;
+    if (obj.type === "tool_use" || obj.type === "function_call" || obj.type === "custom_tool_call") {
+      loc = "tool-input";
+      tool = String(obj.id ?? obj.call_id ?? "");
+    } else if (obj.type === "tool_result" || obj.type === "function_call_output" || obj.type === "custom_tool_call_output") {
+      loc = "tool-result";
+      tool = String(obj.tool_use_id ?? obj.call_id ?? "");
+    } else if (obj.type === "thinking" || obj.type === "reasoning") {
+      loc = "thinking";
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      if (SKIP_KEYS.has(key)) continue;
+      // Claude keeps a structured copy of each tool result next to the message
+      walkStrings(v, key === "toolUseResult" ? "tool-result" : loc, tool, visit);
+    }
+  }
+}
+
+/** Secrets in one JSONL record; unparseable lines have none */
+export function scanLine(line: string): LineSecret[] {
+  let obj: unknown;
+  try { obj = JSON.parse(line); } catch { return []; }
+  const found: LineSecret[] = [];
+  const seen = new Set<string>();
+  walkStrings(obj, "text", "", (s, location, toolUseId) => {
+    for (const match of findSecrets(s)) {
+      // The same secret often appears in both the result and its structured copy
+      if (seen.has(match.value)) continue;
+      seen.add(match.value);
+      found.push({ match, location, toolUseId });
+    }
+  });
+  return found;
+}
+
+/**
+ * Mask the secrets of one line in its raw JSON text, so everything else
+ * stays byte-for-byte identical. Returns the line and occurrences replaced.
+ */
+export function redactLine(line: string): { line: string; redacted: number } {
+  let out = line, redacted = 0;
+  for (const { match } of scanLine(line)) {
+    const escaped = JSON.stringify(match.value).slice(1, -1);
+    const parts = out.split(escaped);
+    if (parts.length < 2) continue;
+    redacted += parts.length - 1;
+    out = parts.join(secretMask(match));
+  }
+  return { line: out, redacted };
+}
+
+// ---- Scanning ----
+
+let lastScan = 0;
+
+/** Bring findings up to date with every indexed transcript */
+export function scanSessionSecrets(): void {
+  const now = Date.now();
+  if (now - lastScan < MIN_SCAN_INTERVAL_MS) return;
+  refreshSessionIndex();
+
+  const db = getDb();
+  const states = new Map(
+    (db.prepare("SELECT * FROM secret_scan_state").all() as ScanStateRow[]).map((r) => [r.file_path, r]),
+  );
+  for (const s of getIndexedSessions()) {
+    try {
+      scanFile(db, s.filePath, s.sessionId, s.project, states.get(s.filePath));
+    } catch (err) {
+      console.error("[SecretScanner] Failed to scan", s.filePath, err);
+    }
+    states.delete(s.filePath);
+  }
+
+  // State left over belongs to transcripts that are gone
+  db.transaction(() => {
+    for (const file of states.keys()) {
+      db.prepare("DELETE FROM secret_scan_state WHERE file_path = ?").run(file);
+      db.prepare("DELETE FROM secret_findings WHERE file_path = ?").run(file);
+    }
+  })();
+  lastScan = Date.now();
+}
+
+function scanFile(
+  db: Database.Database, filePath: string, sessionId: string, project: string, state: ScanStateRow | undefined,
+): void {
+  let stat: fs.Stats;
+  try { stat = fs.statSync(filePath); } catch { return; }
+  const current = state?.version === SCAN_VERSION;
+  if (current && state.file_size === stat.size && state.mtime_ms === stat.mtimeMs) return;
+
+  // A shrunk file was rewritten (or redacted): start over
+  const reset = !current || stat.size < state.byte_offset;
+  const startOffset = reset ? 0 : state.byte_offset;
+  let lineNo = reset ? 0 : state.line_count;
+  const { lines, nextOffset } = readAppendedLines(filePath, startOffset, stat.size);
+
+  const findings: FindingRow[] = [];
+  for (const line of lines) {
+    lineNo++;
+    const secrets = scanLine(line);
+    if (secrets.length === 0) continue;
+    let record: Record<string, unknown> = {};
+    try { record = JSON.parse(line); } catch { /* scanLine found nothing then */ }
+    for (const { match, location, toolUseId } of secrets) {
+      findings.push({
+        session_id: sessionId,
+        project,
+        line: lineNo,
+        message_uuid: typeof record.uuid === "string" ? record.uuid : "",
+        tool_use_id: toolUseId,
+        timestamp: typeof record.timestamp === "string" ? record.timestamp : "",
+        location,
+        rule_id: match.ruleId,
+        label: match.label,
+        preview: previewOf(match.value),
+        fingerprint: fingerprintOf(match.value),
+      });
+    }
+  }
+
+  db.transaction(() => {
+    if (reset) db.prepare("DELETE FROM secret_findings WHERE file_path = ?").run(filePath);
+    db.prepare(`
+      INSERT OR REPLACE INTO secret_scan_state (file_path, version, byte_offset, file_size, mtime_ms, line_count)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(filePath, SCAN_VERSION, nextOffset, stat.size, stat.mtimeMs, lineNo);
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO secret_findings (
+        file_path, session_id, project, line, message_uuid, tool_use_id,
+        timestamp, location, rule_id, label, preview, fingerprint
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const f of findings) {
+      insert.run(
+        filePath, f.session_id, f.project, f.line, f.message_uuid, f.tool_use_id,
+        f.timestamp, f.location, f.rule_id, f.label, f.preview, f.fingerprint,
+      );
+    }
+  })();
+}
+
+// ---- Queries ----
+
+/** Sessions with at least one finding */
+export function getSecretSummaries(): SecretSessionSummary[] {
+  scanSessionSecrets();
+  const rows = getDb().prepare(`
+    SELECT session_id, project, COUNT(DISTINCT fingerprint) AS secrets, COUNT(*) AS occurrences,
+      GROUP_CONCAT(DISTINCT rule_id) AS rule_ids
+    FROM secret_findings GROUP BY file_path ORDER BY secrets DESC
+  `).all() as { session_id: string; project: string; secrets: number; occurrences: number; rule_ids: string }[];
+  return rows.map((r) => ({
+    sessionId: r.session_id,
+    project: r.project,
+    secrets: r.secrets,
+    occurrences: r.occurrences,
+    ruleIds: r.rule_ids.split(","),
+  }));
+}
+
+/** Findings of one session, in transcript order */
+export function getSessionSecrets(project: string, sessionId: string): SecretFinding[] {
+  scanSessionSecrets();
+  const rows = getDb().prepare(`
+    SELECT * FROM secret_findings WHERE project = ? AND session_id = ? ORDER BY line
+  `).all(project, sessionId) as FindingRow[];
+  return rows.map((r) => ({
+    sessionId: r.session_id,
+    project: r.project,
+    line: r.line,
+    messageUuid: r.message_uuid,
+    toolUseId: r.tool_use_id,
+    timestamp: r.timestamp,
+    location: r.location,
+    ruleId: r.rule_id,
+    label: r.label,
+    preview: r.preview,
+    fingerprint: r.fingerprint,
+  }));
+}
+
+// ---- Redaction ----
+
+/**
+ * Mask every secret of a session's transcript in place, after copying the
+ * original to the backup directory. Null when the session is unknown.
+ * Throws if the transcript grows while it is being rewritten.
+ */
+export function redactSessionSecrets(project: string, sessionId: string): SecretRedaction | null {
+  refreshSessionIndex(project);
+  const session = getIndexedSessions(project).find((s) => s.sessionId === sessionId);
+  if (!session) return null;
+  const filePath = session.filePath;
+
+  const before = fs.statSync(filePath);
+  const lines = fs.readFileSync(filePath, "utf-8").split("\n");
+  let redacted = 0;
+  const out = lines.map((line) => {
+    const result = redactLine(line);
+    redacted += result.redacted;
+    return result.line;
+  });
+  if (redacted === 0) return { redacted: 0, backupPath: null };
+
+  fs.mkdirSync(BACKUP_DIR, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = path.join(BACKUP_DIR, `${sessionId}-${stamp}.jsonl`);
+  fs.copyFileSync(filePath, backupPath);
+  fs.chmodSync(backupPath, 0o600);
+
+  const tmpPath = `${filePath}.redact.tmp`;
+  fs.writeFileSync(tmpPath, out.join("\n"));
+  const after = fs.statSync(filePath);
+  if (after.size !== before.size || after.mtimeMs !== before.mtimeMs) {
+    fs.unlinkSync(tmpPath);
+    throw new Error("Transcript changed while redacting; try again once the session is idle");
+  }
+  fs.renameSync(tmpPath, filePath);
+
+  // A mask can be as long as the secret, so the file may not shrink: drop its index and findings outright
+  const file = sessionFileFor(filePath);
+  if (file) indexSessionFile(file, { reset: true });
+  scanFile(getDb(), filePath, sessionId, session.project, undefined);
+
+  return { redacted, backupPath };
+}
@@ -0,0 +1,267 @@
+/**
+ * Session Export - turns a session detail into a portable file.
+ *
+ * Every format is rendered from one normalized, versioned document, so the
+ * optional redaction pass runs once and covers Markdown, HTML and JSON alike.
+ */
+
+import type { SessionDetail, SessionMessage } from "./session-reader";
+import { redactText } from "./redaction";
+import type { RedactOptions } from "./redaction";
+import { fmtCost, fmtDuration, fmtTokens } from "./format-utils";
+
+export const EXPORT_SCHEMA = "scc-session-export";
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export const EXPORT_FORMATS = ["md", "html", "json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// ---- Schema ----
+
+export interface ExportedToolCall {
+  id: string | null;
+  name: string;
+  input: string | null;
+  result: string | null;
+  isError: boolean;
+  durationMs: number | null;
+}
+
+export interface ExportedMessage {
+  id: string;
+  parentId: string | null;
+  role: SessionMessage["role"];
+  timestamp: string;
+  model: string | null;
+  text: string;
+  thinking: string | null;
+  toolCalls: ExportedToolCall[];
+  usage: { input: number; output: number; cacheRead: number; cacheWrite: number } | null;
+  cost: number | null;
+  sidechain: boolean;
+}
+
+export interface SessionExport {
+  schema: typeof EXPORT_SCHEMA;
+  version: typeof EXPORT_SCHEMA_VERSION;
+  exportedAt: string;
+  redacted: boolean;
+  session: {
+    id: string;
+    project: string;
+    projectName: string;
+    model: string | null;
+    startTime: string;
+    endTime: string;
+  };
+  summary: {
+    messages: number;
+    toolCalls: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
+    estimatedCost: number;
+    unpricedModels: string[];
+  };
+  messages: ExportedMessage[];
+}
+
+export interface ExportOptions {
+  /** Mask secrets, emails and home paths; `home` is replaced with `~` */
+  redact?: false | RedactOptions;
+  now?: Date;
+}
+
+// ---- Normalization ----
+
+export function buildSessionExport(detail: SessionDetail, opts: ExportOptions = {}): SessionExport {
+  const clean = opts.redact ? (s: string) => redactText(s, opts.redact || {}) : (s: string) => s;
+  const cleanOrNull = (s: string | undefined) => (s ? clean(s) : null);
+
+  const messages: ExportedMessage[] = detail.messages.map((m) => ({
+    id: m.uuid,
+    parentId: m.parentUuid,
+    role: m.role,
+    timestamp: m.timestamp,
+    model: m.model ?? null,
+    text: clean(m.content),
+    thinking: cleanOrNull(m.thinkingContent),
+    toolCalls: (m.toolUse ?? []).map((t) => ({
+      id: t.id ?? null,
+      name: t.name,
+      input: cleanOrNull(t.input),
+      result: t.result === undefined ? null : clean(t.result),
+      isError: t.isError ?? false,
+      durationMs: t.durationMs ?? null,
+    })),
+    usage: m.inputTokens !== undefined || m.outputTokens !== undefined
+      ? { input: m.inputTokens ?? 0, output: m.outputTokens ?? 0, cacheRead: m.cacheRead ?? 0, cacheWrite: m.cacheWrite ?? 0 }
+      : null,
+    cost: m.cost ?? null,
+    sidechain: m.isSidechain ?? false,
+  }));
+
+  return {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: (opts.now ?? new Date()).toISOString(),
+    redacted: Boolean(opts.redact),
+    session: {
+      id: detail.id,
+      project: clean(detail.project),
+      projectName: clean(detail.projectName),
+      model: detail.model || null,
+      startTime: detail.startTime,
+      endTime: detail.endTime,
+    },
+    summary: {
+      messages: messages.length,
+      toolCalls: messages.reduce((n, m) => n + m.toolCalls.length, 0),
+      inputTokens: detail.totalInputTokens,
+      outputTokens: detail.totalOutputTokens,
+      cacheReadTokens: detail.cacheReadTokens,
+      cacheWriteTokens: detail.cacheWriteTokens,
+      estimatedCost: detail.estimatedCost,
+      unpricedModels: detail.unpricedModels,
+    },
+    messages,
+  };
+}
+
+// ---- Renderers ----
+
+function roleLabel(m: ExportedMessage): string {
+  const base = m.role === "user" ? "User" : m.role === "assistant" ? "Assistant" : "System";
+  return m.sidechain ? `${base} (subagent)` : base;
+}
+
+/** Messages worth showing: text or tool calls */
+function shown(exp: SessionExport): ExportedMessage[] {
+  return exp.messages.filter((m) => m.text.trim() || m.toolCalls.length > 0);
+}
+
+export function renderMarkdown(exp: SessionExport): string {
+  const { session, summary } = exp;
+  let md = `# Session: ${session.projectName}\n`;
+  md += `**Date:** ${session.startTime} - ${session.endTime}\n`;
+  md += `**Model:** ${session.model ?? "unknown"}\n`;
+  md += `**Cost:** ${fmtCost(summary.estimatedCost)}\n`;
+  md += `**Tokens:** ${fmtTokens(summary.inputTokens)} in / ${fmtTokens(summary.outputTokens)} out\n`;
+  if (exp.redacted) md += `**Redacted:** secrets, emails and home paths are masked\n`;
+  md += `\n---\n\n`;
+
+  for (const m of shown(exp)) {
+    md += `## ${roleLabel(m)}\n`;
+    if (m.timestamp) md += `*${m.timestamp}*\n\n`;
+    if (m.text.trim()) md += m.text.trim() + "\n\n";
+    for (const t of m.toolCalls) {
+      md += `### Tool: ${t.name}${t.isError ? " (error)" : ""}\n`;
+      if (t.input) md += "```json\n" + t.input + "\n```\n\n";
+      if (t.result) md += "```\n" + t.result + "\n```\n\n";
+    }
+    md += `---\n\n`;
+  }
+  return md;
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 920px; margin: 2rem auto; padding: 0 1rem; color: #18181b; background: #fff; }
+  h1 { font-size: 1.4rem; margin-bottom: .25rem; }
+  .meta { color: #71717a; font-size: .85rem; }
+  table.summary { border-collapse: collapse; margin: 1rem 0; font-size: .85rem; }
+  table.summary td { padding: .2rem .9rem .2rem 0; }
+  table.summary td:first-child { color: #71717a; }
+  .msg { border-top: 1px solid #e4e4e7; padding: .9rem 0; }
+  .msg.sidechain { margin-left: 1.5rem; border-left: 2px solid #f9a8d4; padding-left: .8rem; }
+  .role { font-weight: 600; font-size: .85rem; }
+  .role.user { color: #2563eb; } .role.assistant { color: #7c3aed; } .role.system { color: #71717a; }
+  .time, .cost { color: #a1a1aa; font-size: .75rem; margin-left: .5rem; }
+  .text { white-space: pre-wrap; word-wrap: break-word; margin: .4rem 0; }
+  details { margin: .35rem 0; border: 1px solid #e4e4e7; border-radius: 6px; padding: .3rem .6rem; background: #fafafa; }
+  details.error { border-color: #fca5a5; background: #fef2f2; }
+  summary { cursor: pointer; font-size: .8rem; font-family: ui-monospace, monospace; }
+  pre { white-space: pre-wrap; word-wrap: break-word; font: 12px/1.45 ui-monospace, monospace; margin: .4rem 0; max-height: 28rem; overflow: auto; }
+  .note { color: #b45309; font-size: .8rem; }
+  @media (prefers-color-scheme: dark) {
+    body { color: #e4e4e7; background: #09090b; }
+    .msg { border-color: #27272a; }
+    details { border-color: #27272a; background: #18181b; }
+    details.error { border-color: #7f1d1d; background: #1f0a0a; }
+  }
+`;
+
+export function renderHtml(exp: SessionExport): string {
+  const { session, summary } = exp;
+  const rows: [string, string][] = [
+    ["Model", session.model ?? "unknown"],
+    ["Started", session.startTime],
+    ["Ended", session.endTime],
+    ["Messages", String(summary.messages)],
+    ["Tool calls", String(summary.toolCalls)],
+    ["Input tokens", fmtTokens(summary.inputTokens)],
+    ["Output tokens", fmtTokens(summary.outputTokens)],
+    ["Cache read / write", `${fmtTokens(summary.cacheReadTokens)} / ${fmtTokens(summary.cacheWriteTokens)}`],
+    ["Estimated cost", fmtCost(summary.estimatedCost)],
+  ];
+
+  const body = shown(exp).map((m) => {
+    const tools = m.toolCalls.map((t) => `
+      <details class="tool${t.isError ? " error" : ""}">
+        <summary>${escapeHtml(t.name)}${t.isError ? " · error" : ""}${t.durationMs !== null ? ` · ${fmtDuration(t.durationMs)}` : ""}</summary>
+        ${t.input ? `<pre>${escapeHtml(t.input)}</pre>` : ""}
+        ${t.result !== null ? `<pre>${escapeHtml(t.result)}</pre>` : ""}
+      </details>`).join("");
+    const thinking = m.thinking
+      ? `<details class="thinking"><summary>Thinking</summary><pre>${escapeHtml(m.thinking)}</pre></details>`
+      : "";
+    return `
+    <div class="msg${m.sidechain ? " sidechain" : ""}">
+      <span class="role ${m.role}">${roleLabel(m)}</span>
+      <span class="time">${escapeHtml(m.timestamp)}</span>
+      ${m.cost ? `<span class="cost">${fmtCost(m.cost)}</span>` : ""}
+      ${thinking}
+      ${m.text.trim() ? `<div class="text">${escapeHtml(m.text.trim())}</div>` : ""}
+      ${tools}
+    </div>`;
+  }).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Session ${escapeHtml(session.id.slice(0, 8))} · ${escapeHtml(session.projectName)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+  <h1>${escapeHtml(session.projectName)}</h1>
+  <div class="meta">Session ${escapeHtml(session.id)} · exported ${escapeHtml(exp.exportedAt)}</div>
+  ${exp.redacted ? `<p class="note">Secrets, emails and home paths are masked in this export.</p>` : ""}
+  <table class="summary">${rows.map(([k, v]) => `<tr><td>${k}</td><td>${escapeHtml(v)}</td></tr>`).join("")}</table>
+  ${body}
+</body>
+</html>
+`;
+}
+
+/** File contents, MIME type and extension for a format */
+export function renderSessionExport(exp: SessionExport, format: ExportFormat): { body: string; contentType: string; ext: string } {
+  switch (format) {
+    case "html":
+      return { body: renderHtml(exp), contentType: "text/html; charset=utf-8", ext: "html" };
+    case "json":
+      return { body: JSON.stringify(exp, null, 2), contentType: "application/json; charset=utf-8", ext: "json" };
+    default:
+      return { body: renderMarkdown(exp), contentType: "text/markdown; charset=utf-8", ext: "md" };
+  }
+}
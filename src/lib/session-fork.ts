@@ -0,0 +1,108 @@
+/**
+ * Session Fork - copy a Claude session up to a checkpoint into a new session.
+ *
+ * The fork keeps only the branch leading to the chosen user message (not
+ * abandoned branches or subagent threads), with fresh uuids and session id,
+ * so `claude --resume <fork>` continues from there while the original
+ * transcript is left untouched.
+ */
+
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { randomUUID } from "crypto";
+import { indexSessionFile, sessionFileFor } from "./session-index";
+import { updateSessionMeta } from "./db";
+
+const PROJECTS_DIR = path.join(os.homedir(), ".claude", "projects");
+
+type JsonRecord = Record<string, unknown>;
+
+export interface ForkResult {
+  sessionId: string;
+  project: string;
+  /** Working directory of the original session, needed to resume it */
+  cwd?: string;
+  /** Prompt of the checkpoint the fork stops before */
+  prompt: string;
+  /** Records copied into the fork */
+  recordCount: number;
+}
+
+function promptText(record: JsonRecord): string {
+  const content = (record.message as JsonRecord | undefined)?.content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((b): b is { type: "text"; text: string } => b?.type === "text" && typeof b.text === "string")
+    .map((b) => b.text)
+    .join("\n");
+}
+
+/**
+ * Records on the path to `uuid` (exclusive), re-keyed for a new session.
+ * Null when `uuid` is not a record of the transcript.
+ */
+export function forkRecords(
+  records: JsonRecord[],
+  uuid: string,
+  newSessionId: string,
+  newUuid: () => string = randomUUID,
+): { records: JsonRecord[]; prompt: string } | null {
+  const byUuid = new Map<string, JsonRecord>();
+  for (const r of records) {
+    if (typeof r.uuid === "string") byUuid.set(r.uuid, r);
+  }
+  const target = byUuid.get(uuid);
+  if (!target) return null;
+
+  // Walk parent links back to the root (or the last compaction boundary)
+  const chain: JsonRecord[] = [];
+  const seen = new Set<string>();
+  let parent = target.parentUuid;
+  while (typeof parent === "string" && !seen.has(parent)) {
+    const record = byUuid.get(parent);
+    if (!record) break;
+    seen.add(parent);
+    chain.unshift(record);
+    parent = record.parentUuid;
+  }
+
+  const ids = new Map(chain.map((r) => [r.uuid as string, newUuid()]));
+  const remap = (value: unknown) => (typeof value === "string" ? ids.get(value) ?? null : value ?? null);
+  const forked = chain.map((r) => ({
+    ...r,
+    sessionId: newSessionId,
+    uuid: ids.get(r.uuid as string),
+    parentUuid: remap(r.parentUuid),
+    ...(r.logicalParentUuid !== undefined && { logicalParentUuid: remap(r.logicalParentUuid) }),
+  }));
+  return { records: forked, prompt: promptText(target) };
+}
+
+/** Fork a session before the user message `uuid`. Null when the session or message is missing, or nothing precedes it. */
+export function forkSession(project: string, sessionId: string, uuid: string): ForkResult | null {
+  const source = path.join(PROJECTS_DIR, project, `${sessionId}.jsonl`);
+  if (!fs.existsSync(source)) return null;
+
+  const records: JsonRecord[] = [];
+  for (const line of fs.readFileSync(source, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try { records.push(JSON.parse(line)); } catch { /* skip malformed lines */ }
+  }
+
+  const newSessionId = randomUUID();
+  const fork = forkRecords(records, uuid, newSessionId);
+  if (!fork || fork.records.length === 0) return null;
+
+  const target = path.join(PROJECTS_DIR, project, `${newSessionId}.jsonl`);
+  fs.writeFileSync(target, fork.records.map((r) => JSON.stringify(r)).join("\n") + "\n");
+
+  // Register right away so lists and the chat page see it without waiting for a rescan
+  const file = sessionFileFor(target);
+  if (file) indexSessionFile(file);
+  updateSessionMeta(newSessionId, { displayName: `Fork of ${sessionId.slice(0, 8)}` });
+
+  const cwd = [...fork.records].reverse().find((r) => typeof r.cwd === "string")?.cwd as string | undefined;
+  return { sessionId: newSessionId, project, cwd, prompt: fork.prompt, recordCount: fork.records.length };
+}
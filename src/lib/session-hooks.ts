@@ -0,0 +1,195 @@
+/**
+ * Session Hooks - records the Claude Code lifecycle hooks the dashboard
+ * installs (SessionStart, UserPromptSubmit, PreToolUse, Notification, Stop,
+ * SubagentStop) and keeps the last one per session. Where a session has hook
+ * data its status is exact; the transcript heuristics are only a fallback.
+ */
+
+import Database from "better-sqlite3";
+import path from "path";
+import os from "os";
+
+const DB_PATH = path.join(os.homedir(), ".claude", "scc-dashboard.db");
+
+const MAX_EVENTS_PER_SESSION = 200;
+const MAX_MESSAGE_CHARS = 500;
+
+/** Hook events installed into settings.json, in lifecycle order */
+export const SESSION_HOOK_EVENTS = [
+  "SessionStart", "UserPromptSubmit", "PreToolUse", "Notification", "Stop", "SubagentStop",
+] as const;
+
+export type SessionHookEvent = (typeof SESSION_HOOK_EVENTS)[number];
+
+/** Receiver route; installed hook commands are recognised by it */
+export const SESSION_HOOK_PATH = "/api/sessions/hooks";
+
+// ---- Types ----
+
+/** Last hook received for a session */
+export interface SessionHookState {
+  sessionId: string;
+  event: SessionHookEvent;
+  /** Tool about to run (PreToolUse) */
+  toolName: string;
+  /** Notification text, e.g. a permission prompt */
+  message: string;
+  cwd: string;
+  transcriptPath: string;
+  /** Epoch ms */
+  updatedAt: number;
+}
+
+export interface SessionHookRecord {
+  event: SessionHookEvent;
+  toolName: string;
+  message: string;
+  receivedAt: number;
+}
+
+interface HookStateRow {
+  session_id: string;
+  event: SessionHookEvent;
+  tool_name: string;
+  message: string;
+  cwd: string;
+  transcript_path: string;
+  updated_at: number;
+}
+
+interface HookEventRow {
+  event: SessionHookEvent;
+  tool_name: string;
+  message: string;
+  received_at: number;
+}
+
+// ---- Database ----
+
+let _db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!_db) {
+    _db = new Database(DB_PATH);
+    _db.pragma("journal_mode = WAL");
+    _db.exec(`
+      CREATE TABLE IF NOT EXISTS session_hook_state (
+        session_id TEXT PRIMARY KEY,
+        event TEXT NOT NULL,
+        tool_name TEXT DEFAULT '',
+        message TEXT DEFAULT '',
+        cwd TEXT DEFAULT '',
+        transcript_path TEXT DEFAULT '',
+        updated_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS session_hook_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        tool_name TEXT DEFAULT '',
+        message TEXT DEFAULT '',
+        received_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_session_hook_events_session ON session_hook_events(session_id, id);
+    `);
+  }
+  return _db;
+}
+
+function rowToState(row: HookStateRow): SessionHookState {
+  return {
+    sessionId: row.session_id,
+    event: row.event,
+    toolName: row.tool_name || "",
+    message: row.message || "",
+    cwd: row.cwd || "",
+    transcriptPath: row.transcript_path || "",
+    updatedAt: row.updated_at,
+  };
+}
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+// ---- Recording ----
+
+export function isSessionHookEvent(name: string): name is SessionHookEvent {
+  return (SESSION_HOOK_EVENTS as readonly string[]).includes(name);
+}
+
+/**
+ * Record a hook payload as Claude Code sends it on stdin. Returns the new
+ * session state, or null when the payload is not one of our events.
+ */
+export function recordHookEvent(payload: unknown, now = Date.now()): SessionHookState | null {
+  if (!payload || typeof payload !== "object") return null;
+  const p = payload as Record<string, unknown>;
+  const sessionId = str(p.session_id);
+  const event = str(p.hook_event_name);
+  if (!sessionId || !isSessionHookEvent(event)) return null;
+
+  const state: SessionHookState = {
+    sessionId,
+    event,
+    toolName: event === "PreToolUse" ? str(p.tool_name) : "",
+    message: str(p.message).slice(0, MAX_MESSAGE_CHARS),
+    cwd: str(p.cwd),
+    transcriptPath: str(p.transcript_path),
+    updatedAt: now,
+  };
+
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT OR REPLACE INTO session_hook_state
+        (session_id, event, tool_name, message, cwd, transcript_path, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(state.sessionId, state.event, state.toolName, state.message, state.cwd, state.transcriptPath, now);
+    db.prepare(`
+      INSERT INTO session_hook_events (session_id, event, tool_name, message, received_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(state.sessionId, state.event, state.toolName, state.message, now);
+    db.prepare(`
+      DELETE FROM session_hook_events WHERE session_id = ? AND id <= (
+        SELECT id FROM session_hook_events WHERE session_id = ? ORDER BY id DESC LIMIT 1 OFFSET ?
+      )
+    `).run(sessionId, sessionId, MAX_EVENTS_PER_SESSION);
+  })();
+  return state;
+}
+
+// ---- Queries ----
+
+export function getHookState(sessionId: string): SessionHookState | null {
+  const row = getDb()
+    .prepare("SELECT * FROM session_hook_state WHERE session_id = ?")
+    .get(sessionId) as HookStateRow | undefined;
+  return row ? rowToState(row) : null;
+}
+
+/** Hook state of every session that has any, by session id */
+export function getHookStates(): Map<string, SessionHookState> {
+  const rows = getDb().prepare("SELECT * FROM session_hook_state").all() as HookStateRow[];
+  return new Map(rows.map((r) => [r.session_id, rowToState(r)]));
+}
+
+/** Most recent hook events of a session, newest first */
+export function getHookEvents(sessionId: string, limit = 50): SessionHookRecord[] {
+  const rows = getDb().prepare(`
+    SELECT event, tool_name, message, received_at FROM session_hook_events
+    WHERE session_id = ? ORDER BY id DESC LIMIT ?
+  `).all(sessionId, limit) as HookEventRow[];
+  return rows.map((r) => ({ event: r.event, toolName: r.tool_name || "", message: r.message || "", receivedAt: r.received_at }));
+}
+
+// ---- Installation ----
+
+/** Command that forwards a hook's stdin payload to the receiver */
+export function sessionHookCommand(baseUrl: string): string {
+  return `curl -s -m 5 -X POST -H "Content-Type: application/json" --data-binary @- ${baseUrl.replace(/\/$/, "")}${SESSION_HOOK_PATH}`;
+}
+
+export function isSessionHookCommand(command: string): boolean {
+  return command.includes(SESSION_HOOK_PATH);
+}
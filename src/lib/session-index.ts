@@ -0,0 +1,1322 @@
+/**
+ * Session Index - 会话 JSONL 的增量 SQLite 索引
+ *
+ * Stores per-file byte offsets, mtime and aggregated usage in scc-dashboard.db
+ * so that only newly appended lines are parsed on each refresh. Claude usage is
+ * additionally bucketed per (file, date, model, git branch) for token summaries, and message
+ * text, thinking and tool inputs go into an FTS5 table for transcript search.
+ * Tool calls are stored one row each and completed when their result arrives,
+ * which may be in a later refresh.
+ *
+ * Gemini CLI rewrites a whole JSON chat file on every turn instead of
+ * appending, so a changed Gemini file is always parsed from scratch.
+ */
+
+import Database from "better-sqlite3";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { addUsage, emptyUsage, fromClaudeUsage, fromCodexUsage, fromGeminiUsage } from "./token-usage";
+import type { TokenUsage } from "./token-usage";
+
+const CLAUDE_DIR = path.join(os.homedir(), ".claude");
+const PROJECTS_DIR = path.join(CLAUDE_DIR, "projects");
+const CODEX_SESSIONS_DIR = path.join(os.homedir(), ".codex", "sessions");
+const GEMINI_TMP_DIR = path.join(os.homedir(), ".gemini", "tmp");
+const DB_PATH = path.join(CLAUDE_DIR, "scc-dashboard.db");
+
+/** Bump when the parsed fields change so existing rows are rebuilt */
+const INDEX_VERSION = "6";
+const READ_CHUNK_BYTES = 4 * 1024 * 1024;
+const MIN_REFRESH_INTERVAL_MS = 2000;
+/** Max characters stored per searchable document (large Write inputs etc.) */
+const MAX_DOC_CHARS = 20_000;
+/** Trigram tokenizer needs at least three characters per term */
+const MIN_TERM_CHARS = 3;
+const CODEX_PROJECT = "__codex__";
+const GEMINI_PROJECT = "__gemini__";
+/** Max characters of a shell command kept for failure grouping */
+const MAX_TOOL_DETAIL_CHARS = 200;
+const CODEX_SHELL_TOOLS = new Set(["shell", "exec_command", "local_shell"]);
+const GEMINI_SHELL_TOOLS = new Set(["run_shell_command"]);
+
+// ---- Types ----
+
+export type IndexSource = "claude" | "codex" | "gemini";
+
+/** A Gemini CLI chat file: ~/.gemini/tmp/<project hash>/chats/session-*.json */
+export interface GeminiChat {
+  sessionId: string;
+  /** SHA-256 of the directory Gemini was started in */
+  projectHash: string;
+  startTime: string;
+  lastUpdated: string;
+  messages: GeminiChatMessage[];
+}
+
+/** Text as a string or a list of parts; only text parts are kept */
+export type GeminiContent = string | { text?: string }[];
+
+export interface GeminiChatMessage {
+  id: string;
+  timestamp: string;
+  type: "user" | "gemini" | "info" | "error" | "warning";
+  content: GeminiContent;
+  model?: string;
+  thoughts?: { subject?: string; description?: string; timestamp?: string }[];
+  tokens?: { input?: number; output?: number; cached?: number; thoughts?: number; tool?: number; total?: number } | null;
+  toolCalls?: GeminiToolCall[];
+}
+
+export interface GeminiToolCall {
+  id: string;
+  name: string;
+  args?: Record<string, unknown>;
+  /** Function response parts sent back to the model */
+  result?: { functionResponse?: { response?: { output?: unknown; error?: unknown } } }[] | null;
+  status?: string;
+  timestamp?: string;
+  /** What the CLI showed: plain text, or an object such as a file diff */
+  resultDisplay?: unknown;
+}
+
+/** Incrementally maintained signals used by status detection (last-lines heuristics) */
+export interface StatusSignals {
+  lineCount: number;
+  lastRole: "" | "user" | "assistant";
+  lastRoleLine: number;
+  lastToolNames: string[];
+  lastAssistantLine: number;
+  lastErrorLine: number;
+}
+
+export interface IndexedSession {
+  filePath: string;
+  sessionId: string;
+  project: string;
+  source: IndexSource;
+  cwd: string;
+  startTime: number;
+  lastActive: number;
+  messageCount: number;
+  firstMessage: string;
+  model: string;
+  /** Git branch of the latest record that named one */
+  gitBranch: string;
+  usage: TokenUsage;
+  signals: StatusSignals;
+}
+
+export interface IndexedUsage extends TokenUsage {
+  filePath: string;
+  date: string;
+  model: string;
+  /** Git branch checked out when the usage was recorded; empty when unknown */
+  branch: string;
+}
+
+/** Claude usage per clock hour, with the span of messages inside it */
+export interface IndexedHourlyUsage extends TokenUsage {
+  filePath: string;
+  /** UTC hour, YYYY-MM-DDTHH */
+  hour: string;
+  model: string;
+  firstAt: number;
+  lastAt: number;
+  messages: number;
+}
+
+export interface IndexedToolCall {
+  filePath: string;
+  sessionId: string;
+  project: string;
+  source: IndexSource;
+  cwd: string;
+  toolUseId: string;
+  name: string;
+  model: string;
+  timestamp: string;
+  /** Null while the call has no result */
+  isError: boolean | null;
+  durationMs: number | null;
+  /** Even share of the usage of the response that issued the call */
+  usage: TokenUsage;
+  /** Shell command for Bash-like tools, empty otherwise */
+  detail: string;
+}
+
+export type SearchDocKind = "text" | "thinking" | "tool";
+
+export interface SearchOptions {
+  query: string;
+  project?: string;
+  /** Substring of the session model, e.g. "opus" */
+  model?: string;
+  /** Inclusive YYYY-MM-DD bounds on the message timestamp */
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface SearchHit {
+  filePath: string;
+  sessionId: string;
+  project: string;
+  source: IndexSource;
+  cwd: string;
+  model: string;
+  messageUuid: string;
+  role: string;
+  kind: SearchDocKind;
+  timestamp: string;
+  content: string;
+}
+
+interface SearchDoc {
+  content: string;
+  messageUuid: string;
+  role: string;
+  kind: SearchDocKind;
+  timestamp: string;
+}
+
+type ToolEvent =
+  | { kind: "call"; toolUseId: string; name: string; model: string; timestamp: string; usage: TokenUsage; detail: string }
+  | { kind: "result"; toolUseId: string; isError: boolean; timestamp: string; durationMs?: number };
+
+interface SessionIndexRow {
+  file_path: string;
+  session_id: string;
+  project: string;
+  source: IndexSource;
+  byte_offset: number;
+  file_size: number;
+  mtime_ms: number;
+  cwd: string;
+  start_time: number;
+  last_active: number;
+  message_count: number;
+  first_message: string;
+  model: string;
+  git_branch: string;
+  total_input: number;
+  total_output: number;
+  cache_read: number;
+  cache_write_5m: number;
+  cache_write_1h: number;
+  signals: string;
+}
+
+interface ToolCallRow {
+  file_path: string;
+  tool_use_id: string;
+  name: string;
+  model: string;
+  timestamp: string;
+  is_error: number | null;
+  duration_ms: number | null;
+  input: number;
+  output: number;
+  cache_read: number;
+  cache_write_5m: number;
+  cache_write_1h: number;
+  detail: string;
+  session_id: string;
+  project: string;
+  source: IndexSource;
+  cwd: string;
+}
+
+interface HourlyUsageRow {
+  file_path: string;
+  hour: string;
+  model: string;
+  first_at: number;
+  last_at: number;
+  messages: number;
+  input: number;
+  output: number;
+  cache_read: number;
+  cache_write_5m: number;
+  cache_write_1h: number;
+}
+
+interface SessionUsageRow {
+  file_path: string;
+  date: string;
+  model: string;
+  branch: string;
+  input: number;
+  output: number;
+  cache_read: number;
+  cache_write_5m: number;
+  cache_write_1h: number;
+}
+
+// ---- Database ----
+
+let _db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!_db) {
+    _db = new Database(DB_PATH);
+    _db.pragma("journal_mode = WAL");
+    _db.exec(`
+      CREATE TABLE IF NOT EXISTS session_index_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      )
+    `);
+    const version = _db
+      .prepare("SELECT value FROM session_index_meta WHERE key = 'version'")
+      .get() as { value: string } | undefined;
+    if (version?.value !== INDEX_VERSION) {
+      _db.exec(`
+        DROP TABLE IF EXISTS session_index;
+        DROP TABLE IF EXISTS session_usage;
+        DROP TABLE IF EXISTS session_hourly_usage;
+        DROP TABLE IF EXISTS session_fts;
+        DROP TABLE IF EXISTS session_tool_calls;
+      `);
+    }
+    _db.exec(`
+      CREATE TABLE IF NOT EXISTS session_index (
+        file_path TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        project TEXT NOT NULL,
+        source TEXT NOT NULL,
+        byte_offset INTEGER NOT NULL DEFAULT 0,
+        file_size INTEGER NOT NULL DEFAULT 0,
+        mtime_ms REAL NOT NULL DEFAULT 0,
+        cwd TEXT DEFAULT '',
+        start_time REAL DEFAULT 0,
+        last_active REAL DEFAULT 0,
+        message_count INTEGER DEFAULT 0,
+        first_message TEXT DEFAULT '',
+        model TEXT DEFAULT '',
+        git_branch TEXT DEFAULT '',
+        total_input INTEGER DEFAULT 0,
+        total_output INTEGER DEFAULT 0,
+        cache_read INTEGER DEFAULT 0,
+        cache_write_5m INTEGER DEFAULT 0,
+        cache_write_1h INTEGER DEFAULT 0,
+        signals TEXT DEFAULT '{}'
+      );
+      CREATE INDEX IF NOT EXISTS idx_session_index_project ON session_index(project);
+      CREATE TABLE IF NOT EXISTS session_usage (
+        file_path TEXT NOT NULL,
+        date TEXT NOT NULL,
+        model TEXT NOT NULL,
+        branch TEXT NOT NULL DEFAULT '',
+        input INTEGER DEFAULT 0,
+        output INTEGER DEFAULT 0,
+        cache_read INTEGER DEFAULT 0,
+        cache_write_5m INTEGER DEFAULT 0,
+        cache_write_1h INTEGER DEFAULT 0,
+        PRIMARY KEY (file_path, date, model, branch)
+      );
+      CREATE TABLE IF NOT EXISTS session_hourly_usage (
+        file_path TEXT NOT NULL,
+        hour TEXT NOT NULL,
+        model TEXT NOT NULL,
+        first_at REAL NOT NULL,
+        last_at REAL NOT NULL,
+        messages INTEGER DEFAULT 0,
+        input INTEGER DEFAULT 0,
+        output INTEGER DEFAULT 0,
+        cache_read INTEGER DEFAULT 0,
+        cache_write_5m INTEGER DEFAULT 0,
+        cache_write_1h INTEGER DEFAULT 0,
+        PRIMARY KEY (file_path, hour, model)
+      );
+      CREATE INDEX IF NOT EXISTS idx_session_hourly_usage_hour ON session_hourly_usage(hour);
+      CREATE TABLE IF NOT EXISTS session_tool_calls (
+        file_path TEXT NOT NULL,
+        tool_use_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        model TEXT DEFAULT '',
+        timestamp TEXT DEFAULT '',
+        is_error INTEGER,
+        duration_ms INTEGER,
+        input REAL DEFAULT 0,
+        output REAL DEFAULT 0,
+        cache_read REAL DEFAULT 0,
+        cache_write_5m REAL DEFAULT 0,
+        cache_write_1h REAL DEFAULT 0,
+        detail TEXT DEFAULT '',
+        PRIMARY KEY (file_path, tool_use_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_session_tool_calls_name ON session_tool_calls(name);
+      CREATE VIRTUAL TABLE IF NOT EXISTS session_fts USING fts5(
+        content,
+        file_path UNINDEXED,
+        message_uuid UNINDEXED,
+        role UNINDEXED,
+        kind UNINDEXED,
+        timestamp UNINDEXED,
+        tokenize = 'trigram'
+      );
+    `);
+    _db.prepare(
+      "INSERT OR REPLACE INTO session_index_meta (key, value) VALUES ('version', ?)"
+    ).run(INDEX_VERSION);
+  }
+  return _db;
+}
+
+// ---- Helpers ----
+
+function sanitize(s: string): string {
+  return s.replace(/[\uD800-\uDFFF]/g, "\uFFFD");
+}
+
+function emptySignals(): StatusSignals {
+  return {
+    lineCount: 0, lastRole: "", lastRoleLine: -1,
+    lastToolNames: [], lastAssistantLine: -1, lastErrorLine: -1,
+  };
+}
+
+function toDate(ms: number): string {
+  try { return new Date(ms).toISOString().split("T")[0]; } catch { return "unknown"; }
+}
+
+function scaleUsage(u: TokenUsage, factor: number): TokenUsage {
+  return {
+    input: u.input * factor,
+    output: u.output * factor,
+    cacheRead: u.cacheRead * factor,
+    cacheWrite5m: u.cacheWrite5m * factor,
+    cacheWrite1h: u.cacheWrite1h * factor,
+  };
+}
+
+/**
+ * Codex tool output: older rollouts wrap shell output as JSON with exit code
+ * and duration metadata, newer ones use a plain "Exit code: N" preamble.
+ */
+export function parseCodexToolOutput(output: unknown): { text: string; isError: boolean; durationMs?: number } {
+  if (output && typeof output === "object") {
+    const o = output as { content?: unknown; success?: boolean };
+    return { text: String(o.content ?? ""), isError: o.success === false };
+  }
+  const raw = String(output ?? "");
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === "object" && "output" in parsed) {
+      const exitCode = parsed.metadata?.exit_code;
+      const seconds = parsed.metadata?.duration_seconds;
+      return {
+        text: String(parsed.output ?? ""),
+        isError: typeof exitCode === "number" && exitCode !== 0,
+        durationMs: typeof seconds === "number" ? Math.round(seconds * 1000) : undefined,
+      };
+    }
+  } catch { /* plain text output */ }
+  const exit = raw.match(/^Exit code: (\d+)/m);
+  return { text: raw, isError: !!exit && exit[1] !== "0" };
+}
+
+/** Command line of a Codex shell call; ["bash", "-lc", cmd] unwraps to cmd */
+function codexCommand(args: unknown): string {
+  try {
+    const parsed = typeof args === "string" ? JSON.parse(args) : args;
+    const cmd = parsed?.command ?? parsed?.cmd;
+    if (typeof cmd === "string") return cmd;
+    if (Array.isArray(cmd)) {
+      return cmd.length === 3 && /^(ba|z)?sh$/.test(String(cmd[0])) && cmd[1] === "-lc" ? String(cmd[2]) : cmd.join(" ");
+    }
+  } catch { /* not JSON */ }
+  return "";
+}
+
+/** Parse a Gemini chat file; null while it is missing or half-written */
+export function readGeminiChat(filePath: string): GeminiChat | null {
+  try {
+    const chat = JSON.parse(sanitize(fs.readFileSync(filePath, "utf-8")));
+    return chat && Array.isArray(chat.messages) ? chat : null;
+  } catch {
+    return null;
+  }
+}
+
+export function geminiText(content: GeminiContent | undefined): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content.map((p) => p?.text || "").filter(Boolean).join("\n");
+}
+
+/** Result text of a Gemini tool call, preferring what the CLI displayed */
+export function geminiToolResult(call: GeminiToolCall): { text: string; isError: boolean } {
+  const isError = call.status === "error" || call.status === "cancelled";
+  if (typeof call.resultDisplay === "string") return { text: call.resultDisplay, isError };
+  const response = call.result?.find((p) => p?.functionResponse)?.functionResponse?.response;
+  const value = response?.error ?? response?.output ?? "";
+  return { text: typeof value === "string" ? value : JSON.stringify(value), isError: isError || response?.error !== undefined };
+}
+
+/**
+ * Read complete lines between `start` and `end` in fixed-size chunks.
+ * A trailing line without newline is only consumed when it is valid JSON,
+ * so a record that is still being written is picked up on the next refresh.
+ */
+export function readAppendedLines(
+  filePath: string, start: number, end: number,
+): { lines: string[]; nextOffset: number } {
+  const lines: string[] = [];
+  let offset = start;
+  let fd: number;
+  try { fd = fs.openSync(filePath, "r"); } catch { return { lines, nextOffset: start }; }
+
+  try {
+    let carry: Buffer = Buffer.alloc(0);
+    let pos = start;
+    while (pos < end) {
+      const len = Math.min(READ_CHUNK_BYTES, end - pos);
+      const chunk = Buffer.alloc(len);
+      const read = fs.readSync(fd, chunk, 0, len, pos);
+      if (read <= 0) break;
+      pos += read;
+
+      const buf: Buffer = carry.length ? Buffer.concat([carry, chunk.subarray(0, read)]) : chunk.subarray(0, read);
+      const lastNl = buf.lastIndexOf(0x0a);
+      if (lastNl < 0) { carry = buf; continue; }
+
+      for (const line of buf.subarray(0, lastNl).toString("utf-8").split("\n")) {
+        if (line.trim()) lines.push(line);
+      }
+      offset += lastNl + 1;
+      carry = buf.subarray(lastNl + 1);
+    }
+
+    const rest = carry.toString("utf-8");
+    if (rest.trim()) {
+      try {
+        JSON.parse(rest);
+        lines.push(rest);
+        offset += carry.length;
+      } catch { /* incomplete record, retry next time */ }
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return { lines, nextOffset: offset };
+}
+
+function rowToSession(row: SessionIndexRow): IndexedSession {
+  let signals = emptySignals();
+  try { signals = { ...signals, ...JSON.parse(row.signals) }; } catch { /* keep defaults */ }
+  return {
+    filePath: row.file_path,
+    sessionId: row.session_id,
+    project: row.project,
+    source: row.source,
+    cwd: row.cwd || "",
+    startTime: row.start_time,
+    lastActive: row.last_active,
+    messageCount: row.message_count,
+    firstMessage: row.first_message || "",
+    model: row.model || "",
+    gitBranch: row.git_branch || "",
+    usage: {
+      input: row.total_input,
+      output: row.total_output,
+      cacheRead: row.cache_read,
+      cacheWrite5m: row.cache_write_5m,
+      cacheWrite1h: row.cache_write_1h,
+    },
+    signals,
+  };
+}
+
+// ---- Line parsers ----
+
+type UsageBuckets = Map<string, { date: string; model: string; branch: string; usage: TokenUsage }>;
+
+function addToBucket(buckets: UsageBuckets, date: string, model: string, branch: string, usage: TokenUsage): void {
+  const key = `${date}\u0000${model}\u0000${branch}`;
+  const bucket = buckets.get(key) ?? { date, model, branch, usage: emptyUsage() };
+  addUsage(bucket.usage, usage);
+  buckets.set(key, bucket);
+}
+
+type HourBuckets = Map<string, { hour: string; model: string; firstAt: number; lastAt: number; messages: number; usage: TokenUsage }>;
+
+function addToHour(hours: HourBuckets, at: number, model: string, usage: TokenUsage): void {
+  const hour = new Date(at).toISOString().slice(0, 13);
+  const key = `${hour}\u0000${model}`;
+  const bucket = hours.get(key) ?? { hour, model, firstAt: at, lastAt: at, messages: 0, usage: emptyUsage() };
+  bucket.firstAt = Math.min(bucket.firstAt, at);
+  bucket.lastAt = Math.max(bucket.lastAt, at);
+  bucket.messages++;
+  addUsage(bucket.usage, usage);
+  hours.set(key, bucket);
+}
+
+function trackStatus(signals: StatusSignals, obj: Record<string, unknown>, li: number): void {
+  const msg = obj.message as { content?: unknown; stop_reason?: string } | undefined;
+  if (obj.type === "user") {
+    signals.lastRole = "user";
+    signals.lastRoleLine = li;
+  } else if (obj.type === "assistant") {
+    signals.lastRole = "assistant";
+    signals.lastRoleLine = li;
+    signals.lastAssistantLine = li;
+    signals.lastToolNames = [];
+    if (Array.isArray(msg?.content)) {
+      for (const block of msg.content) {
+        if (block.type === "tool_use") signals.lastToolNames.push(block.name);
+      }
+    }
+  }
+  if (obj.type === "assistant" && msg?.stop_reason === "error") signals.lastErrorLine = li;
+  if (obj.type === "result" && obj.error) signals.lastErrorLine = li;
+}
+
+function pushDoc(docs: SearchDoc[], content: string, doc: Omit<SearchDoc, "content">): void {
+  const text = content.trim();
+  if (text) docs.push({ ...doc, content: text.slice(0, MAX_DOC_CHARS) });
+}
+
+function collectClaudeDocs(obj: Record<string, unknown>, docs: SearchDoc[]): void {
+  const msg = obj.message as { content?: unknown } | undefined;
+  if (!msg || obj.type === "file-history-snapshot") return;
+  const base = {
+    messageUuid: typeof obj.uuid === "string" ? obj.uuid : "",
+    role: String(obj.type || ""),
+    timestamp: typeof obj.timestamp === "string" ? obj.timestamp : "",
+  };
+
+  if (typeof msg.content === "string") {
+    pushDoc(docs, msg.content, { ...base, kind: "text" });
+    return;
+  }
+  if (!Array.isArray(msg.content)) return;
+
+  let text = "", thinking = "";
+  const tools: string[] = [];
+  for (const block of msg.content) {
+    if (block.type === "text") text += (text ? "\n" : "") + (block.text || "");
+    else if (block.type === "thinking") thinking += block.thinking || "";
+    else if (block.type === "tool_use") {
+      const input = typeof block.input === "string" ? block.input : JSON.stringify(block.input || {});
+      tools.push(`${block.name} ${input}`);
+    }
+  }
+  pushDoc(docs, text, { ...base, kind: "text" });
+  pushDoc(docs, thinking, { ...base, kind: "thinking" });
+  pushDoc(docs, tools.join("\n"), { ...base, kind: "tool" });
+}
+
+/** Tool calls issued by an assistant record, each carrying an even share of its usage, and tool results */
+function collectClaudeToolEvents(obj: Record<string, unknown>, fallbackModel: string, events: ToolEvent[]): void {
+  const msg = obj.message as { content?: unknown; usage?: Record<string, unknown>; model?: string } | undefined;
+  if (!msg || !Array.isArray(msg.content)) return;
+  const timestamp = typeof obj.timestamp === "string" ? obj.timestamp : "";
+  const callCount = msg.content.filter((b) => b?.type === "tool_use" && b.id).length;
+  const share = callCount > 0 && msg.usage ? scaleUsage(fromClaudeUsage(msg.usage), 1 / callCount) : emptyUsage();
+
+  for (const block of msg.content) {
+    if (block?.type === "tool_use" && block.id) {
+      events.push({
+        kind: "call", toolUseId: block.id, name: String(block.name || "unknown"),
+        model: msg.model || fallbackModel, timestamp, usage: share,
+        detail: block.name === "Bash" ? String(block.input?.command || "").slice(0, MAX_TOOL_DETAIL_CHARS) : "",
+      });
+    } else if (block?.type === "tool_result" && block.tool_use_id) {
+      events.push({ kind: "result", toolUseId: block.tool_use_id, isError: !!block.is_error, timestamp });
+    }
+  }
+}
+
+function applyClaudeLines(
+  s: IndexedSession, lines: string[], buckets: UsageBuckets, hours: HourBuckets, docs: SearchDoc[], tools: ToolEvent[],
+  mtimeMs: number,
+): void {
+  for (const line of lines) {
+    const li = s.signals.lineCount++;
+    s.messageCount++;
+    try {
+      const obj = JSON.parse(sanitize(line));
+      trackStatus(s.signals, obj, li);
+      collectClaudeDocs(obj, docs);
+
+      // First message: only from first 30 lines
+      if (li < 30 && obj.type === "user" && !s.firstMessage && obj.message?.content) {
+        const c = obj.message.content;
+        s.firstMessage =
+          typeof c === "string" ? c.slice(0, 120) :
+            Array.isArray(c) ? (c.find((b: { type: string; text?: string }) => b.type === "text")?.text || "").slice(0, 120) : "";
+      }
+      if (!s.cwd && typeof obj.cwd === "string") s.cwd = obj.cwd;
+      if (typeof obj.gitBranch === "string" && obj.gitBranch) s.gitBranch = obj.gitBranch;
+      if (obj.type === "assistant" && obj.message?.model && !s.model) {
+        s.model = obj.message.model;
+      }
+      collectClaudeToolEvents(obj, s.model, tools);
+
+      if (!obj.message?.usage) continue;
+      const usage = fromClaudeUsage(obj.message.usage);
+      addUsage(s.usage, usage);
+
+      // Per-message date attribution, file mtime as fallback
+      const model = obj.message.model || s.model || "unknown";
+      const at = obj.timestamp ? new Date(obj.timestamp).getTime() : NaN;
+      let date = toDate(at);
+      if (date === "unknown") date = toDate(mtimeMs);
+      addToBucket(buckets, date, model, s.gitBranch, usage);
+      if (!isNaN(at)) addToHour(hours, at, model, usage);
+    } catch { /* skip */ }
+  }
+}
+
+function applyCodexLines(s: IndexedSession, lines: string[], docs: SearchDoc[], tools: ToolEvent[]): void {
+  for (const line of lines) {
+    const li = s.signals.lineCount++;
+    try {
+      const obj = JSON.parse(sanitize(line));
+      trackStatus(s.signals, obj, li);
+
+      const ts = obj.timestamp ? new Date(obj.timestamp).getTime() : 0;
+      if (ts && (!s.startTime || ts < s.startTime)) s.startTime = ts;
+      if (ts > s.lastActive) s.lastActive = ts;
+
+      const timestamp = typeof obj.timestamp === "string" ? obj.timestamp : "";
+      if (obj.type === "response_item" && obj.payload?.type === "function_call") {
+        pushDoc(docs, `${obj.payload.name || "tool"} ${obj.payload.arguments || ""}`,
+          { messageUuid: "", role: "assistant", kind: "tool", timestamp });
+      }
+      if (obj.type === "response_item" && obj.payload?.call_id) {
+        const item = obj.payload;
+        if (item.type === "function_call" || item.type === "custom_tool_call") {
+          const name = item.name || "tool";
+          tools.push({
+            kind: "call", toolUseId: item.call_id, name, model: s.model, timestamp, usage: emptyUsage(),
+            detail: CODEX_SHELL_TOOLS.has(name) ? codexCommand(item.arguments).slice(0, MAX_TOOL_DETAIL_CHARS) : "",
+          });
+        } else if (item.type === "function_call_output" || item.type === "custom_tool_call_output") {
+          const out = parseCodexToolOutput(item.output);
+          tools.push({ kind: "result", toolUseId: item.call_id, isError: out.isError, timestamp, durationMs: out.durationMs });
+        }
+      }
+
+      if (obj.type === "session_meta") {
+        if (obj.payload?.id) s.sessionId = obj.payload.id;
+        s.cwd = obj.payload?.cwd || s.cwd;
+        if (typeof obj.payload?.git?.branch === "string") s.gitBranch = obj.payload.git.branch;
+      } else if (obj.type === "turn_context") {
+        if (!s.model && obj.payload?.model) s.model = obj.payload.model;
+      } else if (obj.type === "event_msg") {
+        const evtType = obj.payload?.type;
+        if (evtType === "user_message") {
+          s.messageCount++;
+          if (!s.firstMessage) s.firstMessage = (obj.payload.message || "").slice(0, 120);
+          pushDoc(docs, obj.payload.message || "",
+            { messageUuid: obj.payload.turn_id || "", role: "user", kind: "text", timestamp });
+        } else if (evtType === "agent_message") {
+          s.messageCount++;
+          pushDoc(docs, obj.payload.message || "",
+            { messageUuid: "", role: "assistant", kind: "text", timestamp });
+        } else if (evtType === "agent_reasoning") {
+          pushDoc(docs, obj.payload.text || "",
+            { messageUuid: "", role: "assistant", kind: "thinking", timestamp });
+        } else if (evtType === "token_count" && obj.payload?.info?.total_token_usage) {
+          // Cumulative: always take the latest
+          s.usage = fromCodexUsage(obj.payload.info.total_token_usage);
+        }
+      }
+    } catch { /* skip */ }
+  }
+}
+
+/** Gemini usage is per message, so it is bucketed by date and model like Claude's; chats record no branch */
+function applyGeminiChat(
+  s: IndexedSession, chat: GeminiChat, buckets: UsageBuckets, docs: SearchDoc[], tools: ToolEvent[], mtimeMs: number,
+): void {
+  if (chat.sessionId) s.sessionId = chat.sessionId;
+  const started = Date.parse(chat.startTime);
+  const updated = Date.parse(chat.lastUpdated);
+  if (Number.isFinite(started)) s.startTime = started;
+  if (Number.isFinite(updated)) s.lastActive = updated;
+
+  for (const msg of chat.messages) {
+    const li = s.signals.lineCount++;
+    const timestamp = typeof msg.timestamp === "string" ? msg.timestamp : "";
+    const text = geminiText(msg.content);
+    const base = { messageUuid: msg.id || "", timestamp };
+
+    if (msg.type === "user") {
+      s.messageCount++;
+      s.signals.lastRole = "user";
+      s.signals.lastRoleLine = li;
+      if (!s.firstMessage) s.firstMessage = text.slice(0, 120);
+      pushDoc(docs, text, { ...base, role: "user", kind: "text" });
+      continue;
+    }
+    if (msg.type === "error") {
+      s.signals.lastErrorLine = li;
+      continue;
+    }
+    if (msg.type !== "gemini") continue;
+
+    s.messageCount++;
+    if (!s.model && msg.model) s.model = msg.model;
+    const calls = msg.toolCalls ?? [];
+    s.signals.lastRole = "assistant";
+    s.signals.lastRoleLine = li;
+    s.signals.lastAssistantLine = li;
+    s.signals.lastToolNames = calls.map((c) => c.name);
+
+    pushDoc(docs, text, { ...base, role: "assistant", kind: "text" });
+    pushDoc(docs, (msg.thoughts ?? []).map((t) => `${t.subject || ""}: ${t.description || ""}`).join("\n"),
+      { ...base, role: "assistant", kind: "thinking" });
+    pushDoc(docs, calls.map((c) => `${c.name} ${JSON.stringify(c.args ?? {})}`).join("\n"),
+      { ...base, role: "assistant", kind: "tool" });
+
+    const usage = msg.tokens ? fromGeminiUsage(msg.tokens) : emptyUsage();
+    const share = calls.length > 0 ? scaleUsage(usage, 1 / calls.length) : usage;
+    const model = msg.model || s.model || "unknown";
+    for (const call of calls) {
+      if (!call.id) continue;
+      const callTime = call.timestamp || timestamp;
+      tools.push({
+        kind: "call", toolUseId: call.id, name: call.name || "unknown", model, timestamp: callTime, usage: share,
+        detail: GEMINI_SHELL_TOOLS.has(call.name) ? String(call.args?.command ?? "").slice(0, MAX_TOOL_DETAIL_CHARS) : "",
+      });
+      // Results are recorded with the call and carry no completion time: no timestamp leaves the latency unknown
+      if (call.status && call.status !== "executing") {
+        tools.push({ kind: "result", toolUseId: call.id, isError: geminiToolResult(call).isError, timestamp: "" });
+      }
+    }
+
+    if (!msg.tokens) continue;
+    addUsage(s.usage, usage);
+    let date = timestamp ? toDate(Date.parse(timestamp)) : "unknown";
+    if (date === "unknown") date = toDate(mtimeMs);
+    addToBucket(buckets, date, model, "", usage);
+  }
+}
+
+// ---- Indexing ----
+
+function codexIdFromFileName(fileName: string): string {
+  // rollout-{datetime}-{uuid}.jsonl
+  const match = fileName.match(/rollout-.*?-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.jsonl$/i);
+  return match ? match[1] : fileName.replace(".jsonl", "");
+}
+
+/**
+ * Gemini chats record only a hash of their directory. Match it against the
+ * directories Claude and Codex sessions ran in; empty when none matches.
+ */
+function geminiProjectRoot(db: Database.Database, hash: string): string {
+  if (!hash) return "";
+  const rows = db.prepare(
+    "SELECT DISTINCT cwd FROM session_index WHERE cwd != '' AND source != 'gemini'"
+  ).all() as { cwd: string }[];
+  for (const { cwd } of rows) {
+    if (crypto.createHash("sha256").update(cwd).digest("hex") === hash) return cwd;
+  }
+  return "";
+}
+
+/** Bring a single file's index row up to date, parsing only appended bytes. */
+function indexFile(
+  db: Database.Database, filePath: string, project: string, source: IndexSource,
+  existing: SessionIndexRow | undefined,
+): void {
+  let stat: fs.Stats;
+  try { stat = fs.statSync(filePath); } catch { return; }
+  if (existing && existing.file_size === stat.size && existing.mtime_ms === stat.mtimeMs) return;
+
+  const fileName = path.basename(filePath);
+  // A shrunk file was rewritten: start over from the beginning
+  const reset = !existing || source === "gemini" || stat.size < existing.byte_offset;
+  const session: IndexedSession = !reset && existing ? rowToSession(existing) : {
+    filePath,
+    sessionId: source === "codex" ? codexIdFromFileName(fileName) : fileName.replace(/\.jsonl?$/, ""),
+    project,
+    source,
+    cwd: "",
+    startTime: 0,
+    lastActive: 0,
+    messageCount: 0,
+    firstMessage: "",
+    model: "",
+    gitBranch: "",
+    usage: emptyUsage(),
+    signals: emptySignals(),
+  };
+  const buckets: UsageBuckets = new Map();
+  const hours: HourBuckets = new Map();
+  const docs: SearchDoc[] = [];
+  const tools: ToolEvent[] = [];
+  let nextOffset = stat.size;
+  if (source === "gemini") {
+    // Half-written: keep the previous row until the next refresh
+    const chat = readGeminiChat(filePath);
+    if (!chat) return;
+    session.cwd = geminiProjectRoot(db, chat.projectHash);
+    applyGeminiChat(session, chat, buckets, docs, tools, stat.mtimeMs);
+    if (!session.startTime) session.startTime = stat.birthtimeMs || stat.ctimeMs;
+    if (!session.lastActive) session.lastActive = stat.mtimeMs;
+  } else {
+    const startOffset = reset ? 0 : existing!.byte_offset;
+    const read = readAppendedLines(filePath, startOffset, stat.size);
+    nextOffset = read.nextOffset;
+    if (source === "claude") {
+      if (!session.startTime) session.startTime = stat.birthtimeMs || stat.ctimeMs;
+      session.lastActive = stat.mtimeMs;
+      applyClaudeLines(session, read.lines, buckets, hours, docs, tools, stat.mtimeMs);
+    } else {
+      applyCodexLines(session, read.lines, docs, tools);
+      if (!session.startTime) session.startTime = stat.birthtimeMs || stat.ctimeMs;
+      if (!session.lastActive) session.lastActive = stat.mtimeMs;
+    }
+  }
+
+  db.transaction(() => {
+    if (reset) {
+      db.prepare("DELETE FROM session_usage WHERE file_path = ?").run(filePath);
+      db.prepare("DELETE FROM session_hourly_usage WHERE file_path = ?").run(filePath);
+      db.prepare("DELETE FROM session_fts WHERE file_path = ?").run(filePath);
+      db.prepare("DELETE FROM session_tool_calls WHERE file_path = ?").run(filePath);
+    }
+    db.prepare(`
+      INSERT OR REPLACE INTO session_index (
+        file_path, session_id, project, source, byte_offset, file_size, mtime_ms,
+        cwd, start_time, last_active, message_count, first_message, model, git_branch,
+        total_input, total_output, cache_read, cache_write_5m, cache_write_1h, signals
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      filePath, session.sessionId, project, source, nextOffset, stat.size, stat.mtimeMs,
+      session.cwd, session.startTime, session.lastActive, session.messageCount,
+      session.firstMessage, session.model, session.gitBranch, session.usage.input, session.usage.output,
+      session.usage.cacheRead, session.usage.cacheWrite5m, session.usage.cacheWrite1h,
+      JSON.stringify(session.signals),
+    );
+    const upsert = db.prepare(`
+      INSERT INTO session_usage (file_path, date, model, branch, input, output, cache_read, cache_write_5m, cache_write_1h)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (file_path, date, model, branch) DO UPDATE SET
+        input = input + excluded.input,
+        output = output + excluded.output,
+        cache_read = cache_read + excluded.cache_read,
+        cache_write_5m = cache_write_5m + excluded.cache_write_5m,
+        cache_write_1h = cache_write_1h + excluded.cache_write_1h
+    `);
+    for (const b of buckets.values()) {
+      const u = b.usage;
+      upsert.run(filePath, b.date, b.model, b.branch, u.input, u.output, u.cacheRead, u.cacheWrite5m, u.cacheWrite1h);
+    }
+    const upsertHour = db.prepare(`
+      INSERT INTO session_hourly_usage (
+        file_path, hour, model, first_at, last_at, messages, input, output, cache_read, cache_write_5m, cache_write_1h
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (file_path, hour, model) DO UPDATE SET
+        first_at = MIN(first_at, excluded.first_at),
+        last_at = MAX(last_at, excluded.last_at),
+        messages = messages + excluded.messages,
+        input = input + excluded.input,
+        output = output + excluded.output,
+        cache_read = cache_read + excluded.cache_read,
+        cache_write_5m = cache_write_5m + excluded.cache_write_5m,
+        cache_write_1h = cache_write_1h + excluded.cache_write_1h
+    `);
+    for (const h of hours.values()) {
+      const u = h.usage;
+      upsertHour.run(
+        filePath, h.hour, h.model, h.firstAt, h.lastAt, h.messages,
+        u.input, u.output, u.cacheRead, u.cacheWrite5m, u.cacheWrite1h,
+      );
+    }
+    const insertDoc = db.prepare(`
+      INSERT INTO session_fts (content, file_path, message_uuid, role, kind, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    for (const d of docs) {
+      insertDoc.run(d.content, filePath, d.messageUuid, d.role, d.kind, d.timestamp);
+    }
+    const insertCall = db.prepare(`
+      INSERT OR IGNORE INTO session_tool_calls (
+        file_path, tool_use_id, name, model, timestamp,
+        input, output, cache_read, cache_write_5m, cache_write_1h, detail
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    // The call row may come from an earlier refresh, so latency is computed from the stored timestamp
+    const completeCall = db.prepare(`
+      UPDATE session_tool_calls SET
+        is_error = ?,
+        duration_ms = COALESCE(?, MAX(0, CAST(ROUND((julianday(?) - julianday(timestamp)) * 86400000) AS INTEGER)))
+      WHERE file_path = ? AND tool_use_id = ?
+    `);
+    for (const t of tools) {
+      if (t.kind === "call") {
+        const u = t.usage;
+        insertCall.run(
+          filePath, t.toolUseId, t.name, t.model, t.timestamp,
+          u.input, u.output, u.cacheRead, u.cacheWrite5m, u.cacheWrite1h, t.detail,
+        );
+      } else {
+        completeCall.run(t.isError ? 1 : 0, t.durationMs ?? null, t.timestamp, filePath, t.toolUseId);
+      }
+    }
+  })();
+}
+
+/** List Claude session files as [filePath, project] pairs */
+function listClaudeFiles(projectPath?: string): [string, string][] {
+  const files: [string, string][] = [];
+  if (!fs.existsSync(PROJECTS_DIR)) return files;
+  let entries: string[];
+  try {
+    entries = projectPath ? [projectPath] : fs.readdirSync(PROJECTS_DIR);
+  } catch { return files; }
+
+  for (const entry of entries) {
+    const dir = path.join(PROJECTS_DIR, entry);
+    try {
+      if (!fs.statSync(dir).isDirectory()) continue;
+      for (const file of fs.readdirSync(dir)) {
+        if (!file.endsWith(".jsonl") || file === "memory.jsonl") continue;
+        files.push([path.join(dir, file), entry]);
+      }
+    } catch { /* skip */ }
+  }
+  return files;
+}
+
+/** List Codex rollout files from the year/month/day tree */
+function listCodexFiles(): string[] {
+  const files: string[] = [];
+  if (!fs.existsSync(CODEX_SESSIONS_DIR)) return files;
+  const subdirs = (dir: string): string[] => {
+    try {
+      return fs.readdirSync(dir)
+        .map((d) => path.join(dir, d))
+        .filter((d) => { try { return fs.statSync(d).isDirectory(); } catch { return false; } });
+    } catch { return []; }
+  };
+
+  for (const yearDir of subdirs(CODEX_SESSIONS_DIR)) {
+    for (const monthDir of subdirs(yearDir)) {
+      for (const dayDir of subdirs(monthDir)) {
+        try {
+          for (const file of fs.readdirSync(dayDir)) {
+            if (file.endsWith(".jsonl") && file.startsWith("rollout-")) files.push(path.join(dayDir, file));
+          }
+        } catch { /* skip */ }
+      }
+    }
+  }
+  return files;
+}
+
+/** List Gemini chat files from every project hash directory */
+function listGeminiFiles(): string[] {
+  const files: string[] = [];
+  if (!fs.existsSync(GEMINI_TMP_DIR)) return files;
+  let hashes: string[];
+  try { hashes = fs.readdirSync(GEMINI_TMP_DIR); } catch { return files; }
+
+  for (const hash of hashes) {
+    const chatsDir = path.join(GEMINI_TMP_DIR, hash, "chats");
+    try {
+      for (const file of fs.readdirSync(chatsDir)) {
+        if (file.startsWith("session-") && file.endsWith(".json")) files.push(path.join(chatsDir, file));
+      }
+    } catch { /* no chats recorded */ }
+  }
+  return files;
+}
+
+/** A session file and where it belongs in the index */
+export interface SessionFile {
+  filePath: string;
+  project: string;
+  source: IndexSource;
+}
+
+/** Classify a path as a Claude, Codex or Gemini session file, or null for anything else */
+export function sessionFileFor(filePath: string): SessionFile | null {
+  const geminiRel = path.relative(GEMINI_TMP_DIR, filePath);
+  if (!geminiRel.startsWith("..") && !path.isAbsolute(geminiRel)) {
+    const parts = geminiRel.split(path.sep);
+    if (parts.length !== 3 || parts[1] !== "chats" || !/^session-.*\.json$/.test(parts[2])) return null;
+    return { filePath, project: GEMINI_PROJECT, source: "gemini" };
+  }
+  if (!filePath.endsWith(".jsonl")) return null;
+  const claudeRel = path.relative(PROJECTS_DIR, filePath);
+  if (!claudeRel.startsWith("..") && !path.isAbsolute(claudeRel)) {
+    const parts = claudeRel.split(path.sep);
+    if (parts.length !== 2 || parts[1] === "memory.jsonl") return null;
+    return { filePath, project: parts[0], source: "claude" };
+  }
+  const codexRel = path.relative(CODEX_SESSIONS_DIR, filePath);
+  if (!codexRel.startsWith("..") && !path.isAbsolute(codexRel)) {
+    const parts = codexRel.split(path.sep);
+    if (parts.length !== 4 || !parts[3].startsWith("rollout-")) return null;
+    return { filePath, project: CODEX_PROJECT, source: "codex" };
+  }
+  return null;
+}
+
+/** Every session file on disk */
+export function listSessionFiles(): SessionFile[] {
+  return [
+    ...listClaudeFiles().map(([filePath, project]): SessionFile => ({ filePath, project, source: "claude" })),
+    ...listCodexFiles().map((filePath): SessionFile => ({ filePath, project: CODEX_PROJECT, source: "codex" })),
+    ...listGeminiFiles().map((filePath): SessionFile => ({ filePath, project: GEMINI_PROJECT, source: "gemini" })),
+  ];
+}
+
+/**
+ * Re-index one file immediately, bypassing the refresh throttle. Returns the
+ * updated session, or null when the file is gone (its rows are dropped).
+ * `reset` re-reads the file from the start, for rewrites that did not shrink it.
+ */
+export function indexSessionFile(file: SessionFile, opts: { reset?: boolean } = {}): IndexedSession | null {
+  const db = getDb();
+  const select = db.prepare("SELECT * FROM session_index WHERE file_path = ?");
+  if (!fs.existsSync(file.filePath)) {
+    db.transaction(() => {
+      for (const table of ["session_index", "session_usage", "session_hourly_usage", "session_fts", "session_tool_calls"]) {
+        db.prepare(`DELETE FROM ${table} WHERE file_path = ?`).run(file.filePath);
+      }
+    })();
+    return null;
+  }
+  const existing = opts.reset ? undefined : select.get(file.filePath) as SessionIndexRow | undefined;
+  indexFile(db, file.filePath, file.project, file.source, existing);
+  const row = select.get(file.filePath) as SessionIndexRow | undefined;
+  return row ? rowToSession(row) : null;
+}
+
+const lastRefresh = new Map<string, number>();
+
+/**
+ * Sync the index with the filesystem. With no argument every Claude project,
+ * the Codex tree and the Gemini chats are scanned; "__codex__", "__gemini__"
+ * or a Claude project directory name limits the scan. Unchanged files cost
+ * one stat call each.
+ */
+export function refreshSessionIndex(projectPath?: string): void {
+  const scope = projectPath ?? "*";
+  const now = Date.now();
+  if (now - (lastRefresh.get(scope) ?? 0) < MIN_REFRESH_INTERVAL_MS) return;
+
+  const db = getDb();
+  const targets: [string, string, IndexSource][] = [];
+  if (projectPath !== CODEX_PROJECT && projectPath !== GEMINI_PROJECT) {
+    for (const [file, project] of listClaudeFiles(projectPath)) targets.push([file, project, "claude"]);
+  }
+  if (!projectPath || projectPath === CODEX_PROJECT) {
+    for (const file of listCodexFiles()) targets.push([file, CODEX_PROJECT, "codex"]);
+  }
+  // After the others, so directory hashes can be matched against fresh cwds
+  if (!projectPath || projectPath === GEMINI_PROJECT) {
+    for (const file of listGeminiFiles()) targets.push([file, GEMINI_PROJECT, "gemini"]);
+  }
+
+  const rows = projectPath
+    ? db.prepare("SELECT * FROM session_index WHERE project = ?").all(projectPath) as SessionIndexRow[]
+    : db.prepare("SELECT * FROM session_index").all() as SessionIndexRow[];
+  const existing = new Map(rows.map((r) => [r.file_path, r]));
+
+  for (const [file, project, source] of targets) {
+    try {
+      indexFile(db, file, project, source, existing.get(file));
+    } catch (err) {
+      console.error("[SessionIndex] Failed to index", file, err);
+    }
+    existing.delete(file);
+  }
+
+  // Rows left over belong to files that no longer exist
+  if (existing.size > 0) {
+    const delIndex = db.prepare("DELETE FROM session_index WHERE file_path = ?");
+    const delUsage = db.prepare("DELETE FROM session_usage WHERE file_path = ?");
+    const delHours = db.prepare("DELETE FROM session_hourly_usage WHERE file_path = ?");
+    const delDocs = db.prepare("DELETE FROM session_fts WHERE file_path = ?");
+    const delTools = db.prepare("DELETE FROM session_tool_calls WHERE file_path = ?");
+    db.transaction(() => {
+      for (const file of existing.keys()) {
+        delIndex.run(file);
+        delUsage.run(file);
+        delHours.run(file);
+        delDocs.run(file);
+        delTools.run(file);
+      }
+    })();
+  }
+
+  lastRefresh.set(scope, Date.now());
+}
+
+// ---- Queries ----
+
+/** Get indexed sessions, optionally limited to one project ("__codex__" for Codex, "__gemini__" for Gemini) */
+export function getIndexedSessions(projectPath?: string): IndexedSession[] {
+  const db = getDb();
+  const rows = projectPath
+    ? db.prepare("SELECT * FROM session_index WHERE project = ? ORDER BY last_active DESC").all(projectPath) as SessionIndexRow[]
+    : db.prepare("SELECT * FROM session_index ORDER BY last_active DESC").all() as SessionIndexRow[];
+  return rows.map(rowToSession);
+}
+
+/** Working directory of each Claude project's most recent session that recorded one */
+export function getProjectCwds(): { project: string; cwd: string; lastActive: number }[] {
+  const rows = getDb().prepare(`
+    SELECT project, cwd, MAX(last_active) AS last_active FROM session_index
+    WHERE source = 'claude' AND cwd != '' GROUP BY project
+  `).all() as { project: string; cwd: string; last_active: number }[];
+  return rows.map((r) => ({ project: r.project, cwd: r.cwd, lastActive: r.last_active }));
+}
+
+/** Get per-file, per-day, per-model, per-branch usage buckets (Claude and Gemini sessions), optionally of one file */
+export function getIndexedUsage(filePath?: string): IndexedUsage[] {
+  const db = getDb();
+  const rows = filePath
+    ? db.prepare("SELECT * FROM session_usage WHERE file_path = ?").all(filePath) as SessionUsageRow[]
+    : db.prepare("SELECT * FROM session_usage").all() as SessionUsageRow[];
+  return rows.map((r) => ({
+    filePath: r.file_path,
+    date: r.date,
+    model: r.model,
+    branch: r.branch,
+    input: r.input,
+    output: r.output,
+    cacheRead: r.cache_read,
+    cacheWrite5m: r.cache_write_5m,
+    cacheWrite1h: r.cache_write_1h,
+  }));
+}
+
+/** Get Claude usage per file, hour and model, optionally only hours on or after `since` (YYYY-MM-DDTHH) */
+export function getIndexedHourlyUsage(since?: string): IndexedHourlyUsage[] {
+  const db = getDb();
+  const rows = since
+    ? db.prepare("SELECT * FROM session_hourly_usage WHERE hour >= ? ORDER BY hour").all(since) as HourlyUsageRow[]
+    : db.prepare("SELECT * FROM session_hourly_usage ORDER BY hour").all() as HourlyUsageRow[];
+  return rows.map((r) => ({
+    filePath: r.file_path,
+    hour: r.hour,
+    model: r.model,
+    firstAt: r.first_at,
+    lastAt: r.last_at,
+    messages: r.messages,
+    input: r.input,
+    output: r.output,
+    cacheRead: r.cache_read,
+    cacheWrite5m: r.cache_write_5m,
+    cacheWrite1h: r.cache_write_1h,
+  }));
+}
+
+/** Get indexed tool calls with their session, optionally only those made on or after `since` (ISO date) */
+export function getIndexedToolCalls(since?: string): IndexedToolCall[] {
+  const rows = getDb().prepare(`
+    SELECT t.*, s.session_id, s.project, s.source, s.cwd
+    FROM session_tool_calls t
+    JOIN session_index s ON s.file_path = t.file_path
+    ${since ? "WHERE t.timestamp >= ?" : ""}
+  `).all(...(since ? [since] : [])) as ToolCallRow[];
+  return rows.map((r) => ({
+    filePath: r.file_path,
+    sessionId: r.session_id,
+    project: r.project,
+    source: r.source,
+    cwd: r.cwd || "",
+    toolUseId: r.tool_use_id,
+    name: r.name,
+    model: r.model || "",
+    timestamp: r.timestamp || "",
+    isError: r.is_error === null ? null : r.is_error === 1,
+    durationMs: r.duration_ms,
+    usage: {
+      input: r.input,
+      output: r.output,
+      cacheRead: r.cache_read,
+      cacheWrite5m: r.cache_write_5m,
+      cacheWrite1h: r.cache_write_1h,
+    },
+    detail: r.detail || "",
+  }));
+}
+
+/** Split a free-text query into plain terms (FTS syntax characters are dropped) */
+export function splitSearchTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .map((t) => t.replace(/["*^():]/g, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Full-text search over indexed transcripts. Terms are ANDed; terms shorter
+ * than the trigram minimum fall back to a LIKE scan.
+ */
+export function searchTranscripts(opts: SearchOptions): SearchHit[] {
+  const terms = splitSearchTerms(opts.query);
+  if (terms.length === 0) return [];
+
+  const longTerms = terms.filter((t) => t.length >= MIN_TERM_CHARS);
+  const shortTerms = terms.filter((t) => t.length < MIN_TERM_CHARS);
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (longTerms.length > 0) {
+    clauses.push("f.content MATCH ?");
+    params.push(longTerms.map((t) => `"${t}"`).join(" "));
+  }
+  for (const t of shortTerms) {
+    clauses.push("f.content LIKE ? ESCAPE '\\'");
+    params.push(`%${t.replace(/[\\%_]/g, "\\$&")}%`);
+  }
+  if (opts.project) {
+    clauses.push("s.project = ?");
+    params.push(opts.project);
+  }
+  if (opts.model) {
+    clauses.push("s.model LIKE ?");
+    params.push(`%${opts.model}%`);
+  }
+  if (opts.from) {
+    clauses.push("substr(f.timestamp, 1, 10) >= ?");
+    params.push(opts.from);
+  }
+  if (opts.to) {
+    clauses.push("substr(f.timestamp, 1, 10) <= ?");
+    params.push(opts.to);
+  }
+
+  const order = longTerms.length > 0 ? "f.rank" : "f.timestamp DESC";
+  const rows = getDb().prepare(`
+    SELECT f.content, f.file_path, f.message_uuid, f.role, f.kind, f.timestamp,
+           s.session_id, s.project, s.source, s.cwd, s.model
+    FROM session_fts f
+    JOIN session_index s ON s.file_path = f.file_path
+    WHERE ${clauses.join(" AND ")}
+    ORDER BY ${order}
+    LIMIT ?
+  `).all(...params, opts.limit ?? 50) as {
+    content: string; file_path: string; message_uuid: string; role: string; kind: SearchDocKind;
+    timestamp: string; session_id: string; project: string; source: IndexSource; cwd: string; model: string;
+  }[];
+
+  return rows.map((r) => ({
+    filePath: r.file_path,
+    sessionId: r.session_id,
+    project: r.project,
+    source: r.source,
+    cwd: r.cwd || "",
+    model: r.model || "",
+    messageUuid: r.message_uuid,
+    role: r.role,
+    kind: r.kind,
+    timestamp: r.timestamp,
+    content: r.content,
+  }));
+}
@@ -2,50 +2,51 @@
  * Session Reader - 读取 Claude Code 的会话历史
  * 会话数据存储在 ~/.claude/projects/ 下的各项目目录中
  * 每个会话是一个 .jsonl 文件，每行是一条消息
+ * Codex (~/.codex/sessions) 与 Gemini CLI (~/.gemini/tmp) 的会话各自汇总为一个项目
  */
 
 import fs from "fs";
 import path from "path";
 import os from "os";
+import {
+  refreshSessionIndex, getIndexedSessions, getIndexedUsage, getIndexedHourlyUsage, searchTranscripts, splitSearchTerms,
+  parseCodexToolOutput, readGeminiChat, geminiText, geminiToolResult,
+} from "./session-index";
+import type { IndexedSession, IndexedUsage, IndexSource, StatusSignals, SearchOptions, SearchDocKind } from "./session-index";
+import {
+  addUsage, cacheWriteTotal, emptyUsage, fromClaudeUsage, fromCodexUsage, fromGeminiUsage, hasTokens,
+} from "./token-usage";
+import type { TokenUsage } from "./token-usage";
+import { estimateCost, estimateCacheSavings, priceFor } from "./pricing";
+import type { TreeRecord } from "./conversation-tree";
+import { getHookState, getHookStates } from "./session-hooks";
+import type { SessionHookState } from "./session-hooks";
+import { getProjectPaths, gitRemoteFor, projectPathFor } from "./project-paths";
+import { blockBurn, blockLimit, groupBillingBlocks } from "./billing-blocks";
+import type { BillingBlock, BlockBurn } from "./billing-blocks";
 
 const CLAUDE_DIR = path.join(os.homedir(), ".claude");
 const PROJECTS_DIR = path.join(CLAUDE_DIR, "projects");
 const CODEX_DIR = path.join(os.homedir(), ".codex");
 const CODEX_SESSIONS_DIR = path.join(CODEX_DIR, "sessions");
+const GEMINI_TMP_DIR = path.join(os.homedir(), ".gemini", "tmp");
 
-// Model pricing (USD per million tokens)
-const PRICING: Record<string, { input: number; output: number }> = {
-  // Claude models
-  "claude-opus-4-6": { input: 15.0, output: 75.0 },
-  "claude-sonnet-4-5": { input: 3.0, output: 15.0 },
-  "claude-haiku-4-5": { input: 0.8, output: 4.0 },
-  // Codex / OpenAI models
-  "gpt-5.2-codex": { input: 2.0, output: 8.0 },
-  "gpt-5.3-codex": { input: 2.0, output: 8.0 },
-  "o3-pro": { input: 20.0, output: 80.0 },
-  "o3": { input: 10.0, output: 40.0 },
-  "o4-mini": { input: 1.1, output: 4.4 },
-  "gpt-4.1": { input: 2.0, output: 8.0 },
-};
-
-function estimateCost(model: string, input: number, output: number): number {
-  if (!model) {
-    const p = PRICING["claude-sonnet-4-5"];
-    return (input * p.input + output * p.output) / 1_000_000;
-  }
-  // Direct match first
-  if (PRICING[model]) {
-    const p = PRICING[model];
-    return (input * p.input + output * p.output) / 1_000_000;
-  }
-  // Partial match for Claude models
-  const key = Object.keys(PRICING).find((k) => model.includes(k.split("-").slice(1, 3).join("-")));
-  // Fallback: detect provider to pick a sensible default
-  const provider = detectProvider(model);
-  const fallbackKey = provider === "codex" ? "gpt-5.2-codex" : "claude-sonnet-4-5";
-  const p = key ? PRICING[key] : PRICING[fallbackKey];
-  return (input * p.input + output * p.output) / 1_000_000;
-}
+/** Tools that spawn a subagent sidechain */
+const TASK_TOOLS = new Set(["Task", "Agent"]);
+
+/** Tools whose full input is needed to render a diff */
+const EDIT_TOOLS = new Set(["Edit", "MultiEdit"]);
+const MAX_TOOL_INPUT = 1500;
+const MAX_EDIT_INPUT = 10000;
+const MAX_TOOL_RESULT = 4000;
+
+const LINE_CHUNK_BYTES = 1024 * 1024;
+const DEFAULT_PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 1000;
+/** Lines read past a page for the results of its last tool calls */
+const RESULT_LOOKAHEAD_LINES = 500;
+/** Sessions whose outline is kept for paging */
+const MAX_CACHED_OUTLINES = 8;
 
 // ---- Types ----
 
@@ -58,7 +59,7 @@ export type SessionStatus =
   | "error"      // Error state (red)
   | "idle";      // Inactive/old (gray)
 
-export type SessionProvider = "claude" | "codex" | "unknown";
+export type SessionProvider = "claude" | "codex" | "gemini" | "unknown";
 
 export interface SessionInfo {
   id: string;
@@ -73,6 +74,8 @@ export interface SessionInfo {
   totalInputTokens: number;
   totalOutputTokens: number;
   cacheReadTokens: number;
+  /** Cache writes across both TTL tiers */
+  cacheWriteTokens: number;
   estimatedCost: number;
   status: SessionStatus;
 }
@@ -83,9 +86,34 @@ function detectProvider(model: string): SessionProvider {
   const m = model.toLowerCase();
   if (m.includes("claude")) return "claude";
   if (m.includes("gpt") || m.includes("o3") || m.includes("o4") || m.includes("codex")) return "codex";
+  if (m.includes("gemini")) return "gemini";
   return "unknown";
 }
 
+/** Codex and Gemini files are their own provider; Claude files go by model */
+function providerFor(source: IndexSource, model: string): SessionProvider {
+  return source === "claude" ? detectProvider(model) : source;
+}
+
+/** Codex and Gemini sessions are named after their working directory */
+function projectNameFor(source: IndexSource, project: string, cwd: string): string {
+  if (source === "codex") return cwd || "Codex Session";
+  if (source === "gemini") return cwd || "Gemini Session";
+  return projectPathFor(project);
+}
+
+/** A tool call paired with its result */
+export interface ToolCallInfo {
+  id?: string;
+  name: string;
+  input?: string;
+  /** Result text, truncated; undefined while the call has no result */
+  result?: string;
+  isError?: boolean;
+  /** Time from the call to its result */
+  durationMs?: number;
+}
+
 export interface SessionMessage {
   uuid: string;
   parentUuid: string | null;
@@ -94,14 +122,28 @@ export interface SessionMessage {
   content: string;
   timestamp: string;
   model?: string;
-  toolUse?: { name: string; input?: string }[];
+  toolUse?: ToolCallInfo[];
   inputTokens?: number;
   outputTokens?: number;
   cacheRead?: number;
+  cacheWrite?: number;
+  /** Estimated cost of this message's usage, cache-aware */
+  cost?: number;
   thinkingContent?: string;
   /** Original content array from JSONL; required unchanged for last assistant message when calling Anthropic API. */
   rawContent?: unknown[];
   isCheckpoint?: boolean; // user messages = checkpoints
+  /** Part of a subagent transcript rather than the main conversation */
+  isSidechain?: boolean;
+  /** Set on the summary that replaces the conversation after a compaction */
+  compaction?: CompactionInfo;
+}
+
+export interface CompactionInfo {
+  /** `/compact` or automatic; unknown for transcripts without a boundary record */
+  trigger?: "manual" | "auto";
+  /** Context size just before compacting, as reported by the CLI */
+  preTokens?: number;
 }
 
 export interface SessionDetail {
@@ -112,12 +154,17 @@ export interface SessionDetail {
   totalInputTokens: number;
   totalOutputTokens: number;
   cacheReadTokens: number;
+  cacheWriteTokens: number;
   estimatedCost: number;
+  /** Models that used tokens but have no catalog price (excluded from estimatedCost) */
+  unpricedModels: string[];
   model?: string;
   startTime: string;
   endTime: string;
-  checkpoints: { index: number; content: string; timestamp: string }[];
+  checkpoints: { index: number; uuid: string; content: string; timestamp: string }[];
   contextFiles: string[]; // referenced files like CLAUDE.md
+  /** uuid/parentUuid links the conversation tree is built from (Claude sessions only) */
+  treeRecords?: TreeRecord[];
 }
 
 export interface ProjectInfo {
@@ -125,6 +172,8 @@ export interface ProjectInfo {
   name: string;
   sessionCount: number;
   lastActive: number;
+  /** Project that took over after this one's directory moved or was renamed */
+  movedTo?: string;
 }
 
 // ---- Helpers ----
@@ -133,8 +182,19 @@ function sanitize(s: string): string {
   return s.replace(/[\uD800-\uDFFF]/g, "\uFFFD");
 }
 
-function decodeProjectName(entry: string): string {
-  return entry.replace(/^([A-Z])--/, "$1:/").replace(/-/g, "/");
+/** Text of a tool_result block, whose content is a string or a list of text/image blocks */
+function toolResultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((b) => (b?.type === "text" ? b.text || "" : b?.type === "image" ? "[image]" : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+function elapsedMs(from: string, to: string): number | undefined {
+  const ms = Date.parse(to) - Date.parse(from);
+  return Number.isFinite(ms) && ms >= 0 ? ms : undefined;
 }
 
 // ---- Project listing ----
@@ -143,6 +203,7 @@ export function listProjects(): ProjectInfo[] {
   const projects: ProjectInfo[] = [];
 
   // Claude projects
+  const paths = getProjectPaths();
   if (fs.existsSync(PROJECTS_DIR)) {
     try {
       for (const entry of fs.readdirSync(PROJECTS_DIR)) {
@@ -167,17 +228,20 @@ export function listProjects(): ProjectInfo[] {
 
         projects.push({
           path: entry,
-          name: decodeProjectName(entry),
+          name: paths.get(entry)?.path ?? projectPathFor(entry),
           sessionCount,
           lastActive,
+          movedTo: paths.get(entry)?.movedTo,
         });
       }
     } catch { /* skip */ }
   }
 
-  // Codex project (aggregated)
-  const codexProject = getCodexProjectInfo();
+  // Codex and Gemini projects (aggregated)
+  const codexProject = aggregateProjectInfo("__codex__", "Codex CLI");
   if (codexProject) projects.push(codexProject);
+  const geminiProject = aggregateProjectInfo("__gemini__", "Gemini CLI");
+  if (geminiProject) projects.push(geminiProject);
 
   return projects.sort((a, b) => b.lastActive - a.lastActive);
 }
@@ -189,36 +253,17 @@ const READ_TOOLS = new Set(["Read", "Glob", "Grep", "WebFetch", "WebSearch"]);
 
 function detectSessionStatus(
   lastActive: number,
-  lines: string[],
+  signals: StatusSignals,
 ): SessionStatus {
   const age = Date.now() - lastActive;
   const isRecent = age < 5 * 60 * 1000;    // < 5 min
   const isWarm = age < 60 * 60 * 1000;     // < 1 hour
 
-  // Analyze last few lines for state
-  const tail = lines.slice(-5);
-  let lastRole = "";
-  let lastToolNames: string[] = [];
-  let hasError = false;
-
-  for (const line of tail) {
-    try {
-      const obj = JSON.parse(sanitize(line));
-      if (obj.type === "user") lastRole = "user";
-      else if (obj.type === "assistant") {
-        lastRole = "assistant";
-        lastToolNames = [];
-        if (Array.isArray(obj.message?.content)) {
-          for (const block of obj.message.content) {
-            if (block.type === "tool_use") lastToolNames.push(block.name);
-          }
-        }
-      }
-      // Detect error indicators
-      if (obj.type === "assistant" && obj.message?.stop_reason === "error") hasError = true;
-      if (obj.type === "result" && obj.error) hasError = true;
-    } catch { /* skip */ }
-  }
+  // Only the last few lines count towards the current state
+  const tailStart = signals.lineCount - 5;
+  const lastRole = signals.lastRoleLine >= tailStart ? signals.lastRole : "";
+  const lastToolNames = signals.lastAssistantLine >= tailStart ? signals.lastToolNames : [];
+  const hasError = signals.lastErrorLine >= 0 && signals.lastErrorLine >= tailStart;
 
   if (hasError && isWarm) return "error";
 
@@ -234,207 +279,107 @@ function detectSessionStatus(
   return "idle";
 }
 
-// ---- Session listing (reads headers + tail for status) ----
-
-export function listSessions(projectPath: string): SessionInfo[] {
-  // Route Codex project to Codex session listing
-  if (projectPath === "__codex__") return listCodexSessions();
-
-  const projectDir = path.join(PROJECTS_DIR, projectPath);
-  if (!fs.existsSync(projectDir)) return [];
-  const sessions: SessionInfo[] = [];
-  const projectName = decodeProjectName(projectPath);
-
-  try {
-    for (const file of fs.readdirSync(projectDir)) {
-      if (!file.endsWith(".jsonl")) continue;
-      const sessionId = file.replace(".jsonl", "");
-      if (sessionId === "memory") continue;
-
-      const filePath = path.join(projectDir, file);
-      let startTime = 0;
-      let lastActive = 0;
-      let messageCount = 0;
-      let firstMessage = "";
-      let model = "";
-      let totalInput = 0;
-      let totalOutput = 0;
-      let cacheRead = 0;
-      let status: SessionStatus = "idle";
-
-      try {
-        const stat = fs.statSync(filePath);
-        startTime = stat.birthtimeMs || stat.ctimeMs;
-        lastActive = stat.mtimeMs;
-
-        const content = fs.readFileSync(filePath, "utf-8");
-        const lines = content.split("\n").filter((l) => l.trim());
-        messageCount = lines.length;
-
-        // Scan all lines for usage totals + metadata
-        for (let li = 0; li < lines.length; li++) {
-          try {
-            const obj = JSON.parse(sanitize(lines[li]));
-            // First message: only from first 30 lines for performance
-            if (li < 30) {
-              if (obj.type === "user" && !firstMessage && obj.message?.content) {
-                const c = obj.message.content;
-                firstMessage =
-                  typeof c === "string" ? c.slice(0, 120) :
-                    Array.isArray(c) ? (c.find((b: { type: string; text?: string }) => b.type === "text")?.text || "").slice(0, 120) : "";
-              }
-            }
-            // Model detection: scan ALL lines
-            if (obj.type === "assistant" && obj.message?.model && !model) {
-              model = obj.message.model;
-            }
-            // Usage: accumulate from ALL lines
-            const usage = obj.message?.usage;
-            if (usage) {
-              totalInput += usage.input_tokens || 0;
-              totalOutput += usage.output_tokens || 0;
-              cacheRead += usage.cache_read_input_tokens || 0;
-            }
-          } catch { /* skip */ }
-        }
+/** Hook state older than the transcript by this much means hooks stopped firing */
+const HOOK_STALE_MS = 5 * 60 * 1000;
 
-        // Detect status from tail
-        status = detectSessionStatus(lastActive, lines);
-      } catch { /* skip */ }
-
-      sessions.push({
-        id: sessionId, project: projectPath, projectName,
-        startTime, lastActive, messageCount, firstMessage, model,
-        provider: detectProvider(model),
-        totalInputTokens: totalInput, totalOutputTokens: totalOutput,
-        cacheReadTokens: cacheRead,
-        estimatedCost: estimateCost(model, totalInput, totalOutput),
-        status,
-      });
-    }
-  } catch { /* skip */ }
-  return sessions.sort((a, b) => b.lastActive - a.lastActive);
+/**
+ * Exact status from the last lifecycle hook, or null when the session has no
+ * usable hook data and the transcript heuristics have to decide.
+ */
+function statusFromHook(lastActive: number, hook: SessionHookState | null | undefined): SessionStatus | null {
+  if (!hook || lastActive - hook.updatedAt > HOOK_STALE_MS) return null;
+  if (Date.now() - Math.max(lastActive, hook.updatedAt) >= 60 * 60 * 1000) return "idle";
+
+  switch (hook.event) {
+    case "SessionStart":
+    case "Notification":   // permission prompt or idle prompt
+      return "waiting";
+    case "Stop":
+      return "completed";
+    case "PreToolUse":
+      if (WRITE_TOOLS.has(hook.toolName)) return "writing";
+      if (READ_TOOLS.has(hook.toolName)) return "reading";
+      return "thinking";
+    default:
+      return "thinking";
+  }
 }
 
-// ---- Codex Session Listing ----
+// ---- Session listing (served from the incremental index) ----
 
-/** Parse a Codex rollout JSONL file into SessionInfo */
-function parseCodexSessionFile(filePath: string, fileName: string): SessionInfo | null {
-  let content: string;
-  try { content = fs.readFileSync(filePath, "utf-8"); } catch { return null; }
-
-  const lines = content.split("\n").filter(l => l.trim());
-  if (lines.length === 0) return null;
-
-  let sessionId = "";
-  let cwd = "";
-  let model = "";
-  let firstMessage = "";
-  let startTime = 0;
-  let lastActive = 0;
-  let messageCount = 0;
-  let totalInput = 0;
-  let totalOutput = 0;
-
-  for (const line of lines) {
-    try {
-      const obj = JSON.parse(sanitize(line));
-      const ts = obj.timestamp ? new Date(obj.timestamp).getTime() : 0;
-      if (ts && (!startTime || ts < startTime)) startTime = ts;
-      if (ts > lastActive) lastActive = ts;
-
-      if (obj.type === "session_meta") {
-        sessionId = obj.payload?.id || "";
-        cwd = obj.payload?.cwd || "";
-      } else if (obj.type === "turn_context") {
-        if (!model && obj.payload?.model) model = obj.payload.model;
-      } else if (obj.type === "event_msg") {
-        const evtType = obj.payload?.type;
-        if (evtType === "user_message") {
-          messageCount++;
-          if (!firstMessage) firstMessage = (obj.payload.message || "").slice(0, 120);
-        } else if (evtType === "agent_message") {
-          messageCount++;
-        } else if (evtType === "token_count" && obj.payload?.info?.total_token_usage) {
-          // Cumulative: always take the latest
-          const usage = obj.payload.info.total_token_usage;
-          totalInput = usage.input_tokens || 0;
-          totalOutput = usage.output_tokens || 0;
-        }
-      }
-    } catch { /* skip */ }
-  }
-
-  if (!sessionId) {
-    // Extract ID from filename: rollout-{datetime}-{uuid}.jsonl
-    const match = fileName.match(/rollout-.*?-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.jsonl$/i);
-    sessionId = match ? match[1] : fileName.replace(".jsonl", "");
+/**
+ * Cost of a session as the token summary and budgets count it: each
+ * model/day bucket at the price in effect that day. Codex sessions have no
+ * buckets and are priced at their start date.
+ */
+function sessionCost(s: IndexedSession, usage: IndexedUsage[]): number {
+  if (s.source === "codex") {
+    return estimateCost(s.model || "unknown", s.usage, s.startTime ? new Date(s.startTime).toISOString() : undefined);
   }
+  return usage.reduce((sum, u) => sum + estimateCost(u.model, u, u.date), 0);
+}
 
-  // Use file stat as fallback for times
-  if (!startTime || !lastActive) {
-    try {
-      const stat = fs.statSync(filePath);
-      if (!startTime) startTime = stat.birthtimeMs || stat.ctimeMs;
-      if (!lastActive) lastActive = stat.mtimeMs;
-    } catch { /* skip */ }
+/** Every usage bucket in one query, keyed by session file */
+export function getUsageByFile(): Map<string, IndexedUsage[]> {
+  const byFile = new Map<string, IndexedUsage[]>();
+  for (const u of getIndexedUsage()) {
+    const list = byFile.get(u.filePath);
+    if (list) list.push(u);
+    else byFile.set(u.filePath, [u]);
   }
+  return byFile;
+}
 
-  const projectName = cwd || "Codex Session";
-
+/**
+ * Pass `hook` and `usage` when converting many sessions, to avoid lookups
+ * per session (see getHookStates and getUsageByFile).
+ */
+export function toSessionInfo(
+  s: IndexedSession,
+  hook: SessionHookState | null = getHookState(s.sessionId),
+  usage: IndexedUsage[] = s.source === "codex" ? [] : getIndexedUsage(s.filePath),
+): SessionInfo {
   return {
-    id: sessionId,
-    project: "__codex__",
-    projectName,
-    startTime,
-    lastActive,
-    messageCount,
-    firstMessage,
-    model,
-    provider: "codex",
-    totalInputTokens: totalInput,
-    totalOutputTokens: totalOutput,
-    cacheReadTokens: 0,
-    estimatedCost: estimateCost(model, totalInput, totalOutput),
-    status: detectSessionStatus(lastActive, lines),
+    id: s.sessionId,
+    project: s.project,
+    projectName: projectNameFor(s.source, s.project, s.cwd),
+    startTime: s.startTime,
+    lastActive: s.lastActive,
+    messageCount: s.messageCount,
+    firstMessage: s.firstMessage,
+    model: s.model,
+    provider: providerFor(s.source, s.model),
+    totalInputTokens: s.usage.input,
+    totalOutputTokens: s.usage.output,
+    cacheReadTokens: s.usage.cacheRead,
+    cacheWriteTokens: cacheWriteTotal(s.usage),
+    estimatedCost: sessionCost(s, usage),
+    status: statusFromHook(s.lastActive, hook) ?? detectSessionStatus(s.lastActive, s.signals),
   };
 }
 
-/** List all Codex sessions from ~/.codex/sessions/ */
-export function listCodexSessions(): SessionInfo[] {
-  if (!fs.existsSync(CODEX_SESSIONS_DIR)) return [];
-  const sessions: SessionInfo[] = [];
-
-  // Traverse year/month/day directories
-  try {
-    for (const year of fs.readdirSync(CODEX_SESSIONS_DIR)) {
-      const yearDir = path.join(CODEX_SESSIONS_DIR, year);
-      try { if (!fs.statSync(yearDir).isDirectory()) continue; } catch { continue; }
-
-      for (const month of fs.readdirSync(yearDir)) {
-        const monthDir = path.join(yearDir, month);
-        try { if (!fs.statSync(monthDir).isDirectory()) continue; } catch { continue; }
+export function listSessions(projectPath: string): SessionInfo[] {
+  refreshSessionIndex(projectPath);
+  const hooks = getHookStates();
+  const usage = getUsageByFile();
+  return getIndexedSessions(projectPath).map((s) => toSessionInfo(s, hooks.get(s.sessionId) ?? null, usage.get(s.filePath) ?? []));
+}
 
-        for (const day of fs.readdirSync(monthDir)) {
-          const dayDir = path.join(monthDir, day);
-          try { if (!fs.statSync(dayDir).isDirectory()) continue; } catch { continue; }
+// ---- Codex Session Listing ----
 
-          for (const file of fs.readdirSync(dayDir)) {
-            if (!file.endsWith(".jsonl") || !file.startsWith("rollout-")) continue;
-            const session = parseCodexSessionFile(path.join(dayDir, file), file);
-            if (session) sessions.push(session);
-          }
-        }
-      }
-    }
-  } catch { /* skip */ }
+/** List all Codex sessions from ~/.codex/sessions/ */
+export function listCodexSessions(): SessionInfo[] {
+  return listSessions("__codex__");
+}
 
-  return sessions.sort((a, b) => b.lastActive - a.lastActive);
+/** List all Gemini CLI sessions from ~/.gemini/tmp/ */
+export function listGeminiSessions(): SessionInfo[] {
+  return listSessions("__gemini__");
 }
 
-/** Aggregate Codex sessions into a single ProjectInfo entry */
-function getCodexProjectInfo(): ProjectInfo | null {
-  const sessions = listCodexSessions();
+/** Aggregate the Codex or Gemini sessions into a single ProjectInfo entry */
+function aggregateProjectInfo(project: "__codex__" | "__gemini__", name: string): ProjectInfo | null {
+  const sessions = listSessions(project);
   if (sessions.length === 0) return null;
 
   let lastActive = 0;
@@ -443,8 +388,8 @@ function getCodexProjectInfo(): ProjectInfo | null {
   }
 
   return {
-    path: "__codex__",
-    name: "Codex CLI",
+    path: project,
+    name,
     sessionCount: sessions.length,
     lastActive,
   };
@@ -493,9 +438,9 @@ export function getCodexSessionDetail(sessionId: string): SessionDetail | null {
   let cwd = "";
   let startTime = "";
   let endTime = "";
-  let totalInput = 0;
-  let totalOutput = 0;
+  let usage = emptyUsage();
   const checkpoints: SessionDetail["checkpoints"] = [];
+  const pendingTools = new Map<string, { call: ToolCallInfo; timestamp: string }>();
 
   for (const line of lines) {
     try {
@@ -512,9 +457,10 @@ export function getCodexSessionDetail(sessionId: string): SessionDetail | null {
 
         if (evtType === "user_message") {
           const text = obj.payload.message || "";
-          checkpoints.push({ index: messages.length, content: text.slice(0, 100), timestamp: ts });
+          const uuid = obj.payload.turn_id || `user-${messages.length}`;
+          checkpoints.push({ index: messages.length, uuid, content: text.slice(0, 100), timestamp: ts });
           messages.push({
-            uuid: obj.payload.turn_id || `user-${messages.length}`,
+            uuid,
             parentUuid: null,
             role: "user",
             type: "user",
@@ -550,9 +496,44 @@ export function getCodexSessionDetail(sessionId: string): SessionDetail | null {
             });
           }
         } else if (evtType === "token_count" && obj.payload?.info?.total_token_usage) {
-          const usage = obj.payload.info.total_token_usage;
-          totalInput = usage.input_tokens || 0;
-          totalOutput = usage.output_tokens || 0;
+          usage = fromCodexUsage(obj.payload.info.total_token_usage);
+        }
+      } else if (obj.type === "response_item") {
+        const itemType = obj.payload?.type;
+
+        if (itemType === "function_call" || itemType === "custom_tool_call") {
+          const args = itemType === "function_call" ? obj.payload.arguments : obj.payload.input;
+          const call: ToolCallInfo = {
+            id: obj.payload.call_id,
+            name: obj.payload.name || "tool",
+            input: (typeof args === "string" ? args : JSON.stringify(args ?? {})).slice(0, MAX_TOOL_INPUT),
+          };
+          // Attach to the current assistant turn, or open one for a bare tool call
+          const lastMsg = messages[messages.length - 1];
+          if (lastMsg && lastMsg.role === "assistant") {
+            (lastMsg.toolUse ||= []).push(call);
+          } else {
+            messages.push({
+              uuid: `tool-${messages.length}`,
+              parentUuid: null,
+              role: "assistant",
+              type: "assistant",
+              content: "",
+              timestamp: ts,
+              model,
+              toolUse: [call],
+            });
+          }
+          if (call.id) pendingTools.set(call.id, { call, timestamp: ts });
+        } else if (itemType === "function_call_output" || itemType === "custom_tool_call_output") {
+          const pending = pendingTools.get(obj.payload.call_id);
+          if (pending) {
+            const out = parseCodexToolOutput(obj.payload.output);
+            pending.call.result = out.text.slice(0, MAX_TOOL_RESULT);
+            pending.call.isError = out.isError;
+            pending.call.durationMs = out.durationMs ?? elapsedMs(pending.timestamp, ts);
+            pendingTools.delete(obj.payload.call_id);
+          }
         }
       }
 
@@ -567,10 +548,12 @@ export function getCodexSessionDetail(sessionId: string): SessionDetail | null {
     project: projectPath,
     projectName: cwd || "Codex Session",
     messages,
-    totalInputTokens: totalInput,
-    totalOutputTokens: totalOutput,
-    cacheReadTokens: 0,
-    estimatedCost: estimateCost(model, totalInput, totalOutput),
+    totalInputTokens: usage.input,
+    totalOutputTokens: usage.output,
+    cacheReadTokens: usage.cacheRead,
+    cacheWriteTokens: 0,
+    estimatedCost: estimateCost(model, usage, startTime),
+    unpricedModels: hasTokens(usage) && !priceFor(model) ? [model || "unknown"] : [],
     model,
     startTime,
     endTime,
@@ -579,126 +562,555 @@ export function getCodexSessionDetail(sessionId: string): SessionDetail | null {
   };
 }
 
+/** Find a Gemini chat file; its name ends with the first 8 characters of the session id */
+function findGeminiChatFile(sessionId: string): string {
+  if (!fs.existsSync(GEMINI_TMP_DIR)) return "";
+  try {
+    for (const hash of fs.readdirSync(GEMINI_TMP_DIR)) {
+      const chatsDir = path.join(GEMINI_TMP_DIR, hash, "chats");
+      let files: string[];
+      try { files = fs.readdirSync(chatsDir); } catch { continue; }
+      for (const file of files) {
+        if (file === `${sessionId}.json`) return path.join(chatsDir, file);
+        if (!file.endsWith(`-${sessionId.slice(0, 8)}.json`)) continue;
+        const filePath = path.join(chatsDir, file);
+        if (readGeminiChat(filePath)?.sessionId === sessionId) return filePath;
+      }
+    }
+  } catch { /* skip */ }
+  return "";
+}
+
+/** Get Gemini CLI session detail by session ID */
+export function getGeminiSessionDetail(sessionId: string): SessionDetail | null {
+  const filePath = findGeminiChatFile(sessionId);
+  const chat = filePath ? readGeminiChat(filePath) : null;
+  if (!chat) return null;
+
+  const messages: SessionMessage[] = [];
+  const checkpoints: SessionDetail["checkpoints"] = [];
+  const usage = emptyUsage();
+  const unpriced = new Set<string>();
+  let model = "";
+  let cost = 0;
+  let endTime = chat.lastUpdated || "";
+
+  chat.messages.forEach((msg, i) => {
+    const ts = msg.timestamp || "";
+    const text = geminiText(msg.content);
+    if (ts) endTime = ts;
+
+    if (msg.type === "user") {
+      const uuid = msg.id || `user-${i}`;
+      checkpoints.push({ index: messages.length, uuid, content: text.slice(0, 100), timestamp: ts });
+      messages.push({ uuid, parentUuid: null, role: "user", type: "user", content: text, timestamp: ts, isCheckpoint: true });
+      return;
+    }
+    if (msg.type !== "gemini") {
+      // info, warning and error notices from the CLI itself
+      if (text) messages.push({ uuid: msg.id || `${msg.type}-${i}`, parentUuid: null, role: "system", type: msg.type, content: text, timestamp: ts });
+      return;
+    }
+
+    if (!model && msg.model) model = msg.model;
+    const msgModel = msg.model || model;
+    const msgUsage = msg.tokens ? fromGeminiUsage(msg.tokens) : undefined;
+    const msgCost = msgUsage ? estimateCost(msgModel, msgUsage, ts) : undefined;
+    if (msgUsage) {
+      addUsage(usage, msgUsage);
+      cost += msgCost ?? 0;
+      if (hasTokens(msgUsage) && !priceFor(msgModel)) unpriced.add(msgModel || "unknown");
+    }
+    const toolUse = (msg.toolCalls ?? []).map((call): ToolCallInfo => {
+      const out = geminiToolResult(call);
+      return {
+        id: call.id,
+        name: call.name || "tool",
+        input: JSON.stringify(call.args ?? {}).slice(0, MAX_TOOL_INPUT),
+        ...(call.status && call.status !== "executing" ? { result: out.text.slice(0, MAX_TOOL_RESULT), isError: out.isError } : {}),
+      };
+    });
+    const thinking = (msg.thoughts ?? []).map((t) => [t.subject, t.description].filter(Boolean).join(": ")).join("\n");
+
+    messages.push({
+      uuid: msg.id || `gemini-${i}`,
+      parentUuid: null,
+      role: "assistant",
+      type: "assistant",
+      content: text,
+      timestamp: ts,
+      model: msgModel,
+      toolUse: toolUse.length > 0 ? toolUse : undefined,
+      inputTokens: msgUsage?.input,
+      outputTokens: msgUsage?.output,
+      cacheRead: msgUsage?.cacheRead,
+      cost: msgCost,
+      thinkingContent: thinking ? thinking.slice(0, 800) : undefined,
+    });
+  });
+
+  // The chat records only a hash of its directory; the index knows which one it is
+  const cwd = getIndexedSessions("__gemini__").find((s) => s.filePath === filePath)?.cwd ?? "";
+
+  return {
+    id: chat.sessionId || sessionId,
+    project: cwd ? `gemini:${cwd}` : "gemini:unknown",
+    projectName: cwd || "Gemini Session",
+    messages,
+    totalInputTokens: usage.input,
+    totalOutputTokens: usage.output,
+    cacheReadTokens: usage.cacheRead,
+    cacheWriteTokens: 0,
+    estimatedCost: cost,
+    unpricedModels: [...unpriced],
+    model,
+    startTime: chat.startTime || messages[0]?.timestamp || "",
+    endTime,
+    checkpoints,
+    contextFiles: [],
+  };
+}
+
+/** A tool result, addressed to the call it answers */
+export interface ToolResultUpdate {
+  toolUseId: string;
+  result: string;
+  isError: boolean;
+  timestamp: string;
+  /** Set when the parser saw the call */
+  durationMs?: number;
+}
+
+/** One Claude JSONL record, parsed */
+export interface ParsedClaudeRecord {
+  treeRecord: TreeRecord | null;
+  /** Undefined for records that carry no message (snapshots, summaries) */
+  message?: SessionMessage;
+  /** Results in this record, also applied to calls this parser returned earlier */
+  toolResults: ToolResultUpdate[];
+  usage?: TokenUsage;
+  /** Model the usage is priced at: the record's own, else the session's first */
+  model: string;
+  contextFiles: string[];
+}
+
+/**
+ * Stateful parser for the records of one Claude session, in file order.
+ * It remembers open tool calls so results arriving in later records are
+ * paired with them - the session detail reads a whole file through it and
+ * the live watcher feeds it appended lines.
+ */
+export function createClaudeRecordParser(): (line: string) => ParsedClaudeRecord | null {
+  let model = "";
+  // Calls awaiting their tool_result, by tool_use id
+  const pendingTools = new Map<string, { call: ToolCallInfo; timestamp: string }>();
+  // Boundary record waiting for the summary that follows it
+  let boundary: CompactionInfo | null = null;
+
+  return (line) => {
+    let obj;
+    try { obj = JSON.parse(sanitize(line)); } catch { return null; }
+    const msg = obj.message;
+    const treeRecord: TreeRecord | null = obj.uuid ? {
+      uuid: obj.uuid,
+      parentUuid: obj.parentUuid || null,
+      logicalParentUuid: obj.logicalParentUuid || null,
+      isSidechain: !!obj.isSidechain,
+      agentId: obj.agentId,
+      timestamp: obj.timestamp,
+    } : null;
+    const parsed: ParsedClaudeRecord = { treeRecord, toolResults: [], model, contextFiles: [] };
+    if (obj.type === "system" && obj.subtype === "compact_boundary") {
+      const meta = obj.compactMetadata || {};
+      boundary = {
+        trigger: meta.trigger === "manual" || meta.trigger === "auto" ? meta.trigger : undefined,
+        preTokens: typeof meta.preTokens === "number" ? meta.preTokens : undefined,
+      };
+    }
+    if (!obj.type || obj.type === "file-history-snapshot" || obj.isSnapshotUpdate || !msg) {
+      if (treeRecord) treeRecord.transparent = true;
+      return parsed;
+    }
+
+    const ts = obj.timestamp || "";
+    let textContent = "";
+    let thinkingContent = "";
+    let hasToolResult = false;
+    const toolUse: ToolCallInfo[] = [];
+
+    if (typeof msg.content === "string") {
+      textContent = msg.content;
+    } else if (Array.isArray(msg.content)) {
+      for (const block of msg.content) {
+        if (block.type === "text") textContent += (textContent ? "\n" : "") + (block.text || "");
+        else if (block.type === "thinking") thinkingContent += block.thinking || "";
+        else if (block.type === "tool_result") {
+          hasToolResult = true;
+          if (treeRecord && obj.toolUseResult?.agentId && block.tool_use_id) {
+            treeRecord.taskResult = { toolUseId: block.tool_use_id, agentId: obj.toolUseResult.agentId };
+          }
+          if (!block.tool_use_id) continue;
+          const update: ToolResultUpdate = {
+            toolUseId: block.tool_use_id,
+            result: toolResultText(block.content).slice(0, MAX_TOOL_RESULT),
+            isError: !!block.is_error,
+            timestamp: ts,
+          };
+          const pending = pendingTools.get(block.tool_use_id);
+          if (pending) {
+            update.durationMs = elapsedMs(pending.timestamp, ts);
+            pending.call.result = update.result;
+            pending.call.isError = update.isError;
+            pending.call.durationMs = update.durationMs;
+            pendingTools.delete(block.tool_use_id);
+          }
+          parsed.toolResults.push(update);
+        } else if (block.type === "tool_use") {
+          const inputStr = typeof block.input === "string"
+            ? block.input : JSON.stringify(block.input || {});
+          const call: ToolCallInfo = {
+            id: block.id, name: block.name,
+            input: inputStr.slice(0, EDIT_TOOLS.has(block.name) ? MAX_EDIT_INPUT : MAX_TOOL_INPUT),
+          };
+          toolUse.push(call);
+          if (block.id) pendingTools.set(block.id, { call, timestamp: ts });
+          if (treeRecord && TASK_TOOLS.has(block.name)) {
+            (treeRecord.taskCalls ||= []).push({
+              id: block.id, prompt: String(block.input?.prompt || ""), description: block.input?.description,
+            });
+          }
+          // Track referenced files
+          if (block.name === "Read" || block.name === "Edit" || block.name === "Write") {
+            const fp = block.input?.file_path;
+            if (fp && (fp.endsWith(".md") || fp.endsWith(".json") || fp.endsWith(".ts") || fp.endsWith(".tsx") || fp.endsWith(".py"))) {
+              parsed.contextFiles.push(fp);
+            }
+          }
+        }
+      }
+    }
+
+    const isUser = msg.role === "user" || obj.type === "user";
+    if (treeRecord) {
+      if (!isUser && msg.id) treeRecord.groupKey = msg.id;
+      if (isUser && hasToolResult && !textContent.trim()) treeRecord.transparent = true;
+      if (isUser) treeRecord.prompt = textContent;
+    }
+
+    if (!model && msg.model) model = msg.model;
+    parsed.model = msg.model || model;
+    const usage = msg.usage ? fromClaudeUsage(msg.usage) : undefined;
+    parsed.usage = usage;
+
+    parsed.message = {
+      uuid: obj.uuid || "",
+      parentUuid: obj.parentUuid || null,
+      role: msg.role || obj.type,
+      type: obj.type,
+      content: sanitize(textContent),
+      timestamp: ts,
+      model: msg.model,
+      toolUse: toolUse.length > 0 ? toolUse : undefined,
+      inputTokens: usage?.input,
+      outputTokens: usage?.output,
+      cacheRead: usage?.cacheRead,
+      cacheWrite: usage ? cacheWriteTotal(usage) : undefined,
+      cost: usage ? estimateCost(parsed.model, usage, ts) : undefined,
+      thinkingContent: thinkingContent ? sanitize(thinkingContent.slice(0, 800)) : undefined,
+      isCheckpoint: isUser && !!textContent.trim(),
+      isSidechain: obj.isSidechain || undefined,
+      compaction: obj.isCompactSummary ? (boundary ?? {}) : undefined,
+    };
+    if (obj.isCompactSummary) boundary = null;
+    return parsed;
+  };
+}
+
+/** Everything about a Claude session except its messages, built up record by record */
+interface ClaudeSessionTotals {
+  usage: TokenUsage;
+  cost: number;
+  unpriced: Set<string>;
+  model: string;
+  startTime: string;
+  endTime: string;
+  checkpoints: SessionDetail["checkpoints"];
+  contextFiles: Set<string>;
+  treeRecords: TreeRecord[];
+  messageCount: number;
+}
+
+function emptyClaudeTotals(): ClaudeSessionTotals {
+  return {
+    usage: emptyUsage(), cost: 0, unpriced: new Set(), model: "", startTime: "", endTime: "",
+    checkpoints: [], contextFiles: new Set(), treeRecords: [], messageCount: 0,
+  };
+}
+
+/** Fold a parsed record into the totals; returns its message, if it has one */
+function addClaudeRecord(totals: ClaudeSessionTotals, record: ParsedClaudeRecord): SessionMessage | undefined {
+  if (record.treeRecord) totals.treeRecords.push(record.treeRecord);
+  const message = record.message;
+  if (!message) return undefined;
+
+  for (const fp of record.contextFiles) totals.contextFiles.add(fp);
+  if (!totals.model && message.model) totals.model = message.model;
+  if (record.usage) {
+    addUsage(totals.usage, record.usage);
+    totals.cost += message.cost!;
+    if (hasTokens(record.usage) && !priceFor(record.model)) totals.unpriced.add(record.model || "unknown");
+  }
+
+  if (!totals.startTime) totals.startTime = message.timestamp;
+  totals.endTime = message.timestamp;
+
+  if (message.isCheckpoint) {
+    totals.checkpoints.push({
+      index: totals.messageCount,
+      uuid: message.uuid,
+      content: message.content.slice(0, 100),
+      timestamp: message.timestamp,
+    });
+  }
+  totals.messageCount++;
+  return message;
+}
+
+function claudeDetail(
+  projectPath: string, sessionId: string, totals: ClaudeSessionTotals, messages: SessionMessage[],
+): SessionDetail {
+  return {
+    id: sessionId, project: projectPath,
+    projectName: projectPathFor(projectPath),
+    messages, totalInputTokens: totals.usage.input, totalOutputTokens: totals.usage.output,
+    cacheReadTokens: totals.usage.cacheRead,
+    cacheWriteTokens: cacheWriteTotal(totals.usage),
+    estimatedCost: totals.cost,
+    unpricedModels: [...totals.unpriced],
+    model: totals.model, startTime: totals.startTime, endTime: totals.endTime,
+    checkpoints: [...totals.checkpoints],
+    contextFiles: Array.from(totals.contextFiles).slice(0, 50),
+    treeRecords: [...totals.treeRecords],
+  };
+}
+
+/**
+ * Hand each line from byte `start` to `onLine`, reading in chunks so the
+ * file is never held in memory whole. A last line without a newline counts
+ * once it parses. Returning false stops early. Returns the offset just past
+ * the last line handed over.
+ */
+function forEachLine(filePath: string, start: number, onLine: (line: string, end: number) => boolean | void): number {
+  let fd: number;
+  try { fd = fs.openSync(filePath, "r"); } catch { return start; }
+
+  let offset = start;
+  try {
+    const chunk = Buffer.alloc(LINE_CHUNK_BYTES);
+    let carry: Buffer = Buffer.alloc(0);
+    let pos = start;
+    for (;;) {
+      const read = fs.readSync(fd, chunk, 0, chunk.length, pos);
+      if (read <= 0) break;
+      pos += read;
+
+      const buf = carry.length ? Buffer.concat([carry, chunk.subarray(0, read)]) : chunk.subarray(0, read);
+      let from = 0;
+      for (let nl = buf.indexOf(0x0a); nl >= 0; nl = buf.indexOf(0x0a, from)) {
+        const line = buf.toString("utf-8", from, nl);
+        offset += nl + 1 - from;
+        from = nl + 1;
+        if (line.trim() && onLine(line, offset) === false) return offset;
+      }
+      // Copy: `chunk` is reused by the next read
+      carry = Buffer.from(buf.subarray(from));
+    }
+
+    const rest = carry.toString("utf-8");
+    if (rest.trim()) {
+      try { JSON.parse(rest); } catch { return offset; }
+      offset += carry.length;
+      onLine(rest, offset);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return offset;
+}
+
 export function getSessionDetail(
   projectPath: string, sessionId: string
 ): SessionDetail | null {
-  // Route Codex sessions to the Codex reader
+  // Route Codex and Gemini sessions to their readers
   if (projectPath === "__codex__") {
     return getCodexSessionDetail(sessionId);
   }
+  if (projectPath === "__gemini__") {
+    return getGeminiSessionDetail(sessionId);
+  }
 
   const filePath = path.join(PROJECTS_DIR, projectPath, `${sessionId}.jsonl`);
   if (!fs.existsSync(filePath)) return null;
 
+  const totals = emptyClaudeTotals();
   const messages: SessionMessage[] = [];
-  let totalInput = 0, totalOutput = 0, cacheReadTotal = 0;
-  let model = "";
-  let startTime = "", endTime = "";
-  const checkpoints: SessionDetail["checkpoints"] = [];
-  const contextFilesSet = new Set<string>();
+  const parse = createClaudeRecordParser();
+  forEachLine(filePath, 0, (line) => {
+    let record: ParsedClaudeRecord | null = null;
+    try { record = parse(line); } catch { /* skip */ }
+    const message = record && addClaudeRecord(totals, record);
+    if (message) messages.push(message);
+  });
+  return claudeDetail(projectPath, sessionId, totals, messages);
+}
 
-  try {
-    const content = fs.readFileSync(filePath, "utf-8");
-    const lines = content.split("\n").filter((l) => l.trim());
-
-    for (const line of lines) {
-      try {
-        const obj = JSON.parse(sanitize(line));
-        if (!obj.type || obj.type === "file-history-snapshot" || obj.isSnapshotUpdate) continue;
-        const msg = obj.message;
-        if (!msg) continue;
-
-        let textContent = "";
-        let thinkingContent = "";
-        const toolUse: { name: string; input?: string }[] = [];
-
-        if (typeof msg.content === "string") {
-          textContent = msg.content;
-        } else if (Array.isArray(msg.content)) {
-          for (const block of msg.content) {
-            if (block.type === "text") textContent += (textContent ? "\n" : "") + (block.text || "");
-            else if (block.type === "thinking") thinkingContent += block.thinking || "";
-            else if (block.type === "tool_use") {
-              const inputStr = typeof block.input === "string"
-                ? block.input : JSON.stringify(block.input || {});
-              toolUse.push({ name: block.name, input: inputStr.slice(0, 1500) });
-              // Track referenced files
-              if (block.name === "Read" || block.name === "Edit" || block.name === "Write") {
-                const fp = block.input?.file_path;
-                if (fp && (fp.endsWith(".md") || fp.endsWith(".json") || fp.endsWith(".ts") || fp.endsWith(".tsx") || fp.endsWith(".py"))) {
-                  contextFilesSet.add(fp);
-                }
-              }
-            }
-          }
-        }
+// ---- Pages ----
 
-        const usage = msg.usage;
-        if (usage) {
-          totalInput += usage.input_tokens || 0;
-          totalOutput += usage.output_tokens || 0;
-          cacheReadTotal += usage.cache_read_input_tokens || 0;
-        }
-        if (!model && msg.model) model = msg.model;
+export type PageDirection = "forward" | "backward";
 
-        const ts = obj.timestamp || "";
-        if (!startTime) startTime = ts;
-        endTime = ts;
+export interface SessionPageQuery {
+  /** From `prevCursor`/`nextCursor` of an earlier page; omitted for the first page */
+  cursor?: string;
+  limit?: number;
+  /** "backward" (default) pages from the newest messages towards the oldest */
+  direction?: PageDirection;
+}
 
-        const isUser = msg.role === "user" || obj.type === "user";
-        if (isUser && textContent.trim()) {
-          checkpoints.push({
-            index: messages.length,
-            content: textContent.slice(0, 100),
-            timestamp: ts,
-          });
-        }
+/** A run of a session's messages, with the whole session's totals */
+export interface SessionPage extends SessionDetail {
+  /** Index of messages[0] in the session */
+  offset: number;
+  messageCount: number;
+  /** Cursor for the older messages before this page, absent at the start */
+  prevCursor?: string;
+  /** Cursor for the newer messages after this page, absent at the end */
+  nextCursor?: string;
+}
 
-        messages.push({
-          uuid: obj.uuid || "",
-          parentUuid: obj.parentUuid || null,
-          role: msg.role || obj.type,
-          type: obj.type,
-          content: sanitize(textContent),
-          timestamp: ts,
-          model: msg.model,
-          toolUse: toolUse.length > 0 ? toolUse : undefined,
-          inputTokens: usage?.input_tokens,
-          outputTokens: usage?.output_tokens,
-          cacheRead: usage?.cache_read_input_tokens,
-          thinkingContent: thinkingContent ? sanitize(thinkingContent.slice(0, 800)) : undefined,
-          isCheckpoint: isUser && !!textContent.trim(),
-        });
-      } catch { /* skip */ }
+/**
+ * A Claude session read once: totals, plus where each message's records
+ * start so any page can be parsed on its own. Kept with its parser so
+ * appended lines only extend it.
+ */
+interface SessionOutline {
+  totals: ClaudeSessionTotals;
+  parse: (line: string) => ParsedClaudeRecord | null;
+  /** Bytes read so far */
+  size: number;
+  /** Offset of the first record after the previous message, per message */
+  starts: number[];
+  nextStart: number;
+}
+
+const outlines = new Map<string, SessionOutline>();
+
+function outlineSession(filePath: string): SessionOutline | null {
+  let size: number;
+  try { size = fs.statSync(filePath).size; } catch { return null; }
+
+  let outline = outlines.get(filePath);
+  // A file that shrank was rewritten (e.g. redacted): read it again
+  if (!outline || size < outline.size) {
+    outline = { totals: emptyClaudeTotals(), parse: createClaudeRecordParser(), size: 0, starts: [], nextStart: 0 };
+  }
+  outlines.delete(filePath);
+  outlines.set(filePath, outline);
+  if (outlines.size > MAX_CACHED_OUTLINES) outlines.delete(outlines.keys().next().value!);
+
+  const o = outline;
+  if (size > o.size) {
+    o.size = forEachLine(filePath, o.size, (line, end) => {
+      let record: ParsedClaudeRecord | null = null;
+      try { record = o.parse(line); } catch { /* skip */ }
+      if (record && addClaudeRecord(o.totals, record)) {
+        o.starts.push(o.nextStart);
+        o.nextStart = end;
+      }
+    });
+  }
+  return o;
+}
+
+/**
+ * Parse messages [from, to) with a fresh parser. Reading goes on a little
+ * past the last one so tool calls near the end still get their results.
+ */
+function readMessageRange(filePath: string, outline: SessionOutline, from: number, to: number): SessionMessage[] {
+  const messages: SessionMessage[] = [];
+  if (from >= to) return messages;
+  const parse = createClaudeRecordParser();
+  let lookahead = 0;
+
+  forEachLine(filePath, outline.starts[from], (line, end) => {
+    // Lines the outline hasn't counted yet belong to a later request
+    if (end > outline.size) return false;
+    let record: ParsedClaudeRecord | null = null;
+    try { record = parse(line); } catch { /* skip */ }
+    if (messages.length < to - from) {
+      if (record?.message) messages.push(record.message);
+      return;
     }
-  } catch { return null; }
+    const open = messages.some((m) => m.toolUse?.some((c) => c.id && c.result === undefined));
+    return open && ++lookahead <= RESULT_LOOKAHEAD_LINES;
+  });
+  return messages;
+}
 
+function pageRange(total: number, query: SessionPageQuery): { start: number; end: number } {
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const cursor = query.cursor === undefined ? undefined : Math.min(Math.max(Number(query.cursor) || 0, 0), total);
+  if (query.direction === "forward") {
+    const start = cursor ?? 0;
+    return { start, end: Math.min(total, start + limit) };
+  }
+  const end = cursor ?? total;
+  return { start: Math.max(0, end - limit), end };
+}
+
+function toPage(detail: SessionDetail, start: number, end: number, total: number): SessionPage {
   return {
-    id: sessionId, project: projectPath,
-    projectName: decodeProjectName(projectPath),
-    messages, totalInputTokens: totalInput, totalOutputTokens: totalOutput,
-    cacheReadTokens: cacheReadTotal,
-    estimatedCost: estimateCost(model, totalInput, totalOutput),
-    model, startTime, endTime, checkpoints,
-    contextFiles: Array.from(contextFilesSet).slice(0, 50),
+    ...detail,
+    offset: start,
+    messageCount: total,
+    prevCursor: start > 0 ? String(start) : undefined,
+    nextCursor: end < total ? String(end) : undefined,
   };
 }
 
-// ---- Aggregates ----
-
-export function getRecentSessions(limit: number = 30): SessionInfo[] {
-  const allSessions: SessionInfo[] = [];
-
-  // Claude sessions from each project
-  const projects = listProjects().filter(p => p.path !== "__codex__");
-  for (const project of projects) {
-    allSessions.push(...listSessions(project.path));
+/**
+ * One page of a session. Claude transcripts are streamed rather than read
+ * whole, and only the page's messages are kept; the conversation tree covers
+ * the whole session, so it comes with the first page only.
+ */
+export function getSessionPage(
+  projectPath: string, sessionId: string, query: SessionPageQuery = {},
+): SessionPage | null {
+  if (projectPath === "__codex__" || projectPath === "__gemini__") {
+    const detail = projectPath === "__codex__" ? getCodexSessionDetail(sessionId) : getGeminiSessionDetail(sessionId);
+    if (!detail) return null;
+    const { start, end } = pageRange(detail.messages.length, query);
+    return toPage({ ...detail, messages: detail.messages.slice(start, end) }, start, end, detail.messages.length);
   }
 
-  // Codex sessions
-  allSessions.push(...listCodexSessions());
+  const filePath = path.join(PROJECTS_DIR, projectPath, `${sessionId}.jsonl`);
+  if (!fs.existsSync(filePath)) return null;
+  const outline = outlineSession(filePath);
+  if (!outline) return null;
+
+  const total = outline.starts.length;
+  const { start, end } = pageRange(total, query);
+  const detail = claudeDetail(projectPath, sessionId, outline.totals, readMessageRange(filePath, outline, start, end));
+  if (query.cursor !== undefined) delete detail.treeRecords;
+  return toPage(detail, start, end, total);
+}
 
-  return allSessions.sort((a, b) => b.lastActive - a.lastActive).slice(0, limit);
+// ---- Aggregates ----
+
+export function getRecentSessions(limit: number = 30): SessionInfo[] {
+  refreshSessionIndex();
+  const hooks = getHookStates();
+  const usage = getUsageByFile();
+  return getIndexedSessions().slice(0, limit).map((s) => toSessionInfo(s, hooks.get(s.sessionId) ?? null, usage.get(s.filePath) ?? []));
 }
 
 export interface ProjectsSummary {
@@ -710,127 +1122,164 @@ export interface ProjectsSummary {
 export function getProjectsSummary(): ProjectsSummary {
   const projects = listProjects();
   const totalSessions = projects.reduce((s, p) => s + p.sessionCount, 0);
-  const recentSessions = getRecentSessions(9999);
+  const recentSessions = getRecentSessions(Infinity);
   return { projects, totalSessions, recentSessions };
 }
 
+// ---- Transcript Search ----
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  project: string;
+  projectName: string;
+  provider: SessionProvider;
+  model?: string;
+  /** Message uuid for deep links (empty for Codex agent messages) */
+  messageUuid: string;
+  role: string;
+  kind: SearchDocKind;
+  timestamp: string;
+  snippet: SnippetSegment[];
+}
+
+/** Cut a window around the first matching term and split it into highlight segments */
+export function buildSnippet(content: string, terms: string[], radius: number = 80): SnippetSegment[] {
+  const text = content.replace(/\s+/g, " ");
+  const lower = text.toLowerCase();
+  let first = -1;
+  for (const t of terms) {
+    const idx = lower.indexOf(t.toLowerCase());
+    if (idx !== -1 && (first === -1 || idx < first)) first = idx;
+  }
+  const start = Math.max(0, (first === -1 ? 0 : first) - radius);
+  const end = Math.min(text.length, start + radius * 3);
+  const windowText = (start > 0 ? "…" : "") + text.slice(start, end) + (end < text.length ? "…" : "");
+
+  if (terms.length === 0) return [{ text: windowText, match: false }];
+  const pattern = new RegExp(`(${terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "gi");
+  return windowText
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.some((t) => t.toLowerCase() === part.toLowerCase()) }));
+}
+
+export function searchSessions(opts: SearchOptions): SessionSearchResult[] {
+  refreshSessionIndex();
+  const terms = splitSearchTerms(opts.query);
+  return searchTranscripts(opts).map((hit) => ({
+    sessionId: hit.sessionId,
+    project: hit.project,
+    projectName: projectNameFor(hit.source, hit.project, hit.cwd),
+    provider: providerFor(hit.source, hit.model),
+    model: hit.model || undefined,
+    messageUuid: hit.messageUuid,
+    role: hit.role,
+    kind: hit.kind,
+    timestamp: hit.timestamp,
+    snippet: buildSnippet(hit.content, terms),
+  }));
+}
+
 // ---- Token Summary (from all sessions) ----
 
+export interface TokenStats {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  cost: number;
+  sessions: number;
+}
+
 export interface TokenSummary {
   totalInput: number;
   totalOutput: number;
   totalCacheRead: number;
+  totalCacheWrite: number;
   totalCost: number;
-  byModel: Record<string, { input: number; output: number; cost: number; sessions: number }>;
-  byDate: Record<string, { input: number; output: number; cost: number; sessions: number; byModel?: Record<string, { cost: number }> }>;
+  /** Share of totalCost from uncached input and from output tokens, each priced per model and day */
+  inputCost: number;
+  outputCost: number;
+  /** Net saving of prompt caching vs. billing cached tokens as plain input */
+  cacheSavings: number;
+  byModel: Record<string, TokenStats>;
+  byDate: Record<string, TokenStats & { byModel?: Record<string, { cost: number }> }>;
   sessionCount: number;
+  /** Models that used tokens but have no catalog price (excluded from costs) */
+  unpricedModels: string[];
+}
+
+function emptyStats(): TokenStats {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, sessions: 0 };
+}
+
+function addStats(stats: TokenStats, usage: TokenUsage, cost: number): void {
+  stats.input += usage.input;
+  stats.output += usage.output;
+  stats.cacheRead += usage.cacheRead;
+  stats.cacheWrite += cacheWriteTotal(usage);
+  stats.cost += cost;
 }
 
 export function getTokenSummary(provider?: SessionProvider): TokenSummary {
-  const projects = listProjects();
-  let totalInput = 0, totalOutput = 0, totalCacheRead = 0, totalCost = 0;
+  refreshSessionIndex();
+  const totals = emptyUsage();
+  let totalCost = 0, inputCost = 0, outputCost = 0, cacheSavings = 0;
   const byModel: TokenSummary["byModel"] = {};
   const byDate: TokenSummary["byDate"] = {};
   let sessionCount = 0;
   // Track unique sessions per date for accurate session counts
   const dateSessionSets = new Map<string, Set<string>>();
+  const unpriced = new Set<string>();
 
-  for (const project of projects) {
-    const projectDir = path.join(PROJECTS_DIR, project.path);
-    let files: string[];
-    try { files = fs.readdirSync(projectDir); } catch { continue; }
-
-    for (const file of files) {
-      if (!file.endsWith(".jsonl") || file === "memory.jsonl") continue;
-
-      const filePath = path.join(projectDir, file);
-      let content: string;
-      try { content = fs.readFileSync(filePath, "utf-8"); } catch { continue; }
-
-      const lines = content.split("\n").filter((l) => l.trim());
-      let sessionModel = "";
-      let fileMtimeDate = "";
-
-      // If provider filter is set, first detect the session model to decide whether to skip
-      if (provider) {
-        for (const line of lines) {
-          try {
-            const obj = JSON.parse(sanitize(line));
-            if (obj.type === "assistant" && obj.message?.model) {
-              sessionModel = obj.message.model;
-              break;
-            }
-          } catch { /* skip */ }
-        }
-        const sessionProvider = detectProvider(sessionModel);
-        if (sessionProvider !== provider) continue;
-      }
+  const accumulate = (model: string, date: string, usage: TokenUsage): void => {
+    const cost = estimateCost(model, usage, date);
+    addUsage(totals, usage);
+    totalCost += cost;
+    inputCost += estimateCost(model, { ...emptyUsage(), input: usage.input }, date);
+    outputCost += estimateCost(model, { ...emptyUsage(), output: usage.output }, date);
+    cacheSavings += estimateCacheSavings(model, usage, date);
+    if (hasTokens(usage) && !priceFor(model)) unpriced.add(model);
 
-      sessionCount++;
+    if (!byModel[model]) byModel[model] = emptyStats();
+    addStats(byModel[model], usage, cost);
 
-      for (const line of lines) {
-        try {
-          const obj = JSON.parse(sanitize(line));
-          const msg = obj.message;
-          if (!msg) continue;
-
-          // Track model for the session
-          if (msg.model && !sessionModel) sessionModel = msg.model;
-
-          const usage = msg.usage;
-          if (!usage) continue;
-
-          const inp = usage.input_tokens || 0;
-          const out = usage.output_tokens || 0;
-          const cache = usage.cache_read_input_tokens || 0;
-          const m = msg.model || sessionModel || "unknown";
-          const msgCost = estimateCost(m, inp, out);
-
-          totalInput += inp;
-          totalOutput += out;
-          totalCacheRead += cache;
-          totalCost += msgCost;
-
-          // byModel accumulation
-          if (!byModel[m]) byModel[m] = { input: 0, output: 0, cost: 0, sessions: 0 };
-          byModel[m].input += inp;
-          byModel[m].output += out;
-          byModel[m].cost += msgCost;
-
-          // byDate: use the message's own timestamp for accurate daily attribution
-          let date = "unknown";
-          if (obj.timestamp) {
-            try { date = new Date(obj.timestamp).toISOString().split("T")[0]; } catch { /* skip */ }
-          }
-          if (date === "unknown") {
-            // Lazy-load file mtime as fallback
-            if (!fileMtimeDate) {
-              try { fileMtimeDate = new Date(fs.statSync(filePath).mtimeMs).toISOString().split("T")[0]; }
-              catch { fileMtimeDate = "unknown"; }
-            }
-            date = fileMtimeDate;
-          }
+    if (!byDate[date]) byDate[date] = { ...emptyStats(), byModel: {} };
+    addStats(byDate[date], usage, cost);
+    if (!byDate[date].byModel) byDate[date].byModel = {};
+    if (!byDate[date].byModel![model]) byDate[date].byModel![model] = { cost: 0 };
+    byDate[date].byModel![model].cost += cost;
+  };
 
-          if (!byDate[date]) byDate[date] = { input: 0, output: 0, cost: 0, sessions: 0, byModel: {} };
-          byDate[date].input += inp;
-          byDate[date].output += out;
-          byDate[date].cost += msgCost;
+  const sessions = getIndexedSessions();
+  // Claude and Gemini usage is bucketed per message
+  const bucketedFiles = new Set<string>();
 
-          if (!byDate[date].byModel) byDate[date].byModel = {};
-          if (!byDate[date].byModel![m]) byDate[date].byModel![m] = { cost: 0 };
-          byDate[date].byModel![m].cost += msgCost;
+  for (const s of sessions) {
+    if (s.source === "codex") continue;
+    // Provider filter is decided by the session's first assistant model
+    if (provider && providerFor(s.source, s.model) !== provider) continue;
+    bucketedFiles.add(s.filePath);
+    sessionCount++;
+  }
 
-          // Track which sessions had messages on each date
-          if (!dateSessionSets.has(date)) dateSessionSets.set(date, new Set());
-          dateSessionSets.get(date)!.add(file);
-        } catch { /* skip */ }
-      }
+  for (const u of getIndexedUsage()) {
+    if (!bucketedFiles.has(u.filePath)) continue;
+    accumulate(u.model, u.date, u);
 
-      // Count sessions per model
-      if (sessionModel && byModel[sessionModel]) {
-        byModel[sessionModel].sessions++;
-      }
-    }
+    // Track which sessions had messages on each date
+    if (!dateSessionSets.has(u.date)) dateSessionSets.set(u.date, new Set());
+    dateSessionSets.get(u.date)!.add(u.filePath);
+  }
+
+  // Count sessions per model
+  for (const s of sessions) {
+    if (bucketedFiles.has(s.filePath) && s.model && byModel[s.model]) byModel[s.model].sessions++;
   }
 
   // Set accurate session counts per date
@@ -838,27 +1287,13 @@ export function getTokenSummary(provider?: SessionProvider): TokenSummary {
     if (byDate[date]) byDate[date].sessions = sessSet.size;
   }
 
-  // Include Codex sessions
-  const codexSessions = listCodexSessions();
-  for (const cs of codexSessions) {
-    // Apply provider filter
-    if (provider && cs.provider !== provider) continue;
+  // Include Codex sessions (usage is cumulative per session, attributed to its start date)
+  for (const cs of sessions) {
+    if (cs.source !== "codex") continue;
+    if (provider && provider !== "codex") continue;
 
     sessionCount++;
     const m = cs.model || "unknown";
-    const inp = cs.totalInputTokens;
-    const out = cs.totalOutputTokens;
-    const cost = cs.estimatedCost;
-
-    totalInput += inp;
-    totalOutput += out;
-    totalCost += cost;
-
-    if (!byModel[m]) byModel[m] = { input: 0, output: 0, cost: 0, sessions: 0 };
-    byModel[m].input += inp;
-    byModel[m].output += out;
-    byModel[m].cost += cost;
-    byModel[m].sessions++;
 
     // Date from startTime
     let date = "unknown";
@@ -866,18 +1301,181 @@ export function getTokenSummary(provider?: SessionProvider): TokenSummary {
       try { date = new Date(cs.startTime).toISOString().split("T")[0]; } catch { /* skip */ }
     }
 
-    if (!byDate[date]) byDate[date] = { input: 0, output: 0, cost: 0, sessions: 0, byModel: {} };
-    byDate[date].input += inp;
-    byDate[date].output += out;
-    byDate[date].cost += cost;
+    accumulate(m, date, cs.usage);
+    byModel[m].sessions++;
     byDate[date].sessions++;
+  }
 
-    if (!byDate[date].byModel) byDate[date].byModel = {};
-    if (!byDate[date].byModel![m]) byDate[date].byModel![m] = { cost: 0 };
-    byDate[date].byModel![m].cost += cost;
+  return {
+    totalInput: totals.input,
+    totalOutput: totals.output,
+    totalCacheRead: totals.cacheRead,
+    totalCacheWrite: cacheWriteTotal(totals),
+    totalCost,
+    inputCost,
+    outputCost,
+    cacheSavings,
+    byModel,
+    byDate,
+    sessionCount,
+    unpricedModels: [...unpriced].sort(),
+  };
+}
+
+/** Cost of one project, provider and model on one day */
+export interface CostEntry {
+  date: string;
+  /** Project path, as in SessionInfo.projectName */
+  project: string;
+  provider: SessionProvider;
+  model: string;
+  cost: number;
+}
+
+/**
+ * Daily cost broken down by project, provider and model, for budgets and
+ * forecasts. Attribution matches getTokenSummary: a session's provider comes
+ * from its first assistant model, Codex usage lands on the session start date.
+ */
+export function getCostLedger(): CostEntry[] {
+  refreshSessionIndex();
+  const sessions = new Map(getIndexedSessions().map((s) => [s.filePath, s]));
+  const entries = new Map<string, CostEntry>();
+
+  const add = (s: IndexedSession, model: string, date: string, usage: TokenUsage): void => {
+    const cost = estimateCost(model, usage, date);
+    if (cost === 0) return;
+    const project = projectNameFor(s.source, s.project, s.cwd);
+    const provider = providerFor(s.source, s.model);
+    const key = `${date}\0${project}\0${provider}\0${model}`;
+    const entry = entries.get(key);
+    if (entry) entry.cost += cost;
+    else entries.set(key, { date, project, provider, model, cost });
+  };
+
+  for (const u of getIndexedUsage()) {
+    const s = sessions.get(u.filePath);
+    if (s && s.source !== "codex") add(s, u.model, u.date, u);
+  }
+  for (const s of sessions.values()) {
+    if (s.source !== "codex" || !s.startTime) continue;
+    add(s, s.model || "unknown", new Date(s.startTime).toISOString().split("T")[0], s.usage);
   }
+  return [...entries.values()];
+}
+
+// ---- Cost by Branch ----
+
+export interface BranchUsage extends TokenStats {
+  /** Empty when no record named a branch (Gemini, older Claude Code) */
+  branch: string;
+  lastActive: number;
+}
 
-  return { totalInput, totalOutput, totalCacheRead, totalCost, byModel, byDate, sessionCount };
+export interface RepositoryUsage extends TokenStats {
+  /** Normalized origin remote such as github.com/me/app, else the directory */
+  repository: string;
+  branches: BranchUsage[];
+}
+
+/** Claude projects keep their last known remote, so a moved repo stays one repository */
+function repositoryFor(s: IndexedSession): string {
+  if (s.source === "claude") {
+    const p = getProjectPaths().get(s.project);
+    return p?.gitRemote ?? p?.path ?? projectPathFor(s.project);
+  }
+  return (s.cwd && gitRemoteFor(s.cwd)) || projectNameFor(s.source, s.project, s.cwd);
+}
+
+/**
+ * Cost and tokens per repository and branch, most expensive first. Claude
+ * usage is split by the branch each message was recorded on; a Codex session
+ * is charged to the branch it started on.
+ */
+export function getBranchUsage(provider?: SessionProvider): RepositoryUsage[] {
+  refreshSessionIndex();
+  const sessions = getIndexedSessions().filter((s) => !provider || providerFor(s.source, s.model) === provider);
+  const byFile = new Map(sessions.map((s) => [s.filePath, s]));
+  type Group<T> = { stats: T; files: Set<string> };
+  const repos = new Map<string, Group<RepositoryUsage> & { branches: Map<string, Group<BranchUsage>> }>();
+
+  const add = (s: IndexedSession, branch: string, model: string, date: string, usage: TokenUsage): void => {
+    const cost = estimateCost(model, usage, date);
+    const repository = repositoryFor(s);
+    let repo = repos.get(repository);
+    if (!repo) {
+      repo = { stats: { ...emptyStats(), repository, branches: [] }, files: new Set(), branches: new Map() };
+      repos.set(repository, repo);
+    }
+    let b = repo.branches.get(branch);
+    if (!b) {
+      b = { stats: { ...emptyStats(), branch, lastActive: 0 }, files: new Set() };
+      repo.branches.set(branch, b);
+    }
+    addStats(repo.stats, usage, cost);
+    addStats(b.stats, usage, cost);
+    repo.files.add(s.filePath);
+    b.files.add(s.filePath);
+    b.stats.lastActive = Math.max(b.stats.lastActive, s.lastActive);
+  };
+
+  for (const u of getIndexedUsage()) {
+    const s = byFile.get(u.filePath);
+    if (s && s.source !== "codex") add(s, u.branch, u.model, u.date, u);
+  }
+  for (const s of sessions) {
+    if (s.source !== "codex") continue;
+    const date = s.startTime ? new Date(s.startTime).toISOString().split("T")[0] : "unknown";
+    add(s, s.gitBranch, s.model || "unknown", date, s.usage);
+  }
+
+  return [...repos.values()]
+    .map((r) => ({
+      ...r.stats,
+      sessions: r.files.size,
+      branches: [...r.branches.values()]
+        .map((b) => ({ ...b.stats, sessions: b.files.size }))
+        .sort((x, y) => y.cost - x.cost),
+    }))
+    .sort((x, y) => y.cost - x.cost);
+}
+
+// ---- Billing Blocks ----
+
+export interface BillingBlocksData {
+  now: number;
+  /** The open 5-hour window, if a message was sent within it */
+  current: BillingBlock | null;
+  burn: BlockBurn | null;
+  /** Blocks that started within the requested days, newest first */
+  blocks: BillingBlock[];
+}
+
+/**
+ * Claude usage grouped into rolling 5-hour windows. The current block's burn
+ * is measured against the largest earlier block, the most the plan is known
+ * to have allowed.
+ */
+export function getBillingBlocks(days = 7): BillingBlocksData {
+  refreshSessionIndex();
+  const now = Date.now();
+  const activity = getIndexedHourlyUsage().map((h) => ({
+    firstAt: h.firstAt,
+    lastAt: h.lastAt,
+    model: h.model,
+    messages: h.messages,
+    usage: h,
+    cost: estimateCost(h.model, h, h.hour.slice(0, 10)),
+  }));
+  const all = groupBillingBlocks(activity, now);
+  const current = all.find((b) => b.active) ?? null;
+  const since = now - days * 86_400_000;
+  return {
+    now,
+    current,
+    burn: current ? blockBurn(current, now, blockLimit(all)) : null,
+    blocks: all.filter((b) => b.start >= since).reverse(),
+  };
 }
 
 // ---- CSV Export ----
@@ -890,28 +1488,22 @@ export interface TokenExportRow {
   inputTokens: number;
   outputTokens: number;
   cacheReadTokens: number;
+  cacheWriteTokens: number;
   estimatedCost: number;
 }
 
 export function getTokenExportData(): TokenExportRow[] {
-  const projects = listProjects();
-  const rows: TokenExportRow[] = [];
-
-  for (const project of projects) {
-    const sessions = listSessions(project.path);
-    for (const session of sessions) {
-      rows.push({
-        date: session.startTime ? new Date(session.startTime).toISOString().split("T")[0] : "unknown",
-        project: session.projectName,
-        sessionId: session.id,
-        model: session.model || "unknown",
-        inputTokens: session.totalInputTokens,
-        outputTokens: session.totalOutputTokens,
-        cacheReadTokens: session.cacheReadTokens,
-        estimatedCost: session.estimatedCost,
-      });
-    }
-  }
+  const rows: TokenExportRow[] = getRecentSessions(Infinity).map((session) => ({
+    date: session.startTime ? new Date(session.startTime).toISOString().split("T")[0] : "unknown",
+    project: session.projectName,
+    sessionId: session.id,
+    model: session.model || "unknown",
+    inputTokens: session.totalInputTokens,
+    outputTokens: session.totalOutputTokens,
+    cacheReadTokens: session.cacheReadTokens,
+    cacheWriteTokens: session.cacheWriteTokens,
+    estimatedCost: session.estimatedCost,
+  }));
 
   return rows.sort((a, b) => b.date.localeCompare(a.date));
 }
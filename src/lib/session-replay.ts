@@ -0,0 +1,151 @@
+/**
+ * Session Replay - a playback clock over a transcript's original timestamps.
+ *
+ * Messages appear at their own timestamp and tool results at the call's
+ * timestamp plus its duration. With idle skipping, every quiet stretch longer
+ * than IDLE_GAP_MS plays back as IDLE_GAP_MS.
+ *
+ * Pure module: safe to import from client components.
+ */
+
+import type { ToolCallInfo } from "./session-reader";
+
+export const REPLAY_SPEEDS = [1, 4, 16] as const;
+
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+/** Longest pause kept when idle gaps are skipped */
+export const IDLE_GAP_MS = 2000;
+
+// ---- Types ----
+
+export interface ReplayEvent {
+  /** Position on the playback clock, ms from the start */
+  position: number;
+  message: number;
+  /** Set for a tool result: index into the message's toolUse */
+  tool?: number;
+}
+
+export interface ReplayTimeline {
+  /** Original time of the first event, ms since epoch */
+  start: number;
+  /** Playback length, ms */
+  duration: number;
+  /** Ascending by position */
+  events: ReplayEvent[];
+  /** Original time of each message, made non-decreasing */
+  messageTimes: number[];
+  /** Piecewise-linear map between original time and playback position */
+  points: { time: number; position: number }[];
+}
+
+/** The message fields replay reads */
+export interface ReplayMessage {
+  timestamp: string;
+  toolUse?: ToolCallInfo[];
+  inputTokens?: number;
+  outputTokens?: number;
+  cost?: number;
+}
+
+export interface ReplaySnapshot<M extends ReplayMessage> {
+  /** Messages shown so far; tool calls still running have no result */
+  messages: M[];
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+// ---- Timeline ----
+
+export function buildReplayTimeline(messages: ReplayMessage[], skipIdle: boolean): ReplayTimeline {
+  const messageTimes: number[] = [];
+  const raw: { time: number; message: number; tool?: number }[] = [];
+  let last = messages.map((m) => Date.parse(m.timestamp)).find((t) => !Number.isNaN(t)) ?? 0;
+  messages.forEach((m, i) => {
+    const parsed = Date.parse(m.timestamp);
+    last = Number.isNaN(parsed) ? last : Math.max(last, parsed);
+    messageTimes.push(last);
+    raw.push({ time: last, message: i });
+    m.toolUse?.forEach((t, ti) => {
+      if (t.result !== undefined) raw.push({ time: last + (t.durationMs ?? 0), message: i, tool: ti });
+    });
+  });
+  raw.sort((a, b) => a.time - b.time);
+
+  const start = raw[0]?.time ?? 0;
+  const points = [{ time: start, position: 0 }];
+  for (const e of raw) {
+    const prev = points[points.length - 1];
+    if (e.time <= prev.time) continue;
+    const gap = e.time - prev.time;
+    points.push({ time: e.time, position: prev.position + (skipIdle ? Math.min(gap, IDLE_GAP_MS) : gap) });
+  }
+
+  const timeline: ReplayTimeline = {
+    start,
+    duration: points[points.length - 1].position,
+    events: [],
+    messageTimes,
+    points,
+  };
+  timeline.events = raw.map((e) => ({ position: replayPosition(timeline, e.time), message: e.message, tool: e.tool }));
+  return timeline;
+}
+
+/** Playback position of an original timestamp */
+export function replayPosition(timeline: ReplayTimeline, time: number): number {
+  const { points } = timeline;
+  if (time <= points[0].time) return 0;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1], b = points[i];
+    if (time <= b.time) return a.position + ((time - a.time) / (b.time - a.time)) * (b.position - a.position);
+  }
+  return timeline.duration;
+}
+
+/** Original timestamp at a playback position */
+export function replayTime(timeline: ReplayTimeline, position: number): number {
+  const { points } = timeline;
+  if (position <= 0) return points[0].time;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1], b = points[i];
+    if (position <= b.position) return a.time + ((position - a.position) / (b.position - a.position)) * (b.time - a.time);
+  }
+  return points[points.length - 1].time;
+}
+
+// ---- Snapshot ----
+
+/** What the session looked like at a playback position */
+export function replaySnapshot<M extends ReplayMessage>(messages: M[], timeline: ReplayTimeline, position: number): ReplaySnapshot<M> {
+  // Tolerate rounding so an event lands exactly when stepped to
+  const now = replayTime(timeline, position) + 1;
+  const snapshot: ReplaySnapshot<M> = { messages: [], inputTokens: 0, outputTokens: 0, cost: 0 };
+
+  for (let i = 0; i < messages.length && timeline.messageTimes[i] <= now; i++) {
+    const m = messages[i];
+    const pending = m.toolUse?.some((t) => t.result !== undefined && timeline.messageTimes[i] + (t.durationMs ?? 0) > now);
+    snapshot.messages.push(pending ? {
+      ...m,
+      toolUse: m.toolUse?.map((t) => (timeline.messageTimes[i] + (t.durationMs ?? 0) > now
+        ? { ...t, result: undefined, isError: undefined, durationMs: undefined }
+        : t)),
+    } : m);
+    snapshot.inputTokens += m.inputTokens ?? 0;
+    snapshot.outputTokens += m.outputTokens ?? 0;
+    snapshot.cost += m.cost ?? 0;
+  }
+  return snapshot;
+}
+
+/** Position of the first event after (or last event before) `position` */
+export function adjacentEvent(timeline: ReplayTimeline, position: number, direction: 1 | -1): number {
+  const { events } = timeline;
+  if (direction > 0) return events.find((e) => e.position > position + 0.5)?.position ?? timeline.duration;
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (events[i].position < position - 0.5) return events[i].position;
+  }
+  return 0;
+}
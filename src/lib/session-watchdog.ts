@@ -0,0 +1,238 @@
+/**
+ * Session Watchdog - finds sessions that need a human: waiting on a prompt
+ * longer than the configured threshold, looping on failing tool calls, or
+ * still marked active after every Claude process has exited.
+ *
+ * Each stall is published once per episode as `session.stalled` on the event
+ * bus; the router below turns it into a dashboard notification and a bot
+ * message. Settings and the alert log live in scc-dashboard.db.
+ */
+
+import Database from "better-sqlite3";
+import path from "path";
+import os from "os";
+import { getRecentSessions } from "./session-reader";
+import type { SessionInfo, SessionStatus } from "./session-reader";
+import { getIndexedToolCalls } from "./session-index";
+import type { IndexedToolCall } from "./session-index";
+import { getClaudeProcesses } from "./process-reader";
+import type { ProcessInfo } from "./process-reader";
+import { eventBus } from "./event-bus";
+import type { EventMap } from "./event-bus";
+import { addNotification } from "./event-bus/notification-queue";
+import { sendBotAlert } from "./bot/bot-alerts";
+
+const DB_PATH = path.join(os.homedir(), ".claude", "scc-dashboard.db");
+
+const CHECK_INTERVAL_MS = 60_000;
+/** Only sessions active this recently are checked */
+const ACTIVE_WINDOW_MS = 60 * 60 * 1000;
+const ACTIVE_STATUSES = new Set<SessionStatus>(["reading", "thinking", "writing", "waiting"]);
+
+// ---- Types ----
+
+export type SessionStall = EventMap["session.stalled"];
+
+export type StallReason = SessionStall["reason"];
+
+export interface WatchdogConfig {
+  enabled: boolean;
+  /** Minutes a session may wait for input before alerting (hook-reported waits only last up to an hour) */
+  waitingMinutes: number;
+  /** Consecutive failed tool calls that count as a loop */
+  errorLoopCount: number;
+  telegram: boolean;
+  feishu: boolean;
+}
+
+export const DEFAULT_WATCHDOG_CONFIG: WatchdogConfig = {
+  enabled: true,
+  waitingMinutes: 10,
+  errorLoopCount: 3,
+  telegram: true,
+  feishu: true,
+};
+
+// ---- Database ----
+
+let _db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  if (!_db) {
+    _db = new Database(DB_PATH);
+    _db.pragma("journal_mode = WAL");
+    _db.exec(`
+      CREATE TABLE IF NOT EXISTS watchdog_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS watchdog_alerts (
+        session_id TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        since INTEGER NOT NULL,
+        alerted_at INTEGER NOT NULL,
+        PRIMARY KEY (session_id, reason)
+      );
+    `);
+  }
+  return _db;
+}
+
+export function getWatchdogConfig(): WatchdogConfig {
+  const row = getDb().prepare("SELECT value FROM watchdog_settings WHERE key = 'config'").get() as { value: string } | undefined;
+  if (!row) return { ...DEFAULT_WATCHDOG_CONFIG };
+  try {
+    return { ...DEFAULT_WATCHDOG_CONFIG, ...JSON.parse(row.value) };
+  } catch {
+    return { ...DEFAULT_WATCHDOG_CONFIG };
+  }
+}
+
+/** Merge and validate a partial config. Throws on out-of-range values. */
+export function setWatchdogConfig(update: Partial<WatchdogConfig>): WatchdogConfig {
+  const config = { ...getWatchdogConfig(), ...update };
+  if (!Number.isFinite(config.waitingMinutes) || config.waitingMinutes < 1 || config.waitingMinutes > 59) {
+    throw new Error("waitingMinutes must be between 1 and 59");
+  }
+  if (!Number.isInteger(config.errorLoopCount) || config.errorLoopCount < 2) {
+    throw new Error("errorLoopCount must be an integer of at least 2");
+  }
+  getDb()
+    .prepare("INSERT OR REPLACE INTO watchdog_settings (key, value) VALUES ('config', ?)")
+    .run(JSON.stringify(config));
+  return config;
+}
+
+// ---- Detection ----
+
+function minutes(ms: number): string {
+  return `${Math.round(ms / 60000)} min`;
+}
+
+/** Stalls among the given sessions. Pure: the caller supplies every input. */
+export function detectStalls(
+  sessions: SessionInfo[],
+  calls: IndexedToolCall[],
+  processes: ProcessInfo[],
+  config: WatchdogConfig,
+  now: number,
+): SessionStall[] {
+  const stalls: SessionStall[] = [];
+  const callsBySession = new Map<string, IndexedToolCall[]>();
+  for (const c of calls) {
+    if (c.isError === null) continue;
+    const list = callsBySession.get(c.sessionId) ?? [];
+    list.push(c);
+    callsBySession.set(c.sessionId, list);
+  }
+
+  for (const s of sessions) {
+    if (now - s.lastActive > ACTIVE_WINDOW_MS) continue;
+    const base = { sessionId: s.id, project: s.project, projectName: s.projectName };
+
+    if (s.status === "waiting" && now - s.lastActive >= config.waitingMinutes * 60000) {
+      stalls.push({ ...base, reason: "waiting", since: s.lastActive, detail: `Waiting for input for ${minutes(now - s.lastActive)}` });
+    }
+
+    // The run of failures at the end; it starts the episode, so a growing loop alerts once
+    const completed = (callsBySession.get(s.id) ?? []).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    let runStart = completed.length;
+    while (runStart > 0 && completed[runStart - 1].isError) runStart--;
+    const run = completed.slice(runStart);
+    if (run.length >= config.errorLoopCount) {
+      const names = [...new Set(run.map((c) => c.name))].join(", ");
+      const last = run[run.length - 1];
+      stalls.push({
+        ...base,
+        reason: "error-loop",
+        since: Date.parse(run[0].timestamp) || s.lastActive,
+        detail: `${run.length} failed tool calls in a row (${names})${last.detail ? `: ${last.detail}` : ""}`,
+      });
+    }
+
+    if (processes.length === 0 && s.project !== "__codex__" && s.project !== "__gemini__" && ACTIVE_STATUSES.has(s.status)) {
+      stalls.push({ ...base, reason: "process-exited", since: s.lastActive, detail: `Marked ${s.status} but no Claude process is running` });
+    }
+  }
+  return stalls;
+}
+
+// ---- Alerting ----
+
+/** Record an alert; false when this episode was already reported */
+function claimAlert(stall: SessionStall, now: number): boolean {
+  const db = getDb();
+  const row = db.prepare("SELECT since FROM watchdog_alerts WHERE session_id = ? AND reason = ?")
+    .get(stall.sessionId, stall.reason) as { since: number } | undefined;
+  if (row?.since === stall.since) return false;
+  db.prepare("INSERT OR REPLACE INTO watchdog_alerts (session_id, reason, since, alerted_at) VALUES (?, ?, ?, ?)")
+    .run(stall.sessionId, stall.reason, stall.since, now);
+  return true;
+}
+
+const TITLES: Record<StallReason, string> = {
+  "waiting": "Session waiting for input",
+  "error-loop": "Session looping on tool errors",
+  "process-exited": "Session process exited",
+};
+
+async function routeStall(stall: SessionStall): Promise<void> {
+  const title = TITLES[stall.reason];
+  addNotification("session", title, `${stall.projectName}: ${stall.detail}`, {
+    source: "watchdog",
+    meta: { sessionId: stall.sessionId, project: stall.project, reason: stall.reason },
+  });
+
+  const config = getWatchdogConfig();
+  const text = `*${title}*\n${stall.projectName}\n${stall.detail}\n\`${stall.sessionId}\``;
+  await sendBotAlert(text, config, "[Watchdog]");
+}
+
+/** Run one check and publish new stalls. Returns the stalls found. */
+export function checkSessions(now = Date.now()): SessionStall[] {
+  const config = getWatchdogConfig();
+  if (!config.enabled) return [];
+
+  const sessions = getRecentSessions(Infinity).filter((s) => now - s.lastActive <= ACTIVE_WINDOW_MS);
+  if (sessions.length === 0) return [];
+  const calls = getIndexedToolCalls(new Date(now - ACTIVE_WINDOW_MS).toISOString());
+  const processes = sessions.some((s) => ACTIVE_STATUSES.has(s.status))
+    ? getClaudeProcesses().filter((p) => p.pid !== process.pid && p.pid !== process.ppid)
+    : [];
+
+  const stalls = detectStalls(sessions, calls, processes, config, now);
+  for (const stall of stalls) {
+    if (claimAlert(stall, now)) eventBus.emit("session.stalled", stall);
+  }
+  return stalls;
+}
+
+// ---- Lifecycle ----
+
+let watchdogInterval: ReturnType<typeof setInterval> | null = null;
+let unsubscribeRouter: (() => void) | null = null;
+
+/** Start periodic checks and alert routing (idempotent) */
+export function startWatchdog(): void {
+  if (watchdogInterval) return;
+  unsubscribeRouter = eventBus.on("session.stalled", (stall) => {
+    routeStall(stall).catch((err) => console.error("[Watchdog] Failed to route alert:", err));
+  });
+  watchdogInterval = setInterval(() => {
+    try {
+      checkSessions();
+    } catch (err) {
+      console.error("[Watchdog] Check failed:", err);
+    }
+  }, CHECK_INTERVAL_MS);
+  console.log("[Watchdog] Started");
+}
+
+export function stopWatchdog(): void {
+  if (watchdogInterval) {
+    clearInterval(watchdogInterval);
+    watchdogInterval = null;
+  }
+  unsubscribeRouter?.();
+  unsubscribeRouter = null;
+}
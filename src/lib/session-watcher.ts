@@ -0,0 +1,260 @@
+/**
+ * Session Watcher - tails ~/.claude/projects and ~/.codex/sessions and turns
+ * appended JSONL records into LiveEvents for the SSE stream. Gemini chats in
+ * ~/.gemini/tmp are rewritten whole, so they only ever report a change.
+ *
+ * fs.watch triggers a per-file read from the last offset seen; a periodic
+ * rescan catches what the watcher misses (unsupported platforms, directories
+ * created later). Statuses decay with time alone, so recently active sessions
+ * are re-evaluated on a timer too. Runs only while someone is subscribed.
+ */
+
+import fs from "fs";
+import path from "path";
+import os from "os";
+import {
+  getIndexedSessions, indexSessionFile, listSessionFiles, readAppendedLines, refreshSessionIndex, sessionFileFor,
+} from "./session-index";
+import type { SessionFile } from "./session-index";
+import { createClaudeRecordParser, getUsageByFile, toSessionInfo } from "./session-reader";
+import type { ParsedClaudeRecord, SessionInfo, SessionStatus } from "./session-reader";
+import type { LiveEvent, LiveMessagesEvent } from "./live-events";
+import { getHookStates } from "./session-hooks";
+import type { SessionHookState } from "./session-hooks";
+import { eventBus } from "./event-bus";
+
+const PROJECTS_DIR = path.join(os.homedir(), ".claude", "projects");
+const CODEX_SESSIONS_DIR = path.join(os.homedir(), ".codex", "sessions");
+const GEMINI_TMP_DIR = path.join(os.homedir(), ".gemini", "tmp");
+
+const DEBOUNCE_MS = 150;
+const RESCAN_INTERVAL_MS = 10_000;
+const STATUS_INTERVAL_MS = 15_000;
+/** Sessions idle longer than this can no longer change status on their own */
+const STATUS_WINDOW_MS = 65 * 60 * 1000;
+
+/** Read position and parser state for one session file */
+interface Tail {
+  file: SessionFile;
+  offset: number;
+  parse?: (line: string) => ParsedClaudeRecord | null;
+  status?: SessionStatus;
+}
+
+export type LiveListener = (event: LiveEvent) => void;
+
+// ---- Watcher state (singleton) ----
+
+const listeners = new Set<LiveListener>();
+const tails = new Map<string, Tail>();
+const pending = new Map<string, ReturnType<typeof setTimeout>>();
+let watchers: fs.FSWatcher[] = [];
+let timers: ReturnType<typeof setInterval>[] = [];
+
+function emit(event: LiveEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error("[SessionWatcher] Listener failed:", err);
+    }
+  }
+}
+
+/** Emit a status event when the status differs from the last one seen */
+function trackStatus(tail: Tail, session: SessionInfo): void {
+  const previous = tail.status;
+  tail.status = session.status;
+  if (!previous || previous === session.status) return;
+  emit({ type: "session.status", session, previous });
+  if (session.status === "completed") {
+    eventBus.emit("session.complete", {
+      sessionId: session.id,
+      project: session.project,
+      cost: session.estimatedCost,
+      durationMs: session.startTime ? session.lastActive - session.startTime : undefined,
+    });
+  }
+}
+
+// ---- File processing ----
+
+function parseAppended(tail: Tail, lines: string[], session: SessionInfo): LiveMessagesEvent | null {
+  tail.parse ??= createClaudeRecordParser();
+  const event: LiveMessagesEvent = {
+    type: "session.messages", project: session.project, sessionId: session.id,
+    messages: [], treeRecords: [], toolResults: [],
+  };
+  for (const line of lines) {
+    let record: ParsedClaudeRecord | null = null;
+    try { record = tail.parse(line); } catch { /* skip */ }
+    if (!record) continue;
+    if (record.treeRecord) event.treeRecords.push(record.treeRecord);
+    if (record.message) event.messages.push(record.message);
+    event.toolResults.push(...record.toolResults);
+  }
+  const empty = !event.messages.length && !event.treeRecords.length && !event.toolResults.length;
+  return empty ? null : event;
+}
+
+function processFile(filePath: string): void {
+  const file = tails.get(filePath)?.file ?? sessionFileFor(filePath);
+  if (!file) return;
+
+  let size: number;
+  try {
+    size = fs.statSync(filePath).size;
+  } catch {
+    // Deleted: drop it from the index
+    tails.delete(filePath);
+    indexSessionFile(file);
+    return;
+  }
+
+  let tail = tails.get(filePath);
+  const isNew = !tail;
+  if (!tail) {
+    tail = { file, offset: 0 };
+    tails.set(filePath, tail);
+  }
+  const rewritten = size < tail.offset;
+  if (rewritten) {
+    tail.offset = 0;
+    tail.parse = undefined;
+  }
+  if (!isNew && !rewritten && size === tail.offset) return;
+
+  const { lines, nextOffset } = file.source === "gemini"
+    ? { lines: [], nextOffset: size }
+    : readAppendedLines(filePath, tail.offset, size);
+  tail.offset = nextOffset;
+  if (!isNew && !rewritten && lines.length === 0 && file.source !== "gemini") return;
+
+  const indexed = indexSessionFile(file);
+  if (!indexed) return;
+  const session = toSessionInfo(indexed);
+
+  if (isNew) {
+    emit({ type: "session.created", session });
+    eventBus.emit("session.start", { sessionId: session.id, project: session.project });
+  } else {
+    emit({ type: "session.updated", session });
+  }
+
+  if (file.source === "claude" && !rewritten) {
+    const messages = parseAppended(tail, lines, session);
+    if (messages) emit(messages);
+  } else {
+    emit({ type: "session.changed", project: session.project, sessionId: session.id });
+  }
+
+  trackStatus(tail, session);
+}
+
+function schedule(filePath: string): void {
+  clearTimeout(pending.get(filePath));
+  pending.set(filePath, setTimeout(() => {
+    pending.delete(filePath);
+    try {
+      processFile(filePath);
+    } catch (err) {
+      console.error("[SessionWatcher] Failed to process", filePath, err);
+    }
+  }, DEBOUNCE_MS));
+}
+
+function rescan(): void {
+  for (const file of listSessionFiles()) {
+    const tail = tails.get(file.filePath);
+    if (!tail) {
+      schedule(file.filePath);
+      continue;
+    }
+    try {
+      if (fs.statSync(file.filePath).size !== tail.offset) schedule(file.filePath);
+    } catch { /* gone; the next watch event or rescan drops it */ }
+  }
+}
+
+function checkStatuses(): void {
+  const cutoff = Date.now() - STATUS_WINDOW_MS;
+  const hooks = getHookStates();
+  const usage = getUsageByFile();
+  for (const s of getIndexedSessions()) {
+    if (s.lastActive < cutoff) break; // sorted by last_active DESC
+    const tail = tails.get(s.filePath);
+    if (tail) trackStatus(tail, toSessionInfo(s, hooks.get(s.sessionId) ?? null, usage.get(s.filePath) ?? []));
+  }
+}
+
+/** Re-evaluate a session's status right away when one of its hooks arrives */
+export function notifyHookEvent(hook: SessionHookState): void {
+  if (listeners.size === 0) return;
+  let tail = hook.transcriptPath ? tails.get(hook.transcriptPath) : undefined;
+  if (!tail) {
+    for (const t of tails.values()) {
+      if (path.basename(t.file.filePath) === `${hook.sessionId}.jsonl`) { tail = t; break; }
+    }
+  }
+  if (!tail) return;
+  const indexed = indexSessionFile(tail.file);
+  if (indexed) trackStatus(tail, toSessionInfo(indexed, hook));
+}
+
+// ---- Lifecycle ----
+
+function start(): void {
+  refreshSessionIndex();
+  const hooks = getHookStates();
+  const usage = getUsageByFile();
+  const statuses = new Map(getIndexedSessions().map((s) => [
+    s.filePath, toSessionInfo(s, hooks.get(s.sessionId) ?? null, usage.get(s.filePath) ?? []).status,
+  ]));
+  // Existing content is already on the clients: tail from the current end
+  for (const file of listSessionFiles()) {
+    let offset = 0;
+    try { offset = fs.statSync(file.filePath).size; } catch { continue; }
+    tails.set(file.filePath, { file, offset, status: statuses.get(file.filePath) });
+  }
+
+  for (const dir of [PROJECTS_DIR, CODEX_SESSIONS_DIR, GEMINI_TMP_DIR]) {
+    try {
+      const watcher = fs.watch(dir, { recursive: true }, (_event, name) => {
+        if (name) schedule(path.join(dir, name.toString()));
+      });
+      watcher.on("error", (err) => console.error("[SessionWatcher] Watch error on", dir, err));
+      watchers.push(watcher);
+    } catch {
+      // Missing directory or no recursive watch support: the rescan covers it
+    }
+  }
+
+  timers = [
+    setInterval(() => {
+      try { rescan(); } catch (err) { console.error("[SessionWatcher] Rescan failed:", err); }
+    }, RESCAN_INTERVAL_MS),
+    setInterval(() => {
+      try { checkStatuses(); } catch (err) { console.error("[SessionWatcher] Status check failed:", err); }
+    }, STATUS_INTERVAL_MS),
+  ];
+}
+
+function stop(): void {
+  for (const watcher of watchers) watcher.close();
+  for (const timer of timers) clearInterval(timer);
+  for (const timer of pending.values()) clearTimeout(timer);
+  watchers = [];
+  timers = [];
+  pending.clear();
+  tails.clear();
+}
+
+/** Receive live session events. Returns an unsubscribe function. */
+export function subscribeLiveSessions(listener: LiveListener): () => void {
+  if (listeners.size === 0) start();
+  listeners.add(listener);
+  return () => {
+    if (!listeners.delete(listener)) return;
+    if (listeners.size === 0) stop();
+  };
+}
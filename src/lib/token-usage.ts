@@ -0,0 +1,108 @@
+/**
+ * Token usage normalization shared by the session readers and the index.
+ *
+ * Claude reports `input_tokens` excluding cache traffic, with cache reads and
+ * cache writes (5-minute and 1-hour TTL tiers) counted separately. Codex
+ * reports `cached_input_tokens` as a subset of `input_tokens`, and Gemini
+ * does the same with `cached`, so both are split out here to give every
+ * provider the same shape.
+ */
+
+export interface TokenUsage {
+  /** Uncached input tokens */
+  input: number;
+  output: number;
+  cacheRead: number;
+  /** Cache writes with the default 5-minute TTL */
+  cacheWrite5m: number;
+  /** Cache writes with the extended 1-hour TTL */
+  cacheWrite1h: number;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite5m: 0, cacheWrite1h: 0 };
+}
+
+/** Add `b` into `a` in place */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  a.input += b.input;
+  a.output += b.output;
+  a.cacheRead += b.cacheRead;
+  a.cacheWrite5m += b.cacheWrite5m;
+  a.cacheWrite1h += b.cacheWrite1h;
+  return a;
+}
+
+export function cacheWriteTotal(u: TokenUsage): number {
+  return u.cacheWrite5m + u.cacheWrite1h;
+}
+
+export function hasTokens(u: TokenUsage): boolean {
+  return u.input + u.output + u.cacheRead + u.cacheWrite5m + u.cacheWrite1h > 0;
+}
+
+interface ClaudeRawUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_creation?: {
+    ephemeral_5m_input_tokens?: number;
+    ephemeral_1h_input_tokens?: number;
+  };
+}
+
+/** Normalize a Claude `message.usage` object. Without a TTL breakdown all writes count as 5m. */
+export function fromClaudeUsage(raw: ClaudeRawUsage): TokenUsage {
+  const writeTotal = raw.cache_creation_input_tokens || 0;
+  const w1h = raw.cache_creation?.ephemeral_1h_input_tokens || 0;
+  const w5m = raw.cache_creation?.ephemeral_5m_input_tokens ?? Math.max(0, writeTotal - w1h);
+  return {
+    input: raw.input_tokens || 0,
+    output: raw.output_tokens || 0,
+    cacheRead: raw.cache_read_input_tokens || 0,
+    cacheWrite5m: w5m,
+    cacheWrite1h: w1h,
+  };
+}
+
+interface CodexRawUsage {
+  input_tokens?: number;
+  cached_input_tokens?: number;
+  output_tokens?: number;
+}
+
+/** Normalize a Codex `total_token_usage` object (cached tokens are part of input there) */
+export function fromCodexUsage(raw: CodexRawUsage): TokenUsage {
+  const cached = raw.cached_input_tokens || 0;
+  return {
+    input: Math.max(0, (raw.input_tokens || 0) - cached),
+    output: raw.output_tokens || 0,
+    cacheRead: cached,
+    cacheWrite5m: 0,
+    cacheWrite1h: 0,
+  };
+}
+
+interface GeminiRawUsage {
+  input?: number;
+  output?: number;
+  cached?: number;
+  thoughts?: number;
+  tool?: number;
+}
+
+/**
+ * Normalize the `tokens` of a Gemini chat message. Cached tokens are part of
+ * `input`; thoughts are billed as output and tool-use prompts as input.
+ */
+export function fromGeminiUsage(raw: GeminiRawUsage): TokenUsage {
+  const cached = raw.cached || 0;
+  return {
+    input: Math.max(0, (raw.input || 0) - cached) + (raw.tool || 0),
+    output: (raw.output || 0) + (raw.thoughts || 0),
+    cacheRead: cached,
+    cacheWrite5m: 0,
+    cacheWrite1h: 0,
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Tool reliability analytics - aggregates every indexed tool call across
+ * sessions into call counts, error rates, latency percentiles and the token
+ * cost attributable to each tool.
+ *
+ * A call is charged an even share of the response that issued it. Codex
+ * rollouts only report cumulative usage, so their calls carry no cost.
+ */
+
+import { refreshSessionIndex, getIndexedToolCalls } from "./session-index";
+import type { IndexedToolCall, IndexSource } from "./session-index";
+import { estimateCost } from "./pricing";
+
+// ---- Types ----
+
+export type ToolBreakdown = "project" | "model" | "week";
+
+export interface ToolStats {
+  /** Tool name, or the group key for totals */
+  name: string;
+  calls: number;
+  /** Calls that have a result */
+  completed: number;
+  errors: number;
+  /** errors / completed, 0 when nothing completed */
+  errorRate: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  cost: number;
+}
+
+export interface ToolGroup {
+  key: string;
+  totals: ToolStats;
+  tools: ToolStats[];
+}
+
+export interface FailingCommand {
+  command: string;
+  calls: number;
+  failures: number;
+  lastFailed: string;
+}
+
+export interface ToolAnalytics {
+  totals: ToolStats;
+  tools: ToolStats[];
+  /** One row per MCP server, over all of its tools */
+  mcpServers: ToolStats[];
+  breakdown: ToolGroup[];
+  /** Shell commands with at least one failure, most failures first */
+  failingCommands: FailingCommand[];
+}
+
+export interface ToolAnalyticsOptions {
+  /** Only calls from the last N days */
+  days?: number;
+  source?: IndexSource;
+  breakdown?: ToolBreakdown;
+}
+
+const MAX_FAILING_COMMANDS = 20;
+
+// ---- Helpers ----
+
+/** Split an MCP tool name (`mcp__server__tool`) into server and tool */
+export function parseMcpToolName(name: string): { server: string; tool: string } | null {
+  const m = name.match(/^mcp__(.+?)__(.+)$/);
+  return m ? { server: m[1], tool: m[2] } : null;
+}
+
+/** Nearest-rank percentile of an ascending list */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+}
+
+/** Monday (UTC) of the week containing `timestamp`, as YYYY-MM-DD */
+export function weekStart(timestamp: string): string {
+  const d = new Date(timestamp);
+  if (isNaN(d.getTime())) return "unknown";
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+function projectLabel(c: IndexedToolCall): string {
+  if (c.cwd) return c.cwd;
+  if (c.source === "codex") return "Codex";
+  return c.source === "gemini" ? "Gemini" : c.project;
+}
+
+function groupKey(c: IndexedToolCall, breakdown: ToolBreakdown): string {
+  switch (breakdown) {
+    case "project": return projectLabel(c);
+    case "model": return c.model || "unknown";
+    case "week": return weekStart(c.timestamp);
+  }
+}
+
+interface Acc {
+  calls: number;
+  completed: number;
+  errors: number;
+  durations: number[];
+  cost: number;
+}
+
+function add(map: Map<string, Acc>, key: string, c: IndexedToolCall, cost: number): void {
+  let acc = map.get(key);
+  if (!acc) {
+    acc = { calls: 0, completed: 0, errors: 0, durations: [], cost: 0 };
+    map.set(key, acc);
+  }
+  acc.calls++;
+  acc.cost += cost;
+  if (c.isError !== null) acc.completed++;
+  if (c.isError) acc.errors++;
+  if (c.durationMs !== null) acc.durations.push(c.durationMs);
+}
+
+function toStats(name: string, acc: Acc): ToolStats {
+  const sorted = [...acc.durations].sort((a, b) => a - b);
+  return {
+    name,
+    calls: acc.calls,
+    completed: acc.completed,
+    errors: acc.errors,
+    errorRate: acc.completed > 0 ? acc.errors / acc.completed : 0,
+    p50Ms: percentile(sorted, 0.5),
+    p95Ms: percentile(sorted, 0.95),
+    cost: acc.cost,
+  };
+}
+
+function statsList(map: Map<string, Acc>): ToolStats[] {
+  return [...map.entries()].map(([name, acc]) => toStats(name, acc)).sort((a, b) => b.calls - a.calls);
+}
+
+// ---- Aggregation ----
+
+export function aggregateToolCalls(calls: IndexedToolCall[], breakdown?: ToolBreakdown): ToolAnalytics {
+  const all = new Map<string, Acc>();
+  const byTool = new Map<string, Acc>();
+  const byServer = new Map<string, Acc>();
+  const groups = new Map<string, { all: Map<string, Acc>; tools: Map<string, Acc> }>();
+  const commands = new Map<string, FailingCommand>();
+
+  for (const c of calls) {
+    const cost = estimateCost(c.model, c.usage, c.timestamp);
+    add(all, "all", c, cost);
+    add(byTool, c.name, c, cost);
+
+    const mcp = parseMcpToolName(c.name);
+    if (mcp) add(byServer, mcp.server, c, cost);
+
+    if (breakdown) {
+      const key = groupKey(c, breakdown);
+      let g = groups.get(key);
+      if (!g) {
+        g = { all: new Map(), tools: new Map() };
+        groups.set(key, g);
+      }
+      add(g.all, key, c, cost);
+      add(g.tools, c.name, c, cost);
+    }
+
+    if (c.detail) {
+      const cmd = commands.get(c.detail) ?? { command: c.detail, calls: 0, failures: 0, lastFailed: "" };
+      cmd.calls++;
+      if (c.isError) {
+        cmd.failures++;
+        if (c.timestamp > cmd.lastFailed) cmd.lastFailed = c.timestamp;
+      }
+      commands.set(c.detail, cmd);
+    }
+  }
+
+  const breakdownGroups: ToolGroup[] = [...groups.entries()].map(([key, g]) => ({
+    key,
+    totals: toStats(key, g.all.get(key)!),
+    tools: statsList(g.tools),
+  }));
+  if (breakdown === "week") breakdownGroups.sort((a, b) => b.key.localeCompare(a.key));
+  else breakdownGroups.sort((a, b) => b.totals.calls - a.totals.calls);
+
+  return {
+    totals: toStats("all", all.get("all") ?? { calls: 0, completed: 0, errors: 0, durations: [], cost: 0 }),
+    tools: statsList(byTool),
+    mcpServers: statsList(byServer),
+    breakdown: breakdownGroups,
+    failingCommands: [...commands.values()]
+      .filter((c) => c.failures > 0)
+      .sort((a, b) => b.failures - a.failures || b.lastFailed.localeCompare(a.lastFailed))
+      .slice(0, MAX_FAILING_COMMANDS),
+  };
+}
+
+export function getToolAnalytics(opts: ToolAnalyticsOptions = {}): ToolAnalytics {
+  refreshSessionIndex();
+  const since = opts.days ? new Date(Date.now() - opts.days * 86400000).toISOString() : undefined;
+  let calls = getIndexedToolCalls(since);
+  if (opts.source) calls = calls.filter((c) => c.source === opts.source);
+  return aggregateToolCalls(calls, opts.breakdown);
+}
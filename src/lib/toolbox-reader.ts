@@ -1,6 +1,7 @@
 /**
  * Toolbox Reader - reads skills, commands, hooks, agents, and rules
- * from ~/.claude/ directory structure
+ * from ~/.claude/ directory structure, plus their ~/.codex/ and ~/.gemini/
+ * counterparts
  */
 
 import fs from "fs";
@@ -9,11 +10,12 @@ import os from "os";
 
 const CLAUDE_DIR = path.join(os.homedir(), ".claude");
 const CODEX_DIR = path.join(os.homedir(), ".codex");
+const GEMINI_DIR = path.join(os.homedir(), ".gemini");
 const SETTINGS_FILE = path.join(CLAUDE_DIR, "settings.json");
 
 // ---- Types ----
 
-export type ToolboxProvider = "claude" | "codex";
+export type ToolboxProvider = "claude" | "codex" | "gemini";
 
 export interface SkillInfo {
   name: string;
@@ -390,14 +392,82 @@ export function listCodexRules(): RuleInfo[] {
   return rules;
 }
 
+// ---- Gemini Commands ----
+
+/** A string value from a flat TOML file: basic, literal or multi-line */
+function tomlString(raw: string, key: string): string {
+  const start = raw.match(new RegExp(`^\\s*${key}\\s*=\\s*`, "m"));
+  if (!start || start.index === undefined) return "";
+  const rest = raw.slice(start.index + start[0].length);
+  for (const quote of ['"""', "'''"]) {
+    if (!rest.startsWith(quote)) continue;
+    const end = rest.indexOf(quote, 3);
+    return end < 0 ? "" : rest.slice(3, end).replace(/^\r?\n/, "");
+  }
+  const line = rest.split("\n")[0].trim();
+  if (line.startsWith("'")) return line.slice(1, line.indexOf("'", 1));
+  const basic = line.match(/^"(?:[^"\\]|\\.)*"/);
+  if (!basic) return "";
+  try { return JSON.parse(basic[0]); } catch { return basic[0].slice(1, -1); }
+}
+
+/** Custom commands are TOML files; subdirectories namespace them as "dir:name" */
+export function listGeminiCommands(): CommandInfo[] {
+  const commandsDir = path.join(GEMINI_DIR, "commands");
+  if (!dirExists(commandsDir)) return [];
+
+  const commands: CommandInfo[] = [];
+  function scanDir(dir: string, prefix: string) {
+    try {
+      for (const entry of fs.readdirSync(dir)) {
+        const fullPath = path.join(dir, entry);
+        if (dirExists(fullPath)) {
+          scanDir(fullPath, `${prefix}${entry}:`);
+          continue;
+        }
+        if (!entry.endsWith(".toml")) continue;
+        const raw = safeReadFile(fullPath);
+        const prompt = tomlString(raw, "prompt");
+        commands.push({
+          name: prefix + entry.replace(".toml", ""),
+          description: tomlString(raw, "description") || prompt.split("\n")[0] || "",
+          content: prompt,
+          path: fullPath,
+          provider: "gemini",
+        });
+      }
+    } catch { /* skip */ }
+  }
+
+  scanDir(commandsDir, "");
+  return commands;
+}
+
+// ---- Gemini Rules ----
+
+/** The global GEMINI.md context file */
+export function listGeminiRules(): RuleInfo[] {
+  const filePath = path.join(GEMINI_DIR, "GEMINI.md");
+  const raw = safeReadFile(filePath);
+  if (!raw) return [];
+  return [{
+    name: "GEMINI",
+    group: "gemini",
+    preview: raw.split("\n").filter(l => l.trim()).slice(0, 3).join("\n"),
+    content: raw,
+    path: filePath,
+    provider: "gemini",
+  }];
+}
+
 // ---- Combined ----
 
 export function getToolboxData(): ToolboxData {
   return {
     skills: [...listSkills(), ...listCodexSkills()],
-    commands: [...listCommands(), ...listCodexCommands()],
+    commands: [...listCommands(), ...listCodexCommands(), ...listGeminiCommands()],
     agents: [...listAgents(), ...listCodexAgents()],
-    rules: [...listRules(), ...listCodexRules()],
+    rules: [...listRules(), ...listCodexRules(), ...listGeminiRules()],
     hooks: getHooksConfig(),
   };
 }
@@ -0,0 +1,121 @@
+/**
+ * Minimal line-based unified diff.
+ *
+ * Common leading/trailing lines are trimmed first, so the LCS table only
+ * covers the changed middle; edits made by agents are usually local. Middles
+ * too large for the table are emitted as one remove/add block.
+ */
+
+export interface DiffLine {
+  op: " " | "-" | "+";
+  text: string;
+}
+
+export interface DiffResult {
+  /** Hunks in unified format, without file headers */
+  text: string;
+  added: number;
+  removed: number;
+}
+
+const MAX_TABLE_CELLS = 1_000_000;
+
+function splitLines(s: string): string[] {
+  if (s === "") return [];
+  const lines = s.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/** Line operations turning `a` into `b` */
+export function diffLines(a: string, b: string): DiffLine[] {
+  const x = splitLines(a), y = splitLines(b);
+  let start = 0;
+  while (start < x.length && start < y.length && x[start] === y[start]) start++;
+  let endX = x.length, endY = y.length;
+  while (endX > start && endY > start && x[endX - 1] === y[endY - 1]) { endX--; endY--; }
+
+  const out: DiffLine[] = x.slice(0, start).map((text) => ({ op: " ", text }));
+  const mx = x.slice(start, endX), my = y.slice(start, endY);
+  const n = mx.length, m = my.length;
+
+  if (n * m > MAX_TABLE_CELLS) {
+    for (const text of mx) out.push({ op: "-", text });
+    for (const text of my) out.push({ op: "+", text });
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of mx[i:] and my[j:]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = mx[i] === my[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0, j = 0;
+    while (i < n && j < m) {
+      if (mx[i] === my[j]) { out.push({ op: " ", text: mx[i] }); i++; j++; }
+      else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) out.push({ op: "-", text: mx[i++] });
+      else out.push({ op: "+", text: my[j++] });
+    }
+    while (i < n) out.push({ op: "-", text: mx[i++] });
+    while (j < m) out.push({ op: "+", text: my[j++] });
+  }
+
+  for (const text of x.slice(endX)) out.push({ op: " ", text });
+  return out;
+}
+
+/** Unified diff hunks of `a` → `b` with `context` lines around each change */
+export function unifiedDiff(a: string, b: string, context = 3): DiffResult {
+  const lines = diffLines(a, b);
+  let added = 0, removed = 0;
+  for (const l of lines) {
+    if (l.op === "+") added++;
+    else if (l.op === "-") removed++;
+  }
+
+  const hunks: string[] = [];
+  let i = 0;
+  let oldLine = 1, newLine = 1;
+  while (i < lines.length) {
+    if (lines[i].op === " ") {
+      i++; oldLine++; newLine++;
+      continue;
+    }
+    // Grow the hunk until a run of more than 2*context unchanged lines
+    const from = Math.max(0, i - context);
+    let to = i;
+    let gap = 0;
+    for (let k = i; k < lines.length; k++) {
+      if (lines[k].op === " ") {
+        if (++gap > context * 2) break;
+      } else {
+        gap = 0;
+        to = k;
+      }
+    }
+    const end = Math.min(lines.length, to + 1 + context);
+    const lead = i - from;
+    const oldStart = oldLine - lead, newStart = newLine - lead;
+    let oldCount = 0, newCount = 0;
+    const body: string[] = [];
+    for (let k = from; k < end; k++) {
+      const l = lines[k];
+      body.push(l.op + l.text);
+      if (l.op !== "+") oldCount++;
+      if (l.op !== "-") newCount++;
+    }
+    hunks.push(
+      `@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@\n` +
+      body.join("\n"),
+    );
+    for (let k = i; k < end; k++) {
+      if (lines[k].op !== "+") oldLine++;
+      if (lines[k].op !== "-") newLine++;
+    }
+    i = end;
+  }
+
+  return { text: hunks.join("\n"), added, removed };
+}